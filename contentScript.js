@@ -1,13 +1,26 @@
-import Fuse from "fuse.js";
+import { MessageService } from "@/services/messageService";
+import { BookmarkSearchService } from "@/services/bookmarkSearchService";
+import { OrgRegistryService } from "@/services/orgRegistryService";
+import { ORG_SWITCH_WORKFLOW_ID, WorkflowService } from "@/services/workflowService";
+import { WorkflowRunner } from "@/services/workflowRunner";
+import { WorkflowRecorder } from "@/services/workflowRecorder";
+import { BookmarkActionService } from "@/services/bookmarkActionService";
+import { UrlTemplateService } from "@/services/urlTemplateService";
 
 // Storage keys
 const STORAGE_KEYS = {
-  BOOKMARK_CLICKS: 'bookmarkClicks',
   SEARCH_HISTORY: 'searchHistory',
   SEARCH_FILTERS: 'searchFilters',
   SEARCH_SUGGESTIONS: 'searchSuggestions'
 };
 
+const COMMAND_K_RESULT_LIMIT = 50;
+// Typed before a query to search orgs instead of bookmarks
+const ORG_MODE_PREFIX = "org:";
+const SEARCH_PLACEHOLDER = "Search bookmarks, or org: to switch orgs...";
+const ENVIRONMENT_COLORS = { prod: "#16a34a", sandbox: "#d97706", test: "#6b7280" };
+const PAGE_TOAST_MS = 6000;
+
 if (document.getElementById("forethought-shadow-host")) {
   console.log("Modal already exists. Skipping injection.");
 } else {
@@ -22,36 +35,27 @@ function isExtensionContextValid() {
   );
 }
 
-function safeSendMessage(message, callback, retryCount = 0) {
-  if (!isExtensionContextValid()) {
-    console.warn("Messaging skipped: Extension context invalid.");
-    callback?.(null);
-    return;
-  }
-
-  try {
-    chrome.runtime.sendMessage(message, (response) => {
-      if (chrome.runtime.lastError || !response) {
-        const reason = chrome.runtime.lastError?.message || "No response";
-        console.warn("Message failed:", reason);
-
-        // Retry up to 2 times after 100ms
-        if (retryCount < 2) {
-          setTimeout(() => {
-            safeSendMessage(message, callback, retryCount + 1);
-          }, 100);
-        } else {
-          callback?.(null);
-        }
-        return;
-      }
+// Bookmarks with their access counts, or null if the background could not be reached
+function fetchBookmarks(callback) {
+  MessageService.send("GET_BOOKMARKS", {}, { retries: 2 }).then(
+    (response) => callback(response.bookmarks),
+    (error) => {
+      console.warn("Failed to fetch bookmarks:", error.message);
+      callback(null);
+    }
+  );
+}
 
-      callback?.(response);
-    });
-  } catch (err) {
-    console.error("sendMessage threw exception:", err);
-    callback?.(null);
-  }
+// The background keeps the search index, the same one the bookmark table queries, and sends
+// back only the best matches. Resolves with null when the background cannot be reached.
+function searchBookmarks(query) {
+  return MessageService.send("SEARCH_BOOKMARKS", { query, limit: COMMAND_K_RESULT_LIMIT }, { retries: 2 }).then(
+    (response) => response.results,
+    (error) => {
+      console.warn("Failed to search bookmarks:", error.message);
+      return null;
+    }
+  );
 }
 
 function handleMessagingFailure(modal) {
@@ -65,6 +69,35 @@ function handleMessagingFailure(modal) {
   }
 }
 
+function escapeHtml(text) {
+  return String(text).replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+// Escaped HTML for text with the ranges a search matched wrapped in <mark>
+function highlightHtml(text, ranges) {
+  return BookmarkSearchService.segments(text || "", ranges)
+    .map((segment) => (segment.match ? `<mark>${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text)))
+    .join("");
+}
+
+// Records the open with the background, which keeps the access log the click counts come
+// from, then runs callback. System bookmarks have no extension id and are not tracked.
+// url is the address opened when it is not the bookmark's own, as for a filled-in URL template.
+// Sent once: a reply lost after the background recorded the open would otherwise count it twice.
+function recordAccess(bookmark, callback, url) {
+  if (!bookmark?.id) {
+    callback();
+    return;
+  }
+  MessageService.send("RECORD_BOOKMARK_ACCESS", { bookmarkId: bookmark.id, source: "command-k", url }).then(
+    () => callback(),
+    (error) => {
+      console.warn("Failed to record bookmark access:", error.message);
+      callback();
+    }
+  );
+}
+
 function safeStorageGet(keys, callback) {
   if (!isExtensionContextValid()) {
     console.warn("Messaging skipped: Extension context invalid.");
@@ -89,89 +122,302 @@ function safeStorageSet(items, callback) {
   }
 }
 
-// Auto-run bookmarklet when on specific Forethought Dashboard URLs
-function runAutoBookmarkletIfMatch() {
-  const url = window.location.href;
-  const params = new URLSearchParams(window.location.search);
-  const orgName = params.get("org");
-
-  if (url.includes("dashboard") && orgName && !window.__bookmarkletAlreadyRan) {
-    window.__bookmarkletAlreadyRan = true;
-
-    const maxAttempts = 20;
-    const delay = 500;
-
-    function waitForElement(selector, attempt = 0) {
-      const el = document.querySelector(selector);
-      if (el) return el;
-      if (attempt >= maxAttempts) return null;
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve(waitForElement(selector, attempt + 1));
-        }, delay);
-      });
-    }
+// Orgs from the registry edited in settings, or [] if it cannot be read
+function loadOrgs(callback) {
+  if (!isExtensionContextValid()) {
+    callback([]);
+    return;
+  }
+  safeStorageGet(["orgRegistry"], (data) => {
+    callback(Array.isArray(data?.orgRegistry) ? data.orgRegistry : []);
+  });
+}
 
-    async function runAutomation() {
-      const profileBtn = await waitForElement(
-        'button[aria-label="Account Setting"]',
-      );
-      if (!profileBtn) {
-        alert("❌ Profile button not found after waiting.");
-        return;
-      }
+// Workflows from settings, or the built-in ones if none were saved or storage cannot be read
+function loadWorkflows(callback) {
+  if (!isExtensionContextValid()) {
+    callback(WorkflowService.fromStored(undefined));
+    return;
+  }
+  safeStorageGet(["workflows"], (data) => {
+    callback(WorkflowService.fromStored(data?.workflows));
+  });
+}
 
-      profileBtn.click();
+// A notice in the corner of the page, which has none of the extension's own toasts
+function showPageToast(message, type) {
+  const toast = document.createElement("div");
+  toast.setAttribute("role", type === "error" ? "alert" : "status");
+  toast.textContent = `${type === "error" ? "❌" : "✅"} ${message}`;
+  toast.style.cssText = `position:fixed;bottom:24px;right:24px;z-index:2147483647;max-width:420px;padding:12px 16px;border-radius:8px;font:14px/1.4 system-ui,sans-serif;color:#fff;box-shadow:0 4px 16px rgba(0,0,0,0.25);background:${type === "error" ? "#b91c1c" : "#15803d"};`;
+  (document.body || document.documentElement).appendChild(toast);
+  setTimeout(() => toast.remove(), PAGE_TOAST_MS);
+}
 
-      waitForChangeOrg(0);
+// Runs a workflow on this page and reports where it stopped if it fails
+function runWorkflow(workflow, params) {
+  return WorkflowRunner.run(workflow, params).then((result) => {
+    if (!result.ok) {
+      console.warn("Workflow failed:", result.error);
+      showPageToast(WorkflowRunner.describeError(result.error), "error");
     }
+    return result;
+  });
+}
 
-    function waitForChangeOrg(attempt) {
-      const changeOrgBtn = document.querySelector('[data-testid="change-org"]');
-      if (changeOrgBtn) {
-        changeOrgBtn.click();
-        setTimeout(() => typeInSearchBar(0), delay);
-      } else if (attempt < maxAttempts) {
-        setTimeout(() => waitForChangeOrg(attempt + 1), delay);
-      } else {
-        alert("❌ 'Change Org' button not found after retries.");
-      }
+// Switches the dashboard on this page to an org with the org switch workflow
+function switchDashboardOrg(orgName) {
+  loadWorkflows((workflows) => {
+    const workflow = workflows.find((w) => w.id === ORG_SWITCH_WORKFLOW_ID);
+    if (!workflow) {
+      showPageToast("There is no org switch workflow. Restore it under Workflows in the extension's settings.", "error");
+      return;
     }
+    runWorkflow(workflow, { org: orgName });
+  });
+}
 
-    function typeInSearchBar(attempt) {
-      const input = document.querySelector("input.SearchBar-input");
-      if (input) {
-        input.focus();
-        input.value = orgName;
-        input.dispatchEvent(new Event("input", { bubbles: true }));
-        setTimeout(() => waitForOrgAndConfirm(0), delay);
-      } else if (attempt < maxAttempts) {
-        setTimeout(() => typeInSearchBar(attempt + 1), delay);
-      } else {
-        alert("❌ Search bar not found.");
-      }
-    }
+// Switches to an org from Command+K: in place on a dashboard page, otherwise the background
+// loads a dashboard tab with ?org= set, which the auto-run below picks up
+function switchToOrg(org) {
+  if (OrgRegistryService.isDashboardUrl(window.location.href)) {
+    // Keep the URL in step, so a reload stays on the org
+    history.replaceState(history.state, "", OrgRegistryService.withOrg(window.location.href, org.id));
+    switchDashboardOrg(org.name);
+    return;
+  }
+  MessageService.send("SWITCH_ORG", { orgId: org.id }, { retries: 2 }).catch((error) => {
+    showPageToast(`Failed to switch org: ${error.message}`, "error");
+  });
+}
 
-    function waitForOrgAndConfirm(attempt) {
-      const orgOption = [
-        ...document.querySelectorAll("button.ModalItem-container"),
-      ].find((btn) => btn.innerText.includes(orgName));
-      const confirmBtn = document.querySelector(
-        ".BreakdownModal-applyBreakdownButton",
-      );
+// Runs a workflow with its parameters. An org parameter may hold an org_id, as links rewritten
+// by fix_dashboard_orgid.cjs do; the registry turns it into the name the dashboard's org picker
+// searches for.
+function runWorkflowWithOrg(workflow, params) {
+  return new Promise((resolve) => {
+    loadOrgs((orgs) => {
+      const org = params.org ? OrgRegistryService.resolve(orgs, params.org) : undefined;
+      runWorkflow(workflow, org ? { ...params, org: org.name } : params).then(resolve);
+    });
+  });
+}
 
-      if (orgOption && confirmBtn) {
-        orgOption.click();
-        setTimeout(() => confirmBtn.click(), 300);
-      } else if (attempt < maxAttempts) {
-        setTimeout(() => waitForOrgAndConfirm(attempt + 1), delay);
-      } else {
-        alert("❌ Org or Confirm button not found.");
+// Runs the workflows whose trigger matches this page, one after another. Resolves with the ids
+// of the workflows it ran. Frames are skipped: their addresses are not the page the user opened.
+function runTriggeredWorkflows() {
+  if (window.top !== window || window.__workflowsAlreadyRan) return Promise.resolve([]);
+  window.__workflowsAlreadyRan = true;
+
+  return new Promise((resolve) => {
+    loadWorkflows((workflows) => {
+      const triggered = WorkflowService.triggeredBy(workflows, window.location.href);
+      triggered
+        .reduce((previous, { workflow, params }) => previous.then(() => runWorkflowWithOrg(workflow, params)), Promise.resolve())
+        .then(() => resolve(triggered.map(({ workflow }) => workflow.id)));
+    });
+  });
+}
+
+// Runs the action of the bookmark this tab was opened from, if it has one. The background has
+// already run a bookmarklet; a workflow runs here with the bookmark's query parameters, unless
+// its trigger already ran it on this page.
+function runBookmarkAction(alreadyRan) {
+  if (window.top !== window) return;
+  MessageService.send("CLAIM_BOOKMARK_ACTION", {}, { retries: 2 }).then(({ claim }) => {
+    if (!claim) return;
+    const { bookmarkTitle, url, action, allowed } = claim;
+    if (!allowed) {
+      showPageToast(`"${bookmarkTitle}" has an action the extension may not run on ${window.location.host}. Edit the bookmark and save it to allow it.`, "error");
+      return;
+    }
+    if (action.type !== "workflow" || alreadyRan.includes(action.workflowId)) return;
+    loadWorkflows((workflows) => {
+      const workflow = workflows.find((w) => w.id === action.workflowId);
+      if (!workflow) {
+        showPageToast(`The workflow "${action.workflowId}" that "${bookmarkTitle}" runs no longer exists.`, "error");
+        return;
       }
+      runWorkflowWithOrg(workflow, BookmarkActionService.params(action, url));
+    });
+  }, (error) => {
+    console.warn("Failed to claim bookmark action:", error.message);
+  });
+}
+
+// How often the recorder checks for a single-page app changing the address
+const RECORDER_URL_POLL_MS = 500;
+
+// The workflow being recorded on this page, or null
+let recording = null;
+
+function isTextField(element) {
+  return element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement && !["button", "checkbox", "color", "file", "hidden", "image", "radio", "range", "reset", "submit"].includes(element.type));
+}
+
+// Records clicks, typing and address changes on the page as workflow steps, with a bar at the
+// bottom of the page to finish or cancel. Passwords are never recorded.
+function startRecording(resumed) {
+  if (recording) return;
+  const host = document.createElement("div");
+  host.id = "forethought-recorder-host";
+  (document.body || document.documentElement).appendChild(host);
+  const root = host.attachShadow({ mode: "open" });
+  root.innerHTML = `
+  <style>
+    #bar { position: fixed; bottom: 24px; left: 24px; z-index: 2147483647; width: 340px; padding: 12px 14px; border-radius: 10px; background: #1f2937; color: #fff; font: 13px/1.4 system-ui, sans-serif; box-shadow: 0 4px 16px rgba(0,0,0,0.3); }
+    #status { font-weight: 600; }
+    #status::before { content: "⏺ "; color: #ef4444; }
+    #lastStep { color: #9ca3af; margin: 2px 0 8px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    button { padding: 4px 10px; margin-right: 6px; border: none; border-radius: 6px; background: rgba(255,255,255,0.15); color: #fff; cursor: pointer; font: inherit; }
+    button.primary { background: #2563eb; }
+    input[type="text"] { width: 100%; box-sizing: border-box; margin: 4px 0 8px; padding: 4px 6px; border-radius: 4px; border: none; font: inherit; }
+    label { display: block; margin-bottom: 4px; }
+    #finishForm { display: none; margin-top: 8px; }
+  </style>
+  <div id="bar" role="region" aria-label="Workflow recorder">
+    <div id="status"></div>
+    <div id="lastStep">Click and type on the page to record steps.</div>
+    <div id="controls">
+      <button id="undoButton">Undo</button>
+      <button id="finishButton" class="primary">Finish</button>
+      <button id="cancelButton">Cancel</button>
+    </div>
+    <div id="finishForm">
+      <label>Name<input type="text" id="nameInput" placeholder="Dashboard setup" /></label>
+      <div id="paramList"></div>
+      <button id="saveButton" class="primary">Save workflow</button>
+      <button id="backButton">Keep recording</button>
+    </div>
+  </div>`;
+
+  const status = root.querySelector("#status");
+  const lastStep = root.querySelector("#lastStep");
+  recording = { startUrl: resumed?.startUrl ?? window.location.href, lastUrl: resumed?.lastUrl ?? window.location.href, steps: resumed?.steps ?? [] };
+
+  // The background keeps the recording for the tab, so the next page resumes it after a full page
+  // load. Not retried: a retry landing after a later change would bring back an older recording.
+  const keep = () => {
+    MessageService.send("KEEP_WORKFLOW_RECORDING", { recording }).catch((error) => {
+      console.warn("Failed to keep the workflow recording across page loads:", error.message);
+    });
+  };
+
+  const render = () => {
+    status.textContent = `Recording workflow: ${recording.steps.length} step${recording.steps.length === 1 ? "" : "s"}`;
+    const last = recording.steps[recording.steps.length - 1];
+    if (last) lastStep.textContent = `Last: ${WorkflowRunner.stepLabel(last)}${last.text ? ` "${last.text}"` : ""}`;
+  };
+  const addStep = (step) => {
+    recording.steps = WorkflowRecorder.append(recording.steps, step);
+    keep();
+    render();
+  };
+  // Adds a step for an address change, so replaying waits for the page the way the recording did
+  const checkUrl = () => {
+    if (window.location.href === recording.lastUrl) return;
+    const step = WorkflowRecorder.navigationStep(recording.lastUrl, window.location.href);
+    recording.lastUrl = window.location.href;
+    if (step) addStep(step);
+  };
+  if (resumed) checkUrl();
+  else keep();
+
+  const isOwnEvent = (event) =>
+    event.composedPath().some((node) => node === host || node?.id === "forethought-shadow-host");
+  const onClick = (event) => {
+    if (!event.isTrusted || isOwnEvent(event) || !(event.target instanceof Element)) return;
+    checkUrl();
+    // Focusing a field is part of typing into it, which is recorded on its own
+    if (isTextField(event.target)) return;
+    addStep(WorkflowRecorder.clickStep(event.target));
+  };
+  const onInput = (event) => {
+    if (!event.isTrusted || isOwnEvent(event) || !isTextField(event.target) || event.target.type === "password") return;
+    checkUrl();
+    addStep(WorkflowRecorder.typeStep(event.target, event.target.value));
+  };
+  document.addEventListener("click", onClick, true);
+  document.addEventListener("input", onInput, true);
+  const urlTimer = setInterval(checkUrl, RECORDER_URL_POLL_MS);
+
+  const stop = () => {
+    document.removeEventListener("click", onClick, true);
+    document.removeEventListener("input", onInput, true);
+    clearInterval(urlTimer);
+    host.remove();
+    recording = null;
+    keep();
+  };
+
+  const controls = root.querySelector("#controls");
+  const finishForm = root.querySelector("#finishForm");
+  const nameInput = root.querySelector("#nameInput");
+  const paramList = root.querySelector("#paramList");
+
+  root.querySelector("#undoButton").onclick = () => {
+    recording.steps = recording.steps.slice(0, -1);
+    keep();
+    lastStep.textContent = "Removed the last step.";
+    render();
+  };
+  root.querySelector("#cancelButton").onclick = () => {
+    if (recording.steps.length === 0 || confirm("Discard this recording?")) stop();
+  };
+  root.querySelector("#backButton").onclick = () => {
+    finishForm.style.display = "none";
+    controls.style.display = "block";
+  };
+  root.querySelector("#finishButton").onclick = () => {
+    checkUrl();
+    if (recording.steps.length === 0) {
+      showPageToast("Nothing has been recorded yet.", "error");
+      return;
     }
+    // The start page's query parameters can stand in for their values, as ?org= does for the org switch
+    const params = Array.from(new URL(recording.startUrl).searchParams.entries()).filter(([, value]) => value);
+    paramList.innerHTML = params.length === 0 ? "" : `
+      <div>Fill these in from the link when the workflow runs:</div>
+      ${params.map(([name, value]) => `<label><input type="checkbox" name="param" value="${escapeHtml(name)}" ${name === "org" ? "checked" : ""}/> ${escapeHtml(name)} (now ${escapeHtml(value)})</label>`).join("")}
+      <label><input type="checkbox" id="triggerToggle" /> Run by itself on links to this page with them</label>`;
+    controls.style.display = "none";
+    finishForm.style.display = "block";
+    nameInput.focus();
+  };
+  root.querySelector("#saveButton").onclick = () => {
+    const query = new URL(recording.startUrl).searchParams;
+    const chosen = Array.from(paramList.querySelectorAll('input[name="param"]:checked')).map((input) => input.value);
+    const trigger = !!paramList.querySelector("#triggerToggle")?.checked;
+    loadOrgs((orgs) => {
+      // A triggered run gets the org's name for an org_id, so the recording is matched on the name too
+      const params = Object.fromEntries(chosen.map((name) => {
+        const value = query.get(name);
+        const org = name === "org" ? OrgRegistryService.resolve(orgs, value) : undefined;
+        return [name, org ? org.name : value];
+      }));
+      const workflow = WorkflowRecorder.toWorkflow({ name: nameInput.value, startUrl: recording.startUrl, steps: recording.steps, params, trigger });
+      MessageService.send("SAVE_WORKFLOW", { workflow }, { retries: 2 }).then(
+        () => {
+          stop();
+          showPageToast(`Saved "${workflow.name}". Find it under Workflows in the extension's settings.`, "success");
+        },
+        (error) => showPageToast(`Failed to save the workflow: ${error.message}`, "error")
+      );
+    });
+  };
 
-    runAutomation();
-  }
+  render();
+}
+
+// Picks up a recording that a full page load in this tab interrupted
+function resumeRecording() {
+  MessageService.send("RESUME_WORKFLOW_RECORDING", {}, { retries: 2 }).then(
+    ({ recording: kept }) => {
+      if (kept) startRecording(kept);
+    },
+    (error) => console.warn("Failed to resume the workflow recording:", error.message)
+  );
 }
 
 function main() {
@@ -296,6 +542,12 @@ function main() {
   transform: translateY(0);
 }
 
+#searchResults mark {
+  background: rgba(250, 204, 21, 0.45);
+  color: inherit;
+  border-radius: 2px;
+}
+
     #searchResults li.active,
     #searchResults li.active:hover {
       background: #38404d !important;
@@ -509,6 +761,9 @@ input:checked + .slider:before {
     <button id="onboardingTourButton" style="margin-top: 8px; padding: 6px 10px; font-size: 14px; border: none; border-radius: 8px; background: rgba(59,130,246,0.15); color: white; cursor: pointer; transition: background 0.2s ease;">
       🚀 Onboarding Tour
     </button>
+    <button id="recordWorkflowButton" style="margin-top: 8px; padding: 6px 10px; font-size: 14px; border: none; border-radius: 8px; background: rgba(239,68,68,0.2); color: white; cursor: pointer;">
+      ⏺ Record Workflow
+    </button>
   </div>
     
 `;
@@ -518,7 +773,7 @@ input:checked + .slider:before {
   const modal = document.createElement("div");
   modal.id = "modal";
   modal.innerHTML = `
-  <input id="searchInput" type="text" placeholder="Search bookmarks..." />
+  <input id="searchInput" type="text" placeholder="${SEARCH_PLACEHOLDER}" />
   <div id="spinner" style="display: none; margin: 20px auto; width: 40px; height: 40px; border: 4px solid rgba(255,255,255,0.3); border-top: 4px solid #4caf50; border-radius: 50%; animation: spin 1s linear infinite;"></div>
   <ul id="searchResults"></ul>
 `;
@@ -635,21 +890,17 @@ input:checked + .slider:before {
     ) {
       // If the modal is open, reload the suggestions section to reflect new settings
       if (modal.classList.contains('active')) {
-        // Re-fetch bookmarks and clicks, then re-render suggestions
-        safeSendMessage({ type: 'GET_BOOKMARKS' }, (response) => {
-          const bookmarks = response?.bookmarks || [];
-          safeStorageGet('bookmarkClicks', (data) => {
-            const clicks = data?.bookmarkClicks || {};
-            showSuggestions(bookmarks, clicks, modal);
-            // After re-render, update expand/collapse state
-            const { recentList, topList } = getSectionLists();
-            if (changes['forethought_expandRecent'] && recentList) {
-              recentList.style.display = changes['forethought_expandRecent'].newValue ? 'block' : 'none';
-            }
-            if (changes['forethought_expandTop'] && topList) {
-              topList.style.display = changes['forethought_expandTop'].newValue ? 'block' : 'none';
-            }
-          });
+        // Re-fetch bookmarks (with their access counts), then re-render suggestions
+        fetchBookmarks((bookmarks) => {
+          showSuggestions(bookmarks || [], modal);
+          // After re-render, update expand/collapse state
+          const { recentList, topList } = getSectionLists();
+          if (changes['forethought_expandRecent'] && recentList) {
+            recentList.style.display = changes['forethought_expandRecent'].newValue ? 'block' : 'none';
+          }
+          if (changes['forethought_expandTop'] && topList) {
+            topList.style.display = changes['forethought_expandTop'].newValue ? 'block' : 'none';
+          }
         });
       }
       // Also update the toggles/inputs in the settings panel if open
@@ -753,6 +1004,141 @@ input:checked + .slider:before {
   function closeModal() {
     overlay.classList.remove("active");
     modal.classList.remove("active");
+    endTemplateFill();
+  }
+
+  // Opens a bookmark chosen in the palette, in a new tab or this one. A URL template first asks
+  // for its variables in the search box.
+  function openBookmark(bm, newTab) {
+    if (UrlTemplateService.isTemplate(bm.url)) {
+      startTemplateFill(bm, newTab);
+      return;
+    }
+    recordAccess(bm, () => {
+      navigateTo(bm.url, newTab);
+      closeModal();
+    });
+  }
+
+  function navigateTo(url, newTab) {
+    if (newTab) {
+      window.open(url, "_blank");
+    } else {
+      window.location.href = url;
+    }
+  }
+
+  // The URL template being filled in, one variable at a time, while the search box asks for values
+  let templateFill = null;
+
+  function startTemplateFill(bm, newTab) {
+    safeStorageGet(["urlTemplateValues"], (data) => {
+      loadOrgs((orgs) => {
+        templateFill = {
+          bookmark: bm,
+          newTab,
+          variables: UrlTemplateService.variables(bm.url),
+          index: 0,
+          values: {},
+          recent: data?.urlTemplateValues || {},
+          orgs,
+        };
+        askTemplateVariable();
+      });
+    });
+  }
+
+  function askTemplateVariable() {
+    const { bookmark, variables, index } = templateFill;
+    searchInput.value = "";
+    searchInput.placeholder = `${bookmark.title}: ${variables[index]} (${index + 1}/${variables.length})`;
+    searchInput.focus();
+    renderTemplateSuggestions();
+  }
+
+  // What was typed, then the recent values and orgs that match it
+  function renderTemplateSuggestions() {
+    const name = templateFill.variables[templateFill.index];
+    const typed = searchInput.value.trim();
+    const suggestions = UrlTemplateService.suggestions(name, typed, {
+      recent: templateFill.recent[name],
+      orgs: templateFill.orgs,
+    });
+    const choices = typed && !suggestions.some((suggestion) => suggestion.value === typed)
+      ? [{ value: typed, label: `Use "${typed}"` }, ...suggestions]
+      : suggestions;
+
+    searchResults.innerHTML = "";
+    currentResults = [];
+    currentIndex = -1;
+
+    if (choices.length === 0) {
+      const hint = document.createElement("div");
+      hint.textContent = `✏️ Type a value for {${name}}, then press Enter. Escape goes back.`;
+      searchResults.appendChild(hint);
+      return;
+    }
+
+    const isLight = modal.classList.contains('light-mode');
+    choices.forEach((choice) => {
+      const li = document.createElement("li");
+      li.innerHTML = `
+        <span class="bookmark-title">${escapeHtml(choice.label)}</span>
+        <span class="bookmark-clicks" style="margin-left: 6px;">${escapeHtml(choice.detail || "")}</span>
+      `;
+      li.classList.add("show");
+      li.style.background = isLight ? '#f3f4f6' : '#23272f';
+      li.style.color = isLight ? '#222' : '#fff';
+      li.style.display = 'flex';
+      li.style.alignItems = 'center';
+      li.style.padding = '14px 18px';
+      li.style.margin = '0 0 2px 0';
+      li.style.borderRadius = '8px';
+      li.style.fontSize = '16px';
+      li.style.boxShadow = isLight ? '0 1px 4px rgba(0,0,0,0.04)' : '0 1px 4px rgba(0,0,0,0.18)';
+      li.style.transition = 'background 0.2s, color 0.2s';
+      li.onmouseenter = () => { li.style.background = isLight ? '#e5e7eb' : '#38404d'; };
+      li.onmouseleave = () => { li.style.background = isLight ? '#f3f4f6' : '#23272f'; };
+      const detailSpan = li.querySelector('.bookmark-clicks');
+      if (detailSpan) detailSpan.style.color = isLight ? '#666' : '#bbb';
+      const activate = () => chooseTemplateValue(choice.value);
+      li.onclick = activate;
+      searchResults.appendChild(li);
+      currentResults.push({ element: li, data: choice, activate });
+    });
+    currentIndex = 0;
+    updateActiveResult();
+  }
+
+  function chooseTemplateValue(value) {
+    const fill = templateFill;
+    fill.values[fill.variables[fill.index]] = value;
+    fill.index += 1;
+    if (fill.index < fill.variables.length) {
+      askTemplateVariable();
+      return;
+    }
+
+    const values = UrlTemplateService.resolveValues(fill.values, fill.orgs);
+    const url = UrlTemplateService.fill(fill.bookmark.url, values);
+    safeStorageSet({ urlTemplateValues: UrlTemplateService.remember(fill.recent, values) });
+    endTemplateFill();
+    recordAccess(fill.bookmark, () => {
+      navigateTo(url, fill.newTab);
+      closeModal();
+    }, url);
+  }
+
+  function endTemplateFill() {
+    templateFill = null;
+    searchInput.placeholder = SEARCH_PLACEHOLDER;
+  }
+
+  // Escape while filling in a template goes back to the search rather than closing the palette
+  function cancelTemplateFill() {
+    endTemplateFill();
+    searchInput.value = "";
+    searchInput.dispatchEvent(new Event("input"));
   }
 
   function loadBookmarks(modal) {
@@ -775,57 +1161,63 @@ input:checked + .slider:before {
     }
 
     try {
-      safeSendMessage({ type: "GET_BOOKMARKS" }, (response) => {
-        if (!response) {
+      fetchBookmarks((bookmarks) => {
+        if (!bookmarks) {
           handleMessagingFailure(modal);
           return;
         }
 
-        const bookmarks = response?.bookmarks || [];
-
-        safeStorageGet(["bookmarkClicks", "bookmark_categories"], (data) => {
-          const clicks = data?.bookmarkClicks || {};
+        safeStorageGet(["bookmark_categories"], (data) => {
           const categories = Array.isArray(data?.bookmark_categories) ? data.bookmark_categories : [];
           if (spinner) spinner.style.display = "none";
           if (searchResults) searchResults.innerHTML = "";
 
-          const fuse = new Fuse(bookmarks, {
-            keys: ["title", "url"],
-            includeScore: true,
-            threshold: 0.4,
-            distance: 100,
-            useExtendedSearch: true
-          });
-
-          function applyFilters(term, bookmarks) {
-            let filtered = bookmarks;
-            
-            // Apply search term
-            if (term.trim()) {
-              const results = fuse.search(term);
-              filtered = results.map(r => r.item);
-            }
-
-            return filtered;
-          }
+          // Keystrokes can outrun the background; only the latest query's results are shown
+          let latestSearch = 0;
 
           searchInput.oninput = () => {
             const term = searchInput.value.toLowerCase();
-            searchResults.innerHTML = "";
-            currentResults = [];
-            currentIndex = -1;
+            const search = ++latestSearch;
+
+            if (templateFill) {
+              renderTemplateSuggestions();
+              return;
+            }
+
+            if (term.trimStart().startsWith(ORG_MODE_PREFIX)) {
+              const orgQuery = searchInput.value.trimStart().slice(ORG_MODE_PREFIX.length);
+              loadOrgs((orgs) => {
+                if (search !== latestSearch) return;
+                renderOrgResults(orgs, OrgRegistryService.search(orgs, orgQuery, COMMAND_K_RESULT_LIMIT));
+              });
+              return;
+            }
 
             // Update search history and suggestions
             updateSearchHistory(term);
             updateSearchSuggestions(term);
 
             if (term.trim() === "") {
-              showSuggestions(bookmarks, clicks, modal);
+              showSuggestions(bookmarks, modal);
               return;
             }
 
-            const filteredResults = applyFilters(term, bookmarks);
-            
+            searchBookmarks(searchInput.value).then((filteredResults) => {
+              if (search !== latestSearch) return;
+              if (!filteredResults) {
+                searchResults.innerHTML = "";
+                handleMessagingFailure(modal);
+                return;
+              }
+              renderResults(filteredResults);
+            });
+          };
+
+          function renderResults(filteredResults) {
+            searchResults.innerHTML = "";
+            currentResults = [];
+            currentIndex = -1;
+
             if (filteredResults.length === 0) {
               const noResult = document.createElement("div");
               noResult.textContent = "🔍 No bookmarks found.";
@@ -833,10 +1225,9 @@ input:checked + .slider:before {
               return;
             }
 
-            filteredResults.forEach((bm) => {
+            filteredResults.forEach(({ node: bm, highlights }) => {
               const li = document.createElement("li");
-              const title = bm.title;
-              const clickCount = clicks[title] || 0;
+              const clickCount = bm.accessCount || 0;
               // Find category
               let catName = "Uncategorized";
               let catColor = "#6366f1";
@@ -850,9 +1241,17 @@ input:checked + .slider:before {
               li.innerHTML = `
                 <span style="background:${catColor};color:#fff;padding:2px 10px;border-radius:12px;font-size:12px;font-weight:600;display:inline-block;margin-right:10px;">${catName}</span>
               <img src="https://www.google.com/s2/favicons?domain=${bm.url}" style="width:16px; height:16px; margin-right:8px; vertical-align:middle; border-radius:4px;">
-              <span class="bookmark-title">${bm.title}</span>
+              <span class="bookmark-title">${highlightHtml(bm.title, highlights.title)}</span>
                 <span class="bookmark-clicks" style="margin-left: 6px;">(${clickCount})</span>
             `;
+              // Show the URL when that is where the query matched
+              if (highlights.url && !highlights.title) {
+                const urlSpan = document.createElement("span");
+                urlSpan.className = "bookmark-url";
+                urlSpan.style.cssText = "margin-left:8px;font-size:12px;opacity:0.7;overflow:hidden;text-overflow:ellipsis;white-space:nowrap;";
+                urlSpan.innerHTML = highlightHtml(bm.url, highlights.url);
+                li.querySelector(".bookmark-title").after(urlSpan);
+              }
               li.classList.add("show");
               // THEME-AWARE ROW STYLING
               const isLight = modal.classList.contains('light-mode');
@@ -876,23 +1275,73 @@ input:checked + .slider:before {
                   alert("🚫 Bookmark open failed. Extension context was lost.");
                   return;
                 }
-                chrome.storage.local.get("bookmarkClicks", (data) => {
-                  const clicks = data.bookmarkClicks || {};
-                  clicks[title] = (clicks[title] || 0) + 1;
-                  chrome.storage.local.set({ bookmarkClicks: clicks }, () => {
-                    window.open(bm.url, "_blank");
-                    closeModal();
-                  });
-                });
+                openBookmark(bm, true);
               };
               searchResults.appendChild(li);
               currentResults.push({ element: li, data: bm });
             });
             currentIndex = currentResults.length > 0 ? 0 : -1;
             updateActiveResult && updateActiveResult();
-          };
+          }
 
-          showSuggestions(bookmarks, clicks, modal);
+          // org: mode lists orgs from the registry; choosing one switches the dashboard to it
+          function renderOrgResults(orgs, results) {
+            searchResults.innerHTML = "";
+            currentResults = [];
+            currentIndex = -1;
+
+            if (results.length === 0) {
+              const noResult = document.createElement("div");
+              noResult.textContent = orgs.length === 0
+                ? "🏢 No orgs yet. Add them under Dashboard Orgs in the extension's settings."
+                : "🔍 No orgs found.";
+              searchResults.appendChild(noResult);
+              return;
+            }
+
+            const isLight = modal.classList.contains('light-mode');
+            results.forEach((org) => {
+              const li = document.createElement("li");
+              const envColor = ENVIRONMENT_COLORS[org.environment] || ENVIRONMENT_COLORS.prod;
+              li.innerHTML = `
+                <span style="background:${envColor};color:#fff;padding:2px 10px;border-radius:12px;font-size:12px;font-weight:600;display:inline-block;margin-right:10px;">${escapeHtml(org.environment)}</span>
+                <span class="bookmark-title">${org.favorite ? "★ " : ""}${escapeHtml(org.name)}</span>
+                <span class="bookmark-clicks" style="margin-left: 6px;">#${org.id}</span>
+              `;
+              if (org.aliases.length > 0) {
+                const aliasSpan = document.createElement("span");
+                aliasSpan.style.cssText = "margin-left:8px;font-size:12px;opacity:0.7;overflow:hidden;text-overflow:ellipsis;white-space:nowrap;";
+                aliasSpan.textContent = org.aliases.join(", ");
+                li.querySelector(".bookmark-title").after(aliasSpan);
+              }
+              li.classList.add("show");
+              li.style.background = isLight ? '#f3f4f6' : '#23272f';
+              li.style.color = isLight ? '#222' : '#fff';
+              li.style.display = 'flex';
+              li.style.alignItems = 'center';
+              li.style.padding = '14px 18px';
+              li.style.margin = '0 0 2px 0';
+              li.style.borderRadius = '8px';
+              li.style.fontSize = '16px';
+              li.style.boxShadow = isLight ? '0 1px 4px rgba(0,0,0,0.04)' : '0 1px 4px rgba(0,0,0,0.18)';
+              li.style.transition = 'background 0.2s, color 0.2s';
+              li.onmouseenter = () => { li.style.background = isLight ? '#e5e7eb' : '#38404d'; };
+              li.onmouseleave = () => { li.style.background = isLight ? '#f3f4f6' : '#23272f'; };
+              const idSpan = li.querySelector('.bookmark-clicks');
+              if (idSpan) idSpan.style.color = isLight ? '#666' : '#bbb';
+              const activate = () => {
+                switchToOrg(org);
+                closeModal();
+              };
+              li.onclick = activate;
+              searchResults.appendChild(li);
+              currentResults.push({ element: li, data: org, activate });
+            });
+            currentIndex = 0;
+            updateActiveResult && updateActiveResult();
+          }
+
+          showSuggestions(bookmarks, modal);
         });
       });
     } catch (err) {
@@ -902,7 +1351,7 @@ input:checked + .slider:before {
   }
 
   // --- ROBUST showSuggestions: always reads settings from storage ---
-  function showSuggestions(bookmarks, clicks, modal) {
+  function showSuggestions(bookmarks, modal) {
     chrome.storage.local.get([
       'forethought_expandRecent',
       'forethought_expandTop',
@@ -934,8 +1383,7 @@ input:checked + .slider:before {
         const recentBookmarks = bookmarks.slice(-recentLimit).reverse();
         recentBookmarks.forEach((bm) => {
           const li = document.createElement("li");
-          const title = bm.title;
-          const clickCount = clicks[title] || 0;
+          const clickCount = bm.accessCount || 0;
           li.innerHTML = `
         <img src="https://www.google.com/s2/favicons?domain=${bm.url}" style="width:16px; height:16px; margin-right:8px; vertical-align:middle; border-radius:4px;">
         <span class="bookmark-title">${bm.title}</span>
@@ -964,14 +1412,7 @@ input:checked + .slider:before {
             alert("🚫 Bookmark open failed. Extension context was lost.");
             return;
           }
-            chrome.storage.local.get("bookmarkClicks", (data) => {
-              const clicks = data.bookmarkClicks || {};
-              clicks[title] = (clicks[title] || 0) + 1;
-              chrome.storage.local.set({ bookmarkClicks: clicks }, () => {
-                window.open(bm.url, "_blank");
-                closeModal();
-              });
-            });
+            openBookmark(bm, true);
           };
           recentList.appendChild(li);
           currentResults.push({ element: li, data: bm });
@@ -991,8 +1432,7 @@ input:checked + .slider:before {
         const topBookmarks = bookmarks.slice(0, topLimit);
         topBookmarks.forEach((bm) => {
           const li = document.createElement("li");
-          const title = bm.title;
-          const clickCount = clicks[title] || 0;
+          const clickCount = bm.accessCount || 0;
           li.innerHTML = `
         <img src="https://www.google.com/s2/favicons?domain=${bm.url}" style="width:16px; height:16px; margin-right:8px; vertical-align:middle; border-radius:4px;">
         <span class="bookmark-title">${bm.title}</span>
@@ -1021,14 +1461,7 @@ input:checked + .slider:before {
             alert("🚫 Bookmark open failed. Extension context was lost.");
             return;
           }
-            chrome.storage.local.get("bookmarkClicks", (data) => {
-              const clicks = data.bookmarkClicks || {};
-              clicks[title] = (clicks[title] || 0) + 1;
-              chrome.storage.local.set({ bookmarkClicks: clicks }, () => {
-                window.open(bm.url, "_blank");
-                closeModal();
-              });
-            });
+            openBookmark(bm, true);
           };
           topList.appendChild(li);
           currentResults.push({ element: li, data: bm });
@@ -1059,7 +1492,11 @@ input:checked + .slider:before {
       if (overlay.classList.contains("active")) {
         if (e.key === "Escape") {
           e.preventDefault();
-          closeModal();
+          if (templateFill) {
+            cancelTemplateFill();
+          } else {
+            closeModal();
+          }
         }
 
         if (e.key === "ArrowDown" || (e.key === "Tab" && !e.shiftKey)) {
@@ -1083,22 +1520,14 @@ input:checked + .slider:before {
         if (e.key === "Enter") {
           e.preventDefault();
           if (currentIndex >= 0 && currentResults[currentIndex]) {
-            const { data } = currentResults[currentIndex];
-            const title = data.title;
-            chrome.storage.local.get("bookmarkClicks", (res) => {
-              const clicks = res.bookmarkClicks || {};
-              clicks[title] = (clicks[title] || 0) + 1;
-              chrome.storage.local.set({ bookmarkClicks: clicks }, () => {
-                if (e.metaKey || e.ctrlKey) {
-                  // Command+Enter or Ctrl+Enter: open in new tab
-                window.open(data.url, "_blank");
-                } else {
-                  // Enter: open in same tab
-                  window.location.href = data.url;
-                }
-                closeModal();
-              });
-            });
+            const { data, activate } = currentResults[currentIndex];
+            // Results that are not bookmarks, such as orgs, bring their own action
+            if (activate) {
+              activate();
+              return;
+            }
+            // Command+Enter or Ctrl+Enter opens in a new tab, Enter in this one
+            openBookmark(data, e.metaKey || e.ctrlKey);
           }
         }
       }
@@ -1128,15 +1557,16 @@ input:checked + .slider:before {
 
   resetClicksButton.onclick = () => {
     if (confirm("Are you sure you want to reset all bookmark click counts?")) {
-      chrome.storage.local.remove("bookmarkClicks", () => {
+      MessageService.send("RESET_BOOKMARK_ACCESS", {}).then(() => {
         alert("Click stats reset successfully!");
         // Immediately update the UI to show all click counts as zero
         if (modal.classList.contains('active')) {
-          safeSendMessage({ type: 'GET_BOOKMARKS' }, (response) => {
-            const bookmarks = response?.bookmarks || [];
-            showSuggestions(bookmarks, {}, modal); // Pass empty clicks object
+          fetchBookmarks((bookmarks) => {
+            showSuggestions(bookmarks || [], modal);
           });
         }
+      }, (error) => {
+        alert(`Failed to reset click stats: ${error.message}`);
       });
     }
   };
@@ -1158,6 +1588,12 @@ input:checked + .slider:before {
     showGlobalSearchOnboarding(shadow);
   };
 
+  settingsWrapper.querySelector("#recordWorkflowButton").onclick = () => {
+    settingsPanel.style.display = "none";
+    closeModal();
+    startRecording();
+  };
+
   const expandRecentToggle = settingsWrapper.querySelector(
     "#expandRecentToggle",
   );
@@ -1208,7 +1644,8 @@ input:checked + .slider:before {
     chrome.storage.local.set({ forethought_topLimit: e.target.value });
   });
 
-  runAutoBookmarkletIfMatch();
+  runTriggeredWorkflows().then(runBookmarkAction);
+  resumeRecording();
 
   // --- THEME-AWARE STYLES FOR EXPANDED SECTIONS ---
   function applySectionTheme(section) {
@@ -1302,12 +1739,8 @@ input:checked + .slider:before {
     chrome.storage.local.set({ forethought_recentLimit: e.target.value });
     // Re-render suggestions to update the number of rows
     if (modal.classList.contains('active')) {
-      safeSendMessage({ type: 'GET_BOOKMARKS' }, (response) => {
-        const bookmarks = response?.bookmarks || [];
-        safeStorageGet('bookmarkClicks', (data) => {
-          const clicks = data?.bookmarkClicks || {};
-          showSuggestions(bookmarks, clicks, modal);
-        });
+      fetchBookmarks((bookmarks) => {
+        showSuggestions(bookmarks || [], modal);
       });
     }
   });
@@ -1315,12 +1748,8 @@ input:checked + .slider:before {
     chrome.storage.local.set({ forethought_topLimit: e.target.value });
     // Re-render suggestions to update the number of rows
     if (modal.classList.contains('active')) {
-      safeSendMessage({ type: 'GET_BOOKMARKS' }, (response) => {
-        const bookmarks = response?.bookmarks || [];
-        safeStorageGet('bookmarkClicks', (data) => {
-          const clicks = data?.bookmarkClicks || {};
-          showSuggestions(bookmarks, clicks, modal);
-        });
+      fetchBookmarks((bookmarks) => {
+        showSuggestions(bookmarks || [], modal);
       });
     }
   });
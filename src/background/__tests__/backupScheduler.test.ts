@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+import { BackupScheduler } from '@/background/backupScheduler';
+import { messageHandlers } from '@/background/messageHandlers';
+import { MessageRouter } from '@/services/messageRouter';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+const NOW = new Date('2024-03-01T12:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const WORK = { id: 'cat-1', name: 'Work', color: '#3b82f6', icon: 'briefcase' };
+const WITH_DOWNLOADS = { retention: { keepLast: 10, daily: 7, weekly: 4, monthly: 6 }, downloadCopies: true };
+
+// Lets the promise chains started by listeners settle
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Backups hash their sections with crypto.subtle, which settles on the thread pool, so
+// wait for the visible end state of a run instead of a fixed number of ticks
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 200 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+};
+
+describe('BackupScheduler', () => {
+  let fake: FakeChrome;
+
+  const install = (initial: Record<string, unknown> = {}) => {
+    fake = createFakeChrome(initial);
+    global.chrome = fake.api;
+  };
+
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['setImmediate', 'nextTick', 'setTimeout'] });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    install({ bookmarks: [], bookmark_categories: [WORK] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('parseFrequency', () => {
+    it('converts minutes, hours and days to milliseconds', () => {
+      expect(BackupScheduler.parseFrequency('15m')).toBe(15 * MINUTE);
+      expect(BackupScheduler.parseFrequency('2h')).toBe(2 * HOUR);
+      expect(BackupScheduler.parseFrequency('7d')).toBe(7 * 24 * HOUR);
+    });
+
+    it('rejects anything else', () => {
+      ['', '0m', '15', 'm', '5x', '1.5h', ' 2h'].forEach(value => {
+        expect(BackupScheduler.parseFrequency(value)).toBeNull();
+      });
+      expect(BackupScheduler.parseFrequency(null)).toBeNull();
+      expect(BackupScheduler.parseFrequency(undefined)).toBeNull();
+    });
+  });
+
+  it('schedules the first backup one period after startup', async () => {
+    install({ backupFrequency: '2h' });
+    BackupScheduler.start();
+    await flush();
+
+    expect(fake.store.nextBackupTime).toBe(NOW + 2 * HOUR);
+    expect(fake.alarms.get(BackupScheduler.ALARM_NAME)?.scheduledTime).toBe(NOW + 2 * HOUR);
+    expect(fake.store.backupHistory).toBeUndefined();
+  });
+
+  it('backs up when the alarm fires and schedules the next run', async () => {
+    install({ backupFrequency: '30m', backupSettings: WITH_DOWNLOADS, bookmarks: [], bookmark_categories: [WORK] });
+    BackupScheduler.start();
+    await flush();
+
+    advance(30 * MINUTE);
+    fake.fireDueAlarms();
+    await waitFor(() => fake.store.nextBackupTime === NOW + 60 * MINUTE);
+
+    expect(fake.downloads.map(d => d.filename)).toEqual([expect.stringMatching(/^forethought_backup_.*\.json$/)]);
+    expect(decodeURIComponent(fake.downloads[0].url.split(',')[1])).toContain('"Work"');
+    expect(fake.store.backupHistory).toEqual([expect.objectContaining({ trigger: 'automatic', createdAt: new Date(NOW + 30 * MINUTE).toISOString() })]);
+    expect(fake.store.lastBackup).toEqual({
+      bookmarks: new Date(NOW + 30 * MINUTE).toISOString(),
+      categories: new Date(NOW + 30 * MINUTE).toISOString(),
+      automatic: new Date(NOW + 30 * MINUTE).toISOString(),
+    });
+    expect(fake.store.nextBackupTime).toBe(NOW + 60 * MINUTE);
+    expect(fake.alarms.get(BackupScheduler.ALARM_NAME)?.scheduledTime).toBe(NOW + 60 * MINUTE);
+    expect(fake.sentMessages).toContainEqual({
+      type: 'SHOW_TOAST',
+      payload: { message: 'Automatic backup created successfully ✅', type: 'success' },
+    });
+  });
+
+  it('runs a backup missed while the browser was closed as soon as it starts', async () => {
+    install({ backupFrequency: '1h', nextBackupTime: NOW - 5 * HOUR });
+    BackupScheduler.start();
+    await waitFor(() => fake.store.nextBackupTime === NOW + HOUR);
+
+    expect(fake.store.backupHistory).toHaveLength(1);
+    expect(fake.downloads).toHaveLength(0); // Downloads are off unless enabled in the backup settings
+    expect(fake.store.nextBackupTime).toBe(NOW + HOUR);
+    expect(fake.alarms.get(BackupScheduler.ALARM_NAME)?.scheduledTime).toBe(NOW + HOUR);
+  });
+
+  it('re-creates a lost alarm without moving the stored schedule', async () => {
+    install({ backupFrequency: '1h' });
+    BackupScheduler.start();
+    await flush();
+
+    advance(20 * MINUTE);
+    fake.restart();
+    BackupScheduler.start();
+    await flush();
+
+    expect(fake.store.backupHistory).toBeUndefined();
+    expect(fake.store.nextBackupTime).toBe(NOW + HOUR);
+    expect(fake.alarms.get(BackupScheduler.ALARM_NAME)?.scheduledTime).toBe(NOW + HOUR);
+  });
+
+  it('starts a new period when the frequency changes and stops when it is cleared', async () => {
+    install({ backupFrequency: '1h' });
+    BackupScheduler.start();
+    await flush();
+
+    advance(10 * MINUTE);
+    await chrome.storage.local.set({ backupFrequency: '15m' });
+    await flush();
+    expect(fake.store.nextBackupTime).toBe(NOW + 25 * MINUTE);
+
+    await chrome.storage.local.remove('backupFrequency');
+    await flush();
+    expect(fake.store.nextBackupTime).toBeUndefined();
+    expect(fake.alarms.has(BackupScheduler.ALARM_NAME)).toBe(false);
+  });
+
+  it('shares one run between overlapping triggers', async () => {
+    install({ backupFrequency: '1h', bookmarks: [] });
+    await Promise.all([BackupScheduler.runBackup(), BackupScheduler.runBackup()]);
+
+    expect(fake.store.backupHistory).toHaveLength(1);
+  });
+
+  it('keeps the schedule going when a download fails', async () => {
+    install({ backupFrequency: '1h', backupSettings: WITH_DOWNLOADS });
+    fake.api.downloads.download = jest.fn().mockRejectedValue(new Error('Disk full'));
+
+    await expect(BackupScheduler.runBackup()).rejects.toThrow('Disk full');
+    expect(fake.store.lastBackup).toBeUndefined();
+    expect(fake.store.nextBackupTime).toBe(NOW + HOUR);
+    expect(fake.sentMessages).toContainEqual({
+      type: 'SHOW_TOAST',
+      payload: { message: 'Failed to create automatic backup ❌', type: 'error' },
+    });
+  });
+
+  it('reports the schedule over GET_BACKUP_SCHEDULE', async () => {
+    install({ backupFrequency: '2h', lastBackup: { bookmarks: null, categories: null, automatic: '2024-02-29T12:00:00.000Z' } });
+    BackupScheduler.start();
+    await flush();
+
+    const result = await MessageRouter.dispatch(messageHandlers, { type: 'GET_BACKUP_SCHEDULE', payload: {} }, {});
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        frequency: '2h',
+        periodMs: 2 * HOUR,
+        nextBackupTime: NOW + 2 * HOUR,
+        lastAutomaticBackup: '2024-02-29T12:00:00.000Z',
+        alarmScheduled: true,
+      },
+    });
+  });
+
+  it('reports backups as off when no frequency is set', async () => {
+    const schedule = await BackupScheduler.getSchedule();
+    expect(schedule).toEqual({
+      frequency: null,
+      periodMs: null,
+      nextBackupTime: null,
+      lastAutomaticBackup: null,
+      alarmScheduled: false,
+    });
+  });
+});
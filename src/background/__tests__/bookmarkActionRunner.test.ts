@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { BookmarkActionRunner } from '@/background/bookmarkActionRunner';
+import { messageHandlers } from '@/background/messageHandlers';
+import { BookmarkNode } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+const BOOKMARKS: BookmarkNode[] = [
+  {
+    id: 'dash', type: 'bookmark', title: 'Dashboard', url: 'https://dash.example.com/home?org=1459', parentId: null, createdAt: '2024-01-01T00:00:00.000Z',
+    action: { type: 'workflow', workflowId: 'dashboard-org-switch', params: {} },
+  },
+  {
+    id: 'tool', type: 'bookmark', title: 'Tool', url: 'https://tool.example.com/', parentId: null, createdAt: '2024-01-01T00:00:00.000Z',
+    action: { type: 'bookmarklet', code: 'javascript:alert(%22hi%22)' },
+  },
+  { id: 'plain', type: 'bookmark', title: 'Plain', url: 'https://plain.example.com/', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+];
+
+describe('BookmarkActionRunner', () => {
+  let fake: FakeChrome;
+  // Moves on between tests, so actions left armed by one have expired by the next
+  let now = Date.now();
+
+  const open = (bookmarkId: string) => messageHandlers.RECORD_BOOKMARK_ACCESS({ bookmarkId, source: 'popup-table' }, {});
+  // Claims from the page at url in the tab, from its top frame unless frameId says otherwise
+  const claim = (tabId: number, url: string, frameId = 0) =>
+    Promise.resolve(messageHandlers.CLAIM_BOOKMARK_ACTION({}, { tab: { id: tabId } as chrome.tabs.Tab, frameId, url }))
+      .then(response => response.claim);
+
+  // Allows actions on a site, as saving a bookmark there does once the user agrees
+  const allow = (origin: string) => {
+    fake.grantOrigins([origin]);
+    fake.store.actionSites = [...(fake.store.actionSites as string[] ?? []), origin];
+  };
+
+  beforeEach(() => {
+    now += 10 * 60 * 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    fake = createFakeChrome({ bookmarks: BOOKMARKS });
+    global.chrome = fake.api;
+    BookmarkActionRunner.start();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('hands a workflow to the tab the bookmark opened in, once, if the site is allowed', async () => {
+    allow('https://dash.example.com/*');
+    await open('dash');
+    fake.tabs.created({ id: 7, pendingUrl: 'https://dash.example.com/home?org=1459#top' });
+    fake.tabs.updated(7, { url: 'https://dash.example.com/login' });
+
+    expect(await claim(8, 'https://dash.example.com/home?org=1459')).toBeNull();
+    expect(await claim(7, 'https://dash.example.com/home?org=1459', 3)).toBeNull();
+    expect(await claim(7, 'https://dash.example.com/home?org=1459')).toEqual({
+      bookmarkTitle: 'Dashboard',
+      url: 'https://dash.example.com/home?org=1459',
+      action: BOOKMARKS[0].action,
+      allowed: true,
+    });
+    expect(await claim(7, 'https://dash.example.com/home?org=1459')).toBeNull();
+    expect(fake.scripts).toEqual([]);
+  });
+
+  it('finds a tab that started loading before the open was recorded', async () => {
+    fake.tabs.created({ id: 3, pendingUrl: 'https://dash.example.com/home/?org=1459' });
+    await open('dash');
+
+    expect(await claim(3, 'https://dash.example.com/home/?org=1459')).toMatchObject({ bookmarkTitle: 'Dashboard', allowed: false });
+  });
+
+  it('waits for the filled-in address of a URL template', async () => {
+    const template = { ...BOOKMARKS[0], id: 'template', url: 'https://dash.example.com/home?org={org}' };
+    fake.store.bookmarks = [...BOOKMARKS, template];
+    await messageHandlers.RECORD_BOOKMARK_ACCESS({ bookmarkId: 'template', source: 'command-k', url: 'https://dash.example.com/home?org=613' }, {});
+    fake.tabs.created({ id: 9, pendingUrl: 'https://dash.example.com/home?org=613' });
+
+    expect(await claim(9, 'https://dash.example.com/home?org=613')).toMatchObject({ url: 'https://dash.example.com/home?org=613' });
+  });
+
+  it('runs bookmarklets in the page, only on allowed sites', async () => {
+    await open('tool');
+    fake.tabs.created({ id: 4, pendingUrl: 'https://tool.example.com' });
+    expect(await claim(4, 'https://tool.example.com/')).toEqual({ bookmarkTitle: 'Tool', url: 'https://tool.example.com/', allowed: false });
+    expect(fake.scripts).toEqual([]);
+
+    allow('https://tool.example.com/*');
+    await open('tool');
+    fake.tabs.created({ id: 5, pendingUrl: 'https://tool.example.com/' });
+    expect(await claim(5, 'https://tool.example.com/')).toMatchObject({ action: { type: 'bookmarklet' }, allowed: true });
+    expect(fake.scripts).toEqual([expect.objectContaining({ target: { tabId: 5 }, world: 'MAIN', args: ['alert("hi")'] })]);
+  });
+
+  it('needs the site allowed for actions, not just Chrome access to it', async () => {
+    // Granted for the link checker, without the user allowing actions on the site
+    fake.grantOrigins(['https://tool.example.com/*']);
+    await open('tool');
+    fake.tabs.created({ id: 12, pendingUrl: 'https://tool.example.com/' });
+
+    expect(await claim(12, 'https://tool.example.com/')).toEqual({ bookmarkTitle: 'Tool', url: 'https://tool.example.com/', allowed: false });
+    expect(fake.scripts).toEqual([]);
+  });
+
+  it('keeps the action armed while the tab is on another site, and checks access for the page', async () => {
+    allow('https://dash.example.com/*');
+    await open('dash');
+    fake.tabs.created({ id: 10, pendingUrl: 'https://dash.example.com/home?org=1459' });
+
+    // Redirected to sign in elsewhere first
+    expect(await claim(10, 'https://sso.example.org/login?next=dash')).toBeNull();
+    expect(await claim(10, 'https://dash.example.com/discover')).toMatchObject({ url: 'https://dash.example.com/home?org=1459', allowed: true });
+  });
+
+  it('keeps a bookmarklet armed when it fails to start', async () => {
+    allow('https://tool.example.com/*');
+    await open('tool');
+    fake.tabs.created({ id: 11, pendingUrl: 'https://tool.example.com/' });
+    const executeScript = fake.api.scripting.executeScript;
+    fake.api.scripting.executeScript = async () => {
+      throw new Error('Cannot access contents of the page');
+    };
+
+    await expect(BookmarkActionRunner.claim(11, 'https://tool.example.com/')).rejects.toThrow('Cannot access');
+    fake.api.scripting.executeScript = executeScript;
+    expect(await claim(11, 'https://tool.example.com/')).toMatchObject({ allowed: true });
+    expect(fake.scripts).toHaveLength(1);
+  });
+
+  it('ignores bookmarks without actions, closed tabs and opens that never loaded', async () => {
+    await open('plain');
+    fake.tabs.created({ id: 1, pendingUrl: 'https://plain.example.com/' });
+    expect(await claim(1, 'https://plain.example.com/')).toBeNull();
+
+    await open('dash');
+    fake.tabs.created({ id: 2, pendingUrl: 'https://dash.example.com/home?org=1459' });
+    fake.tabs.removed(2);
+    expect(await claim(2, 'https://dash.example.com/home?org=1459')).toBeNull();
+
+    await open('dash');
+    now += BookmarkActionRunner.ARM_WINDOW_MS;
+    fake.tabs.created({ id: 6, pendingUrl: 'https://dash.example.com/home?org=1459' });
+    expect(await claim(6, 'https://dash.example.com/home?org=1459')).toBeNull();
+  });
+});
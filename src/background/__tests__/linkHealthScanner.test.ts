@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { LinkHealthScanner } from '@/background/linkHealthScanner';
+import { messageHandlers } from '@/background/messageHandlers';
+import { MessageRouter } from '@/services/messageRouter';
+import { LINK_CHECK_ORIGINS } from '@/services/linkHealthService';
+import { BookmarkNode } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+const BOOKMARKS: BookmarkNode[] = [
+  { id: 'a', type: 'bookmark', title: 'A', url: 'https://a.example.com/', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+  { id: 'b', type: 'bookmark', title: 'B', url: 'https://b.example.com/gone', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+];
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 200 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+};
+
+describe('LinkHealthScanner', () => {
+  let fake: FakeChrome;
+  let fetchMock: jest.SpyInstance;
+
+  const stored = () => fake.store.bookmarks as BookmarkNode[];
+
+  beforeEach(() => {
+    fake = createFakeChrome({ bookmarks: BOOKMARKS });
+    global.chrome = fake.api;
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async input =>
+      new Response(null, { status: String(input).endsWith('/gone') ? 404 : 200 }));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('schedules hourly checks', async () => {
+    LinkHealthScanner.start();
+    await waitFor(() => fake.alarms.size > 0);
+
+    expect(fake.alarms.get(LinkHealthScanner.ALARM_NAME)?.periodInMinutes).toBe(60);
+  });
+
+  it('checks nothing until host access is granted', async () => {
+    const result = await MessageRouter.dispatch(messageHandlers, { type: 'CHECK_LINKS', payload: {} }, {});
+
+    expect(result).toEqual({ ok: true, data: { started: false } });
+    expect(await LinkHealthScanner.run()).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('checks the library once access is granted and reports the outcome', async () => {
+    LinkHealthScanner.start();
+    fake.grantOrigins(LINK_CHECK_ORIGINS);
+    await waitFor(() => fake.sentMessages.length > 0);
+
+    expect(stored().map(node => node.linkHealth?.status)).toEqual(['ok', 'broken']);
+    expect(fake.sentMessages).toContainEqual({
+      type: 'SHOW_TOAST',
+      payload: { message: 'Checked 2 links: 1 broken, 0 redirected', type: 'error' },
+    });
+  });
+
+  it('rechecks the requested bookmarks on CHECK_LINKS', async () => {
+    fake.origins.add('http://*/*');
+    fake.origins.add('https://*/*');
+    await LinkHealthScanner.run({ delayMs: 0 });
+    fetchMock.mockClear();
+
+    const result = await MessageRouter.dispatch(messageHandlers, { type: 'CHECK_LINKS', payload: { bookmarkIds: ['a'] } }, {});
+    await waitFor(() => fake.sentMessages.length > 0);
+
+    expect(result).toEqual({ ok: true, data: { started: true } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://a.example.com/');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import { RecordingKeeper } from '@/background/recordingKeeper';
+import { messageHandlers } from '@/background/messageHandlers';
+import { WorkflowRecording } from '@/types/workflow';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+const RECORDING: WorkflowRecording = {
+  startUrl: 'https://dash.example.com/home?org=1459',
+  lastUrl: 'https://dash.example.com/reports',
+  steps: [{ action: 'click', selector: '[data-testid="reports"]' }],
+};
+
+describe('RecordingKeeper', () => {
+  let fake: FakeChrome;
+
+  // Messages from the page at url in the tab, from its top frame unless frameId says otherwise
+  const sender = (tabId: number, url: string, frameId = 0): chrome.runtime.MessageSender => ({ tab: { id: tabId } as chrome.tabs.Tab, frameId, url });
+  const keep = (recording: WorkflowRecording | null, from: chrome.runtime.MessageSender) =>
+    Promise.resolve(messageHandlers.KEEP_WORKFLOW_RECORDING({ recording }, from));
+  const resume = (from: chrome.runtime.MessageSender) =>
+    Promise.resolve(messageHandlers.RESUME_WORKFLOW_RECORDING({}, from)).then(response => response.recording);
+
+  beforeEach(() => {
+    fake = createFakeChrome();
+    global.chrome = fake.api;
+    RecordingKeeper.start();
+  });
+
+  it('hands a tab\'s recording to the next page loaded in it on the same site', async () => {
+    await keep(RECORDING, sender(1, 'https://dash.example.com/reports'));
+
+    expect(await resume(sender(1, 'https://dash.example.com/reports/week'))).toEqual(RECORDING);
+    expect(await resume(sender(2, 'https://dash.example.com/reports/week'))).toBeNull();
+    expect(fake.store).toEqual({});
+  });
+
+  it('keeps the recording while the tab is on another site', async () => {
+    await keep(RECORDING, sender(1, 'https://dash.example.com/reports'));
+
+    expect(await resume(sender(1, 'https://login.example.com/'))).toBeNull();
+    expect(await resume(sender(1, 'https://dash.example.com/'))).toEqual(RECORDING);
+  });
+
+  it('drops the recording when it ends or its tab closes', async () => {
+    await keep(RECORDING, sender(1, 'https://dash.example.com/reports'));
+    await keep(RECORDING, sender(2, 'https://dash.example.com/reports'));
+
+    await keep(null, sender(1, 'https://dash.example.com/reports'));
+    fake.tabs.removed(2);
+    await Promise.resolve();
+
+    expect(await resume(sender(1, 'https://dash.example.com/reports'))).toBeNull();
+    expect(await resume(sender(2, 'https://dash.example.com/reports'))).toBeNull();
+    expect(fake.sessionStore).toEqual({});
+  });
+
+  it('ignores frames other than the top one', async () => {
+    await keep(RECORDING, sender(1, 'https://dash.example.com/reports', 3));
+    expect(fake.sessionStore).toEqual({});
+
+    await keep(RECORDING, sender(1, 'https://dash.example.com/reports'));
+    expect(await resume(sender(1, 'https://dash.example.com/reports', 3))).toBeNull();
+  });
+
+  it('drops a kept value that is not a recording', async () => {
+    fake.sessionStore['workflowRecording:1'] = { steps: 'none' };
+
+    expect(await resume(sender(1, 'https://dash.example.com/reports'))).toBeNull();
+    expect(fake.sessionStore).toEqual({});
+  });
+});
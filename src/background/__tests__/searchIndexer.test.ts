@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+import { SearchIndexer } from '@/background/searchIndexer';
+import { messageHandlers } from '@/background/messageHandlers';
+import { MessageRouter } from '@/services/messageRouter';
+import { BookmarkService } from '@/services/bookmarkService';
+import { AccessLogService } from '@/services/accessLogService';
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { node } from '@/tests/bookmarkFactory';
+
+const CATEGORIES: BookmarkCategory[] = [{ id: 'ops', name: 'Operations', color: '#000', icon: '📁' }];
+
+const BOOKMARKS: BookmarkNode[] = [
+  node('a', { title: 'Deploy dashboard', categoryId: 'ops' }),
+  node('b', { title: 'Deploy checklist' }),
+  node('c', { title: 'Team calendar' }),
+];
+
+describe('SearchIndexer', () => {
+  let fake: FakeChrome;
+
+  const ids = async (query: string, limit?: number) =>
+    (await SearchIndexer.search(query, limit)).results.map(result => result.node.id);
+
+  beforeEach(() => {
+    fake = createFakeChrome({ bookmarks: BOOKMARKS, bookmark_categories: CATEGORIES });
+    global.chrome = fake.api;
+    SearchIndexer.reset();
+    SearchIndexer.start();
+  });
+
+  it('answers SEARCH_BOOKMARKS with the best results and the number of matches', async () => {
+    const result = await MessageRouter.dispatch(messageHandlers, { type: 'SEARCH_BOOKMARKS', payload: { query: 'deploy', limit: 1 } }, {});
+
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        results: [expect.objectContaining({ node: expect.objectContaining({ id: expect.any(String) }) })],
+        total: 2,
+      },
+    });
+  });
+
+  it('uses the query language with the stored categories', async () => {
+    expect(await ids('deploy cat:Operations')).toEqual(['a']);
+  });
+
+  it('picks up bookmark, open and category changes', async () => {
+    expect(await ids('deploy')).toHaveLength(2);
+
+    await BookmarkService.updateMany(['c'], { title: 'Deploy calendar' });
+    expect((await ids('deploy')).sort()).toEqual(['a', 'b', 'c']);
+
+    await AccessLogService.record('b', 'command-k');
+    const [best] = (await SearchIndexer.search('deploy checklist')).results;
+    expect(best.node).toEqual(expect.objectContaining({ id: 'b', accessCount: 1 }));
+
+    await fake.api.storage.local.set({ bookmark_categories: [{ ...CATEGORIES[0], name: 'Platform' }] });
+    expect(await ids('platform')).toEqual(['a']);
+  });
+});
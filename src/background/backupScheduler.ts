@@ -0,0 +1,128 @@
+import { BackupSchedule } from '@/types/backup';
+import { StorageService } from '@/services/storageService';
+import { MessageService } from '@/services/messageService';
+import { BackupService } from '@/services/backupService';
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Runs automatic backups on a chrome.alarms schedule. The worker can be suspended at any
+ * time, so nothing is kept in memory between runs: nextBackupTime in storage is the source
+ * of truth and every worker start checks it, running a backup straight away if one was missed.
+ */
+export class BackupScheduler {
+  static readonly ALARM_NAME = 'automatic-backup';
+  private static running: Promise<void> | null = null;
+
+  // '15m' → 900000. Returns null for anything that is not a positive count of m, h or d.
+  static parseFrequency(frequency: string | null | undefined): number | null {
+    const match = /^(\d+)([mhd])$/.exec(frequency ?? '');
+    if (!match) return null;
+    const ms = Number(match[1]) * UNIT_MS[match[2]];
+    return ms > 0 ? ms : null;
+  }
+
+  // Registers listeners (synchronously, so Chrome wakes the worker for them) and catches up
+  static start(): void {
+    chrome.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name === this.ALARM_NAME) {
+        this.runBackup().catch(() => undefined);
+      }
+    });
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes.backupFrequency) {
+        this.reschedule().catch(error => console.error('Failed to reschedule backups:', error));
+      }
+    });
+    this.catchUp().catch(error => console.error('Failed to restore backup schedule:', error));
+  }
+
+  static async getSchedule(): Promise<BackupSchedule> {
+    const data = await StorageService.getMany(['backupFrequency', 'nextBackupTime', 'lastBackup']);
+    const periodMs = this.parseFrequency(data.backupFrequency);
+    const alarm = await chrome.alarms.get(this.ALARM_NAME);
+    return {
+      frequency: periodMs ? data.backupFrequency ?? null : null,
+      periodMs,
+      nextBackupTime: periodMs ? data.nextBackupTime ?? null : null,
+      lastAutomaticBackup: data.lastBackup?.automatic ?? null,
+      alarmScheduled: !!alarm,
+    };
+  }
+
+  // Starts a fresh period after the frequency changed; turning backups off cancels them
+  static async reschedule(): Promise<void> {
+    const frequency = await StorageService.get('backupFrequency');
+    const periodMs = this.parseFrequency(frequency);
+    if (!periodMs) {
+      await this.cancel();
+      return;
+    }
+    await this.scheduleAt(Date.now() + periodMs);
+  }
+
+  // Makes sure the stored schedule has an alarm behind it, running a missed backup first
+  static async catchUp(): Promise<void> {
+    const data = await StorageService.getMany(['backupFrequency', 'nextBackupTime']);
+    const periodMs = this.parseFrequency(data.backupFrequency);
+    if (!periodMs) {
+      await this.cancel();
+      return;
+    }
+    const nextBackupTime = data.nextBackupTime;
+    if (typeof nextBackupTime !== 'number') {
+      await this.scheduleAt(Date.now() + periodMs);
+    } else if (nextBackupTime <= Date.now()) {
+      await this.runBackup();
+    } else if (!(await chrome.alarms.get(this.ALARM_NAME))) {
+      await this.scheduleAt(nextBackupTime);
+    }
+  }
+
+  /**
+   * Takes a backup and schedules the next one. Concurrent calls (an alarm firing while
+   * catch-up runs) share one run.
+   */
+  static runBackup(): Promise<void> {
+    if (!this.running) {
+      this.running = this.performBackup().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private static async performBackup(): Promise<void> {
+    const periodMs = this.parseFrequency(await StorageService.get('backupFrequency'));
+    if (!periodMs) {
+      await this.cancel();
+      return;
+    }
+
+    try {
+      await BackupService.run('automatic');
+      MessageService.broadcast('SHOW_TOAST', { message: 'Automatic backup created successfully ✅', type: 'success' });
+    } catch (error) {
+      console.error('Automatic backup error:', error);
+      MessageService.broadcast('SHOW_TOAST', { message: 'Failed to create automatic backup ❌', type: 'error' });
+      throw error;
+    } finally {
+      // Keep the schedule going whether or not this run worked
+      await this.scheduleAt(Date.now() + periodMs);
+    }
+  }
+
+  private static async scheduleAt(when: number): Promise<void> {
+    await StorageService.set('nextBackupTime', when);
+    await chrome.alarms.create(this.ALARM_NAME, { when });
+  }
+
+  private static async cancel(): Promise<void> {
+    await chrome.alarms.clear(this.ALARM_NAME);
+    await StorageService.remove('nextBackupTime');
+  }
+}
@@ -0,0 +1,147 @@
+import { BookmarkAction } from '@/types/bookmark';
+import { ActionClaim } from '@/types/messages';
+import { BookmarkService } from '@/services/bookmarkService';
+import { BookmarkActionService } from '@/services/bookmarkActionService';
+
+// An action waiting for the tab its bookmark opens in
+interface PendingAction {
+  bookmarkId: string;
+  bookmarkTitle: string;
+  url: string;
+  action: BookmarkAction;
+  armedAt: number;
+  tabId?: number;
+}
+
+// A tab that started loading an address lately, kept for an open recorded after the tab appeared
+interface TabOpen {
+  tabId: number;
+  url: string;
+  at: number;
+}
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+// The same page, ignoring the fragment and a trailing slash
+const samePage = (a: string, b: string): boolean => {
+  const normalize = (url: string) => {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.href.replace(/\/(?=\?|$)/, '');
+    } catch {
+      return url;
+    }
+  };
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Runs the actions attached to bookmarks. Opening a bookmark from the extension (which records
+ * the open with RECORD_BOOKMARK_ACCESS) arms its action; the tab that starts loading the
+ * bookmark's address within ARM_WINDOW_MS takes it, and the content script in that tab claims
+ * it once the page has loaded. Armed actions are kept in memory only: they last seconds, and
+ * the open itself keeps the worker awake.
+ */
+export class BookmarkActionRunner {
+  static readonly ARM_WINDOW_MS = 60_000;
+  // How long before the open was recorded a tab may have started loading the bookmark
+  static readonly RECENT_OPEN_MS = 10_000;
+  private static pending: PendingAction[] = [];
+  private static recentOpens: TabOpen[] = [];
+
+  // Registers listeners (synchronously, so Chrome wakes the worker for them)
+  static start(): void {
+    chrome.tabs.onCreated.addListener(tab => {
+      const url = tab.pendingUrl || tab.url;
+      if (tab.id !== undefined && url) this.tabOpened(tab.id, url);
+    });
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+      if (changeInfo.url) this.tabOpened(tabId, changeInfo.url);
+    });
+    chrome.tabs.onRemoved.addListener(tabId => {
+      this.pending = this.pending.filter(entry => entry.tabId !== tabId);
+    });
+  }
+
+  // Arms the action of a bookmark that was just opened, at `url` if that is not the bookmark's own
+  // address (a filled-in URL template). Bookmarks without an action are ignored.
+  static async arm(bookmarkId: string, url?: string): Promise<void> {
+    const bookmark = (await BookmarkService.getBookmarks()).find(node => node.id === bookmarkId);
+    if (!bookmark?.action || !bookmark.url) return;
+    const now = Date.now();
+    this.prune(now);
+    const entry: PendingAction = { bookmarkId, bookmarkTitle: bookmark.title, url: url ?? bookmark.url, action: bookmark.action, armedAt: now };
+    // The tab may have opened before the open was recorded
+    const opened = this.recentOpens.find(open => samePage(open.url, entry.url));
+    if (opened) {
+      entry.tabId = opened.tabId;
+      this.recentOpens = this.recentOpens.filter(other => other !== opened);
+    }
+    this.pending = [...this.pending.filter(other => other.bookmarkId !== bookmarkId || other.tabId !== undefined), entry];
+  }
+
+  /**
+   * Hands the action armed for a tab to its content script, once. Only a page on the bookmark's
+   * own site gets it: a page the bookmark redirected elsewhere (a login on another host) leaves
+   * the action armed for the page the tab comes back to. Bookmarklets run from here, in the
+   * page's own world, and the action stays armed if one fails to start; workflows are returned
+   * for the content script to run. When the user has not allowed actions on the page's site,
+   * nothing runs and the claim says so without the action.
+   */
+  static async claim(tabId: number, pageUrl: string): Promise<ActionClaim | null> {
+    this.prune(Date.now());
+    const entry = this.pending.find(candidate => candidate.tabId === tabId);
+    if (!entry || !originOf(pageUrl) || originOf(pageUrl) !== originOf(entry.url)) return null;
+    // Taken out while it runs, so a second claim from the same tab cannot run it twice
+    this.pending = this.pending.filter(candidate => candidate !== entry);
+
+    try {
+      if (!(await BookmarkActionService.hasPermission(pageUrl))) {
+        return { bookmarkTitle: entry.bookmarkTitle, url: entry.url, allowed: false };
+      }
+      if (entry.action.type === 'bookmarklet') {
+        await this.runBookmarklet(tabId, entry.action.code);
+      }
+      return { bookmarkTitle: entry.bookmarkTitle, url: entry.url, action: entry.action, allowed: true };
+    } catch (error) {
+      this.pending = [...this.pending, entry];
+      throw error;
+    }
+  }
+
+  private static tabOpened(tabId: number, url: string): void {
+    const now = Date.now();
+    this.prune(now);
+    const entry = this.pending.find(candidate => candidate.tabId === undefined && samePage(candidate.url, url));
+    if (entry) entry.tabId = tabId;
+    else this.recentOpens.push({ tabId, url, at: now });
+  }
+
+  // Drops armed actions whose bookmark never loaded, and tab opens too old to be from a bookmark
+  private static prune(now: number): void {
+    this.pending = this.pending.filter(entry => now - entry.armedAt < this.ARM_WINDOW_MS);
+    this.recentOpens = this.recentOpens.filter(open => now - open.at < this.RECENT_OPEN_MS);
+  }
+
+  // A script element runs the code as a bookmarklet would, subject to the page's own content policy
+  private static async runBookmarklet(tabId: number, code: string): Promise<void> {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      world: 'MAIN',
+      func: (source: string) => {
+        const script = document.createElement('script');
+        script.textContent = source;
+        (document.head ?? document.documentElement).appendChild(script);
+        script.remove();
+      },
+      args: [BookmarkActionService.bookmarkletSource(code)],
+    });
+  }
+}
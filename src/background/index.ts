@@ -0,0 +1,40 @@
+import { StorageService } from '@/services/storageService';
+import { NativeSyncService } from '@/services/nativeSyncService';
+import { MessageRouter } from '@/services/messageRouter';
+import { BackupScheduler } from '@/background/backupScheduler';
+import { LinkHealthScanner } from '@/background/linkHealthScanner';
+import { SearchIndexer } from '@/background/searchIndexer';
+import { BookmarkActionRunner } from '@/background/bookmarkActionRunner';
+import { RecordingKeeper } from '@/background/recordingKeeper';
+import { messageHandlers } from '@/background/messageHandlers';
+
+// Bring stored data up to the current schema, then start two-way sync with Chrome bookmarks.
+// Listeners have to be registered synchronously so Chrome wakes the worker for them.
+StorageService.migrate().catch(() => {});
+NativeSyncService.start();
+MessageRouter.listen(messageHandlers);
+BackupScheduler.start();
+LinkHealthScanner.start();
+SearchIndexer.start();
+BookmarkActionRunner.start();
+RecordingKeeper.start();
+
+// ✅ Add support for Command+K hotkey (or Command+Shift+K)
+chrome.commands.onCommand.addListener((command) => {
+  if (command === 'toggle-command-k') {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      const tab = tabs[0];
+      if (tab?.id) {
+        chrome.scripting.executeScript({
+          target: { tabId: tab.id },
+          files: ['contentScript.js'],
+        });
+      }
+    });
+  }
+});
+
+// Default Chrome downloads folder:
+// Windows: C:\Users\<YourUsername>\Downloads
+// macOS: /Users/<YourUsername>/Downloads
+// Linux: /home/<YourUsername>/Downloads
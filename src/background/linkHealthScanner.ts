@@ -0,0 +1,65 @@
+import { LinkScanOptions, LinkScanSummary } from '@/types/linkHealth';
+import { MessageService } from '@/services/messageService';
+import { LINK_CHECK_ORIGINS, LinkHealthService } from '@/services/linkHealthService';
+
+/**
+ * Checks bookmark links in the background. An hourly alarm checks a few of the links that
+ * are due, so the whole library is rechecked about once a week without bursts of requests.
+ * Nothing runs until the user grants host access, which the bookmark table asks for the
+ * first time links are checked.
+ */
+export class LinkHealthScanner {
+  static readonly ALARM_NAME = 'link-health-scan';
+  static readonly PERIOD_MINUTES = 60;
+  // Links checked per scheduled run
+  static readonly RUN_LIMIT = 40;
+  private static running: Promise<LinkScanSummary | null> | null = null;
+
+  // Registers listeners (synchronously, so Chrome wakes the worker for them)
+  static start(): void {
+    chrome.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name === this.ALARM_NAME) {
+        this.run({ limit: this.RUN_LIMIT }).catch(error => console.error('Failed to check links:', error));
+      }
+    });
+    // The popup may close while the permission prompt is open, so the first check starts here
+    chrome.permissions.onAdded.addListener(() => {
+      this.checkAll().catch(error => console.error('Failed to check links:', error));
+    });
+    this.ensureAlarm().catch(error => console.error('Failed to schedule link checks:', error));
+  }
+
+  static hasAccess(): Promise<boolean> {
+    return chrome.permissions.contains({ origins: LINK_CHECK_ORIGINS });
+  }
+
+  /**
+   * Checks links now. Returns null without checking when host access has not been granted.
+   * Runs do not overlap: a call made during a run waits for it and then starts its own.
+   */
+  static async run(options: LinkScanOptions = {}): Promise<LinkScanSummary | null> {
+    while (this.running) await this.running.catch(() => undefined);
+    const run = (async () => (await this.hasAccess()) ? LinkHealthService.scan(options) : null)();
+    this.running = run.finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  // Checks the given bookmarks (or every bookmark that is due) and reports the outcome
+  static async checkAll(ids?: string[]): Promise<void> {
+    const summary = await this.run(ids ? { ids, force: true } : {});
+    if (!summary) return;
+    const problems = summary.counts.broken + summary.counts.unreachable;
+    MessageService.broadcast('SHOW_TOAST', {
+      message: `Checked ${summary.checked} links: ${problems} broken, ${summary.counts.redirected} redirected`,
+      type: problems > 0 ? 'error' : 'success',
+    });
+  }
+
+  private static async ensureAlarm(): Promise<void> {
+    if (!(await chrome.alarms.get(this.ALARM_NAME))) {
+      await chrome.alarms.create(this.ALARM_NAME, { periodInMinutes: this.PERIOD_MINUTES });
+    }
+  }
+}
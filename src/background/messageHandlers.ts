@@ -0,0 +1,105 @@
+import { BookmarkNode } from '@/types/bookmark';
+import { AccessLogService } from '@/services/accessLogService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { NativeSyncService } from '@/services/nativeSyncService';
+import { OrgRegistryService } from '@/services/orgRegistryService';
+import { WorkflowService } from '@/services/workflowService';
+import { MessageHandlers } from '@/services/messageRouter';
+import { BackupScheduler } from '@/background/backupScheduler';
+import { BookmarkActionRunner } from '@/background/bookmarkActionRunner';
+import { LinkHealthScanner } from '@/background/linkHealthScanner';
+import { RecordingKeeper } from '@/background/recordingKeeper';
+import { SearchIndexer } from '@/background/searchIndexer';
+
+// Flattens Chrome's own bookmark tree into bookmark nodes for GET_BOOKMARKS
+async function getSystemBookmarks(): Promise<BookmarkNode[]> {
+  const tree = await chrome.bookmarks.getTree();
+  const flat: BookmarkNode[] = [];
+
+  const walk = (nodes: chrome.bookmarks.BookmarkTreeNode[]) => {
+    for (const node of nodes) {
+      if (node.url) {
+        flat.push({
+          id: node.id,
+          type: 'bookmark',
+          title: node.title,
+          url: node.url,
+          parentId: null,
+          createdAt: new Date(node.dateAdded ?? Date.now()).toISOString(),
+        });
+      }
+      if (node.children) {
+        walk(node.children);
+      }
+    }
+  };
+
+  walk(tree);
+  return flat;
+}
+
+// Request and response shapes for each message live in src/services/messageProtocol.ts
+export const messageHandlers: MessageHandlers = {
+  GET_BOOKMARKS: async ({ useSystemBookmarks }) => {
+    if (useSystemBookmarks) {
+      return { bookmarks: await getSystemBookmarks() };
+    }
+    const [bookmarks, log] = await Promise.all([BookmarkService.getBookmarks(), AccessLogService.getLog()]);
+    return { bookmarks: AccessLogService.withAccessStats(bookmarks, log) };
+  },
+
+  // The background is the only writer of the access log, so opens from several tabs
+  // and the popup never overwrite each other
+  RECORD_BOOKMARK_ACCESS: async ({ bookmarkId, source, url }) => {
+    await Promise.all([
+      AccessLogService.record(bookmarkId, source),
+      BookmarkActionRunner.arm(bookmarkId, url).catch(error => console.error('Failed to arm bookmark action:', error)),
+    ]);
+    return {};
+  },
+
+  RESET_BOOKMARK_ACCESS: async () => {
+    await AccessLogService.clear();
+    return {};
+  },
+
+  SYNC_NATIVE_BOOKMARKS: async () => {
+    await NativeSyncService.sync();
+    return {};
+  },
+
+  RESOLVE_SYNC_CONFLICT: async ({ localId, keep }) => {
+    await NativeSyncService.resolveConflict(localId, keep);
+    return {};
+  },
+
+  GET_BACKUP_SCHEDULE: () => BackupScheduler.getSchedule(),
+
+  // Answers straight away; checking a whole library takes minutes
+  CHECK_LINKS: async ({ bookmarkIds }) => {
+    if (!(await LinkHealthScanner.hasAccess())) return { started: false };
+    LinkHealthScanner.checkAll(bookmarkIds).catch(error => console.error('Failed to check links:', error));
+    return { started: true };
+  },
+
+  SEARCH_BOOKMARKS: ({ query, limit }) => SearchIndexer.search(query, limit),
+
+  SWITCH_ORG: async ({ orgId }, sender) => ({ tabId: await OrgRegistryService.openInDashboard(orgId, sender.tab?.windowId) }),
+  // Only the top frame's content script claims, so an action runs once per page
+  CLAIM_BOOKMARK_ACTION: async (_payload, sender) => ({
+    claim: sender.tab?.id !== undefined && sender.frameId === 0 && sender.url
+      ? await BookmarkActionRunner.claim(sender.tab.id, sender.url)
+      : null,
+  }),
+  SAVE_WORKFLOW: async ({ workflow }) => ({ id: (await WorkflowService.addWorkflow(workflow)).id }),
+  // The recorder bar is only shown in the top frame
+  KEEP_WORKFLOW_RECORDING: async ({ recording }, sender) => {
+    if (sender.tab?.id !== undefined && sender.frameId === 0) await RecordingKeeper.keep(sender.tab.id, recording);
+    return {};
+  },
+  RESUME_WORKFLOW_RECORDING: async (_payload, sender) => ({
+    recording: sender.tab?.id !== undefined && sender.frameId === 0 && sender.url
+      ? await RecordingKeeper.resume(sender.tab.id, sender.url)
+      : null,
+  }),
+};
@@ -0,0 +1,52 @@
+import { WorkflowRecording } from '@/types/workflow';
+import { workflowRecordingSchema } from '@/services/storageSchema';
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keeps the workflow being recorded in each tab, so that a full page load, which ends the
+ * content script, does not end the recording. The recording page sends it after every step;
+ * the next page loaded in the tab resumes it if it is on the same site. Recordings are kept in
+ * chrome.storage.session, which outlasts the worker going idle between pages but not the
+ * browser, and where pages cannot read or change them.
+ */
+export class RecordingKeeper {
+  private static readonly KEY_PREFIX = 'workflowRecording:';
+
+  // Registers listeners (synchronously, so Chrome wakes the worker for them)
+  static start(): void {
+    chrome.tabs.onRemoved.addListener(tabId => {
+      this.keep(tabId, null).catch(error => console.error('Failed to drop a closed tab\'s workflow recording:', error));
+    });
+  }
+
+  // Stores the tab's recording, or drops it for null
+  static async keep(tabId: number, recording: WorkflowRecording | null): Promise<void> {
+    const key = this.KEY_PREFIX + tabId;
+    if (recording) await chrome.storage.session.set({ [key]: recording });
+    else await chrome.storage.session.remove(key);
+  }
+
+  /**
+   * The recording kept for a tab, for the page now loaded in it. A page on another site gets
+   * none, and the recording is kept for when the tab comes back to the site it was on.
+   */
+  static async resume(tabId: number, pageUrl: string): Promise<WorkflowRecording | null> {
+    const key = this.KEY_PREFIX + tabId;
+    const result = (await chrome.storage.session.get(key))[key];
+    if (result === undefined) return null;
+    const parsed = workflowRecordingSchema.safeParse(result);
+    if (!parsed.success) {
+      await chrome.storage.session.remove(key);
+      return null;
+    }
+    const origin = originOf(pageUrl);
+    return origin && origin === originOf(parsed.data.lastUrl) ? parsed.data : null;
+  }
+}
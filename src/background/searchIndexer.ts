@@ -0,0 +1,79 @@
+import { BookmarkCategory } from '@/types/bookmark';
+import { BookmarkSearchPage } from '@/types/searchQuery';
+import { AccessLogService } from '@/services/accessLogService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { StorageService } from '@/services/storageService';
+import { SearchQueryService } from '@/services/searchQueryService';
+import { BookmarkSearchIndex, BookmarkSearchService } from '@/services/bookmarkSearchService';
+
+/**
+ * Keeps one search index of the library in the background worker for Command+K and the
+ * bookmark table to query over messaging, so neither builds its own and only the best
+ * results are sent to them. The index is built on the first search after the worker starts
+ * and then updated incrementally whenever bookmarks, opens or categories change.
+ */
+export class SearchIndexer {
+  static readonly WATCHED_KEYS = ['bookmarks', 'bookmarkAccessLog', 'bookmark_categories'];
+  static readonly DEFAULT_LIMIT = 50;
+  private static index: BookmarkSearchIndex | null = null;
+  private static categories: BookmarkCategory[] = [];
+  private static stale = true;
+  private static refreshing: Promise<BookmarkSearchIndex> | null = null;
+
+  // Registers listeners (synchronously, so Chrome wakes the worker for them)
+  static start(): void {
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local' || !this.WATCHED_KEYS.some(key => key in changes)) return;
+      this.stale = true;
+      // Only worth keeping up to date once something has searched
+      if (this.index) this.refresh().catch(error => console.error('Failed to update search index:', error));
+    });
+  }
+
+  static async search(query: string, limit: number = this.DEFAULT_LIMIT): Promise<BookmarkSearchPage> {
+    const index = await this.refresh();
+    const { filter } = SearchQueryService.parse(query, this.categories);
+    return BookmarkSearchService.search(index, filter, { limit });
+  }
+
+  // Drops the index, as when the worker is stopped
+  static reset(): void {
+    this.index = null;
+    this.categories = [];
+    this.stale = true;
+    this.refreshing = null;
+  }
+
+  /**
+   * Returns the index once it reflects storage. Refreshes do not overlap: changes made during
+   * one are picked up by another pass before it resolves.
+   */
+  private static refresh(): Promise<BookmarkSearchIndex> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        while (this.stale || !this.index) {
+          this.stale = false;
+          const [bookmarks, log, categories] = await Promise.all([
+            BookmarkService.getBookmarks(),
+            AccessLogService.getLog(),
+            StorageService.get('bookmark_categories'),
+          ]);
+          const nodes = AccessLogService.withAccessStats(bookmarks, log);
+          this.categories = categories ?? [];
+          if (this.index) {
+            BookmarkSearchService.updateIndex(this.index, nodes, this.categories);
+          } else {
+            this.index = BookmarkSearchService.createIndex(nodes, this.categories);
+          }
+        }
+        return this.index;
+      })().catch(error => {
+        this.stale = true;
+        throw error;
+      }).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+}
@@ -1,7 +1,13 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { toast } from 'react-hot-toast';
 import { useBookmarks } from '@/hooks/useBookmarks';
 import { useCategories } from '@/hooks/useCategories';
+import { StorageService } from '@/services/storageService';
+import { CanonicalUrlService, DEFAULT_URL_PARAM_RULES } from '@/services/canonicalUrlService';
+import { BookmarkActionService } from '@/services/bookmarkActionService';
+import { BookmarkAction } from '@/types/bookmark';
 import { LoadingSpinner } from '../LoadingSpinner';
+import { BookmarkActionEditor } from '../BookmarkActionEditor';
 
 interface AddBookmarkProps {
   onClose: () => void;
@@ -20,19 +26,32 @@ export const AddBookmark: React.FC<AddBookmarkProps> = ({ onClose, parentId = nu
   const [description, setDescription] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [categoryId, setCategoryId] = useState<string>('');
+  const [action, setAction] = useState<BookmarkAction | undefined>(undefined);
   const [showTagSuggestions, setShowTagSuggestions] = useState(false);
+  const [urlRules, setUrlRules] = useState(DEFAULT_URL_PARAM_RULES);
   const tagInputRef = useRef<HTMLInputElement>(null);
 
   // Get all unique tags from existing bookmarks
   const allTags = Array.from(new Set(bookmarks.flatMap(b => b.tags || [])));
 
+  // Existing bookmarks for the same page, or with a near-identical title; shown as a warning only
+  const matches = useMemo(
+    () => CanonicalUrlService.findMatches(url, title, bookmarks, urlRules),
+    [url, title, bookmarks, urlRules],
+  );
+
+  useEffect(() => {
+    CanonicalUrlService.getRules()
+      .then(setUrlRules)
+      .catch(error => console.error('Failed to load URL rules:', error));
+  }, []);
+
   // Key for storing form state
-  const FORM_STATE_KEY = 'addBookmarkFormState';
+  const FORM_STATE_KEY = 'addBookmarkFormState' as const;
 
   // Restore form state on mount
   useEffect(() => {
-    chrome.storage.local.get([FORM_STATE_KEY], (data) => {
-      const saved = data[FORM_STATE_KEY];
+    StorageService.get(FORM_STATE_KEY).then(saved => {
       if (saved) {
         setTitle(saved.title || '');
         setUrl(saved.url || '');
@@ -40,27 +59,27 @@ export const AddBookmark: React.FC<AddBookmarkProps> = ({ onClose, parentId = nu
         setTagInput(saved.tagInput || '');
         setDescription(saved.description || '');
         setCategoryId(saved.categoryId || '');
+        setAction(saved.action);
       }
     });
   }, []);
 
   // Persist form state on change
   useEffect(() => {
-    chrome.storage.local.set({
-      [FORM_STATE_KEY]: {
-        title,
-        url,
-        tags,
-        tagInput,
-        description,
-        categoryId,
-      },
-    });
-  }, [title, url, tags, tagInput, description, categoryId]);
+    StorageService.set(FORM_STATE_KEY, {
+      title,
+      url,
+      tags,
+      tagInput,
+      description,
+      categoryId,
+      action,
+    }).catch(error => console.error('Failed to save form state:', error));
+  }, [title, url, tags, tagInput, description, categoryId, action]);
 
   // Clear form state from storage
   const clearFormState = () => {
-    chrome.storage.local.remove(FORM_STATE_KEY);
+    StorageService.remove(FORM_STATE_KEY).catch(error => console.error('Failed to clear form state:', error));
   };
 
   // Analyze URL and title for smart suggestions
@@ -138,6 +157,14 @@ export const AddBookmark: React.FC<AddBookmarkProps> = ({ onClose, parentId = nu
       finalUrl = 'https://' + finalUrl;
     }
 
+    const { error: actionError, warning } = await BookmarkActionService.prepareToSave(action, finalUrl);
+    if (actionError) {
+      setError(actionError);
+      return;
+    }
+    // The form closes once the bookmark is added, so the warning goes in a toast
+    if (warning) toast.error(warning, { duration: 6000 });
+
     setIsLoading(true);
     try {
       await addBookmarkOrFolder({
@@ -148,12 +175,14 @@ export const AddBookmark: React.FC<AddBookmarkProps> = ({ onClose, parentId = nu
         tags,
         categoryId: categoryId || undefined,
         description: description.trim(),
+        action,
       });
       setUrl('');
       setTitle('');
       setDescription('');
       setTags([]);
       setCategoryId('');
+      setAction(undefined);
       clearFormState();
       if (onBookmarkAdded) onBookmarkAdded();
       onClose();
@@ -249,6 +278,21 @@ export const AddBookmark: React.FC<AddBookmarkProps> = ({ onClose, parentId = nu
             placeholder="https://example.com"
             aria-label="Bookmark URL"
           />
+          {matches.sameUrl.length > 0 && (
+            <div role="status" className="mt-2 p-2 rounded border border-yellow-400 bg-yellow-50 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 text-sm">
+              <div className="font-medium">Already bookmarked:</div>
+              <ul className="mt-1 space-y-0.5">
+                {matches.sameUrl.map(bm => (
+                  <li key={bm.id} className="truncate" title={bm.url}>{bm.title || bm.url}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {matches.similarTitle.length > 0 && (
+            <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Similar titles: {matches.similarTitle.map(bm => bm.title).join(', ')}
+            </div>
+          )}
         </div>
 
         <div>
@@ -344,6 +388,8 @@ export const AddBookmark: React.FC<AddBookmarkProps> = ({ onClose, parentId = nu
           </div>
         </div>
 
+        <BookmarkActionEditor value={action} onChange={setAction} />
+
         {error && (
           <div className="text-red-600 text-sm">{error}</div>
         )}
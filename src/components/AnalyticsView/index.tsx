@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bar, Line, Pie } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend, ArcElement } from 'chart.js';
+import { BookmarkAccessLog, BookmarkCategory, BookmarkNode, DateRange } from '@/types/bookmark';
+import { AccessLogService } from '@/services/accessLogService';
+import { AnalyticsService } from '@/services/analyticsService';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend, ArcElement);
+
+type RangePreset = '7' | '30' | '90' | '365' | 'all' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const ACCENT = 'rgba(99, 102, 241, 0.5)';
+const ACCENT_BORDER = 'rgba(99, 102, 241, 1)';
+const UNCATEGORIZED_COLOR = '#9ca3af';
+
+const barOptions = (horizontal = false) => ({
+  responsive: true,
+  indexAxis: horizontal ? 'y' as const : 'x' as const,
+  plugins: { legend: { display: false }, title: { display: false } },
+  scales: { [horizontal ? 'x' : 'y']: { beginAtZero: true, ticks: { precision: 0 } } },
+});
+
+const ChartCard: React.FC<{ title: string; empty?: boolean; children: React.ReactNode }> = ({ title, empty, children }) => (
+  <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+    <h4 className="text-sm font-medium mb-2">{title}</h4>
+    {empty ? <p className="text-xs text-gray-500 dark:text-gray-400">No data for this range yet.</p> : children}
+  </div>
+);
+
+export const AnalyticsView: React.FC<{ bookmarks: BookmarkNode[]; categories: BookmarkCategory[] }> = ({ bookmarks, categories }) => {
+  const [log, setLog] = useState<BookmarkAccessLog>({ events: [], archived: {} });
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [range, setRange] = useState<DateRange>(() => AnalyticsService.lastDays(30));
+
+  useEffect(() => {
+    AccessLogService.getLog().then(setLog);
+
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes.bookmarkAccessLog) {
+        setLog(changes.bookmarkAccessLog.newValue ?? { events: [], archived: {} });
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const handlePresetChange = (value: RangePreset) => {
+    setPreset(value);
+    if (value === 'all') setRange({ start: '', end: '' });
+    else if (value !== 'custom') setRange(AnalyticsService.lastDays(Number(value)));
+  };
+
+  const stats = useMemo(() => AnalyticsService.computeStats(bookmarks, log, range), [bookmarks, log, range]);
+
+  const totalOpens = Object.values(stats.recentAccesses).reduce((sum, count) => sum + count, 0);
+  const categoryEntries = Object.entries(stats.categories);
+  const categoryFor = (id: string) => categories.find(cat => cat.id === id);
+  const topDomains = AnalyticsService.top(stats.domains, 10);
+  const topTags = AnalyticsService.top(stats.tags, 15);
+  const staleEntries = Object.entries(stats.staleness);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <label htmlFor="analytics-range" className="font-medium">Date range</label>
+        <select
+          id="analytics-range"
+          value={preset}
+          onChange={e => handlePresetChange(e.target.value as RangePreset)}
+          className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        >
+          {RANGE_PRESETS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {preset === 'custom' && (
+          <>
+            <input
+              type="date"
+              value={range.start}
+              max={range.end || undefined}
+              onChange={e => setRange(r => ({ ...r, start: e.target.value }))}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              aria-label="Start date"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={range.end}
+              min={range.start || undefined}
+              onChange={e => setRange(r => ({ ...r, end: e.target.value }))}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              aria-label="End date"
+            />
+          </>
+        )}
+        <span className="text-gray-500 dark:text-gray-400">
+          {totalOpens} open{totalOpens !== 1 ? 's' : ''} · {stats.totalBookmarks} bookmarks
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ChartCard title="Daily opens" empty={totalOpens === 0}>
+          <Line
+            data={{
+              labels: Object.keys(stats.recentAccesses),
+              datasets: [{ label: 'Opens', data: Object.values(stats.recentAccesses), borderColor: ACCENT_BORDER, backgroundColor: ACCENT, tension: 0.2 }],
+            }}
+            options={barOptions()}
+          />
+        </ChartCard>
+        <ChartCard title="Weekly opens" empty={totalOpens === 0}>
+          <Bar
+            data={{
+              labels: Object.keys(stats.weeklyAccesses).map(week => `Week of ${week}`),
+              datasets: [{ label: 'Opens', data: Object.values(stats.weeklyAccesses), backgroundColor: ACCENT, borderColor: ACCENT_BORDER, borderWidth: 1 }],
+            }}
+            options={barOptions()}
+          />
+        </ChartCard>
+        <ChartCard title="Top domains" empty={topDomains.length === 0}>
+          <Bar
+            data={{
+              labels: topDomains.map(([domain]) => domain),
+              datasets: [{ label: 'Opens', data: topDomains.map(([, count]) => count), backgroundColor: ACCENT, borderColor: ACCENT_BORDER, borderWidth: 1 }],
+            }}
+            options={barOptions(true)}
+          />
+        </ChartCard>
+        <ChartCard title="Categories" empty={categoryEntries.length === 0}>
+          <Pie
+            data={{
+              labels: categoryEntries.map(([id]) => categoryFor(id)?.name ?? 'Uncategorized'),
+              datasets: [{
+                data: categoryEntries.map(([, count]) => count),
+                backgroundColor: categoryEntries.map(([id]) => categoryFor(id)?.color ?? UNCATEGORIZED_COLOR),
+                borderWidth: 1,
+              }],
+            }}
+            options={{ responsive: true, plugins: { legend: { position: 'right' }, title: { display: false } } }}
+          />
+        </ChartCard>
+        <ChartCard title="Tag frequency" empty={topTags.length === 0}>
+          <Bar
+            data={{
+              labels: topTags.map(([tag]) => tag),
+              datasets: [{ label: 'Bookmarks', data: topTags.map(([, count]) => count), backgroundColor: ACCENT, borderColor: ACCENT_BORDER, borderWidth: 1 }],
+            }}
+            options={barOptions(true)}
+          />
+        </ChartCard>
+        <ChartCard title="Stale bookmarks (time since last opened)" empty={stats.totalBookmarks === 0}>
+          <Bar
+            data={{
+              labels: staleEntries.map(([bucket]) => bucket),
+              datasets: [{ label: 'Bookmarks', data: staleEntries.map(([, count]) => count), backgroundColor: 'rgba(234, 179, 8, 0.5)', borderColor: 'rgba(234, 179, 8, 1)', borderWidth: 1 }],
+            }}
+            options={barOptions()}
+          />
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { BackupRetentionPolicy, BackupSettings, BackupSnapshotMeta, ParsedBackup, RestoreReport } from '@/types/backup';
+import { BackupService } from '@/services/backupService';
+import { RestoreWizard } from '@/components/RestoreWizard';
+
+const RETENTION_FIELDS: { key: keyof BackupRetentionPolicy; label: string; min: number; title: string }[] = [
+  { key: 'keepLast', label: 'Last', min: 1, title: 'Always keep this many of the newest backups' },
+  { key: 'daily', label: 'Daily', min: 0, title: 'Keep the newest backup of each of this many days' },
+  { key: 'weekly', label: 'Weekly', min: 0, title: 'Keep the newest backup of each of this many weeks' },
+  { key: 'monthly', label: 'Monthly', min: 0, title: 'Keep the newest backup of each of this many months' },
+];
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const describeCounts = ({ counts }: BackupSnapshotMeta) =>
+  `${counts.bookmarks} bookmarks · ${counts.folders} folders · ${counts.categories} categories · ${counts.pages} pages`;
+
+export const BackupHistory: React.FC = () => {
+  const [history, setHistory] = useState<BackupSnapshotMeta[]>([]);
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<{ entry: BackupSnapshotMeta; parsed: ParsedBackup } | null>(null);
+
+  useEffect(() => {
+    BackupService.getHistory().then(setHistory);
+    BackupService.getSettings().then(setSettings);
+
+    // Automatic backups are taken by the background; keep the list live while it is open
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName !== 'local') return;
+      if (changes.backupHistory) setHistory(changes.backupHistory.newValue ?? []);
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const run = async (id: string, action: () => Promise<void>, errorMessage: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(`${errorMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`, { duration: 4000 });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSettingsChange = (next: BackupSettings) => {
+    setSettings(next);
+    BackupService.updateSettings(next).catch(error => {
+      console.error('Failed to save backup settings:', error);
+      toast.error('Failed to save backup settings');
+    });
+  };
+
+  const handleRetentionChange = (key: keyof BackupRetentionPolicy, min: number, value: string) => {
+    if (!settings) return;
+    const parsed = Math.max(min, Math.floor(Number(value) || 0));
+    handleSettingsChange({ ...settings, retention: { ...settings.retention, [key]: parsed } });
+  };
+
+  const handleBackupNow = () => run('new', async () => {
+    await BackupService.run('manual');
+    toast.success('Backup saved ✅', { duration: 3000 });
+  }, 'Failed to create backup');
+
+  // Opens the restore wizard, which shows what the snapshot would change before anything is written
+  const handleRestore = (entry: BackupSnapshotMeta) => run(entry.id, async () => {
+    const document = await BackupService.getSnapshot(entry.id);
+    if (!document) throw new Error('Backup not found');
+    setRestoring({ entry, parsed: { document, legacy: false } });
+  }, 'Failed to open backup');
+
+  const handleRestoreClosed = (report: RestoreReport | null) => {
+    setRestoring(null);
+    // Force a reload to update all views
+    if (report) window.location.reload();
+  };
+
+  const handleDelete = (entry: BackupSnapshotMeta) => {
+    if (!window.confirm(`Delete the backup from ${new Date(entry.createdAt).toLocaleString()}?`)) return;
+    run(entry.id, () => BackupService.delete(entry.id), 'Failed to delete backup');
+  };
+
+  const totalSize = history.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium">🗄️ Backup History</span>
+        <button
+          className="px-2 py-1 text-xs rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+          onClick={handleBackupNow}
+          disabled={busyId !== null}
+          title="Save a snapshot of your bookmarks, categories and pages in the extension"
+        >
+          Back up now
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Automatic and manual backups are kept in the extension. Older ones are removed according to the retention settings below.
+      </p>
+
+      {settings && (
+        <div className="text-xs space-y-2 mb-3">
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="font-medium">Keep:</span>
+            {RETENTION_FIELDS.map(field => (
+              <label key={field.key} className="flex items-center gap-1" title={field.title}>
+                {field.label}
+                <input
+                  type="number"
+                  min={field.min}
+                  className="w-14 px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+                  value={settings.retention[field.key]}
+                  onChange={e => handleRetentionChange(field.key, field.min, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.downloadCopies}
+              onChange={e => handleSettingsChange({ ...settings, downloadCopies: e.target.checked })}
+            />
+            Also save each backup to the downloads folder
+          </label>
+        </div>
+      )}
+
+      {history.length === 0 ? (
+        <div className="text-xs text-gray-500">No backups yet</div>
+      ) : (
+        <>
+          <div className="text-xs text-gray-500 mb-1">
+            {history.length} backup(s) · {formatSize(totalSize)}
+          </div>
+          <ul className="text-xs space-y-1 max-h-64 overflow-y-auto">
+            {history.map(entry => (
+              <li key={entry.id} className="p-2 rounded border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    <span className="ml-2 px-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                      {entry.trigger}
+                    </span>
+                  </div>
+                  <div className="text-gray-500">{formatSize(entry.sizeBytes)} · {describeCounts(entry)}</div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    onClick={() => handleRestore(entry)}
+                    disabled={busyId !== null || restoring !== null}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                    onClick={() => run(entry.id, () => BackupService.download(entry), 'Failed to download backup')}
+                    disabled={busyId !== null}
+                    title="Save this backup to the downloads folder"
+                  >
+                    ⬇
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 disabled:opacity-50"
+                    onClick={() => handleDelete(entry)}
+                    disabled={busyId !== null}
+                    title="Delete this backup"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {restoring && (
+        <RestoreWizard
+          source={`${restoring.entry.trigger} backup · ${describeCounts(restoring.entry)}`}
+          parsed={restoring.parsed}
+          onClose={handleRestoreClosed}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { BookmarkAction } from '@/types/bookmark';
+import { Workflow } from '@/types/workflow';
+import { WorkflowService } from '@/services/workflowService';
+
+interface BookmarkActionEditorProps {
+  value: BookmarkAction | undefined;
+  onChange: (action: BookmarkAction | undefined) => void;
+}
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:text-white';
+
+// Picks what runs on the page after the bookmark opens: nothing, a workflow from settings, or a bookmarklet
+export const BookmarkActionEditor: React.FC<BookmarkActionEditorProps> = ({ value, onChange }) => {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+
+  useEffect(() => {
+    WorkflowService.getWorkflows()
+      .then(setWorkflows)
+      .catch(error => console.error('Failed to load workflows:', error));
+  }, []);
+
+  const handleTypeChange = (type: string) => {
+    if (type === 'workflow') onChange({ type: 'workflow', workflowId: workflows[0]?.id ?? '', params: {} });
+    else if (type === 'bookmarklet') onChange({ type: 'bookmarklet', code: '' });
+    else onChange(undefined);
+  };
+
+  const workflow = value?.type === 'workflow' ? workflows.find(candidate => candidate.id === value.workflowId) : undefined;
+
+  return (
+    <div>
+      <label htmlFor="bookmark-action" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        After opening
+      </label>
+      <select
+        id="bookmark-action"
+        value={value?.type ?? ''}
+        onChange={e => handleTypeChange(e.target.value)}
+        className={inputClass}
+        aria-label="Action after opening"
+      >
+        <option value="">Nothing</option>
+        <option value="workflow" disabled={workflows.length === 0}>Run a workflow</option>
+        <option value="bookmarklet">Run a bookmarklet</option>
+      </select>
+
+      {value?.type === 'workflow' && (
+        <div className="mt-2 space-y-2">
+          <select
+            value={value.workflowId}
+            onChange={e => onChange({ ...value, workflowId: e.target.value, params: {} })}
+            className={inputClass}
+            aria-label="Workflow"
+          >
+            {!workflow && <option value={value.workflowId}>{value.workflowId || 'Choose a workflow'}</option>}
+            {workflows.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+            ))}
+          </select>
+          {workflow && WorkflowService.placeholders(workflow).map(name => (
+            <label key={name} className="flex items-center gap-2 text-sm">
+              <span className="w-24 truncate font-mono text-gray-600 dark:text-gray-400">{name}</span>
+              <input
+                type="text"
+                value={value.params[name] ?? ''}
+                onChange={e => onChange({ ...value, params: { ...value.params, [name]: e.target.value } })}
+                className={inputClass}
+                placeholder={`From ?${name}= in the link`}
+                aria-label={`Workflow parameter ${name}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {value?.type === 'bookmarklet' && (
+        <textarea
+          value={value.code}
+          onChange={e => onChange({ ...value, code: e.target.value })}
+          rows={3}
+          spellCheck={false}
+          className={`${inputClass} font-mono text-xs`}
+          placeholder="javascript:(() => { ... })()"
+          aria-label="Bookmarklet code"
+        />
+      )}
+
+      {value && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Runs once the page has loaded, when you open the bookmark from the extension. Chrome asks you to allow the site when you save.
+        </p>
+      )}
+    </div>
+  );
+};
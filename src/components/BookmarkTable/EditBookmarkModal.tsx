@@ -1,14 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BookmarkNode } from '@/types/bookmark';
+import { toast } from 'react-hot-toast';
+import { BookmarkAction, BookmarkNode } from '@/types/bookmark';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { useCategories } from '@/hooks/useCategories';
 import { useBookmarks } from '@/hooks/useBookmarks';
+import { BookmarkActionService } from '@/services/bookmarkActionService';
+import { BookmarkActionEditor } from '../BookmarkActionEditor';
 
 interface EditBookmarkModalProps {
   open: boolean;
   bookmark: BookmarkNode;
   onClose: () => void;
-  onSave: (data: { title: string; url: string | undefined; categoryId?: string; tags: string[]; description: string }) => Promise<void>;
+  onSave: (data: { title: string; url: string | undefined; categoryId?: string; tags: string[]; description: string; action?: BookmarkAction }) => Promise<void>;
 }
 
 export const EditBookmarkModal: React.FC<EditBookmarkModalProps> = ({
@@ -25,6 +28,7 @@ export const EditBookmarkModal: React.FC<EditBookmarkModalProps> = ({
   const [categoryId, setCategoryId] = useState(bookmark.categoryId || '');
   const [description, setDescription] = useState(bookmark.description || '');
   const [tags, setTags] = useState<string[]>(bookmark.tags || []);
+  const [action, setAction] = useState<BookmarkAction | undefined>(bookmark.action);
   const [tagInput, setTagInput] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const tagInputRef = useRef<HTMLInputElement>(null);
@@ -36,6 +40,7 @@ export const EditBookmarkModal: React.FC<EditBookmarkModalProps> = ({
       setCategoryId(bookmark.categoryId || '');
       setDescription(bookmark.description || '');
       setTags(bookmark.tags || []);
+      setAction(bookmark.action);
     }
   }, [open, bookmark]);
 
@@ -71,12 +76,19 @@ export const EditBookmarkModal: React.FC<EditBookmarkModalProps> = ({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const { error, warning } = await BookmarkActionService.prepareToSave(action, url || bookmark.url);
+    if (error) {
+      toast.error(error, { duration: 4000 });
+      return;
+    }
+    if (warning) toast.error(warning, { duration: 6000 });
     await onSave({ 
       title: title || bookmark.title, 
       url: url || bookmark.url, 
       categoryId: categoryId || undefined,
       tags,
-      description
+      description,
+      action
     });
   };
 
@@ -233,6 +245,8 @@ export const EditBookmarkModal: React.FC<EditBookmarkModalProps> = ({
             </div>
           </div>
 
+          <BookmarkActionEditor value={action} onChange={setAction} />
+
           <div className="flex justify-end gap-3 mt-6">
             <button
               type="button"
@@ -1,69 +1,101 @@
 import React, { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import { useVirtualizer, VirtualItem } from '@tanstack/react-virtual';
 import { PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { EditBookmarkModal } from './EditBookmarkModal';
 import { useCategories } from '@/hooks/useCategories';
-import { BookmarkNode } from '@/types/bookmark';
+import { StorageService } from '@/services/storageService';
+import { BookmarkListMode } from '@/types/storage';
+import { AccessSource, BookmarkAction, BookmarkNode, SearchFilter, SavedFilter } from '@/types/bookmark';
 import { Menu } from '@headlessui/react';
 import { LoadingSpinner } from '../LoadingSpinner';
 import { EmptyState } from '../EmptyState';
+import { ExportDialog } from '@/components/ExportDialog';
+import { toast } from 'react-hot-toast';
+import { MessageService } from '@/services/messageService';
+import { LINK_CHECK_ORIGINS, LinkHealthService } from '@/services/linkHealthService';
+import { LinkHealthFilter } from '@/types/linkHealth';
+import { CanonicalUrlService } from '@/services/canonicalUrlService';
+import { DuplicateMergeService, MERGE_POLICIES, MergeConflictError } from '@/services/duplicateMergeService';
+import { DuplicateGroup, DuplicateTier, MergePolicy, MergeUndo } from '@/types/duplicates';
+import { SearchQueryService } from '@/services/searchQueryService';
+import { SearchQueryInput } from '@/components/SearchQueryInput';
+import { BookmarkSearchPage, BookmarkSearchResult } from '@/types/searchQuery';
+import { BookmarkSearchService } from '@/services/bookmarkSearchService';
+import { HighlightedText } from '@/components/HighlightedText';
+import { UrlTemplateDialog } from '@/components/UrlTemplateDialog';
+import { UrlTemplateService } from '@/services/urlTemplateService';
 
 const ITEMS_PER_PAGE = 10;
+// Height of the scrolling list, and first guesses at row and card heights until they are measured
+const SCROLL_HEIGHT = 600;
+const ROW_HEIGHT_ESTIMATE = 73;
+const CARD_HEIGHT_ESTIMATE = 180;
+// Matches fetched from the search index per query; more than anyone pages through
+const SEARCH_RESULT_LIMIT = 1000;
+
+// Merge modal sections; same-page groups are merged by default, similar titles only when ticked
+const DUPLICATE_TIERS: { tier: DuplicateTier; label: string }[] = [
+  { tier: 'url', label: 'Same page' },
+  { tier: 'title', label: 'Similar titles' },
+];
+
+const groupKey = (group: DuplicateGroup) => DuplicateMergeService.groupKey(group);
+
+const LINK_FILTERS: { value: LinkHealthFilter; label: string }[] = [
+  { value: 'all', label: 'All links' },
+  { value: 'problems', label: 'Broken or redirected' },
+  { value: 'broken', label: 'Broken' },
+  { value: 'unreachable', label: 'Unreachable' },
+  { value: 'redirected', label: 'Redirected' },
+  { value: 'ok', label: 'Working' },
+  { value: 'unchecked', label: 'Not checked' },
+];
+
+// Link column badges; sorting by the column puts the worst links first
+const LINK_BADGES: Record<string, { label: string; className: string; rank: number }> = {
+  broken: { label: 'Broken', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200', rank: 0 },
+  unreachable: { label: 'Unreachable', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200', rank: 1 },
+  redirected: { label: 'Redirected', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200', rank: 2 },
+  ok: { label: 'OK', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200', rank: 3 },
+};
 
 interface BookmarkTableProps {
   bookmarks: BookmarkNode[];
   onUpdate: (id: string, data: Partial<BookmarkNode>) => Promise<void>;
+  onUpdateMany: (ids: string[], changes: Partial<BookmarkNode> | ((node: BookmarkNode) => Partial<BookmarkNode>)) => Promise<void>;
   onDelete: (id: string, silent?: boolean) => Promise<void>;
+  onDeleteMany: (ids: string[]) => Promise<void>;
   onDuplicate: (bookmark: BookmarkNode) => Promise<void>;
   viewMode: 'table' | 'card';
   clearToast: () => void;
   onBatchDeleteWithUndo: (bookmarks: BookmarkNode[]) => Promise<void>;
-}
-
-interface SearchFilter {
-  title: string;
-  url: string;
-  tags: string[];
-  categoryIds: string[];
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  accessCount: {
-    min: string;
-    max: string;
-  };
-}
-
-interface SavedFilter {
-  name: string;
-  filter: SearchFilter;
+  onMergeWithUndo: (undo: MergeUndo, removed: number) => Promise<void>;
+  onOpen?: (id: string, source: AccessSource, url?: string) => void;
 }
 
 export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   bookmarks,
   onUpdate,
+  onUpdateMany,
   onDelete,
+  onDeleteMany,
   onDuplicate,
   viewMode = 'table',
   clearToast,
-  onBatchDeleteWithUndo
+  onBatchDeleteWithUndo,
+  onMergeWithUndo,
+  onOpen
 }, ref) => {
   const { categories, refresh: refreshCategories } = useCategories();
   const safeBookmarks = Array.isArray(bookmarks) ? bookmarks : [];
   const safeCategories = Array.isArray(categories) ? categories : [];
   const [sortKey, setSortKey] = useState<keyof BookmarkNode | 'category'>('title');
+  const [rankByRelevance, setRankByRelevance] = useState(true);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
-  const [searchFilter, setSearchFilter] = useState<SearchFilter>({
-    title: '',
-    url: '',
-    tags: [],
-    categoryIds: ['all'],
-    dateRange: { start: '', end: '' },
-    accessCount: { min: '', max: '' }
-  });
+  const [searchFilter, setSearchFilter] = useState<SearchFilter>({ ...SearchQueryService.emptyFilter(), categoryIds: ['all'] });
   const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
   const [showSaveFilterModal, setShowSaveFilterModal] = useState(false);
   const [filterName, setFilterName] = useState('');
@@ -74,6 +106,8 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   const [bulkTags, setBulkTags] = useState('');
   const [bulkMoveFolderId, setBulkMoveFolderId] = useState('');
   const [editModalOpen, setEditModalOpen] = useState(false);
+  // A URL template bookmark waiting for its variables before it opens
+  const [templateToOpen, setTemplateToOpen] = useState<{ bookmark: BookmarkNode; source: AccessSource } | null>(null);
   const [selectedBookmark, setSelectedBookmark] = useState<BookmarkNode | null>(null);
   const isLoading = false;
   const [columnVisibility, setColumnVisibility] = useState<{ [key: string]: boolean }>({
@@ -86,11 +120,14 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     createdAt: false,
     lastAccessed: false,
     accessCount: false,
+    linkHealth: false,
   });
   const [duplicates, setDuplicates] = useState<string[]>([]);
-  const [duplicateGroups, setDuplicateGroups] = useState<{ url: string, ids: string[] }[]>([]);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
   const [showMergeModal, setShowMergeModal] = useState(false);
-  const [mergeSelections, setMergeSelections] = useState<{ [url: string]: string }>({});
+  const [mergeSelections, setMergeSelections] = useState<{ [group: string]: string }>({});
+  const [mergeIncluded, setMergeIncluded] = useState<{ [group: string]: boolean }>({});
+  const [mergePolicy, setMergePolicy] = useState<MergePolicy>('most-accessed');
   const [mergeTags, setMergeTags] = useState(true);
   const [mergeCategories, setMergeCategories] = useState(true);
   const [mergeDescriptions, setMergeDescriptions] = useState(true);
@@ -103,14 +140,18 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     'createdAt',
     'lastAccessed',
     'accessCount',
+    'linkHealth',
     'actions',
   ];
   const [columnOrder, setColumnOrder] = useState<string[]>(defaultColumnOrder);
   const dragCol = useRef<string | null>(null);
   const [dragOverCol, setDragOverCol] = useState<string | null>(null);
   const [tableZoom, setTableZoom] = useState(1);
+  const [listMode, setListMode] = useState<BookmarkListMode>('pages');
   const [showBulkCategory, setShowBulkCategory] = useState(false);
   const [bulkCategoryId, setBulkCategoryId] = useState('');
+  const [showExport, setShowExport] = useState(false);
+  const [linkFilter, setLinkFilter] = useState<LinkHealthFilter>('all');
 
   // Add a type guard for bookmarks
   function isBookmark(node: BookmarkNode): node is BookmarkNode & { categoryId?: string } {
@@ -118,7 +159,11 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   }
 
   const handleSort = (key: keyof BookmarkNode | 'category') => {
-    if (key === sortKey) {
+    if (rankingByRelevance) {
+      setRankByRelevance(false);
+      setSortKey(key);
+      setSortOrder('asc');
+    } else if (key === sortKey) {
       setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc');
     } else {
       setSortKey(key);
@@ -141,32 +186,25 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
 
   // Load saved filters from storage
   useEffect(() => {
-    chrome.storage.local.get('savedFilters', (data) => {
-      if (data.savedFilters) {
-        setSavedFilters(data.savedFilters);
+    StorageService.get('savedFilters').then(stored => {
+      if (stored) {
+        setSavedFilters(stored);
       }
     });
   }, []);
 
   // Save filters to storage
   useEffect(() => {
-    chrome.storage.local.set({ savedFilters });
+    StorageService.set('savedFilters', savedFilters).catch(error => console.error('Failed to save filters:', error));
   }, [savedFilters]);
 
   // Restore searchFilter and showAdvancedSearch on mount
   useEffect(() => {
-    chrome.storage.local.get(['activeSearchFilter', 'showAdvancedSearch'], (data) => {
+    StorageService.getMany(['activeSearchFilter', 'showAdvancedSearch']).then(data => {
       if (data.activeSearchFilter && typeof data.activeSearchFilter === 'object') {
         setSearchFilter(data.activeSearchFilter);
         // Ensure we show advanced search if there's an active filter
-        const filter = data.activeSearchFilter as SearchFilter;
-        if (Object.values(filter).some(value => {
-          if (Array.isArray(value)) return value.length > 0;
-          if (typeof value === 'object' && value !== null) {
-            return Object.values(value).some(v => v !== '' && v !== 0 && v !== Infinity);
-          }
-          return value !== '';
-        })) {
+        if (!SearchQueryService.isEmpty(data.activeSearchFilter)) {
           setShowAdvancedSearch(true);
         }
       }
@@ -178,93 +216,70 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
 
   // Persist searchFilter and showAdvancedSearch on change
   useEffect(() => {
-    chrome.storage.local.set({ activeSearchFilter: searchFilter, showAdvancedSearch });
+    StorageService.setMany({ activeSearchFilter: searchFilter, showAdvancedSearch })
+      .catch(error => console.error('Failed to save search filter:', error));
   }, [searchFilter, showAdvancedSearch]);
 
-  const filtered = useMemo(() => {
-    return safeBookmarks.filter(bm => {
-      // Basic search term filter
-      if (searchTerm) {
-        const matchesSearch = 
-          (bm.title?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-          (bm.url?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-          (bm.tags && bm.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())));
-        if (!matchesSearch) return false;
-      }
-
-      // Advanced filters
-      if (showAdvancedSearch) {
-        // Title filter
-        if (searchFilter.title && !(bm.title?.toLowerCase() || '').includes(searchFilter.title.toLowerCase())) {
-          return false;
-        }
-
-        // URL filter
-        if (searchFilter.url && !(bm.url?.toLowerCase() || '').includes(searchFilter.url.toLowerCase())) {
-          return false;
-        }
+  // The search box's query, in the same form as the advanced filter
+  const parsedQuery = useMemo(() => SearchQueryService.parse(searchTerm, safeCategories), [searchTerm, safeCategories]);
+  const querySources = useMemo(() => SearchQueryService.sources(safeBookmarks, safeCategories), [safeBookmarks, safeCategories]);
 
-        // Tags filter
-        if (searchFilter.tags.length > 0) {
-          if (searchFilter.tags.includes('empty') && (!bm.tags || bm.tags.length === 0)) {
-            return true;
-          }
-          if (!bm.tags || !searchFilter.tags.some(tag => bm.tags?.includes(tag))) {
-            return false;
-          }
-        }
+  // Typing words ranks by relevance until a column header is clicked
+  const queryWords = parsedQuery.filter.text.join(' ');
 
-        // Category filter
-        if (
-          searchFilter.categoryIds.length > 0 &&
-          !searchFilter.categoryIds.includes('all')
-        ) {
-          if (
-            searchFilter.categoryIds.includes('uncategorized') &&
-            (!bm.categoryId || bm.categoryId === '' || bm.categoryId === 'uncategorized')
-          ) {
-            return true;
-          }
-          if (
-            bm.categoryId &&
-            !searchFilter.categoryIds.includes(bm.categoryId)
-          ) {
-            return false;
-          }
-          if (
-            !searchFilter.categoryIds.includes('uncategorized') &&
-            (!bm.categoryId || bm.categoryId === '' || bm.categoryId === 'uncategorized')
-          ) {
-            return false;
-          }
-        }
-
-        // Date range filter
-        if (searchFilter.dateRange.start || searchFilter.dateRange.end) {
-          const createdAt = new Date(bm.createdAt || '').getTime();
-          const start = searchFilter.dateRange.start ? new Date(searchFilter.dateRange.start).getTime() : 0;
-          const end = searchFilter.dateRange.end ? new Date(searchFilter.dateRange.end).getTime() : Infinity;
-          if (createdAt < start || createdAt > end) {
-            return false;
-          }
-        }
-
-        // Access count filter
-        if (searchFilter.accessCount.min || searchFilter.accessCount.max) {
-          const count = bm.accessCount || 0;
-          const min = searchFilter.accessCount.min ? parseInt(searchFilter.accessCount.min) : 0;
-          const max = searchFilter.accessCount.max ? parseInt(searchFilter.accessCount.max) : Infinity;
-          if (count < min || count > max) {
-            return false;
-          }
-        }
-      }
+  // Words are searched by the background's index, the one Command+K uses: fuzzy over the
+  // weighted fields, best and most used first. Null while the query has no words.
+  const [searchHits, setSearchHits] = useState<BookmarkSearchPage | null>(null);
+  useEffect(() => {
+    if (queryWords === '') {
+      setSearchHits(null);
+      return;
+    }
+    let cancelled = false;
+    MessageService.send('SEARCH_BOOKMARKS', { query: searchTerm, limit: SEARCH_RESULT_LIMIT })
+      .catch(error => {
+        console.error('Failed to search bookmarks:', error);
+        const index = BookmarkSearchService.createIndex(safeBookmarks, safeCategories);
+        return BookmarkSearchService.search(index, parsedQuery.filter, { limit: SEARCH_RESULT_LIMIT });
+      })
+      .then(hits => {
+        if (!cancelled) setSearchHits(hits);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm, queryWords, parsedQuery, safeBookmarks, safeCategories]);
+
+  const searchResults = useMemo(() => {
+    if (!searchHits) {
+      return safeBookmarks
+        .filter(bm => SearchQueryService.matches(bm, parsedQuery.filter))
+        .map(node => ({ node, highlights: {} as BookmarkSearchResult['highlights'] }));
+    }
+    // The table's own copies, which may be newer than the index's
+    const byId = new Map(safeBookmarks.map(bm => [bm.id, bm]));
+    return searchHits.results.flatMap(hit => {
+      const node = byId.get(hit.node.id);
+      return node ? [{ node, highlights: hit.highlights }] : [];
+    });
+  }, [searchHits, safeBookmarks, parsedQuery]);
+  const highlights = useMemo(() => new Map(searchResults.map(result => [result.node.id, result.highlights])), [searchResults]);
+  useEffect(() => {
+    setRankByRelevance(true);
+  }, [queryWords]);
+  const rankingByRelevance = rankByRelevance && queryWords !== '';
 
+  const filtered = useMemo(() => {
+    return searchResults.map(result => result.node).filter(bm => {
+      if (!LinkHealthService.matchesFilter(bm, linkFilter)) return false;
+      // Advanced filters
+      if (showAdvancedSearch && !SearchQueryService.matches(bm, searchFilter)) return false;
       return true;
     });
-  }, [safeBookmarks, searchTerm, showAdvancedSearch, searchFilter]);
+  }, [searchResults, showAdvancedSearch, searchFilter, linkFilter]);
 
   const sorted = useMemo(() => {
+    if (rankingByRelevance) return filtered;
     return [...filtered].sort((a, b) => {
       let valA: any;
       let valB: any;
@@ -286,13 +301,17 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
           valB = new Date(b.createdAt || '').getTime();
           break;
         case 'lastAccessed':
-          valA = new Date(a.lastAccessed || '').getTime();
-          valB = new Date(b.lastAccessed || '').getTime();
+          valA = a.lastAccessed ? new Date(a.lastAccessed).getTime() : 0;
+          valB = b.lastAccessed ? new Date(b.lastAccessed).getTime() : 0;
           break;
         case 'accessCount':
           valA = a.accessCount ?? 0;
           valB = b.accessCount ?? 0;
           break;
+        case 'linkHealth':
+          valA = a.linkHealth ? LINK_BADGES[a.linkHealth.status].rank : Infinity;
+          valB = b.linkHealth ? LINK_BADGES[b.linkHealth.status].rank : Infinity;
+          break;
         default:
           valA = '';
           valB = '';
@@ -301,10 +320,40 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
       if (valA > valB) return sortOrder === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [filtered, sortKey, sortOrder, safeCategories]);
+  }, [filtered, rankingByRelevance, sortKey, sortOrder, safeCategories]);
 
   const totalPages = Math.ceil(sorted.length / ITEMS_PER_PAGE) || 1;
-  const paginated = sorted.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
+  // The rows on screen: one page, or all of them when scrolling, which renders only those in view
+  const paginated = useMemo(
+    () => (listMode === 'scroll' ? sorted : sorted.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE)),
+    [listMode, sorted, currentPage],
+  );
+
+  const tableScrollRef = useRef<HTMLDivElement>(null);
+  const cardScrollRef = useRef<HTMLDivElement>(null);
+  const tableVirtualizer = useVirtualizer({
+    count: listMode === 'scroll' && viewMode === 'table' ? paginated.length : 0,
+    getScrollElement: () => tableScrollRef.current,
+    estimateSize: () => ROW_HEIGHT_ESTIMATE,
+    getItemKey: index => paginated[index].id,
+    overscan: 8,
+  });
+  const cardVirtualizer = useVirtualizer({
+    count: listMode === 'scroll' && viewMode === 'card' ? paginated.length : 0,
+    getScrollElement: () => cardScrollRef.current,
+    estimateSize: () => CARD_HEIGHT_ESTIMATE,
+    getItemKey: index => paginated[index].id,
+    overscan: 4,
+  });
+  const virtualRows = tableVirtualizer.getVirtualItems();
+  const rowsPaddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const rowsPaddingBottom = virtualRows.length > 0 ? tableVirtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+  // A new search or order starts back at the top, as it does at page one
+  useEffect(() => {
+    tableScrollRef.current?.scrollTo({ top: 0 });
+    cardScrollRef.current?.scrollTo({ top: 0 });
+  }, [parsedQuery, searchFilter, linkFilter, sortKey, sortOrder]);
 
   const openEditModal = (bm: BookmarkNode) => {
     if (isBookmark(bm)) {
@@ -318,13 +367,23 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     setSelectedBookmark(null);
   };
 
-  const handleModalSave = async (updated: { title: string; url: string | undefined; categoryId?: string; tags: string[]; description: string }) => {
+  const handleModalSave = async (updated: { title: string; url: string | undefined; categoryId?: string; tags: string[]; description: string; action?: BookmarkAction }) => {
     if (selectedBookmark) {
       await onUpdate(selectedBookmark.id, updated);
       closeEditModal();
     }
   };
 
+  // A URL template asks for its variables instead of opening as it is
+  const handleOpenLink = (e: React.MouseEvent, bookmark: BookmarkNode, source: AccessSource) => {
+    if (UrlTemplateService.isTemplate(bookmark.url)) {
+      e.preventDefault();
+      setTemplateToOpen({ bookmark, source });
+      return;
+    }
+    onOpen?.(bookmark.id, source);
+  };
+
   const handleDelete = async (id: string, silent = false) => {
     const bm = safeBookmarks.find(b => b.id === id);
     if (!bm) return;
@@ -334,21 +393,18 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     await onDelete(id);
   };
 
-  const findDuplicates = () => {
-    const urlMap = new Map<string, string[]>();
-    safeBookmarks.forEach(bm => {
-      if (!urlMap.has(bm.url || '')) urlMap.set(bm.url || '', []);
-      urlMap.get(bm.url || '')!.push(bm.id);
-    });
-    const dups = Array.from(urlMap.values()).filter(ids => ids.length > 1).flat();
-    setDuplicates(dups);
-    // For modal: group by URL
-    const groups = Array.from(urlMap.entries())
-      .filter(([_, ids]) => ids.length > 1)
-      .map(([url, ids]) => ({ url, ids }));
+  const findDuplicates = async () => {
+    const groups = CanonicalUrlService.findDuplicates(safeBookmarks, await CanonicalUrlService.getRules());
+    const samePage = groups.filter(group => group.tier === 'url');
+    const similar = groups.length - samePage.length;
+    setDuplicates(samePage.flatMap(group => group.ids));
     setDuplicateGroups(groups);
-    if (dups.length > 0) {
-      alert('Duplicates found! Highlighted in yellow.');
+    setMergeSelections({});
+    setMergeIncluded(Object.fromEntries(groups.map(group => [groupKey(group), group.tier === 'url'])));
+    if (samePage.length > 0) {
+      alert(`Duplicates found! Highlighted in yellow.${similar > 0 ? ` ${similar} group(s) with similar titles can be reviewed too.` : ''}`);
+    } else if (similar > 0) {
+      alert(`No duplicates found, but ${similar} group(s) have similar titles. Use Review & Merge to check them.`);
     } else {
       alert('No duplicates found.');
     }
@@ -358,86 +414,79 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   const closeMergeModal = () => setShowMergeModal(false);
 
   // Handle selection of which bookmark to keep per group
-  const handleSelectToKeep = (url: string, id: string) => {
-    setMergeSelections(prev => ({ ...prev, [url]: id }));
+  const handleSelectToKeep = (key: string, id: string) => {
+    setMergeSelections(prev => ({ ...prev, [key]: id }));
   };
 
   // Batch delete with undo
   const handleBatchDeleteWithUndo = async (ids: string[]) => {
     clearToast();
     const toDelete = safeBookmarks.filter(b => ids.includes(b.id));
-    // Remove from UI immediately
-    for (const id of ids) {
-      await onDelete(id, true); // Pass silent=true only
-    }
+    // Remove from UI immediately, in a single write
+    await onDeleteMany(ids);
     // Call the parent's batch delete with undo handler
     await onBatchDeleteWithUndo(toDelete);
   };
 
+  // Dry run of the merge, previewed in the modal and applied as-is
+  const mergePlan = useMemo(() => {
+    if (!showMergeModal) return null;
+    const included = duplicateGroups.filter(group => mergeIncluded[groupKey(group)]);
+    return DuplicateMergeService.plan(included, safeBookmarks, {
+      policy: mergePolicy,
+      keepers: mergeSelections,
+      mergeTags,
+      mergeCategories,
+      mergeDescriptions,
+    });
+  }, [showMergeModal, duplicateGroups, mergeIncluded, safeBookmarks, mergePolicy, mergeSelections, mergeTags, mergeCategories, mergeDescriptions]);
+  const mergeSteps = useMemo(() => new Map((mergePlan?.steps ?? []).map(step => [step.groupKey, step])), [mergePlan]);
+  const mergeRemoving = useMemo(() => new Set(mergePlan?.removeIds ?? []), [mergePlan]);
+
   // Handle merge duplicates
   const handleMerge = async () => {
-    // Show a single confirmation dialog before merging
-    const totalToDelete = duplicateGroups.reduce((sum, group) => sum + (group.ids.length - 1), 0);
-    if (!window.confirm(`Are you sure you want to merge and delete ${totalToDelete} duplicate bookmark(s)? This action cannot be undone.`)) {
+    if (!mergePlan || mergePlan.removeIds.length === 0) {
+      toast.error('Tick at least one group to merge');
       return;
     }
-
-    // For each group, keep the selected, merge fields, delete others
-    let allToDelete: string[] = [];
-    for (const group of duplicateGroups) {
-      const toKeepId = mergeSelections[group.url] || group.ids[0];
-      const toDelete = group.ids.filter(id => id !== toKeepId);
-      const bookmarksInGroup = group.ids.map(id => safeBookmarks.find(b => b.id === id)).filter((b): b is typeof safeBookmarks[0] => !!b);
-      if (bookmarksInGroup.length < 2) continue;
-      let merged = { ...bookmarksInGroup.find(b => b.id === toKeepId)! };
-      if (mergeTags) {
-        merged.tags = Array.from(new Set(bookmarksInGroup.flatMap(b => b.tags || [])));
-      }
-      if (mergeCategories) {
-        // Prefer the first non-empty category
-        merged.categoryId = bookmarksInGroup.map(b => b.categoryId).find(Boolean) || merged.categoryId;
-      }
-      if (mergeDescriptions) {
-        // Prefer the longest description
-        merged.description = bookmarksInGroup.map(b => b.description || '').sort((a, b) => b.length - a.length)[0] || merged.description;
+    clearToast();
+    try {
+      const undo = await DuplicateMergeService.apply(mergePlan);
+      await onMergeWithUndo(undo, mergePlan.removeIds.length);
+    } catch (error) {
+      if (error instanceof MergeConflictError) {
+        // The preview follows the library, so it already shows the change
+        toast.error('Some of these bookmarks changed since the preview. Check the merge and try again.');
+        return;
       }
-      await onUpdate(toKeepId, merged);
-      allToDelete = allToDelete.concat(toDelete);
+      console.error('Failed to merge duplicates:', error);
+      toast.error('Failed to merge duplicates');
+      return;
     }
 
-    // Delete all duplicates at once using the batch delete function
-    await handleBatchDeleteWithUndo(allToDelete);
-    
     // Clean up the merge state
     setShowMergeModal(false);
     setDuplicates([]);
     setDuplicateGroups([]);
     setMergeSelections({});
-    setMergeTags(true);
-    setMergeCategories(true);
-    setMergeDescriptions(true);
+    setMergeIncluded({});
   };
 
-  // Persist columnVisibility to chrome.storage.local
+  // Load columnVisibility from storage (PascalCase keys are migrated by StorageService.migrate)
   useEffect(() => {
-    chrome.storage.local.get('columnVisibility', (data) => {
-      if (data.columnVisibility) {
-        // Migrate PascalCase keys to camelCase and ensure boolean values
-        const migrated = Object.fromEntries(
-          Object.entries(data.columnVisibility).map(([k, v]) => [k.charAt(0).toLowerCase() + k.slice(1), Boolean(v)])
-        ) as { [key: string]: boolean };
-        setColumnVisibility(migrated);
-        chrome.storage.local.set({ columnVisibility: migrated });
+    StorageService.get('columnVisibility').then(stored => {
+      if (stored) {
+        setColumnVisibility(stored);
       }
     });
   }, []);
 
-  // Load columnOrder from chrome.storage.local, always fallback to defaultColumnOrder
+  // Load columnOrder from storage, always fallback to defaultColumnOrder
   useEffect(() => {
-    chrome.storage.local.get('columnOrder', (data) => {
-      if (Array.isArray(data.columnOrder) && data.columnOrder.length > 0) {
+    StorageService.get('columnOrder').then(stored => {
+      if (Array.isArray(stored) && stored.length > 0) {
         // Ensure all columns are present
-        const loaded = data.columnOrder.filter(col => defaultColumnOrder.includes(col));
+        const loaded = stored.filter(col => defaultColumnOrder.includes(col));
         const missing = defaultColumnOrder.filter(col => !loaded.includes(col));
         setColumnOrder([...loaded, ...missing]);
       } else {
@@ -445,35 +494,47 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
       }
     });
   }, []);
-  // Save columnOrder to chrome.storage.local
+  // Save columnOrder to storage
   useEffect(() => {
-    chrome.storage.local.set({ columnOrder });
+    StorageService.set('columnOrder', columnOrder).catch(error => console.error('Failed to save column order:', error));
   }, [columnOrder]);
 
-  // Persist sortKey and sortOrder to chrome.storage.local
+  // Persist sortKey and sortOrder to storage
   useEffect(() => {
-    chrome.storage.local.get(['sortKey', 'sortOrder'], (data) => {
-      if (data.sortKey) setSortKey(data.sortKey);
+    StorageService.getMany(['sortKey', 'sortOrder']).then(data => {
+      if (data.sortKey) setSortKey(data.sortKey as keyof BookmarkNode | 'category');
       if (data.sortOrder) setSortOrder(data.sortOrder);
     });
   }, []);
   useEffect(() => {
-    chrome.storage.local.set({ sortKey, sortOrder });
+    StorageService.setMany({ sortKey, sortOrder }).catch(error => console.error('Failed to save sort order:', error));
   }, [sortKey, sortOrder]);
 
   // Load zoom level from storage on mount
   useEffect(() => {
-    chrome.storage.local.get('tableZoom', (data) => {
-      if (typeof data.tableZoom === 'number') {
-        setTableZoom(data.tableZoom);
+    StorageService.get('tableZoom').then(stored => {
+      if (typeof stored === 'number') {
+        setTableZoom(stored);
       }
     });
   }, []);
   // Save zoom level to storage when it changes
   useEffect(() => {
-    chrome.storage.local.set({ tableZoom });
+    StorageService.set('tableZoom', tableZoom).catch(error => console.error('Failed to save zoom level:', error));
   }, [tableZoom]);
 
+  // Load and save whether the list pages or scrolls
+  useEffect(() => {
+    StorageService.get('bookmarkListMode').then(stored => {
+      if (stored) setListMode(stored);
+    });
+  }, []);
+  const changeListMode = (mode: BookmarkListMode) => {
+    setListMode(mode);
+    setCurrentPage(1);
+    StorageService.set('bookmarkListMode', mode).catch(error => console.error('Failed to save list mode:', error));
+  };
+
   // Helper to get column label
   const columnLabels: { [key: string]: string } = {
     title: 'Title',
@@ -484,6 +545,7 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     createdAt: 'Created At',
     lastAccessed: 'Last Accessed',
     accessCount: 'Access Count',
+    linkHealth: 'Link',
     actions: 'Actions',
   };
 
@@ -523,7 +585,7 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   };
 
   // Helper to determine if a column is optional (can be hidden)
-  const optionalColumns = ['category', 'url', 'tags', 'description', 'createdAt', 'lastAccessed', 'accessCount'];
+  const optionalColumns = ['category', 'url', 'tags', 'description', 'createdAt', 'lastAccessed', 'accessCount', 'linkHealth'];
 
   // Compute columns to render: all visible columns except 'actions', then 'actions' last
   const visibleColumns = columnOrder.filter(
@@ -535,10 +597,12 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   const clampZoom = (z: number) => Math.max(0.5, Math.min(2, z));
 
   // Helper to select/deselect all on current page
-  const allOnPageSelected = paginated.every(bm => selectedIds.includes(bm.id));
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const allOnPageSelected = paginated.length > 0 && paginated.every(bm => selectedSet.has(bm.id));
   const handleSelectAll = () => {
     if (allOnPageSelected) {
-      setSelectedIds(selectedIds.filter(id => !paginated.some(bm => bm.id === id)));
+      const onPage = new Set(paginated.map(bm => bm.id));
+      setSelectedIds(selectedIds.filter(id => !onPage.has(id)));
     } else {
       setSelectedIds(Array.from(new Set([...selectedIds, ...paginated.map(bm => bm.id)])));
     }
@@ -547,20 +611,19 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
   };
   const clearSelection = () => setSelectedIds([]);
+  const selectedBookmarks = safeBookmarks.filter(bm => selectedIds.includes(bm.id));
 
   // Bulk action stubs
   const handleBulkDelete = () => {
     if (window.confirm(`Delete ${selectedIds.length} selected bookmarks?`)) {
-      selectedIds.forEach(id => onDelete(id));
+      handleBatchDeleteWithUndo(selectedIds);
       clearSelection();
     }
   };
 
   // Bulk assign category
   const handleBulkAssignCategory = async () => {
-    for (const id of selectedIds) {
-      await onUpdate(id, { categoryId: bulkCategoryId });
-    }
+    await onUpdateMany(selectedIds, { categoryId: bulkCategoryId });
     setShowBulkCategory(false);
     setBulkCategoryId('');
     clearSelection();
@@ -568,12 +631,7 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   // Bulk add tags
   const handleBulkAddTags = async () => {
     const tagsToAdd = bulkTags.split(',').map(t => t.trim()).filter(Boolean);
-    for (const id of selectedIds) {
-      const bm = safeBookmarks.find(b => b.id === id);
-      if (!bm) continue;
-      const newTags = Array.from(new Set([...(bm.tags || []), ...tagsToAdd]));
-      await onUpdate(id, { tags: newTags });
-    }
+    await onUpdateMany(selectedIds, bm => ({ tags: Array.from(new Set([...(bm.tags || []), ...tagsToAdd])) }));
     setShowBulkAddTags(false);
     setBulkTags('');
     clearSelection();
@@ -581,21 +639,56 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
   // Bulk remove tags
   const handleBulkRemoveTags = async () => {
     const tagsToRemove = bulkTags.split(',').map(t => t.trim()).filter(Boolean);
-    for (const id of selectedIds) {
-      const bm = safeBookmarks.find(b => b.id === id);
-      if (!bm) continue;
-      const newTags = (bm.tags || []).filter(tag => !tagsToRemove.includes(tag));
-      await onUpdate(id, { tags: newTags });
-    }
+    await onUpdateMany(selectedIds, bm => ({ tags: (bm.tags || []).filter(tag => !tagsToRemove.includes(tag)) }));
     setShowBulkRemoveTags(false);
     setBulkTags('');
     clearSelection();
   };
   // Bulk move to folder
-  const handleBulkMove = async () => {
-    for (const id of selectedIds) {
-      await onUpdate(id, { parentId: bulkMoveFolderId });
+  // Checks the selected links, or every link not checked lately, in the background
+  const handleCheckLinks = async () => {
+    const bookmarkIds = selectedIds.length > 0 ? selectedIds : undefined;
+    try {
+      // Resolves straight away when access was already granted; must be called from the click
+      const granted = await chrome.permissions.request({ origins: LINK_CHECK_ORIGINS });
+      if (!granted) {
+        toast.error('Checking links needs access to the bookmarked sites');
+        return;
+      }
+      const { started } = await MessageService.send('CHECK_LINKS', { bookmarkIds });
+      if (started) {
+        toast.success(bookmarkIds ? `Checking ${bookmarkIds.length} links...` : 'Checking links not checked in the last week...');
+      }
+    } catch (error) {
+      console.error('Failed to start link check:', error);
+      toast.error('Failed to start the link check');
+    }
+  };
+
+  const handleApplyRedirects = async () => {
+    try {
+      const updated = await LinkHealthService.applyRedirects(selectedIds);
+      toast.success(`Updated ${updated} bookmarks to their new address`);
+      clearSelection();
+    } catch (error) {
+      console.error('Failed to update redirected bookmarks:', error);
+      toast.error('Failed to update redirected bookmarks');
+    }
+  };
+
+  const handleMoveToBroken = async () => {
+    try {
+      const moved = await LinkHealthService.moveToBrokenFolder(selectedIds);
+      toast.success(`Moved ${moved} bookmarks to the ${LinkHealthService.BROKEN_FOLDER_TITLE} folder`);
+      clearSelection();
+    } catch (error) {
+      console.error('Failed to move broken bookmarks:', error);
+      toast.error('Failed to move broken bookmarks');
     }
+  };
+
+  const handleBulkMove = async () => {
+    await onUpdateMany(selectedIds, { parentId: bulkMoveFolderId });
     setShowBulkMove(false);
     setBulkMoveFolderId('');
     clearSelection();
@@ -649,6 +742,181 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
     refreshCategories,
   }));
 
+  const renderCard = (bookmark: BookmarkNode) => (
+    <div key={bookmark.id} className={`rounded-lg shadow p-4 flex flex-col gap-2 ${document.documentElement.classList.contains('dark') ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} ${duplicates.includes(bookmark.id) ? 'ring-2 ring-yellow-500' : ''}`}> 
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={selectedSet.has(bookmark.id)}
+          onChange={() => handleSelectOne(bookmark.id)}
+          className="mr-2 accent-green-600 dark:accent-green-400"
+          aria-label="Select bookmark"
+        />
+        <img src={`https://www.google.com/s2/favicons?domain=${bookmark.url || ''}`} alt="" className="w-4 h-4" />
+        <span className="font-semibold truncate" title={bookmark.title}><HighlightedText text={bookmark.title} ranges={highlights.get(bookmark.id)?.title} /></span>
+      </div>
+      <a href={bookmark.url || ''} target="_blank" rel="noopener noreferrer" onClick={e => handleOpenLink(e, bookmark, 'card')} onAuxClick={e => handleOpenLink(e, bookmark, 'card')} className="text-blue-600 dark:text-blue-400 hover:underline truncate" title={bookmark.url || ''}><HighlightedText text={bookmark.url || ''} ranges={highlights.get(bookmark.id)?.url} /></a>
+      {isBookmark(bookmark) && bookmark.categoryId && (
+        <span className="inline-block px-2 py-1 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100" style={{}}>{safeCategories.find(c => c.id === bookmark.categoryId)?.name || 'Uncategorized'}</span>
+      )}
+      {bookmark.description && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1" title={bookmark.description}><HighlightedText text={bookmark.description} ranges={highlights.get(bookmark.id)?.description} /></div>
+      )}
+      {bookmark.tags && bookmark.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {bookmark.tags.map((tag: string) => (
+            <span key={tag} className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 dark:bg-gray-800 dark:text-indigo-200 rounded-full">{tag}</span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2 mt-2">
+        <button
+          aria-label="Edit bookmark"
+          onClick={() => openEditModal(bookmark)}
+          className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+          title="Edit bookmark"
+        >
+          <PencilIcon className="h-5 w-5" />
+        </button>
+        <button
+          aria-label="Duplicate bookmark"
+          onClick={() => onDuplicate(bookmark)}
+          className="text-green-600 dark:text-green-400 hover:text-green-900 dark:hover:text-green-300"
+          title="Duplicate bookmark"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+            <rect x="7" y="7" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
+            <rect x="3" y="3" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
+          </svg>
+        </button>
+        <button
+          aria-label="Delete bookmark"
+          onClick={() => handleDelete(bookmark.id)}
+          className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
+          title="Delete bookmark"
+        >
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+
+  // virtualRow is set when rows scroll instead of paging, so the virtualizer can measure it
+  const renderRow = (bookmark: BookmarkNode, virtualRow?: VirtualItem) => (
+    <tr
+      key={bookmark.id}
+      data-index={virtualRow?.index}
+      ref={virtualRow ? tableVirtualizer.measureElement : undefined}
+      className={`${document.documentElement.classList.contains('dark') ? 'hover:bg-gray-800' : 'hover:bg-gray-100'} ${duplicates.includes(bookmark.id) ? 'bg-yellow-100 dark:bg-yellow-900' : ''}`}>
+      <td className="px-4 py-4">
+        <input
+          type="checkbox"
+          checked={selectedSet.has(bookmark.id)}
+          onChange={() => handleSelectOne(bookmark.id)}
+          aria-label="Select bookmark"
+          className="accent-green-600 dark:accent-green-400"
+        />
+      </td>
+      {columnsToRender.map((col) => {
+        if (optionalColumns.includes(col) && !columnVisibility[col]) return null;
+        switch (col) {
+          case 'title':
+            return (
+              <td key="title" className="px-6 py-4 whitespace-nowrap max-w-xs truncate" title={bookmark.description || ''}>
+                <div className="flex items-center">
+                  <img src={`https://www.google.com/s2/favicons?domain=${bookmark.url || ''}`} alt="" className="w-4 h-4 mr-2" />
+                  <span className="text-sm font-medium truncate" title={bookmark.title}><HighlightedText text={bookmark.title} ranges={highlights.get(bookmark.id)?.title} /></span>
+                </div>
+                {bookmark.description && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate" title={bookmark.description}><HighlightedText text={bookmark.description} ranges={highlights.get(bookmark.id)?.description} /></div>
+                )}
+              </td>
+            );
+          case 'url':
+            return (
+              <td key="url" className="px-6 py-4 whitespace-nowrap max-w-xs truncate">
+                <a href={bookmark.url || ''} target="_blank" rel="noopener noreferrer" onClick={e => handleOpenLink(e, bookmark, 'popup-table')} onAuxClick={e => handleOpenLink(e, bookmark, 'popup-table')} className="text-sm text-blue-600 dark:text-blue-400 hover:underline truncate block" title={bookmark.url || ''}><HighlightedText text={bookmark.url || ''} ranges={highlights.get(bookmark.id)?.url} /></a>
+              </td>
+            );
+          case 'category':
+            return (
+              <td key="category" className="px-6 py-4 whitespace-nowrap">
+                {isBookmark(bookmark) && (
+                  <span className="inline-block px-2 py-1 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100" style={{}}>
+                    {bookmark.categoryId && bookmark.categoryId !== 'uncategorized'
+                      ? safeCategories.find(c => c.id === bookmark.categoryId)?.name || 'Uncategorized'
+                      : 'Uncategorized'}
+                  </span>
+                )}
+              </td>
+            );
+          case 'tags':
+            return (
+              <td key="tags" className="px-6 py-4 whitespace-nowrap">
+                {bookmark.tags && bookmark.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {bookmark.tags.map((tag: string) => (
+                      <span key={tag} className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 dark:bg-gray-800 dark:text-indigo-200 rounded-full">{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </td>
+            );
+          case 'description':
+            return (
+              <td key="description" className="px-6 py-4 whitespace-nowrap" title={bookmark.description}>{bookmark.description}</td>
+            );
+          case 'createdAt':
+            return (
+              <td key="createdAt" className="px-6 py-4 whitespace-nowrap">{new Date(bookmark.createdAt || '').toLocaleDateString()}</td>
+            );
+          case 'lastAccessed':
+            return (
+              <td key="lastAccessed" className="px-6 py-4 whitespace-nowrap">{bookmark.lastAccessed ? new Date(bookmark.lastAccessed).toLocaleDateString() : 'Never'}</td>
+            );
+          case 'accessCount':
+            return (
+              <td key="accessCount" className="px-6 py-4 whitespace-nowrap">{bookmark.accessCount ?? 0}</td>
+            );
+          case 'linkHealth': {
+            const health = bookmark.linkHealth;
+            if (!health) {
+              return <td key="linkHealth" className="px-6 py-4 whitespace-nowrap text-xs text-gray-400">{isBookmark(bookmark) ? 'Not checked' : ''}</td>;
+            }
+            const badge = LINK_BADGES[health.status];
+            const detail = [
+              health.httpStatus ? `HTTP ${health.httpStatus}` : health.error,
+              `checked ${new Date(health.checkedAt).toLocaleString()}`,
+            ].filter(Boolean).join(', ');
+            return (
+              <td key="linkHealth" className="px-6 py-4 whitespace-nowrap max-w-xs truncate">
+                <span className={`inline-block px-2 py-0.5 text-xs rounded-full ${badge.className}`} title={detail}>{badge.label}</span>
+                {health.finalUrl && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate" title={health.finalUrl}>→ {health.finalUrl}</div>
+                )}
+              </td>
+            );
+          }
+          case 'actions':
+            return (
+              <td key="actions" className="px-6 py-4 whitespace-nowrap text-right min-w-[90px]">
+                <button onClick={() => openEditModal(bookmark)} className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300 mr-4" title="Edit bookmark"><PencilIcon className="h-5 w-5" /></button>
+                <button onClick={() => onDuplicate(bookmark)} className="text-green-600 dark:text-green-400 hover:text-green-900 dark:hover:text-green-300 mr-4" aria-label="Duplicate bookmark" title="Duplicate bookmark">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+                    <rect x="7" y="7" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
+                    <rect x="3" y="3" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
+                  </svg>
+                </button>
+                <button onClick={() => handleDelete(bookmark.id)} className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300" title="Delete bookmark"><TrashIcon className="h-5 w-5" /></button>
+              </td>
+            );
+          default:
+            return null;
+        }
+      })}
+    </tr>
+  );
+
   return (
     <div className="w-full">
       <div className="flex flex-col gap-4">
@@ -821,18 +1089,21 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
             <span className="text-gray-400 dark:text-gray-500 mr-2">
               <svg width="20" height="20" fill="none" viewBox="0 0 24 24"><path stroke="currentColor" strokeWidth="2" d="M21 21l-4.35-4.35m0 0A7.5 7.5 0 1 0 6.5 6.5a7.5 7.5 0 0 0 10.15 10.15Z"/></svg>
             </span>
-            <input
-              type="text"
-              placeholder="Search bookmarks..."
+            <SearchQueryInput
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className={`flex-1 min-w-0 px-3 py-2 border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-green-400 text-base ${
-                document.documentElement.classList.contains('dark')
-                  ? 'text-white placeholder-gray-400'
-                  : 'text-gray-900 placeholder-gray-400'
-              }`}
+              onChange={setSearchTerm}
+              errors={parsedQuery.errors}
+              sources={querySources}
+              placeholder='Search bookmarks... e.g. tag:prod domain:forethought.tech -tag:old "exact phrase"'
             />
           </div>
+          {parsedQuery.errors.length > 0 && (
+            <ul className="mt-1 px-4 text-xs text-red-600 dark:text-red-400" role="alert">
+              {parsedQuery.errors.map(error => (
+                <li key={`${error.start}-${error.message}`}>{searchTerm.slice(error.start, error.end)}: {error.message}</li>
+              ))}
+            </ul>
+          )}
         </div>
 
         {/* Bulk Actions Toolbar */}
@@ -845,10 +1116,30 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
             {safeBookmarks.filter(b => b.type === 'folder').length > 0 && (
               <button className="px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700" onClick={() => setShowBulkMove(true)}>Move to Folder</button>
             )}
+            {selectedBookmarks.some(bm => bm.linkHealth?.status === 'redirected') && (
+              <button className="px-3 py-1 rounded bg-orange-500 text-white hover:bg-orange-600" onClick={handleApplyRedirects} title="Replace each redirected URL with the address it redirects to">
+                Update to Redirect Target
+              </button>
+            )}
+            {selectedBookmarks.some(bm => bm.linkHealth?.status === 'broken' || bm.linkHealth?.status === 'unreachable') && (
+              <button className="px-3 py-1 rounded bg-orange-700 text-white hover:bg-orange-800" onClick={handleMoveToBroken} title={`Move broken links into the "${LinkHealthService.BROKEN_FOLDER_TITLE}" folder`}>
+                Move to {LinkHealthService.BROKEN_FOLDER_TITLE} Folder
+              </button>
+            )}
+            <button className="px-3 py-1 rounded bg-teal-600 text-white hover:bg-teal-700" onClick={() => setShowExport(true)}>Export</button>
             <button className="px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700" onClick={handleBulkDelete}>Delete</button>
             <button className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600" onClick={clearSelection}>Clear</button>
           </div>
         )}
+        {showExport && (
+          <ExportDialog
+            view={sorted}
+            selection={selectedBookmarks}
+            columnOrder={columnOrder}
+            visibleColumns={visibleColumns}
+            onClose={() => setShowExport(false)}
+          />
+        )}
         {/* Bulk Category Modal */}
         {showBulkCategory && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
@@ -975,13 +1266,13 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
               aria-label="Find duplicate bookmarks"
               className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 dark:bg-yellow-900 dark:hover:bg-yellow-800 transition-colors"
               onClick={findDuplicates}
-              title="Find and highlight duplicate bookmarks by URL"
+              title="Find duplicate bookmarks by normalized URL, and bookmarks with similar titles"
             >
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-gray-600 dark:text-yellow-300">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h3.75M9 15h3.75M9 18h3.75m3 .75H18a2.25 2.25 0 0 0 2.25-2.25V6.108c0-1.135-.845-2.098-1.976-2.192a48.424 48.424 0 0 0-1.123-.08m-5.801 0c-.065.21-.1.433-.1.664 0 .414.336.75.75.75h4.5a.75.75 0 0 0 .75-.75 2.25 2.25 0 0 0-.1-.664m-5.8 0A2.251 2.251 0 0 1 13.5 2.25H15c1.012 0 1.867.668 2.15 1.586m-5.8 0c-.376.023-.75.05-1.124.08C9.095 4.01 8.25 4.973 8.25 6.108V8.25m0 0H4.875c-.621 0-1.125.504-1.125 1.125v11.25c0 .621.504 1.125 1.125 1.125h9.75c.621 0 1.125-.504 1.125-1.125V9.375c0-.621-.504-1.125-1.125-1.125H8.25ZM6.75 12h.008v.008H6.75V12Zm0 3h.008v.008H6.75V15Zm0 3h.008v.008H6.75V18Z" />
               </svg>
             </button>
-            {duplicates.length > 0 && (
+            {duplicateGroups.length > 0 && (
               <button
                 className="ml-2 px-3 py-1 rounded bg-yellow-500 text-white hover:bg-yellow-600"
                 onClick={openMergeModal}
@@ -990,6 +1281,42 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
                 Review & Merge Duplicates
               </button>
             )}
+
+            {/* Export button */}
+            <button
+              aria-label="Export bookmarks"
+              className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 transition-colors"
+              onClick={() => setShowExport(true)}
+              title="Export as HTML, Markdown or CSV"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-gray-600 dark:text-gray-200">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" />
+              </svg>
+            </button>
+
+            {/* Link health: check links and filter by the result */}
+            <button
+              aria-label="Check links"
+              className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 transition-colors"
+              onClick={handleCheckLinks}
+              title={selectedIds.length > 0 ? 'Check whether the selected links still work' : 'Check links not checked in the last week'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-gray-600 dark:text-gray-200">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 0 1 1.242 7.244l-4.5 4.5a4.5 4.5 0 0 1-6.364-6.364l1.757-1.757m13.35-.622 1.757-1.757a4.5 4.5 0 0 0-6.364-6.364l-4.5 4.5a4.5 4.5 0 0 0 1.242 7.244" />
+              </svg>
+            </button>
+            <select
+              aria-label="Filter by link status"
+              value={linkFilter}
+              onChange={e => {
+                setLinkFilter(e.target.value as LinkHealthFilter);
+                setCurrentPage(1);
+              }}
+              className="px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              title="Show links by the result of the last link check"
+            >
+              {LINK_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
           </div>
 
           {/* Right side zoom controls */}
@@ -1021,193 +1348,73 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
         </div>
 
         {viewMode === 'card' ? (
-          <div className="flex flex-col gap-3 mt-4">
-            {paginated.map((bookmark) => (
-              <div key={bookmark.id} className={`rounded-lg shadow p-4 flex flex-col gap-2 ${document.documentElement.classList.contains('dark') ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} ${duplicates.includes(bookmark.id) ? 'ring-2 ring-yellow-500' : ''}`}> 
-                <div className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={selectedIds.includes(bookmark.id)}
-                    onChange={() => handleSelectOne(bookmark.id)}
-                    className="mr-2 accent-green-600 dark:accent-green-400"
-                    aria-label="Select bookmark"
-                  />
-                  <img src={`https://www.google.com/s2/favicons?domain=${bookmark.url || ''}`} alt="" className="w-4 h-4" />
-                  <span className="font-semibold truncate" title={bookmark.title}>{bookmark.title}</span>
-                </div>
-                <a href={bookmark.url || ''} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline truncate" title={bookmark.url || ''}>{bookmark.url || ''}</a>
-                {isBookmark(bookmark) && bookmark.categoryId && (
-                  <span className="inline-block px-2 py-1 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100" style={{}}>{safeCategories.find(c => c.id === bookmark.categoryId)?.name || 'Uncategorized'}</span>
-                )}
-                {bookmark.description && (
-                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1" title={bookmark.description}>{bookmark.description}</div>
-                )}
-                {bookmark.tags && bookmark.tags.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mt-1">
-                    {bookmark.tags.map((tag: string) => (
-                      <span key={tag} className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 dark:bg-gray-800 dark:text-indigo-200 rounded-full">{tag}</span>
-                    ))}
-                  </div>
-                )}
-                <div className="flex gap-2 mt-2">
-                  <button
-                    aria-label="Edit bookmark"
-                    onClick={() => openEditModal(bookmark)}
-                    className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
-                    title="Edit bookmark"
+          listMode === 'scroll' ? (
+            <div ref={cardScrollRef} className="mt-4 overflow-y-auto" style={{ maxHeight: SCROLL_HEIGHT }}>
+              <div style={{ height: cardVirtualizer.getTotalSize(), position: 'relative' }}>
+                {cardVirtualizer.getVirtualItems().map(virtualCard => (
+                  <div
+                    key={paginated[virtualCard.index].id}
+                    data-index={virtualCard.index}
+                    ref={cardVirtualizer.measureElement}
+                    className="absolute left-0 right-0 top-0 pb-3"
+                    style={{ transform: `translateY(${virtualCard.start}px)` }}
                   >
-                    <PencilIcon className="h-5 w-5" />
-                  </button>
-                  <button
-                    aria-label="Duplicate bookmark"
-                    onClick={() => onDuplicate(bookmark)}
-                    className="text-green-600 dark:text-green-400 hover:text-green-900 dark:hover:text-green-300"
-                    title="Duplicate bookmark"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
-                      <rect x="7" y="7" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
-                      <rect x="3" y="3" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
-                    </svg>
-                  </button>
-                  <button
-                    aria-label="Delete bookmark"
-                    onClick={() => handleDelete(bookmark.id)}
-                    className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300"
-                    title="Delete bookmark"
-                  >
-                    <TrashIcon className="h-5 w-5" />
-                  </button>
-                </div>
+                    {renderCard(paginated[virtualCard.index])}
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-3 mt-4">
+              {paginated.map(bookmark => renderCard(bookmark))}
+            </div>
+          )
         ) : (
           <div className="overflow-x-auto" style={{ minWidth: 0 }}>
             <div style={{ width: 0, display: 'flex' }}>
               <div style={{ transform: `scale(${tableZoom})`, transformOrigin: 'top left', display: 'inline-block' }}>
-                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                  <thead className={document.documentElement.classList.contains('dark') ? 'bg-gray-800' : 'bg-gray-50'}>
-                    <tr>
-                      <th className="px-4 py-3">
-                        <input
-                          type="checkbox"
-                          checked={allOnPageSelected}
-                          onChange={handleSelectAll}
-                          aria-label="Select all bookmarks on page"
-                          className="accent-green-600 dark:accent-green-400"
-                        />
-                      </th>
-                      {columnsToRender.map((col) => (
-                        <th
-                          key={col}
-                          className={`px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer draggable-col${dragOverCol === col ? ' drag-over' : ''}`}
-                          draggable={col !== 'actions'}
-                          onDragStart={col !== 'actions' ? () => handleDragStart(col) : undefined}
-                          onDragOver={col !== 'actions' ? (e) => handleDragOver(e, col) : undefined}
-                          onDrop={col !== 'actions' ? () => handleDrop(col) : undefined}
-                          onDragEnd={col !== 'actions' ? handleDragEnd : undefined}
-                          onClick={getSortKey(col) ? () => handleSort(getSortKey(col)!) : undefined}
-                          style={{ cursor: col !== 'actions' ? 'move' : 'default' }}
-                        >
-                          {columnLabels[col]} {getSortKey(col) && sortKey === getSortKey(col) && (<span>{sortOrder === 'asc' ? '↑' : '↓'}</span>)}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className={document.documentElement.classList.contains('dark') ? 'bg-gray-900 divide-y divide-gray-700' : 'bg-white divide-y divide-gray-200'}>
-                    {paginated.map((bookmark) => (
-                      <tr key={bookmark.id} className={`${document.documentElement.classList.contains('dark') ? 'hover:bg-gray-800' : 'hover:bg-gray-100'} ${duplicates.includes(bookmark.id) ? 'bg-yellow-100 dark:bg-yellow-900' : ''}`}>
-                        <td className="px-4 py-4">
+                {/* Scrolls inside the zoomed box, so rows are measured and scrolled in unzoomed pixels */}
+                <div ref={tableScrollRef} style={listMode === 'scroll' ? { maxHeight: SCROLL_HEIGHT / tableZoom, overflowY: 'auto' } : undefined}>
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className={`${document.documentElement.classList.contains('dark') ? 'bg-gray-800' : 'bg-gray-50'} ${listMode === 'scroll' ? 'sticky top-0 z-10' : ''}`}>
+                      <tr>
+                        <th className="px-4 py-3">
                           <input
                             type="checkbox"
-                            checked={selectedIds.includes(bookmark.id)}
-                            onChange={() => handleSelectOne(bookmark.id)}
-                            aria-label="Select bookmark"
+                            checked={allOnPageSelected}
+                            onChange={handleSelectAll}
+                            aria-label="Select all bookmarks on page"
                             className="accent-green-600 dark:accent-green-400"
                           />
-                        </td>
-                        {columnsToRender.map((col) => {
-                          if (optionalColumns.includes(col) && !columnVisibility[col]) return null;
-                          switch (col) {
-                            case 'title':
-                              return (
-                                <td key="title" className="px-6 py-4 whitespace-nowrap max-w-xs truncate" title={bookmark.description || ''}>
-                                  <div className="flex items-center">
-                                    <img src={`https://www.google.com/s2/favicons?domain=${bookmark.url || ''}`} alt="" className="w-4 h-4 mr-2" />
-                                    <span className="text-sm font-medium truncate" title={bookmark.title}>{bookmark.title}</span>
-                                  </div>
-                                  {bookmark.description && (
-                                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate" title={bookmark.description}>{bookmark.description}</div>
-                                  )}
-                                </td>
-                              );
-                            case 'url':
-                              return (
-                                <td key="url" className="px-6 py-4 whitespace-nowrap max-w-xs truncate">
-                                  <a href={bookmark.url || ''} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 dark:text-blue-400 hover:underline truncate block" title={bookmark.url || ''}>{bookmark.url || ''}</a>
-                                </td>
-                              );
-                            case 'category':
-                              return (
-                                <td key="category" className="px-6 py-4 whitespace-nowrap">
-                                  {isBookmark(bookmark) && (
-                                    <span className="inline-block px-2 py-1 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100" style={{}}>
-                                      {bookmark.categoryId && bookmark.categoryId !== 'uncategorized'
-                                        ? safeCategories.find(c => c.id === bookmark.categoryId)?.name || 'Uncategorized'
-                                        : 'Uncategorized'}
-                                    </span>
-                                  )}
-                                </td>
-                              );
-                            case 'tags':
-                              return (
-                                <td key="tags" className="px-6 py-4 whitespace-nowrap">
-                                  {bookmark.tags && bookmark.tags.length > 0 && (
-                                    <div className="flex flex-wrap gap-1 mt-1">
-                                      {bookmark.tags.map((tag: string) => (
-                                        <span key={tag} className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 dark:bg-gray-800 dark:text-indigo-200 rounded-full">{tag}</span>
-                                      ))}
-                                    </div>
-                                  )}
-                                </td>
-                              );
-                            case 'description':
-                              return (
-                                <td key="description" className="px-6 py-4 whitespace-nowrap" title={bookmark.description}>{bookmark.description}</td>
-                              );
-                            case 'createdAt':
-                              return (
-                                <td key="createdAt" className="px-6 py-4 whitespace-nowrap">{new Date(bookmark.createdAt || '').toLocaleDateString()}</td>
-                              );
-                            case 'lastAccessed':
-                              return (
-                                <td key="lastAccessed" className="px-6 py-4 whitespace-nowrap">{new Date(bookmark.lastAccessed || '').toLocaleDateString()}</td>
-                              );
-                            case 'accessCount':
-                              return (
-                                <td key="accessCount" className="px-6 py-4 whitespace-nowrap">{bookmark.accessCount ?? 0}</td>
-                              );
-                            case 'actions':
-                              return (
-                                <td key="actions" className="px-6 py-4 whitespace-nowrap text-right min-w-[90px]">
-                                  <button onClick={() => openEditModal(bookmark)} className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300 mr-4" title="Edit bookmark"><PencilIcon className="h-5 w-5" /></button>
-                                  <button onClick={() => onDuplicate(bookmark)} className="text-green-600 dark:text-green-400 hover:text-green-900 dark:hover:text-green-300 mr-4" aria-label="Duplicate bookmark" title="Duplicate bookmark">
-                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
-                                      <rect x="7" y="7" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
-                                      <rect x="3" y="3" width="10" height="10" rx="2" stroke="currentColor" strokeWidth="1.5" fill="none" />
-                                    </svg>
-                                  </button>
-                                  <button onClick={() => handleDelete(bookmark.id)} className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300" title="Delete bookmark"><TrashIcon className="h-5 w-5" /></button>
-                                </td>
-                              );
-                            default:
-                              return null;
-                          }
-                        })}
+                        </th>
+                        {columnsToRender.map((col) => (
+                          <th
+                            key={col}
+                            className={`px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer draggable-col${dragOverCol === col ? ' drag-over' : ''}`}
+                            draggable={col !== 'actions'}
+                            onDragStart={col !== 'actions' ? () => handleDragStart(col) : undefined}
+                            onDragOver={col !== 'actions' ? (e) => handleDragOver(e, col) : undefined}
+                            onDrop={col !== 'actions' ? () => handleDrop(col) : undefined}
+                            onDragEnd={col !== 'actions' ? handleDragEnd : undefined}
+                            onClick={getSortKey(col) ? () => handleSort(getSortKey(col)!) : undefined}
+                            style={{ cursor: col !== 'actions' ? 'move' : 'default' }}
+                          >
+                            {columnLabels[col]} {getSortKey(col) && !rankingByRelevance && sortKey === getSortKey(col) && (<span>{sortOrder === 'asc' ? '↑' : '↓'}</span>)}
+                          </th>
+                        ))}
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
+                    </thead>
+                    <tbody className={document.documentElement.classList.contains('dark') ? 'bg-gray-900 divide-y divide-gray-700' : 'bg-white divide-y divide-gray-200'}>
+                      {listMode === 'scroll' ? (
+                        <>
+                          {rowsPaddingTop > 0 && <tr aria-hidden="true" style={{ height: rowsPaddingTop }} />}
+                          {virtualRows.map(virtualRow => renderRow(paginated[virtualRow.index], virtualRow))}
+                          {rowsPaddingBottom > 0 && <tr aria-hidden="true" style={{ height: rowsPaddingBottom }} />}
+                        </>
+                      ) : paginated.map(bookmark => renderRow(bookmark))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
             </div>
           </div>
@@ -1215,36 +1422,52 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
 
         <div className="flex justify-between items-center">
           <div className="text-sm text-gray-500 dark:text-gray-400">
-            Showing {paginated.length} of {sorted.length} bookmarks
+            {listMode === 'scroll' ? `${sorted.length} bookmarks` : `Showing ${paginated.length} of ${sorted.length} bookmarks`}
+            {searchHits && searchHits.total > searchHits.results.length && (
+              <span> (best {searchHits.results.length} of {searchHits.total} matches)</span>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            <button
-              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-              disabled={currentPage === 1}
-              className={`px-3 py-1 border rounded-lg disabled:opacity-50 transition ${
-                document.documentElement.classList.contains('dark')
-                  ? 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700 disabled:text-gray-500'
-                  : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200 disabled:text-gray-400'
-              }`}
-              title="Previous page"
+            <select
+              aria-label="Show bookmarks in pages or as one scrolling list"
+              value={listMode}
+              onChange={e => changeListMode(e.target.value as BookmarkListMode)}
+              className="px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
             >
-              Previous
-            </button>
-            <span className="text-sm text-gray-500 dark:text-gray-400">
-              Page {currentPage} of {totalPages}
-            </span>
-            <button
-              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-              disabled={currentPage === totalPages}
-              className={`px-3 py-1 border rounded-lg disabled:opacity-50 transition ${
-                document.documentElement.classList.contains('dark')
-                  ? 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700 disabled:text-gray-500'
-                  : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200 disabled:text-gray-400'
-              }`}
-              title="Next page"
-            >
-              Next
-            </button>
+              <option value="pages">Pages</option>
+              <option value="scroll">Scroll</option>
+            </select>
+            {listMode === 'pages' && (
+              <>
+                <button
+                  onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                  disabled={currentPage === 1}
+                  className={`px-3 py-1 border rounded-lg disabled:opacity-50 transition ${
+                    document.documentElement.classList.contains('dark')
+                      ? 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700 disabled:text-gray-500'
+                      : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200 disabled:text-gray-400'
+                  }`}
+                  title="Previous page"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                  disabled={currentPage === totalPages}
+                  className={`px-3 py-1 border rounded-lg disabled:opacity-50 transition ${
+                    document.documentElement.classList.contains('dark')
+                      ? 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700 disabled:text-gray-500'
+                      : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200 disabled:text-gray-400'
+                  }`}
+                  title="Next page"
+                >
+                  Next
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -1258,49 +1481,116 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
         />
       )}
 
+      {templateToOpen && (
+        <UrlTemplateDialog
+          bookmark={templateToOpen.bookmark}
+          source={templateToOpen.source}
+          onOpen={onOpen}
+          onClose={() => setTemplateToOpen(null)}
+        />
+      )}
+
       {showMergeModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
           <div className="bg-white dark:bg-gray-900 rounded-lg shadow-lg p-6 max-w-2xl w-full">
             <h2 className="text-lg font-bold mb-4">Review & Merge Duplicates</h2>
+            <div className="flex items-center gap-2 mb-4 text-sm">
+              <label htmlFor="merge-policy">In every group:</label>
+              <select
+                id="merge-policy"
+                value={mergePolicy}
+                onChange={e => {
+                  setMergePolicy(e.target.value as MergePolicy);
+                  // A policy applies to all groups, so hand-picked keepers are dropped
+                  setMergeSelections({});
+                }}
+                className="rounded border-gray-300 dark:border-gray-600 dark:bg-gray-800 text-sm"
+              >
+                {MERGE_POLICIES.map(policy => (
+                  <option key={policy.value} value={policy.value}>{policy.label}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500">Pick a bookmark below to override a group.</span>
+            </div>
             {duplicateGroups.length === 0 ? (
               <div>No duplicate groups found.</div>
             ) : (
               <div className="space-y-6 max-h-[60vh] overflow-y-auto">
-                {duplicateGroups.map(group => (
-                  <div key={group.url} className="border-b pb-4 mb-4">
-                    <div className="font-semibold mb-2">URL: <span className="text-blue-600 break-all">{group.url}</span></div>
-                    <div className="flex flex-col gap-2">
-                      {group.ids.map(id => {
-                        const bm = safeBookmarks.find(b => b.id === id);
-                        if (!bm) return null;
+                {DUPLICATE_TIERS.map(({ tier, label }) => {
+                  const groups = duplicateGroups.filter(group => group.tier === tier);
+                  if (groups.length === 0) return null;
+                  return (
+                    <div key={tier}>
+                      <h3 className="text-sm font-semibold uppercase text-gray-500 mb-2">{label} ({groups.length})</h3>
+                      {groups.map(group => {
+                        const key = groupKey(group);
+                        const members = group.ids.map(id => safeBookmarks.find(b => b.id === id)).filter((b): b is BookmarkNode => !!b);
+                        if (members.length === 0) return null;
+                        const keeperId = members.some(b => b.id === mergeSelections[key])
+                          ? mergeSelections[key]
+                          : DuplicateMergeService.pickKeeper(members, mergePolicy).id;
+                        const step = mergeSteps.get(key);
                         return (
-                          <label key={id} className={`flex items-start gap-2 p-2 rounded border ${mergeSelections[group.url] === id ? 'border-green-500 bg-green-50 dark:bg-green-900' : 'border-gray-300 dark:border-gray-700'}`}>
-                            <input
-                              type="radio"
-                              name={`keep-${group.url}`}
-                              checked={mergeSelections[group.url] === id || (!mergeSelections[group.url] && group.ids[0] === id)}
-                              onChange={() => handleSelectToKeep(group.url, id)}
-                            />
-                            <div className="flex-1">
-                              <div className="font-medium">{bm.title}</div>
-                              <div className="text-xs text-gray-500">{bm.url}</div>
-                              {bm.tags && bm.tags.length > 0 && (
-                                <div className="flex flex-wrap gap-1 mt-1">
-                                  {bm.tags.map(tag => (
-                                    <span key={tag} className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200 rounded-full">{tag}</span>
-                                  ))}
-                                </div>
-                              )}
-                              {bm.description && (
-                                <div className="text-xs text-gray-400 mt-1">{bm.description}</div>
-                              )}
+                          <div key={key} className={`border-b pb-4 mb-4 ${mergeIncluded[key] ? '' : 'opacity-60'}`}>
+                            <label className="flex items-center gap-2 font-semibold mb-2">
+                              <input
+                                type="checkbox"
+                                checked={!!mergeIncluded[key]}
+                                onChange={e => setMergeIncluded(prev => ({ ...prev, [key]: e.target.checked }))}
+                              />
+                              {tier === 'url' ? 'URL:' : 'Title:'} <span className="text-blue-600 break-all font-normal">{group.key}</span>
+                            </label>
+                            <div className="flex flex-col gap-2">
+                              {members.map(bm => {
+                                const id = bm.id;
+                                return (
+                                  <label key={id} className={`flex items-start gap-2 p-2 rounded border ${keeperId === id ? 'border-green-500 bg-green-50 dark:bg-green-900' : 'border-gray-300 dark:border-gray-700'}`}>
+                                    <input
+                                      type="radio"
+                                      name={`keep-${key}`}
+                                      checked={keeperId === id}
+                                      onChange={() => handleSelectToKeep(key, id)}
+                                    />
+                                    <div className="flex-1">
+                                      <div className="font-medium flex items-center gap-2">
+                                        <span>{bm.title}</span>
+                                        {mergeRemoving.has(id) && (
+                                          <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">Remove</span>
+                                        )}
+                                      </div>
+                                      <div className="text-xs text-gray-500">{bm.url}</div>
+                                      <div className="text-xs text-gray-500">
+                                        Added {new Date(bm.createdAt).toLocaleDateString()} · {bm.accessCount ?? 0} opens
+                                      </div>
+                                      {bm.tags && bm.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                          {bm.tags.map(tag => (
+                                            <span key={tag} className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200 rounded-full">{tag}</span>
+                                          ))}
+                                        </div>
+                                      )}
+                                      {bm.description && (
+                                        <div className="text-xs text-gray-400 mt-1">{bm.description}</div>
+                                      )}
+                                    </div>
+                                  </label>
+                                );
+                              })}
                             </div>
-                          </label>
+                            {step && (
+                              <div className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                                Result: {step.keep.accessCount ?? 0} opens
+                                {step.keep.lastAccessed ? `, last ${new Date(step.keep.lastAccessed).toLocaleDateString()}` : ''}
+                                {step.keep.tags && step.keep.tags.length > 0 ? ` · tags: ${step.keep.tags.join(', ')}` : ''}
+                                {step.keep.description ? ` · description: ${step.keep.description.split(DuplicateMergeService.DESCRIPTION_SEPARATOR).length} part(s)` : ''}
+                              </div>
+                            )}
+                          </div>
                         );
                       })}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
             <div className="flex items-center gap-4 mt-4">
@@ -1314,9 +1604,20 @@ export const BookmarkTable = forwardRef<any, BookmarkTableProps>(({
                 <input type="checkbox" checked={mergeDescriptions} onChange={e => setMergeDescriptions(e.target.checked)} /> Merge descriptions
               </label>
             </div>
+            {mergePlan && (
+              <div className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+                Dry run: {mergePlan.steps.length} group(s) merged, {mergePlan.removeIds.length} bookmark(s) removed. Opens are added up and the merge can be undone.
+              </div>
+            )}
             <div className="flex justify-end gap-2 mt-6">
               <button className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600" onClick={closeMergeModal}>Cancel</button>
-              <button className="px-4 py-2 rounded bg-green-600 text-white hover:bg-green-700" onClick={handleMerge}>Merge Selected</button>
+              <button
+                className="px-4 py-2 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                onClick={handleMerge}
+                disabled={!mergePlan || mergePlan.removeIds.length === 0}
+              >
+                Merge {mergePlan?.removeIds.length ?? 0} Duplicate(s)
+              </button>
             </div>
           </div>
         </div>
@@ -1,5 +1,8 @@
-import React, { useState, useMemo } from 'react';
-import { BookmarkNode } from '@/types/bookmark';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { AccessSource, BookmarkNode } from '@/types/bookmark';
+import { UrlTemplateService } from '@/services/urlTemplateService';
+import { UrlTemplateDialog } from '@/components/UrlTemplateDialog';
 
 interface BookmarkTreeProps {
   bookmarks: BookmarkNode[];
@@ -8,22 +11,52 @@ interface BookmarkTreeProps {
   onRenameFolder: (id: string, newName: string) => Promise<void>;
   onDeleteFolder: (id: string) => Promise<void>;
   onMoveNode: (nodeId: string, newParentId: string | null) => Promise<void>;
+  onOpen?: (id: string, source: AccessSource, url?: string) => void;
 }
 
-interface FolderTreeNode extends BookmarkNode {
-  children: FolderTreeNode[];
-  bookmarks: BookmarkNode[];
+// One visible line of the tree. The root row has no node.
+interface TreeRow {
+  key: string;
+  node: BookmarkNode | null;
+  depth: number;
+  parentKey: string | null;
+  // The folder a drop on this row moves into: the folder itself, or a bookmark's folder
+  dropTargetId: string | null;
 }
 
-// Helper to build a tree from flat list
-function buildTree(nodes: BookmarkNode[], parentId: string | null): FolderTreeNode[] {
-  return nodes
-    .filter(n => n.parentId === parentId && n.type === 'folder')
-    .map(folder => ({
-      ...folder,
-      children: buildTree(nodes, folder.id),
-      bookmarks: nodes.filter(n => n.parentId === folder.id && n.type === 'bookmark'),
-    }));
+const ROOT_KEY = 'root';
+const ROW_HEIGHT = 28;
+// Tallest the tree gets before it scrolls
+const TREE_HEIGHT = 480;
+
+// Flattens the expanded part of the tree into rows, in the order they are drawn: a folder's
+// bookmarks come before its subfolders, and the root's loose bookmarks before any folder
+function flattenTree(nodes: BookmarkNode[], expanded: Record<string, boolean>): TreeRow[] {
+  const folders = new Map<string | null, BookmarkNode[]>();
+  const leaves = new Map<string | null, BookmarkNode[]>();
+  nodes.forEach(node => {
+    const groups = node.type === 'folder' ? folders : leaves;
+    const siblings = groups.get(node.parentId) ?? [];
+    siblings.push(node);
+    groups.set(node.parentId, siblings);
+  });
+
+  const rows: TreeRow[] = [{ key: ROOT_KEY, node: null, depth: 0, parentKey: null, dropTargetId: null }];
+  (leaves.get(null) ?? []).forEach(bm => {
+    rows.push({ key: bm.id, node: bm, depth: 1, parentKey: ROOT_KEY, dropTargetId: null });
+  });
+  const walk = (parentId: string | null, depth: number) => {
+    (folders.get(parentId) ?? []).forEach(folder => {
+      rows.push({ key: folder.id, node: folder, depth, parentKey: parentId ?? ROOT_KEY, dropTargetId: folder.id });
+      if (!expanded[folder.id]) return;
+      (leaves.get(folder.id) ?? []).forEach(bm => {
+        rows.push({ key: bm.id, node: bm, depth: depth + 1, parentKey: folder.id, dropTargetId: folder.id });
+      });
+      walk(folder.id, depth + 1);
+    });
+  };
+  walk(null, 1);
+  return rows;
 }
 
 export const BookmarkTree: React.FC<BookmarkTreeProps> = ({
@@ -32,14 +65,34 @@ export const BookmarkTree: React.FC<BookmarkTreeProps> = ({
   onSelectFolder,
   onRenameFolder,
   onDeleteFolder,
-  onMoveNode
+  onMoveNode,
+  onOpen
 }) => {
-  const tree = useMemo(() => buildTree(bookmarks, null), [bookmarks]);
   const [expanded, setExpanded] = useState<{ [id: string]: boolean }>({});
-  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const rows = useMemo(() => flattenTree(bookmarks, expanded), [bookmarks, expanded]);
+  const [dragOverId, setDragOverId] = useState<string | null | undefined>(undefined);
   const [draggedId, setDraggedId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  // The row keyboard navigation is on
+  const [activeKey, setActiveKey] = useState<string>(ROOT_KEY);
+  // A URL template bookmark waiting for its variables before it opens
+  const [templateToOpen, setTemplateToOpen] = useState<BookmarkNode | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  });
+
+  const activeIndex = Math.max(0, rows.findIndex(row => row.key === activeKey));
+
+  // Keep the active row in the list when the row under it collapses or is deleted
+  useEffect(() => {
+    if (rows[activeIndex]?.key !== activeKey) setActiveKey(rows[activeIndex]?.key ?? ROOT_KEY);
+  }, [rows, activeIndex, activeKey]);
 
   const toggle = (id: string) => setExpanded(e => ({ ...e, [id]: !e[id] }));
 
@@ -54,6 +107,7 @@ export const BookmarkTree: React.FC<BookmarkTreeProps> = ({
     }
     setEditingId(null);
     setEditValue('');
+    scrollRef.current?.focus();
   };
 
   const handleDelete = async (id: string) => {
@@ -73,101 +127,219 @@ export const BookmarkTree: React.FC<BookmarkTreeProps> = ({
     if (nodeId && nodeId !== targetId) {
       onMoveNode(nodeId, targetId);
     }
-    setDragOverId(null);
+    setDragOverId(undefined);
     setDraggedId(null);
   };
 
-  const renderTree = (folders: FolderTreeNode[]): React.ReactNode => (
-    <ul className="pl-2">
-      {folders.map(folder => (
-        <li key={folder.id}
-          onDragOver={e => handleDragOver(e, folder.id)}
-          onDrop={e => handleDrop(e, folder.id)}
-          style={{ background: dragOverId === folder.id ? '#e0f2fe' : undefined }}
+  const openBookmark = (bm: BookmarkNode) => {
+    if (UrlTemplateService.isTemplate(bm.url)) {
+      setTemplateToOpen(bm);
+      return;
+    }
+    onOpen?.(bm.id, 'tree');
+    window.open(bm.url || '', '_blank', 'noopener,noreferrer');
+  };
+
+  const handleOpenLink = (e: React.MouseEvent, bm: BookmarkNode) => {
+    if (UrlTemplateService.isTemplate(bm.url)) {
+      e.preventDefault();
+      setTemplateToOpen(bm);
+      return;
+    }
+    onOpen?.(bm.id, 'tree');
+  };
+
+  const moveTo = (index: number) => {
+    const row = rows[Math.min(rows.length - 1, Math.max(0, index))];
+    if (!row) return;
+    setActiveKey(row.key);
+    virtualizer.scrollToIndex(rows.indexOf(row), { align: 'auto' });
+  };
+
+  // Arrow keys move and expand like a file tree; Enter selects a folder or opens a bookmark
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editingId) return;
+    const row = rows[activeIndex];
+    if (!row) return;
+    const node = row.node;
+    const folder = node?.type === 'folder' ? node : null;
+    switch (e.key) {
+      case 'ArrowDown':
+        moveTo(activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        moveTo(activeIndex - 1);
+        break;
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(rows.length - 1);
+        break;
+      case 'PageDown':
+        moveTo(activeIndex + Math.floor(TREE_HEIGHT / ROW_HEIGHT));
+        break;
+      case 'PageUp':
+        moveTo(activeIndex - Math.floor(TREE_HEIGHT / ROW_HEIGHT));
+        break;
+      case 'ArrowRight':
+        if (folder && !expanded[folder.id]) toggle(folder.id);
+        else if (folder || !node) moveTo(activeIndex + 1);
+        break;
+      case 'ArrowLeft':
+        if (folder && expanded[folder.id]) toggle(folder.id);
+        else if (row.parentKey) moveTo(rows.findIndex(r => r.key === row.parentKey));
+        break;
+      case 'Enter':
+        if (!node) onSelectFolder(null);
+        else if (folder) onSelectFolder(folder.id);
+        else openBookmark(node);
+        break;
+      case ' ':
+        if (folder) toggle(folder.id);
+        break;
+      case 'F2':
+        if (folder) handleRename(folder.id, folder.title);
+        break;
+      case 'Delete':
+        if (folder) handleDelete(folder.id);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const renderRow = (row: TreeRow) => {
+    const { node } = row;
+    if (!node) {
+      return (
+        <div
+          className={`flex items-center gap-1 cursor-pointer h-full ${selectedFolderId === null ? 'font-bold text-green-600' : ''}`}
+          onClick={() => onSelectFolder(null)}
+        >
+          <span role="img" aria-label="root">🏠</span> Root
+        </div>
+      );
+    }
+    if (node.type === 'folder') {
+      return (
+        <div
+          className={`flex items-center gap-1 cursor-pointer h-full ${selectedFolderId === node.id ? 'font-bold text-green-600' : ''}`}
+          onClick={() => onSelectFolder(node.id)}
         >
-          <div className={`flex items-center gap-1 cursor-pointer ${selectedFolderId === folder.id ? 'font-bold text-green-600' : ''}`}
-            onClick={() => onSelectFolder(folder.id)}>
-            <span onClick={e => { e.stopPropagation(); toggle(folder.id); }} style={{ cursor: 'pointer' }}>
-              {expanded[folder.id] ? '▼' : '▶'}
-            </span>
-            <span role="img" aria-label="folder">📁</span>
-            {editingId === folder.id ? (
-              <input
-                className="px-1 py-0.5 rounded border text-sm"
-                value={editValue}
-                autoFocus
-                onChange={e => setEditValue(e.target.value)}
-                onBlur={() => handleRenameSubmit(folder.id)}
-                onKeyDown={e => { if (e.key === 'Enter') handleRenameSubmit(folder.id); }}
-                style={{ width: 80 }}
-              />
-            ) : (
-              <span>{folder.title}</span>
-            )}
-            <button
-              className="ml-1 text-xs text-blue-500 hover:text-blue-700"
-              title="Rename folder"
-              onClick={e => { e.stopPropagation(); handleRename(folder.id, folder.title); }}
-            >✏️</button>
-            <button
-              className="ml-1 text-xs text-red-500 hover:text-red-700"
-              title="Delete folder"
-              onClick={e => { e.stopPropagation(); handleDelete(folder.id); }}
-            >🗑️</button>
-          </div>
-          {expanded[folder.id] && (
-            <>
-              {folder.bookmarks.length > 0 && (
-                <ul className="pl-6">
-                  {folder.bookmarks.map((bm: BookmarkNode) => (
-                    <li key={bm.id}
-                      onDragOver={e => handleDragOver(e, folder.id)}
-                      onDrop={e => handleDrop(e, folder.id)}
-                      style={{ background: dragOverId === folder.id ? '#e0f2fe' : undefined }}
-                      className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300"
-                    >
-                      <span role="img" aria-label="bookmark">🔖</span>
-                      {bm.title}
-                    </li>
-                  ))}
-                </ul>
-              )}
-              {folder.children.length > 0 && renderTree(folder.children)}
-            </>
+          <span onClick={e => { e.stopPropagation(); toggle(node.id); }} style={{ cursor: 'pointer' }}>
+            {expanded[node.id] ? '▼' : '▶'}
+          </span>
+          <span role="img" aria-label="folder">📁</span>
+          {editingId === node.id ? (
+            <input
+              className="px-1 py-0.5 rounded border text-sm"
+              value={editValue}
+              autoFocus
+              onChange={e => setEditValue(e.target.value)}
+              onBlur={() => handleRenameSubmit(node.id)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleRenameSubmit(node.id);
+                if (e.key === 'Escape') {
+                  setEditingId(null);
+                  scrollRef.current?.focus();
+                }
+              }}
+              style={{ width: 80 }}
+            />
+          ) : (
+            <span className="truncate">{node.title}</span>
           )}
-        </li>
-      ))}
-    </ul>
-  );
-
-  // Root bookmarks (not in any folder)
-  const rootBookmarks = bookmarks.filter(b => b.parentId === null && b.type === 'bookmark');
+          <button
+            className="ml-1 text-xs text-blue-500 hover:text-blue-700"
+            title="Rename folder"
+            tabIndex={-1}
+            onClick={e => { e.stopPropagation(); handleRename(node.id, node.title); }}
+          >✏️</button>
+          <button
+            className="ml-1 text-xs text-red-500 hover:text-red-700"
+            title="Delete folder"
+            tabIndex={-1}
+            onClick={e => { e.stopPropagation(); handleDelete(node.id); }}
+          >🗑️</button>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center gap-1 h-full text-sm text-gray-700 dark:text-gray-300">
+        <span role="img" aria-label="bookmark">🔖</span>
+        <a
+          href={node.url || ''}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:underline truncate"
+          title={node.url || ''}
+          tabIndex={-1}
+          onClick={e => handleOpenLink(e, node)}
+          onAuxClick={e => handleOpenLink(e, node)}
+        >
+          {node.title}
+        </a>
+      </div>
+    );
+  };
 
   return (
-    <div>
+    <>
       <div
-        className={`flex items-center gap-1 cursor-pointer ${selectedFolderId === null ? 'font-bold text-green-600' : ''}`}
-        onClick={() => onSelectFolder(null)}
-        onDragOver={e => handleDragOver(e, null)}
-        onDrop={e => handleDrop(e, null)}
-        style={{ background: dragOverId === null ? '#e0f2fe' : undefined }}
+        ref={scrollRef}
+        role="tree"
+        aria-label="Bookmark folders"
+        tabIndex={0}
+        aria-activedescendant={`tree-row-${rows[activeIndex]?.key ?? ROOT_KEY}`}
+        onKeyDown={handleKeyDown}
+        className="overflow-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-green-400 rounded"
+        style={{ maxHeight: TREE_HEIGHT }}
       >
-        <span role="img" aria-label="root">🏠</span> Root
+        <div style={{ height: virtualizer.getTotalSize(), position: 'relative' }}>
+          {virtualizer.getVirtualItems().map(item => {
+            const row = rows[item.index];
+            const isFolder = row.node?.type === 'folder';
+            return (
+              <div
+                key={row.key}
+                id={`tree-row-${row.key}`}
+                role="treeitem"
+                aria-level={row.depth + 1}
+                aria-expanded={isFolder ? !!expanded[row.key] : undefined}
+                aria-selected={item.index === activeIndex}
+                draggable={!!row.node}
+                onDragStart={row.node ? () => setDraggedId(row.key) : undefined}
+                onDragOver={e => handleDragOver(e, row.dropTargetId)}
+                onDrop={e => handleDrop(e, row.dropTargetId)}
+                onMouseDown={() => setActiveKey(row.key)}
+                className={item.index === activeIndex ? 'bg-gray-100 dark:bg-gray-800 rounded' : ''}
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  right: 0,
+                  height: ROW_HEIGHT,
+                  transform: `translateY(${item.start}px)`,
+                  paddingLeft: row.depth * 16,
+                  background: dragOverId !== undefined && dragOverId === row.dropTargetId && row.node?.type !== 'bookmark' ? '#e0f2fe' : undefined,
+                }}
+              >
+                {renderRow(row)}
+              </div>
+            );
+          })}
+        </div>
       </div>
-      {rootBookmarks.length > 0 && (
-        <ul className="pl-6">
-          {rootBookmarks.map(bm => (
-            <li key={bm.id}
-              style={{ background: dragOverId === bm.id ? '#e0f2fe' : undefined }}
-              className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300"
-            >
-              <span role="img" aria-label="bookmark">🔖</span>
-              {bm.title}
-            </li>
-          ))}
-        </ul>
+      {templateToOpen && (
+        <UrlTemplateDialog
+          bookmark={templateToOpen}
+          source="tree"
+          onOpen={onOpen}
+          onClose={() => setTemplateToOpen(null)}
+        />
       )}
-      {renderTree(tree)}
-    </div>
+    </>
   );
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import { ExportColumn, ExportFormat, ExportScope, MarkdownGrouping } from '@/types/export';
+import { BookmarkService } from '@/services/bookmarkService';
+import { AccessLogService } from '@/services/accessLogService';
+import { EXPORT_COLUMNS, ExportService, isExportColumn } from '@/services/exportService';
+
+interface ExportDialogProps {
+  view?: BookmarkNode[];       // Rows the bookmark table shows, filtered and sorted
+  selection?: BookmarkNode[];  // Rows selected in the table
+  columnOrder?: string[];      // The table's column order, used for CSV columns
+  visibleColumns?: string[];   // Columns shown in the table, selected for CSV by default
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; title: string }[] = [
+  { value: 'html', label: 'HTML', title: 'Bookmark file that browsers can import' },
+  { value: 'markdown', label: 'Markdown', title: 'Link list for docs and tickets' },
+  { value: 'csv', label: 'CSV', title: 'Spreadsheet with the chosen columns' },
+];
+
+const DEFAULT_COLUMNS: ExportColumn[] = ['title', 'category', 'url'];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ view, selection, columnOrder, visibleColumns, onClose }) => {
+  const [library, setLibrary] = useState<{ nodes: BookmarkNode[]; categories: BookmarkCategory[] } | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('html');
+  const [scope, setScope] = useState<ExportScope>(selection && selection.length > 0 ? 'selection' : view ? 'view' : 'library');
+  const [groupBy, setGroupBy] = useState<MarkdownGrouping>('category');
+  const orderedColumns = useMemo(() => {
+    const ordered = (columnOrder ?? []).filter(isExportColumn);
+    return [...ordered, ...(Object.keys(EXPORT_COLUMNS) as ExportColumn[]).filter(column => !ordered.includes(column))];
+  }, [columnOrder]);
+  const [columns, setColumns] = useState<Set<ExportColumn>>(
+    () => new Set(visibleColumns ? visibleColumns.filter(isExportColumn) : DEFAULT_COLUMNS)
+  );
+
+  useEffect(() => {
+    // Access counts are derived from the access log, as in the table
+    Promise.all([BookmarkService.getBookmarks(), BookmarkService.getCategories(), AccessLogService.getLog()])
+      .then(([nodes, categories, log]) => setLibrary({ nodes: AccessLogService.withAccessStats(nodes, log), categories }))
+      .catch(error => console.error('Failed to load bookmarks for export:', error));
+  }, []);
+
+  const scopes: { value: ExportScope; label: string; nodes: BookmarkNode[] | undefined }[] = [
+    { value: 'library', label: 'Whole library', nodes: library?.nodes },
+    ...(view ? [{ value: 'view' as const, label: 'Current view', nodes: view }] : []),
+    ...(selection ? [{ value: 'selection' as const, label: 'Selected rows', nodes: selection }] : []),
+  ];
+  const chosen = scopes.find(option => option.value === scope)?.nodes ?? [];
+  const count = chosen.filter(node => node.type === 'bookmark').length;
+
+  const render = () => {
+    if (!library) return null;
+    return ExportService.export(format, chosen, library, { groupBy, columns: orderedColumns.filter(column => columns.has(column)) });
+  };
+
+  const handleDownload = () => {
+    const file = render();
+    if (!file) return;
+    const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${count} bookmarks!`, { duration: 3000 });
+    onClose();
+  };
+
+  const handleCopy = async () => {
+    const file = render();
+    if (!file) return;
+    try {
+      await navigator.clipboard.writeText(file.content);
+      toast.success(`Copied ${count} bookmarks to the clipboard`, { duration: 3000 });
+    } catch (error) {
+      console.error('Failed to copy export:', error);
+      toast.error('Failed to copy to the clipboard');
+    }
+  };
+
+  const toggleColumn = (column: ExportColumn, on: boolean) => {
+    setColumns(prev => {
+      const next = new Set(prev);
+      if (on) next.add(column); else next.delete(column);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg shadow-lg p-6 max-w-md w-full text-sm">
+        <h2 className="text-lg font-bold mb-4">Export Bookmarks</h2>
+
+        <div className="mb-3">
+          <div className="font-medium mb-1">Format</div>
+          <div className="flex gap-3">
+            {FORMATS.map(option => (
+              <label key={option.value} className="flex items-center gap-1" title={option.title}>
+                <input type="radio" name="export-format" checked={format === option.value} onChange={() => setFormat(option.value)} />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-3">
+          <div className="font-medium mb-1">Bookmarks</div>
+          <div className="flex flex-wrap gap-3">
+            {scopes.map(option => (
+              <label key={option.value} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                  disabled={option.nodes?.length === 0}
+                />
+                {option.label}
+                {option.nodes && <span className="text-gray-500">({option.nodes.filter(node => node.type === 'bookmark').length})</span>}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {format === 'markdown' && (
+          <label className="flex items-center gap-2 mb-3">
+            <span className="font-medium">Group by</span>
+            <select
+              className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              value={groupBy}
+              onChange={e => setGroupBy(e.target.value as MarkdownGrouping)}
+            >
+              <option value="category">Category</option>
+              <option value="folder">Folder</option>
+            </select>
+          </label>
+        )}
+
+        {format === 'csv' && (
+          <div className="mb-3">
+            <div className="font-medium mb-1">Columns</div>
+            <div className="grid grid-cols-2 gap-1">
+              {orderedColumns.map(column => (
+                <label key={column} className="flex items-center gap-1">
+                  <input type="checkbox" checked={columns.has(column)} onChange={e => toggleColumn(column, e.target.checked)} />
+                  {EXPORT_COLUMNS[column]}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600" onClick={onClose}>Cancel</button>
+          <button
+            className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+            onClick={handleCopy}
+            disabled={!library || count === 0 || (format === 'csv' && columns.size === 0)}
+            title="Copy to the clipboard, e.g. to paste into a doc or ticket"
+          >
+            Copy
+          </button>
+          <button
+            className="px-4 py-2 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+            onClick={handleDownload}
+            disabled={!library || count === 0 || (format === 'csv' && columns.size === 0)}
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
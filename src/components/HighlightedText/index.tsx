@@ -0,0 +1,22 @@
+import React from 'react';
+import { BookmarkSearchService } from '@/services/bookmarkSearchService';
+import { HighlightRange } from '@/types/searchQuery';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: HighlightRange[];
+}
+
+// Text with the parts a search matched marked
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+  return (
+    <>
+      {BookmarkSearchService.segments(text, ranges).map((segment, index) => segment.match ? (
+        <mark key={index} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import { FolderMapping, HtmlImportPlan, ParsedBookmarkFile } from '@/types/import';
+import { BookmarkService } from '@/services/bookmarkService';
+import { HtmlImportService } from '@/services/htmlImportService';
+import { IMPORT_FORMATS } from '@/services/importAdapterService';
+
+interface ImportWizardProps {
+  fileName: string;
+  file: ParsedBookmarkFile;
+  onClose: (result: HtmlImportPlan | null) => void; // result is null when the import was cancelled
+}
+
+const MAPPING_OPTIONS: { value: FolderMapping; label: string }[] = [
+  { value: 'folder', label: 'Folder' },
+  { value: 'category', label: 'Category' },
+  { value: 'tag', label: 'Tag' },
+];
+
+// Rows shown in the preview; the summary still counts everything
+const PREVIEW_LIMIT = 200;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ fileName, file, onClose }) => {
+  const [library, setLibrary] = useState<{ bookmarks: BookmarkNode[]; categories: BookmarkCategory[] } | null>(null);
+  const [mapping, setMapping] = useState<Record<string, FolderMapping>>({});
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+
+  useEffect(() => {
+    Promise.all([BookmarkService.getBookmarks(), BookmarkService.getCategories()])
+      .then(([bookmarks, categories]) => setLibrary({ bookmarks, categories }));
+  }, []);
+
+  const folders = useMemo(() => HtmlImportService.listFolders(file.entries), [file]);
+  const targets = useMemo(() => (library?.bookmarks ?? []).filter(node => node.type === 'folder'), [library]);
+  // Recomputed as the mapping changes, so the summary always matches what Import will do
+  const plan = useMemo(
+    () => library && HtmlImportService.plan(file, mapping, library, { parentId, skipDuplicates }),
+    [file, mapping, library, parentId, skipDuplicates]
+  );
+
+  const setAll = (value: FolderMapping) => setMapping(Object.fromEntries(folders.map(({ folder }) => [folder.id, value])));
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await HtmlImportService.import(file, mapping, { parentId, skipDuplicates });
+      onClose(result);
+    } catch (error) {
+      console.error('Import error:', error);
+      toast.error(`Failed to import bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`, { duration: 4000 });
+      setIsImporting(false);
+    }
+  };
+
+  const newFolders = plan?.nodes.filter(node => node.type === 'folder').length ?? 0;
+  const newBookmarks = (plan?.nodes.length ?? 0) - newFolders;
+  const defaultMapping = file.defaultMapping ?? 'folder';
+
+  // Each link with where it will go, duplicates of links already in the library marked
+  const preview = useMemo(() => {
+    if (!plan || !library) return [];
+    const folderTitles = new Map([...library.bookmarks, ...plan.nodes].filter(node => node.type === 'folder').map(node => [node.id, node.title]));
+    const categoryNames = new Map([...library.categories, ...plan.categories].map(category => [category.id, category.name]));
+    const duplicateUrls = new Set(plan.duplicates.map(entry => entry.url));
+    const added = plan.nodes.filter(node => node.type === 'bookmark').map(node => ({
+      key: node.id,
+      title: node.title,
+      url: node.url ?? '',
+      place: [
+        node.parentId ? `📁 ${folderTitles.get(node.parentId) ?? ''}` : '',
+        node.categoryId ? categoryNames.get(node.categoryId) ?? '' : '',
+        ...(node.tags ?? []).map(tag => `#${tag}`),
+      ].filter(Boolean).join(' · '),
+      duplicate: duplicateUrls.has(node.url ?? ''),
+    }));
+    const skipped = skipDuplicates
+      ? plan.duplicates.map((entry, index) => ({ key: `duplicate-${index}`, title: entry.title, url: entry.url, place: 'Skipped', duplicate: true }))
+      : [];
+    return [...added, ...skipped];
+  }, [plan, library, skipDuplicates]);
+  const shown = duplicatesOnly ? preview.filter(row => row.duplicate) : preview;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <h4 className="font-medium mb-2">Import from {IMPORT_FORMATS[file.format]}</h4>
+      <div className="text-sm space-y-3">
+        <div>
+          <span className="font-medium">File:</span> {fileName}
+          <span className="text-gray-500 text-xs"> — {HtmlImportService.countBookmarks(file.entries)} links{folders.length > 0 && ` in ${folders.length} folders`}</span>
+        </div>
+
+        {folders.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-medium">Import each {file.format === 'raindrop' ? 'collection' : file.format === 'pocket' ? 'list' : 'folder'} as:</span>
+              {MAPPING_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  className="px-2 py-0.5 text-xs rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                  onClick={() => setAll(option.value)}
+                  disabled={isImporting}
+                  title={`Import every folder as a ${option.label.toLowerCase()}`}
+                >
+                  All {option.label.toLowerCase()}s
+                </button>
+              ))}
+            </div>
+            <ul className="text-xs space-y-1 max-h-64 overflow-y-auto">
+              {folders.map(({ folder, depth }) => (
+                <li key={folder.id} className="flex items-center gap-2" style={{ paddingLeft: `${depth * 16}px` }}>
+                  <select
+                    className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+                    value={mapping[folder.id] ?? defaultMapping}
+                    onChange={e => setMapping(prev => ({ ...prev, [folder.id]: e.target.value as FolderMapping }))}
+                    disabled={isImporting}
+                  >
+                    {MAPPING_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                  <span>📁 {folder.title}</span>
+                  <span className="text-gray-500">({HtmlImportService.countBookmarks(folder.children)})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-4 text-xs">
+          <label className="flex items-center gap-2">
+            Place in
+            <select
+              className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+              value={parentId ?? ''}
+              onChange={e => setParentId(e.target.value || null)}
+              disabled={isImporting}
+            >
+              <option value="">Top level</option>
+              {targets.map(folder => <option key={folder.id} value={folder.id}>{folder.title}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} disabled={isImporting} />
+            Skip links already in the library
+          </label>
+        </div>
+
+        {plan && (
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            Adds {newBookmarks} bookmarks, {newFolders} folders and {plan.categories.length} new categories
+            {plan.tags.length > 0 && `, tagging with ${plan.tags.join(', ')}`}.
+            {plan.duplicates.length > 0 && ` ${plan.duplicates.length} links are already in the library${skipDuplicates ? ' and are skipped' : ' and are imported again'}.`}
+            {file.unsupported > 0 && ` ${file.unsupported} links that are not web pages are skipped.`}
+          </div>
+        )}
+
+        {preview.length > 0 && (
+          <div>
+            <div className="flex items-center gap-3 mb-1 text-xs">
+              <span className="font-medium">Preview</span>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={duplicatesOnly} onChange={e => setDuplicatesOnly(e.target.checked)} disabled={!plan?.duplicates.length} />
+                Only duplicates
+              </label>
+            </div>
+            <ul className="text-xs max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+              {shown.slice(0, PREVIEW_LIMIT).map(row => (
+                <li key={row.key} className={`py-1 flex items-start gap-2 ${row.duplicate ? 'text-gray-500' : ''}`}>
+                  {row.duplicate && (
+                    <span className="px-1 rounded bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200" title="This URL is already in the library or earlier in the file">
+                      duplicate
+                    </span>
+                  )}
+                  <div className="min-w-0">
+                    <div className="truncate" title={row.url}>{row.title}</div>
+                    {row.place && <div className="truncate text-gray-500">{row.place}</div>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {shown.length > PREVIEW_LIMIT && <div className="text-xs text-gray-500 mt-1">and {shown.length - PREVIEW_LIMIT} more</div>}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="px-4 py-2 bg-gray-200 dark:bg-gray-700 rounded" onClick={() => onClose(null)} disabled={isImporting}>Cancel</button>
+          <button
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            onClick={handleImport}
+            disabled={isImporting || !plan || plan.nodes.length === 0}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
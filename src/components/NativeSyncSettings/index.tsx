@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { NativeSyncState, SyncConflictResolution, SyncFingerprint } from '@/types/sync';
+import { StorageService } from '@/services/storageService';
+import { MessageService } from '@/services/messageService';
+
+const describe = (side: SyncFingerprint | null) =>
+  side ? `${side.title || '(untitled)'}${side.url ? ` — ${side.url}` : ''}` : 'Deleted';
+
+export const NativeSyncSettings: React.FC = () => {
+  const [enabled, setEnabled] = useState(false);
+  const [state, setState] = useState<NativeSyncState | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    StorageService.getMany(['nativeSyncEnabled', 'nativeSyncState']).then(data => {
+      setEnabled(data.nativeSyncEnabled === true);
+      setState(data.nativeSyncState ?? null);
+    });
+
+    // The background writes the sync state; keep the panel live while it is open
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName !== 'local') return;
+      if (changes.nativeSyncState) setState(changes.nativeSyncState.newValue ?? null);
+      if (changes.nativeSyncEnabled) setEnabled(changes.nativeSyncEnabled.newValue === true);
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const run = async (request: () => Promise<unknown>, successMessage: string) => {
+    setBusy(true);
+    try {
+      await request();
+      toast.success(successMessage, { duration: 3000 });
+    } catch (error) {
+      toast.error(`Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { duration: 4000 });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (value: boolean) => {
+    setEnabled(value);
+    await StorageService.set('nativeSyncEnabled', value);
+  };
+
+  const handleResolve = (localId: string, keep: SyncConflictResolution) =>
+    run(() => MessageService.send('RESOLVE_SYNC_CONFLICT', { localId, keep }), 'Conflict resolved');
+
+  const conflicts = state?.conflicts ?? [];
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <label className="flex items-center justify-between text-sm font-medium mb-2">
+        <span>🔄 Sync with Chrome Bookmarks</span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={e => handleToggle(e.target.checked)}
+          title="Mirror bookmarks into a Forethought Toolbox folder in Chrome's bookmark bar"
+        />
+      </label>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Mirrors folders and bookmarks into a "Forethought Toolbox" folder in the bookmark bar, so they reach your other devices through Chrome sync. Tags, categories and descriptions stay in the extension.
+      </p>
+      {enabled && (
+        <div className="text-xs space-y-2">
+          <div className="flex items-center justify-between">
+            <span>
+              {state?.lastSyncedAt ? `Last synced ${new Date(state.lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+              {state ? ` · ${state.mappings.length} linked` : ''}
+            </span>
+            <button
+              className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              onClick={() => run(() => MessageService.send('SYNC_NATIVE_BOOKMARKS', {}), 'Bookmarks synced')}
+              disabled={busy}
+            >
+              Sync now
+            </button>
+          </div>
+          {state?.lastError && (
+            <pre className="whitespace-pre-wrap text-red-600 dark:text-red-400">{state.lastError}</pre>
+          )}
+          {conflicts.length > 0 && (
+            <div>
+              <div className="font-semibold mb-1">{conflicts.length} conflict(s) — changed in both places</div>
+              <ul className="space-y-2">
+                {conflicts.map(conflict => (
+                  <li key={conflict.localId} className="p-2 rounded border border-yellow-400 dark:border-yellow-600">
+                    <div><span className="font-medium">Extension:</span> {describe(conflict.local)}</div>
+                    <div><span className="font-medium">Chrome:</span> {describe(conflict.native)}</div>
+                    <div className="flex gap-2 mt-1">
+                      <button
+                        className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                        onClick={() => handleResolve(conflict.localId, 'extension')}
+                        disabled={busy}
+                      >
+                        Keep extension
+                      </button>
+                      <button
+                        className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                        onClick={() => handleResolve(conflict.localId, 'chrome')}
+                        disabled={busy}
+                      >
+                        Keep Chrome
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { OrgRegistryService } from '@/services/orgRegistryService';
+import { OrgEntry, OrgEnvironment, OrgImportSummary } from '@/types/org';
+import dashboardOrgs from '@/data/dashboardOrgs.json';
+
+interface OrgRow {
+  key: number; // Stable while the id is being edited
+  id: string;
+  name: string;
+  aliases: string; // Comma-separated while editing
+  environment: OrgEnvironment;
+  favorite: boolean;
+}
+
+// Rows listed at once; the filter narrows the rest down
+const ROWS_SHOWN = 50;
+
+const describeImport = ({ added, renamed, unchanged }: OrgImportSummary): string => {
+  const parts = [`${added} added`];
+  if (renamed > 0) parts.push(`${renamed} already listed under another name, kept as aliases`);
+  if (unchanged > 0) parts.push(`${unchanged} already listed`);
+  return `Orgs imported: ${parts.join(', ')}. Save to keep them.`;
+};
+
+export const OrgRegistrySettings: React.FC = () => {
+  const [rows, setRows] = useState<OrgRow[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const nextKey = useRef(0);
+
+  const toRows = (orgs: OrgEntry[]): OrgRow[] => orgs.map(org => ({
+    key: nextKey.current++,
+    id: String(org.id),
+    name: org.name,
+    aliases: org.aliases.join(', '),
+    environment: org.environment,
+    favorite: org.favorite,
+  }));
+
+  const toEntries = (list: OrgRow[]): OrgEntry[] => list.map(row => ({
+    id: Number(row.id.trim()),
+    name: row.name.trim(),
+    aliases: row.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+    environment: row.environment,
+    favorite: row.favorite,
+  }));
+
+  useEffect(() => {
+    OrgRegistryService.getOrgs()
+      .then(orgs => setRows(toRows(orgs)))
+      .catch(error => console.error('Failed to load orgs:', error));
+  }, []);
+
+  const visible = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    if (!term) return rows;
+    return rows.filter(row => row.id.includes(term) || `${row.name} ${row.aliases}`.toLowerCase().includes(term));
+  }, [rows, filter]);
+
+  const updateRow = (key: number, changes: Partial<OrgRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+    setDirty(true);
+  };
+
+  const removeRow = (key: number) => {
+    setRows(prev => prev.filter(row => row.key !== key));
+    setDirty(true);
+  };
+
+  // Imports are merged into the list being edited and saved with it
+  const importOrgs = (incoming: OrgEntry[]) => {
+    const current = toEntries(rows.filter(row => row.name.trim() && /^\d+$/.test(row.id.trim())));
+    const { orgs, summary } = OrgRegistryService.merge(current, incoming);
+    setRows(toRows(orgs));
+    setDirty(true);
+    toast.success(describeImport(summary), { duration: 4000 });
+  };
+
+  const handleImportDashboardList = () => importOrgs(OrgRegistryService.fromOrgMap(dashboardOrgs));
+
+  const handleImportPasted = () => {
+    try {
+      importOrgs(OrgRegistryService.parseOrgList(pasted));
+      setPasted('');
+      setShowPaste(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the org list', { duration: 4000 });
+    }
+  };
+
+  const handleSave = async () => {
+    const filled = rows.filter(row => row.name.trim() || row.id.trim());
+    const invalid = filled.find(row => !row.name.trim() || !/^\d+$/.test(row.id.trim()));
+    if (invalid) {
+      toast.error(`Every org needs a name and a numeric id${invalid.name.trim() ? ` (check "${invalid.name.trim()}")` : ''}`, { duration: 4000 });
+      return;
+    }
+    const orgs = toEntries(filled);
+    const repeated = orgs.find((org, index) => orgs.findIndex(other => other.id === org.id) !== index);
+    if (repeated) {
+      toast.error(`Org id ${repeated.id} is used more than once`, { duration: 4000 });
+      return;
+    }
+    try {
+      await OrgRegistryService.saveOrgs(orgs);
+      setRows(toRows(await OrgRegistryService.getOrgs()));
+      setDirty(false);
+      toast.success('Orgs saved', { duration: 3000 });
+    } catch (error) {
+      console.error('Failed to save orgs:', error);
+      toast.error('Failed to save orgs', { duration: 4000 });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="text-sm font-medium mb-2">🏢 Dashboard Orgs</div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Type <code>org:</code> in Command+K to find an org by name, alias or id and switch the dashboard to it. Favourites are listed first.
+      </p>
+      <div className="flex flex-wrap gap-2 mb-2 text-xs">
+        <input
+          type="text"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder={`Filter ${rows.length} orgs`}
+          aria-label="Filter orgs"
+          className="flex-1 min-w-0 rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1"
+        />
+        <button
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          onClick={handleImportDashboardList}
+          title="Add the orgs from the dashboard org list that fix_dashboard_orgid.cjs uses"
+        >
+          Import dashboard list
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          onClick={() => setShowPaste(show => !show)}
+        >
+          Paste list…
+        </button>
+      </div>
+      {showPaste && (
+        <div className="mb-2 text-xs">
+          <textarea
+            value={pasted}
+            onChange={e => setPasted(e.target.value)}
+            rows={4}
+            placeholder={'{ "acme": 1234, "acme-sandbox": 1235 }'}
+            aria-label="Org list to import"
+            className="w-full rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1 font-mono"
+          />
+          <button
+            className="mt-1 px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            onClick={handleImportPasted}
+            disabled={!pasted.trim()}
+          >
+            Import
+          </button>
+        </div>
+      )}
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {visible.slice(0, ROWS_SHOWN).map(row => (
+          <div key={row.key} className="flex items-center gap-2 text-xs">
+            <button
+              className={`px-1 ${row.favorite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+              onClick={() => updateRow(row.key, { favorite: !row.favorite })}
+              aria-label={row.favorite ? `Unfavourite ${row.name}` : `Favourite ${row.name}`}
+              aria-pressed={row.favorite}
+            >
+              {row.favorite ? '★' : '☆'}
+            </button>
+            <input
+              type="text"
+              value={row.name}
+              onChange={e => updateRow(row.key, { name: e.target.value })}
+              placeholder="Name"
+              aria-label="Org name"
+              className="flex-1 min-w-0 rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1"
+            />
+            <input
+              type="text"
+              inputMode="numeric"
+              value={row.id}
+              onChange={e => updateRow(row.key, { id: e.target.value })}
+              placeholder="Id"
+              aria-label="Org id"
+              className="w-16 rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1"
+            />
+            <input
+              type="text"
+              value={row.aliases}
+              onChange={e => updateRow(row.key, { aliases: e.target.value })}
+              placeholder="Aliases"
+              aria-label="Aliases"
+              className="flex-1 min-w-0 rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1"
+            />
+            <select
+              value={row.environment}
+              onChange={e => updateRow(row.key, { environment: e.target.value as OrgEnvironment })}
+              aria-label="Environment"
+              className="rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-1 py-1"
+            >
+              <option value="prod">Prod</option>
+              <option value="sandbox">Sandbox</option>
+              <option value="test">Test</option>
+            </select>
+            <button
+              className="px-2 py-1 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900"
+              onClick={() => removeRow(row.key)}
+              aria-label={`Remove ${row.name || 'new org'}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {visible.length > ROWS_SHOWN && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {visible.length - ROWS_SHOWN} more; filter to find them.
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between mt-2 text-xs">
+        <button
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          onClick={() => {
+            setRows(prev => [{ key: nextKey.current++, id: '', name: '', aliases: '', environment: 'prod', favorite: false }, ...prev]);
+            setFilter('');
+            setDirty(true);
+          }}
+        >
+          Add org
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          onClick={handleSave}
+          disabled={!dirty}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
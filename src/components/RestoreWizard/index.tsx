@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ParsedBackup,
+  RestoreChange,
+  RestoreItemDiff,
+  RestoreReport,
+  RestoreSectionPreview,
+  RestoreSettingDiff,
+} from '@/types/backup';
+import { SelectiveRestoreService } from '@/services/selectiveRestoreService';
+
+interface RestoreWizardProps {
+  source: string; // What is being restored, e.g. file names or a backup date
+  parsed: ParsedBackup;
+  onClose: (report: RestoreReport | null) => void; // report is null when nothing was restored
+}
+
+const CHANGE_BADGES: Record<RestoreChange, { symbol: string; className: string; title: string }> = {
+  added: { symbol: '+', className: 'text-green-600', title: 'Only in the backup; restoring brings it back' },
+  removed: { symbol: '−', className: 'text-red-600', title: 'Not in the backup; restoring deletes it' },
+  changed: { symbol: '~', className: 'text-amber-600', title: 'Differs from the backup; restoring reverts it' },
+  unchanged: { symbol: '=', className: 'text-gray-400', title: 'Same as the backup' },
+};
+
+const REPORT_VERBS: Record<RestoreChange, string> = {
+  added: 'Restored',
+  removed: 'Removed',
+  changed: 'Reverted',
+  unchanged: 'Kept',
+};
+
+const STATUS_ICONS = { ok: '✅', unverified: '⚪', corrupted: '❌' };
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '(none)';
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
+
+const isPending = (entry: { change: RestoreChange }) => entry.change !== 'unchanged';
+
+// e.g. "3 bookmarks, 1 category"
+const describeItems = (items: RestoreItemDiff[]) => {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(item.kind, (counts.get(item.kind) ?? 0) + 1));
+  return [...counts].map(([kind, count]) => `${count} ${kind === 'category' && count !== 1 ? 'categories' : `${kind}${count === 1 ? '' : 's'}`}`).join(', ');
+};
+
+const Badge: React.FC<{ change: RestoreChange }> = ({ change }) => (
+  <span className={`font-mono font-bold ${CHANGE_BADGES[change].className}`} title={CHANGE_BADGES[change].title}>
+    {CHANGE_BADGES[change].symbol}
+  </span>
+);
+
+export const RestoreWizard: React.FC<RestoreWizardProps> = ({ source, parsed, onClose }) => {
+  const [sections, setSections] = useState<RestoreSectionPreview[] | null>(null);
+  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const [selectedSettings, setSelectedSettings] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  useEffect(() => {
+    setSections(null);
+    SelectiveRestoreService.preview(parsed)
+      .then(setSections)
+      .catch(error => {
+        console.error('Failed to compare backup:', error);
+        toast.error(`Failed to compare backup: ${error instanceof Error ? error.message : 'Unknown error'}`, { duration: 4000 });
+        onClose(null);
+      });
+  }, [parsed]);
+
+  const allItems = useMemo(() => sections?.flatMap(section => section.items) ?? [], [sections]);
+
+  const toggle = (set: Set<string>, ids: string[], on: boolean) => {
+    const next = new Set(set);
+    ids.forEach(id => (on ? next.add(id) : next.delete(id)));
+    return next;
+  };
+
+  // Picking a deleted category also picks its deleted bookmarks, the usual thing to recover
+  const toggleItem = (item: RestoreItemDiff, on: boolean) => {
+    const related = item.kind === 'category' && item.change === 'added'
+      ? allItems.filter(other => other.categoryId === item.id.slice('bookmark_categories:'.length) && other.change === 'added').map(other => other.id)
+      : [];
+    setSelectedItems(prev => toggle(prev, [item.id, ...related], on));
+  };
+
+  const toggleSection = (section: RestoreSectionPreview, on: boolean) => {
+    setSelectedItems(prev => toggle(prev, section.items.filter(isPending).map(item => item.id), on));
+    setSelectedSettings(prev => toggle(prev, section.settings.filter(isPending).map(setting => setting.key), on));
+  };
+
+  const sectionState = (section: RestoreSectionPreview) => {
+    const ids = [...section.items.filter(isPending).map(item => selectedItems.has(item.id)), ...section.settings.filter(isPending).map(setting => selectedSettings.has(setting.key))];
+    return { total: ids.length, selected: ids.filter(Boolean).length };
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      setReport(await SelectiveRestoreService.apply(parsed, { items: [...selectedItems], settings: [...selectedSettings] }));
+      toast.success('Backup restored!', { duration: 4000 });
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast.error(`Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`, { duration: 4000 });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const selectedCount = selectedItems.size + selectedSettings.size;
+  const manifest = parsed.document.manifest;
+
+  if (report) {
+    const changes: RestoreChange[] = ['added', 'changed', 'removed'];
+    return (
+      <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+        <h4 className="font-medium mb-2">Restore Complete</h4>
+        <div className="text-sm space-y-2">
+          {report.items.length === 0 && report.settings.length === 0 && <div>Nothing changed.</div>}
+          {changes.map(change => {
+            const items = report.items.filter(item => item.change === change);
+            if (items.length === 0) return null;
+            return (
+              <div key={change}>
+                <div className="font-medium"><Badge change={change} /> {REPORT_VERBS[change]} {describeItems(items)}</div>
+                <ul className="pl-4 text-xs text-gray-600 dark:text-gray-400 max-h-32 overflow-y-auto">
+                  {items.map(item => <li key={item.id}>{item.kind}: {item.label}</li>)}
+                </ul>
+              </div>
+            );
+          })}
+          {report.settings.length > 0 && (
+            <div>
+              <div className="font-medium">Replaced {report.settings.length} setting(s)</div>
+              <div className="pl-4 text-xs text-gray-600 dark:text-gray-400">{report.settings.map(setting => setting.key).join(', ')}</div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">The previous data was saved as a restore point.</p>
+          <div className="flex justify-end pt-2">
+            <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700" onClick={() => onClose(report)}>Done</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const renderItem = (item: RestoreItemDiff) => (
+    <li key={item.id}>
+      <label className="flex items-start gap-2">
+        <input type="checkbox" className="mt-0.5" checked={selectedItems.has(item.id)} onChange={e => toggleItem(item, e.target.checked)} disabled={isApplying} />
+        <Badge change={item.change} />
+        <span>
+          <span className="text-gray-500">{item.kind}</span> {item.label}
+          {item.fields.map(field => (
+            <span key={field.field} className="block text-gray-500">
+              {field.field}: {formatValue(field.from)} → {formatValue(field.to)}
+            </span>
+          ))}
+        </span>
+      </label>
+    </li>
+  );
+
+  const renderSetting = (setting: RestoreSettingDiff) => (
+    <li key={setting.key}>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={selectedSettings.has(setting.key)}
+          onChange={e => setSelectedSettings(prev => toggle(prev, [setting.key], e.target.checked))}
+          disabled={isApplying}
+        />
+        <Badge change={setting.change} />
+        <span><span className="text-gray-500">setting</span> {setting.key}</span>
+      </label>
+    </li>
+  );
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <h4 className="font-medium mb-2">Restore Preview</h4>
+      <div className="text-sm space-y-2">
+        <div>
+          <span className="font-medium">From:</span> {source}
+        </div>
+        <div className="text-gray-500 text-xs">
+          Created: {new Date(manifest.createdAt).toLocaleString()}<br />
+          Version: {manifest.extensionVersion ?? 'Unknown version'}
+          {parsed.legacy && ' (older backup format, converted on restore)'}
+        </div>
+        <p className="text-xs text-gray-500">
+          Pick whole sections or single items to restore. Anything not picked is left as it is.
+        </p>
+
+        {!sections ? (
+          <div className="text-xs text-gray-500">Comparing with your current data...</div>
+        ) : (
+          <ul className="space-y-1">
+            {sections.map(section => {
+              const { total, selected } = sectionState(section);
+              const pendingItems = section.items.filter(isPending);
+              const pendingSettings = section.settings.filter(isPending);
+              const unchanged = section.items.length + section.settings.length - pendingItems.length - pendingSettings.length;
+              const isExpanded = expanded.has(section.name);
+              return (
+                <li key={section.name} className="p-2 rounded border border-gray-200 dark:border-gray-700">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={total > 0 && selected === total}
+                      ref={input => { if (input) input.indeterminate = selected > 0 && selected < total; }}
+                      onChange={e => toggleSection(section, e.target.checked)}
+                      disabled={isApplying || total === 0}
+                      title="Restore everything that differs in this section"
+                    />
+                    <span>{STATUS_ICONS[section.status]} {section.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {section.status === 'corrupted'
+                        ? 'checksum mismatch, cannot be restored'
+                        : total === 0 ? 'same as current data' : `${total} difference(s)${unchanged > 0 ? `, ${unchanged} unchanged` : ''}`}
+                    </span>
+                    {total > 0 && (
+                      <button
+                        className="ml-auto text-xs text-blue-600 hover:underline"
+                        onClick={() => setExpanded(prev => toggle(prev, [section.name], !isExpanded))}
+                      >
+                        {isExpanded ? 'Hide' : 'Show'} details
+                      </button>
+                    )}
+                  </div>
+                  {isExpanded && (
+                    <ul className="mt-2 pl-6 text-xs space-y-1 max-h-64 overflow-y-auto">
+                      {pendingItems.map(renderItem)}
+                      {pendingSettings.map(renderSetting)}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <p className="text-xs text-gray-500">A restore point of the current data is saved first.</p>
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="px-4 py-2 bg-gray-200 dark:bg-gray-700 rounded" onClick={() => onClose(null)} disabled={isApplying}>Cancel</button>
+          <button
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            onClick={handleApply}
+            disabled={isApplying || selectedCount === 0}
+          >
+            {isApplying ? 'Restoring...' : `Restore ${selectedCount} selected`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
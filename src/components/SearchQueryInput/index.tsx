@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SearchQueryService } from '@/services/searchQueryService';
+import { QueryError, QuerySources, QuerySuggestion } from '@/types/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  sources: QuerySources;
+  placeholder?: string;
+}
+
+// Search box for the query language: marks the parts that failed to parse and completes
+// filter keys, tags, categories and domains as you type
+export const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, errors, sources, placeholder }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const suggestions = useMemo(
+    () => (open ? SearchQueryService.suggest(value, caret, sources) : null),
+    [open, value, caret, sources],
+  );
+
+  useEffect(() => {
+    setActive(0);
+  }, [suggestions]);
+
+  // The query split into plain and erroneous runs, drawn behind the transparent input
+  const segments = useMemo(() => {
+    const parts: { text: string; error: boolean }[] = [];
+    let position = 0;
+    [...errors].sort((a, b) => a.start - b.start).forEach(error => {
+      if (error.start < position) return;
+      parts.push({ text: value.slice(position, error.start), error: false });
+      parts.push({ text: value.slice(error.start, error.end), error: true });
+      position = error.end;
+    });
+    parts.push({ text: value.slice(position), error: false });
+    return parts;
+  }, [value, errors]);
+
+  const syncCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? value.length);
+    if (backdropRef.current && inputRef.current) backdropRef.current.scrollLeft = inputRef.current.scrollLeft;
+  };
+
+  const accept = (item: QuerySuggestion) => {
+    if (!suggestions) return;
+    const next = value.slice(0, suggestions.from) + item.insert + value.slice(suggestions.to);
+    const position = suggestions.from + item.insert.length;
+    onChange(next);
+    setCaret(position);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions) return;
+    const count = suggestions.items.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(prev => (prev + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions.items[active]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const isDark = document.documentElement.classList.contains('dark');
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      <div
+        ref={backdropRef}
+        aria-hidden="true"
+        className="absolute inset-0 px-3 py-2 text-base whitespace-pre overflow-hidden text-transparent pointer-events-none"
+      >
+        {segments.map((segment, index) => segment.error ? (
+          <span key={index} className="rounded-sm bg-red-200 dark:bg-red-900 underline decoration-wavy decoration-red-500">{segment.text}</span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ))}
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        role="combobox"
+        aria-label="Search bookmarks"
+        aria-expanded={!!suggestions}
+        aria-autocomplete="list"
+        aria-invalid={errors.length > 0}
+        placeholder={placeholder}
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onScroll={syncCaret}
+        onBlur={() => setOpen(false)}
+        className={`relative w-full px-3 py-2 border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-green-400 text-base ${
+          isDark ? 'text-white placeholder-gray-400' : 'text-gray-900 placeholder-gray-400'
+        }`}
+      />
+      {suggestions && (
+        <ul
+          role="listbox"
+          className="absolute left-0 top-full mt-1 z-20 w-72 max-h-60 overflow-auto rounded shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm"
+        >
+          {suggestions.items.map((item, index) => (
+            <li
+              key={item.insert}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus in the input so the caret stays put
+              onMouseDown={e => {
+                e.preventDefault();
+                accept(item);
+              }}
+              onMouseEnter={() => setActive(index)}
+              className={`px-3 py-1 cursor-pointer flex justify-between gap-2 ${index === active ? 'bg-green-100 dark:bg-green-900' : ''}`}
+            >
+              <span className="truncate text-gray-900 dark:text-white">{item.label}</span>
+              {item.detail && <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{item.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
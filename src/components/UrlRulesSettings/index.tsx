@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { StorageService } from '@/services/storageService';
+import { CanonicalUrlService } from '@/services/canonicalUrlService';
+
+interface RuleRow {
+  domain: string;
+  params: string; // Comma-separated while editing
+}
+
+export const UrlRulesSettings: React.FC = () => {
+  const [rows, setRows] = useState<RuleRow[]>([]);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    CanonicalUrlService.getRules()
+      .then(rules => setRows(rules.map(rule => ({ domain: rule.domain, params: rule.params.join(', ') }))))
+      .catch(error => console.error('Failed to load URL rules:', error));
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<RuleRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    const rules = rows
+      .map(row => ({
+        domain: row.domain.trim().toLowerCase(),
+        params: row.params.split(',').map(param => param.trim()).filter(Boolean),
+      }))
+      .filter(rule => rule.domain && rule.params.length > 0);
+    try {
+      await StorageService.set('urlParamRules', rules);
+      setRows(rules.map(rule => ({ domain: rule.domain, params: rule.params.join(', ') })));
+      setDirty(false);
+      toast.success('URL rules saved', { duration: 3000 });
+    } catch (error) {
+      console.error('Failed to save URL rules:', error);
+      toast.error('Failed to save URL rules', { duration: 4000 });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="text-sm font-medium mb-2">🔗 Duplicate Detection</div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Links are compared without "www", trailing slashes or tracking parameters. Parameters listed here are also ignored on the domain and its subdomains.
+      </p>
+      <div className="space-y-2">
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2 text-xs">
+            <input
+              type="text"
+              value={row.domain}
+              onChange={e => updateRow(index, { domain: e.target.value })}
+              placeholder="example.com"
+              aria-label="Domain"
+              className="flex-1 min-w-0 rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1"
+            />
+            <input
+              type="text"
+              value={row.params}
+              onChange={e => updateRow(index, { params: e.target.value })}
+              placeholder="org, ref"
+              aria-label="Ignored parameters"
+              className="flex-1 min-w-0 rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1"
+            />
+            <button
+              className="px-2 py-1 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900"
+              onClick={() => removeRow(index)}
+              aria-label={`Remove rule for ${row.domain || 'new domain'}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs">
+        <button
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          onClick={() => {
+            setRows(prev => [...prev, { domain: '', params: '' }]);
+            setDirty(true);
+          }}
+        >
+          Add rule
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          onClick={handleSave}
+          disabled={!dirty}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
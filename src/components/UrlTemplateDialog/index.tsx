@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AccessSource, BookmarkNode } from '@/types/bookmark';
+import { OrgEntry } from '@/types/org';
+import { OrgRegistryService } from '@/services/orgRegistryService';
+import { UrlTemplateService } from '@/services/urlTemplateService';
+
+interface UrlTemplateDialogProps {
+  bookmark: BookmarkNode;
+  source: AccessSource;
+  onOpen?: (id: string, source: AccessSource, url?: string) => void;
+  onClose: () => void;
+}
+
+// Asks for the variables of a URL template bookmark, then opens the filled-in URL in a new tab
+export const UrlTemplateDialog: React.FC<UrlTemplateDialogProps> = ({ bookmark, source, onOpen, onClose }) => {
+  const variables = useMemo(() => UrlTemplateService.variables(bookmark.url), [bookmark.url]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [recent, setRecent] = useState<Record<string, string[]>>({});
+  const [orgs, setOrgs] = useState<OrgEntry[]>([]);
+
+  useEffect(() => {
+    Promise.all([UrlTemplateService.getRecent(), OrgRegistryService.getOrgs()])
+      .then(([recentValues, orgList]) => {
+        setRecent(recentValues);
+        setOrgs(orgList);
+        // Start from the values used last time
+        setValues(Object.fromEntries(variables.map(name => [name, recentValues[name]?.[0] ?? ''])));
+      })
+      .catch(error => console.error('Failed to load template values:', error));
+  }, [variables]);
+
+  const missing = variables.filter(name => !values[name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (missing.length > 0 || !bookmark.url) return;
+    const filled = UrlTemplateService.resolveValues(values, orgs);
+    const url = UrlTemplateService.fill(bookmark.url, filled);
+    onOpen?.(bookmark.id, source, url);
+    UrlTemplateService.saveValues(filled).catch(error => console.error('Failed to remember template values:', error));
+    window.open(url, '_blank', 'noopener,noreferrer');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={e => e.stopPropagation()}
+        className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-3 text-gray-900 dark:text-white"
+      >
+        <h2 className="text-lg font-semibold">Open {bookmark.title}</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 break-all">{bookmark.url}</p>
+        {variables.map((name, index) => {
+          const suggestions = UrlTemplateService.suggestions(name, values[name] ?? '', { recent: recent[name], orgs });
+          return (
+            <div key={name}>
+              <label htmlFor={`template-${name}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {name}
+              </label>
+              <input
+                id={`template-${name}`}
+                type="text"
+                list={`template-${name}-values`}
+                value={values[name] ?? ''}
+                onChange={e => setValues({ ...values, [name]: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                autoFocus={index === 0}
+                autoComplete="off"
+              />
+              <datalist id={`template-${name}-values`}>
+                {suggestions.map(suggestion => (
+                  <option key={suggestion.value} value={suggestion.value}>
+                    {suggestion.label}{suggestion.detail ? ` (${suggestion.detail})` : ''}
+                  </option>
+                ))}
+              </datalist>
+            </div>
+          );
+        })}
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={missing.length > 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Open
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
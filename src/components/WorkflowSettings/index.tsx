@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { DEFAULT_WORKFLOWS, WorkflowDefinitionError, WorkflowService } from '@/services/workflowService';
+import { Workflow } from '@/types/workflow';
+
+// What "New workflow" starts from
+const NEW_WORKFLOW: Workflow = {
+  id: 'my-workflow',
+  name: 'My workflow',
+  trigger: { urlIncludes: 'example.com', queryParams: [] },
+  steps: [
+    { action: 'waitFor', selector: '[data-testid="ready"]' },
+    { action: 'click', selector: 'button', text: 'Continue' },
+  ],
+};
+
+// The workflow being edited: its index in the list, or null for a new one
+interface Editing {
+  index: number | null;
+  json: string;
+}
+
+export const WorkflowSettings: React.FC = () => {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  useEffect(() => {
+    WorkflowService.getWorkflows()
+      .then(setWorkflows)
+      .catch(error => console.error('Failed to load workflows:', error));
+  }, []);
+
+  // Applies the change to the stored list, so a workflow recorded since this page loaded is kept
+  const save = async (update: (current: Workflow[]) => Workflow[], message: string) => {
+    try {
+      setWorkflows(await WorkflowService.updateWorkflows(update));
+      toast.success(message, { duration: 3000 });
+      return true;
+    } catch (error) {
+      console.error('Failed to save workflows:', error);
+      toast.error('Failed to save workflows', { duration: 4000 });
+      return false;
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    let workflow: Workflow;
+    try {
+      workflow = WorkflowService.parse(editing.json);
+    } catch (error) {
+      const issues = error instanceof WorkflowDefinitionError ? error.issues.join('; ') : String(error);
+      toast.error(`Workflow not saved: ${issues}`, { duration: 6000 });
+      return;
+    }
+    if (workflows.some((other, index) => other.id === workflow.id && index !== editing.index)) {
+      toast.error(`Another workflow already has the id "${workflow.id}"`, { duration: 4000 });
+      return;
+    }
+    const editedId = editing.index === null ? null : workflows[editing.index].id;
+    const update = (current: Workflow[]) => (current.some(other => other.id === editedId)
+      ? current.map(other => (other.id === editedId ? workflow : other))
+      : [...current, workflow]);
+    if (await save(update, `Saved "${workflow.name}"`)) setEditing(null);
+  };
+
+  const handleDelete = (index: number) => {
+    if (!window.confirm(`Delete the workflow "${workflows[index].name}"?`)) return;
+    const { id } = workflows[index];
+    save(current => current.filter(workflow => workflow.id !== id), 'Workflow deleted');
+    setEditing(null);
+  };
+
+  // Puts the built-in workflows back as shipped, replacing edited copies of them
+  const handleRestoreDefaults = () => {
+    if (!window.confirm('Restore the built-in workflows? Changes you made to them are lost; your own workflows are kept.')) return;
+    const builtInIds = new Set(DEFAULT_WORKFLOWS.map(workflow => workflow.id));
+    save(current => [...DEFAULT_WORKFLOWS, ...current.filter(workflow => !builtInIds.has(workflow.id))], 'Built-in workflows restored');
+    setEditing(null);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="text-sm font-medium mb-2">⚙️ Workflows</div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Steps the extension runs on a page: <code>waitFor</code>, <code>click</code>, <code>type</code>, <code>waitForText</code>, <code>assert</code>, <code>waitForUrl</code> and <code>pause</code>.
+        A workflow with a trigger runs on pages whose address starts with its site and path, such as <code>example.com/reports</code>, and has its query parameters, which fill <code>{'{{name}}'}</code> in the steps.
+        To make one without writing steps, choose ⏺ Record Workflow in Command+K's settings and do the task once.
+        Edit the selectors here when a page changes.
+      </p>
+      <ul className="space-y-2 text-xs">
+        {workflows.map((workflow, index) => (
+          <li key={workflow.id} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{workflow.name}</div>
+              <div className="text-gray-500 dark:text-gray-400 truncate">
+                {workflow.steps.length} steps
+                {workflow.trigger && ` · runs on "${workflow.trigger.urlIncludes}"${workflow.trigger.queryParams.map(name => ` ?${name}=`).join('')}`}
+              </div>
+            </div>
+            <button
+              className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+              onClick={() => setEditing({ index, json: WorkflowService.serialize(workflow) })}
+            >
+              Edit
+            </button>
+            <button
+              className="px-2 py-1 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900"
+              onClick={() => handleDelete(index)}
+              aria-label={`Delete ${workflow.name}`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      {editing && (
+        <div className="mt-2 text-xs">
+          <textarea
+            value={editing.json}
+            onChange={e => setEditing({ ...editing, json: e.target.value })}
+            rows={14}
+            spellCheck={false}
+            aria-label="Workflow definition"
+            className="w-full rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-2 py-1 font-mono"
+          />
+          <div className="flex justify-end gap-2 mt-1">
+            <button
+              className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+              onClick={() => setEditing(null)}
+            >
+              Cancel
+            </button>
+            <button
+              className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+              onClick={handleSaveEdit}
+            >
+              Save workflow
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="flex justify-between mt-2 text-xs">
+        <button
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          onClick={() => setEditing({ index: null, json: WorkflowService.serialize(NEW_WORKFLOW) })}
+        >
+          New workflow
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          onClick={handleRestoreDefaults}
+        >
+          Restore built-in workflows
+        </button>
+      </div>
+    </div>
+  );
+};
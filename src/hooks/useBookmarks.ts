@@ -1,18 +1,23 @@
-import { useState, useEffect, useCallback } from 'react';
-import { BookmarkNode } from '@/types/bookmark';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AccessSource, BookmarkAccessLog, BookmarkNode } from '@/types/bookmark';
 import { BookmarkService } from '@/services/bookmarkService';
+import { StorageService } from '@/services/storageService';
+import { AccessLogService } from '@/services/accessLogService';
+import { MessageService } from '@/services/messageService';
 
 export function useBookmarks() {
   const [bookmarks, setBookmarks] = useState<BookmarkNode[]>([]);
+  const [accessLog, setAccessLog] = useState<BookmarkAccessLog>({ events: [], archived: {} });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchBookmarks = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await chrome.storage.local.get(['bookmarks']);
-      const loadedBookmarks = Array.isArray(data.bookmarks) ? data.bookmarks : [];
+      const [stored, log] = await Promise.all([StorageService.get('bookmarks'), AccessLogService.getLog()]);
+      const loadedBookmarks = Array.isArray(stored) ? stored : [];
       setBookmarks(loadedBookmarks);
+      setAccessLog(log);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch bookmarks');
@@ -65,17 +70,83 @@ export function useBookmarks() {
     }
   }, []);
 
+  const updateMany = useCallback(async (ids: string[], changes: Partial<BookmarkNode> | ((node: BookmarkNode) => Partial<BookmarkNode>)) => {
+    try {
+      const updated = await BookmarkService.updateMany(ids, changes);
+      const byId = new Map(updated.map(node => [node.id, node]));
+      setBookmarks(prev => prev.map(b => byId.get(b.id) ?? b));
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update bookmarks');
+      throw err;
+    }
+  }, []);
+
+  const upsertMany = useCallback(async (nodes: BookmarkNode[]) => {
+    try {
+      const restored = await BookmarkService.upsertMany(nodes);
+      const byId = new Map(restored.map(node => [node.id, node]));
+      setBookmarks(prev => [
+        ...prev.map(b => byId.get(b.id) ?? b),
+        ...restored.filter(node => !prev.some(b => b.id === node.id)),
+      ]);
+      return restored;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore bookmarks');
+      throw err;
+    }
+  }, []);
+
+  const deleteMany = useCallback(async (ids: string[]) => {
+    try {
+      const removed = new Set(await BookmarkService.deleteMany(ids));
+      setBookmarks(prev => prev.filter(b => !removed.has(b.id)));
+      return Array.from(removed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete bookmarks');
+      throw err;
+    }
+  }, []);
+
+  // Recorded by the background, since the popup usually closes as soon as the bookmark's tab opens
+  const recordAccess = useCallback((id: string, source: AccessSource, url?: string) => {
+    MessageService.send('RECORD_BOOKMARK_ACCESS', { bookmarkId: id, source, url })
+      .catch(err => console.error('Failed to record bookmark access:', err));
+  }, []);
+
   useEffect(() => {
     fetchBookmarks();
   }, [fetchBookmarks]);
 
+  // Pick up writes made elsewhere, e.g. Chrome bookmark sync or access tracking in the background
+  useEffect(() => {
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName !== 'local') return;
+      if (changes.bookmarks && Array.isArray(changes.bookmarks.newValue)) {
+        setBookmarks(changes.bookmarks.newValue);
+      }
+      if (changes.bookmarkAccessLog) {
+        setAccessLog(changes.bookmarkAccessLog.newValue ?? { events: [], archived: {} });
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  // accessCount and lastAccessed come from the access log, not from storage
+  const bookmarksWithStats = useMemo(() => AccessLogService.withAccessStats(bookmarks, accessLog), [bookmarks, accessLog]);
+
   return {
-    bookmarks,
+    bookmarks: bookmarksWithStats,
     loading,
     error,
     addBookmarkOrFolder,
     updateBookmarkNode,
     deleteBookmarkNode,
+    updateMany,
+    upsertMany,
+    deleteMany,
+    recordAccess,
     refresh: fetchBookmarks
   };
 } 
\ No newline at end of file
@@ -2,6 +2,7 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import { Popup } from './popup/Popup'
+import { StorageService } from '@/services/storageService'
 
 // Theme detection logic for Chrome extension CSP compliance
 const savedTheme = localStorage.getItem('forethought_theme');
@@ -9,8 +10,14 @@ const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
 const theme = savedTheme || (prefersDark ? 'dark' : 'light');
 document.documentElement.classList.toggle('dark', theme === 'dark');
 
-createRoot(document.getElementById('root')).render(
-  <StrictMode>
-    <Popup />
-  </StrictMode>,
-)
+// Bring stored data up to the current schema before any component reads it.
+// A failed migration is logged and leaves storage untouched, so render regardless.
+StorageService.migrate()
+  .catch(() => {})
+  .finally(() => {
+    createRoot(document.getElementById('root')).render(
+      <StrictMode>
+        <Popup />
+      </StrictMode>,
+    )
+  })
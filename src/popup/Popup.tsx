@@ -8,15 +8,18 @@ import { BellIcon } from '@heroicons/react/24/outline';
 import { Toaster } from 'react-hot-toast';
 import { BookmarkNode } from '@/types/bookmark';
 import { BookmarkCategory } from '@/types/bookmark';
+import { CustomPage, PopupView, BookmarkViewMode } from '@/types/storage';
+import { MergeUndo } from '@/types/duplicates';
+import { StorageService } from '@/services/storageService';
+import { AccessLogService } from '@/services/accessLogService';
+import { BackupDocumentService } from '@/services/backupDocumentService';
+import { DuplicateMergeService } from '@/services/duplicateMergeService';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Link from '@tiptap/extension-link';
 import { BookmarkTree } from '@/components/BookmarkTree';
-import { Bar, Pie } from 'react-chartjs-2';
-import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement } from 'chart.js';
-
-// Register Chart.js components
-ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement);
+import { AnalyticsView } from '@/components/AnalyticsView';
+import { ExportDialog } from '@/components/ExportDialog';
 
 const Toast: React.FC<{ message: string; type: 'success' | 'error'; onClose: () => void }> = ({ message, type, onClose }) => {
   const [visible, setVisible] = useState(true);
@@ -52,34 +55,32 @@ const DashboardView: React.FC<{ setToast: (toast: { message: string; type: 'succ
   const [recentPage, setRecentPage] = useState(1);
   const [clickedPage, setClickedPage] = useState(1);
   const [categories, setCategories] = useState<BookmarkCategory[]>([]);
+  const [tab, setTab] = useState<'overview' | 'analytics'>('overview');
+  const [showExport, setShowExport] = useState(false);
 
   useEffect(() => {
-    chrome.storage.local.get(['bookmarks', 'retoolPages', 'notionPages', 'categories', 'bookmark_categories'], (data) => {
+    StorageService.getMany(['bookmarks', 'bookmark_categories']).then(data => {
       setBookmarks(Array.isArray(data.bookmarks) ? data.bookmarks : []);
-      // Try both keys for categories for compatibility
-      setCategories(Array.isArray(data.bookmark_categories) ? data.bookmark_categories : (Array.isArray(data.categories) ? data.categories : []));
+      setCategories(Array.isArray(data.bookmark_categories) ? data.bookmark_categories : []);
     });
   }, []);
 
   useEffect(() => {
     if (bookmarks.length === 0) return; // Don't process if bookmarks aren't loaded yet
-    
-    chrome.storage.local.get(['bookmarkClicks', 'bookmark_categories'], (res) => {
-      const raw = res.bookmarkClicks || {};
-      const categories = res.bookmark_categories || [];
-      const sorted = Object.entries(raw)
-        .map(([title, count]) => {
-          // Find the bookmark to get its category
-          const bookmark = bookmarks.find(bm => bm.title === title);
-          const category = bookmark?.categoryId ? 
-            categories.find((cat: { id: string; name: string }) => cat.id === bookmark.categoryId)?.name || 'Uncategorized' : 
+
+    AccessLogService.getLog().then(log => {
+      const sorted = AccessLogService.withAccessStats(bookmarks, log)
+        .filter(bookmark => bookmark.type === 'bookmark' && (bookmark.accessCount ?? 0) > 0)
+        .map(bookmark => {
+          const category = bookmark.categoryId ?
+            categories.find(cat => cat.id === bookmark.categoryId)?.name || 'Uncategorized' :
             'Uncategorized';
-          return [title, Number(count), category] as [string, number, string];
+          return [bookmark.title, bookmark.accessCount ?? 0, category] as [string, number, string];
         })
         .sort((a, b) => b[1] - a[1]);
       setClickStats(sorted);
     });
-  }, [bookmarks]); // Add bookmarks as a dependency
+  }, [bookmarks, categories]);
 
   // Pagination logic
   const userBookmarks = bookmarks.filter(bm => !('imported' in bm) || !bm.imported);
@@ -129,193 +130,125 @@ const DashboardView: React.FC<{ setToast: (toast: { message: string; type: 'succ
   return (
     <div>
       <h2 className="text-lg font-semibold mb-2">📊 Dashboard Overview</h2>
-      <p>Total bookmarks: {bookmarks.length}</p>
-
-      <h3 className="font-semibold mt-4">🕐 Recent Bookmarks</h3>
-      <ul className="list-disc list-inside" role="list">
-        {pagedRecent.map((bm, idx) => {
-          const catObj = categories.find((cat) => cat.id === bm.categoryId);
-          const catColor = catObj?.color || '#6366f1';
-          const catName = catObj?.name || 'Uncategorized';
-          return (
-            <li key={idx} className="flex items-center gap-2 mb-1" role="listitem">
-              <span style={{ background: catColor, color: '#fff', padding: '2px 10px', borderRadius: '12px', fontSize: '12px', fontWeight: 600, display: 'inline-block', minWidth: 0 }}>
-                {catName}
-              </span>
-              <span className="mx-2">-</span>
-              <span className="truncate" style={{ maxWidth: 220, display: 'inline-block', verticalAlign: 'middle' }}>{bm.title}</span>
-            </li>
-          );
-        })}
-      </ul>
-      {totalRecentPages > 1 && renderPagination(recentPage, setRecentPage, totalRecentPages)}
-
-      <h3 className="font-semibold mt-6">🔥 Most Clicked</h3>
-      <ul className="list-disc list-inside" role="list">
-        {pagedClicked.map(([title, count, category], idx) => {
-          const catObj = categories.find((cat) => cat.name === category);
-          const catColor = catObj?.color || '#6366f1';
-          const catName = catObj?.name || category || 'Uncategorized';
-          return (
-            <li key={idx} className="flex items-center gap-2 mb-1" role="listitem">
-              <span style={{ background: catColor, color: '#fff', padding: '2px 10px', borderRadius: '12px', fontSize: '12px', fontWeight: 600, display: 'inline-block', minWidth: 0 }}>
-                {catName}
-              </span>
-              <span className="mx-2">-</span>
-              <span className="truncate" style={{ maxWidth: 220, display: 'inline-block', verticalAlign: 'middle' }}>{title}</span>
-              <span className="mx-2">-</span>
-              <span className="text-gray-500 dark:text-gray-400">{count} click{count !== 1 ? 's' : ''}</span>
-            </li>
-          );
-        })}
-      </ul>
-      {totalClickedPages > 1 && renderPagination(clickedPage, setClickedPage, totalClickedPages)}
-
-      {/* New Analytics Component */}
-      <div className="mt-6">
-        <h3 className="font-semibold">📊 Analytics</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
-          <div>
-            <h4 className="text-sm font-medium mb-2">Most Clicked Bookmarks</h4>
-            <Bar
-              data={{
-                labels: pagedClicked.map(([title]) => title),
-                datasets: [
-                  {
-                    label: 'Clicks',
-                    data: pagedClicked.map(([, count]) => count),
-                    backgroundColor: 'rgba(99, 102, 241, 0.5)',
-                    borderColor: 'rgba(99, 102, 241, 1)',
-                    borderWidth: 1,
-                  },
-                ],
-              }}
-              options={{
-                responsive: true,
-                plugins: {
-                  legend: { display: false },
-                  title: { display: false },
-                },
-              }}
-            />
-          </div>
-          <div>
-            <h4 className="text-sm font-medium mb-2">Category Distribution</h4>
-            <Pie
-              data={{
-                labels: categories.map((cat) => cat.name),
-                datasets: [
-                  {
-                    data: categories.map((cat) => bookmarks.filter((bm) => bm.categoryId === cat.id).length),
-                    backgroundColor: categories.map((cat) => cat.color),
-                    borderWidth: 1,
-                  },
-                ],
-              }}
-              options={{
-                responsive: true,
-                plugins: {
-                  legend: { position: 'right' },
-                  title: { display: false },
-                },
-              }}
-            />
-          </div>
-        </div>
-      </div>
-
-      <div className="mt-6 mb-8">
-        <h3 className="font-semibold mt-6">⚙️ Quick Actions</h3>
-        <div className="mt-2 flex gap-2">
+      <div className="flex gap-2 mb-4" role="tablist">
+        {(['overview', 'analytics'] as const).map(name => (
           <button
-            onClick={async () => {
-              // Get all data from storage
-              const data = await chrome.storage.local.get([
-                'bookmarks',
-                'bookmark_categories',
-                'bookmarkClicks'
-              ]);
-              
-              const exportData = {
-                bookmarks: data.bookmarks || [],
-                categories: data.bookmark_categories || [],
-                bookmarkClicks: data.bookmarkClicks || {},
-                exportDate: new Date().toISOString(),
-                version: chrome.runtime.getManifest().version
-              };
-              
-              const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = 'forethought-toolbox-backup.json';
-              a.click();
-              URL.revokeObjectURL(url);
-            }}
-            className="bg-gray-100 dark:bg-green-600 text-gray-700 dark:text-white px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-green-700 border border-gray-300 dark:border-green-700"
-            title="Quick export all bookmarks, categories, and click stats"
+            key={name}
+            role="tab"
+            aria-selected={tab === name}
+            onClick={() => setTab(name)}
+            className={`px-3 py-1 rounded border font-semibold transition-colors duration-150 ${tab === name ? 'bg-gray-100 dark:bg-green-600 text-gray-700 dark:text-white border-gray-300 dark:border-green-700' : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-green-900'}`}
           >
-            📤 Quick Export
+            {name === 'overview' ? 'Overview' : 'Analytics'}
           </button>
-          <label className="bg-gray-100 dark:bg-blue-600 text-gray-700 dark:text-white px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-blue-700 cursor-pointer border border-gray-300 dark:border-blue-700">
-            📥 Quick Import
-            <input
-              type="file"
-              accept="application/json"
-              className="hidden"
-              multiple
-              onChange={async (e) => {
-                const files = e.target.files;
-                if (!files || files.length === 0) return;
+        ))}
+      </div>
+      {tab === 'analytics' ? (
+        <AnalyticsView bookmarks={bookmarks} categories={categories} />
+      ) : (
+        <>
+          <p>Total bookmarks: {bookmarks.length}</p>
 
-                let updates: { [key: string]: any } = {};
-                for (const file of files) {
-                  const content = await file.text();
-                  const data = JSON.parse(content);
+          <h3 className="font-semibold mt-4">🕐 Recent Bookmarks</h3>
+          <ul className="list-disc list-inside" role="list">
+            {pagedRecent.map((bm, idx) => {
+              const catObj = categories.find((cat) => cat.id === bm.categoryId);
+              const catColor = catObj?.color || '#6366f1';
+              const catName = catObj?.name || 'Uncategorized';
+              return (
+                <li key={idx} className="flex items-center gap-2 mb-1" role="listitem">
+                  <span style={{ background: catColor, color: '#fff', padding: '2px 10px', borderRadius: '12px', fontSize: '12px', fontWeight: 600, display: 'inline-block', minWidth: 0 }}>
+                    {catName}
+                  </span>
+                  <span className="mx-2">-</span>
+                  <span className="truncate" style={{ maxWidth: 220, display: 'inline-block', verticalAlign: 'middle' }}>{bm.title}</span>
+                </li>
+              );
+            })}
+          </ul>
+          {totalRecentPages > 1 && renderPagination(recentPage, setRecentPage, totalRecentPages)}
 
-                  // Bookmarks
-                  if (Array.isArray(data.bookmarks)) {
-                    updates.bookmarks = data.bookmarks;
-                  }
-                  // Categories (accept both keys)
-                  if (Array.isArray(data.categories)) {
-                    updates.bookmark_categories = data.categories;
-                  }
-                  if (Array.isArray(data.bookmark_categories)) {
-                    updates.bookmark_categories = data.bookmark_categories;
-                  }
-                  // Custom pages
-                  if (Array.isArray(data.retoolPages)) {
-                    updates.retoolPages = data.retoolPages;
-                  }
-                  if (Array.isArray(data.notionPages)) {
-                    updates.notionPages = data.notionPages;
-                  }
-                  // Click stats
-                  if (data.bookmarkClicks) {
-                    updates.bookmarkClicks = data.bookmarkClicks;
-                  }
-                }
+          <h3 className="font-semibold mt-6">🔥 Most Clicked</h3>
+          <ul className="list-disc list-inside" role="list">
+            {pagedClicked.map(([title, count, category], idx) => {
+              const catObj = categories.find((cat) => cat.name === category);
+              const catColor = catObj?.color || '#6366f1';
+              const catName = catObj?.name || category || 'Uncategorized';
+              return (
+                <li key={idx} className="flex items-center gap-2 mb-1" role="listitem">
+                  <span style={{ background: catColor, color: '#fff', padding: '2px 10px', borderRadius: '12px', fontSize: '12px', fontWeight: 600, display: 'inline-block', minWidth: 0 }}>
+                    {catName}
+                  </span>
+                  <span className="mx-2">-</span>
+                  <span className="truncate" style={{ maxWidth: 220, display: 'inline-block', verticalAlign: 'middle' }}>{title}</span>
+                  <span className="mx-2">-</span>
+                  <span className="text-gray-500 dark:text-gray-400">{count} click{count !== 1 ? 's' : ''}</span>
+                </li>
+              );
+            })}
+          </ul>
+          {totalClickedPages > 1 && renderPagination(clickedPage, setClickedPage, totalClickedPages)}
 
-                await chrome.storage.local.set(updates);
-                setToast({ message: 'Backup restored successfully!', type: 'success' });
-                window.location.reload();
-              }}
-            />
-          </label>
-        </div>
-      </div>
+          <div className="mt-6 mb-8">
+            <h3 className="font-semibold mt-6">⚙️ Quick Actions</h3>
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={async () => {
+                  const backup = await BackupDocumentService.create();
+                  const blob = new Blob([BackupDocumentService.serialize(backup)], { type: 'application/json' });
+                  const url = URL.createObjectURL(blob);
+                  const a = document.createElement('a');
+                  a.href = url;
+                  a.download = 'forethought-toolbox-backup.json';
+                  a.click();
+                  URL.revokeObjectURL(url);
+                }}
+                className="bg-gray-100 dark:bg-green-600 text-gray-700 dark:text-white px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-green-700 border border-gray-300 dark:border-green-700"
+                title="Quick export bookmarks, categories, click stats, pages and settings"
+              >
+                📤 Quick Export
+              </button>
+              <button
+                onClick={() => setShowExport(true)}
+                className="bg-gray-100 dark:bg-green-600 text-gray-700 dark:text-white px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-green-700 border border-gray-300 dark:border-green-700"
+                title="Export bookmarks as a browser bookmark file, Markdown or CSV"
+              >
+                📄 Export Links
+              </button>
+              <label className="bg-gray-100 dark:bg-blue-600 text-gray-700 dark:text-white px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-blue-700 cursor-pointer border border-gray-300 dark:border-blue-700">
+                📥 Quick Import
+                <input
+                  type="file"
+                  accept="application/json"
+                  className="hidden"
+                  multiple
+                  onChange={async (e) => {
+                    const files = e.target.files;
+                    if (!files || files.length === 0) return;
+
+                    try {
+                      const contents = await Promise.all(Array.from(files).map(file => file.text()));
+                      await BackupDocumentService.restore(await BackupDocumentService.parseFiles(contents));
+                    } catch (error) {
+                      console.error('Failed to import backup:', error);
+                      setToast({ message: 'Backup is invalid and was not restored', type: 'error' });
+                      return;
+                    }
+                    setToast({ message: 'Backup restored successfully!', type: 'success' });
+                    window.location.reload();
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+      {showExport && <ExportDialog onClose={() => setShowExport(false)} />}
     </div>
   );
 };
 
 const MAX_CUSTOM_PAGES = 10;
-type DocMode = 'markup' | 'html';
-interface CustomPage {
-  name: string;
-  mode: DocMode;
-  content: string;
-}
 
 interface CustomDocPageProps {
   page: CustomPage;
@@ -433,12 +366,12 @@ function CustomDocPage({ page, onEdit, onDelete, onRename, icon }: CustomDocPage
 }
 
 export const Popup: React.FC = () => {
-  const [view, setView] = useState<'dashboard' | 'bookmarks' | 'importExport' | 'custom-retool' | 'custom-notion'>('dashboard');
+  const [view, setView] = useState<PopupView>('dashboard');
   const [showAdd, setShowAdd] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
-  const { bookmarks, updateBookmarkNode, deleteBookmarkNode, addBookmarkOrFolder, refresh: refreshBookmarks } = useBookmarks();
+  const { bookmarks, updateBookmarkNode, deleteBookmarkNode, addBookmarkOrFolder, updateMany, upsertMany, deleteMany, recordAccess, refresh: refreshBookmarks } = useBookmarks();
   const [showTour, setShowTour] = useState(false);
   const [showAnnouncement, setShowAnnouncement] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
@@ -451,7 +384,7 @@ export const Popup: React.FC = () => {
   const [undoSeconds, setUndoSeconds] = useState(5);
   const [undoHovered, setUndoHovered] = useState(false);
   const undoPausedAt = useRef<number | null>(null);
-  const [undoBatch, setUndoBatch] = useState<{ bookmarks: BookmarkNode[], expire: number } | null>(null);
+  const [undoBatch, setUndoBatch] = useState<{ message: string, restore: () => Promise<unknown>, expire: number } | null>(null);
   const [undoTimeout, setUndoTimeout] = useState<NodeJS.Timeout | null>(null);
   const [undoBatchSeconds, setUndoBatchSeconds] = useState(5);
   const UNDO_SECONDS = 5;
@@ -460,14 +393,14 @@ export const Popup: React.FC = () => {
   const [activeRetoolPage, setActiveRetoolPage] = useState<number | null>(null);
   const [activeNotionPage, setActiveNotionPage] = useState<number | null>(null);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'table' | 'card' | 'tree'>('table');
+  const [viewMode, setViewMode] = useState<BookmarkViewMode>('table');
   const [retoolPages, setRetoolPages] = useState<CustomPage[]>([]);
   const [notionPages, setNotionPages] = useState<CustomPage[]>([]);
   const bookmarkTableRef = useRef<any>(null);
 
   // Load saved view and dropdown states on mount
   useEffect(() => {
-    chrome.storage.local.get(['popup_activeView', 'popup_retoolOpen', 'popup_notionOpen', 'popup_activeRetoolPage', 'popup_activeNotionPage'], (data) => {
+    StorageService.getMany(['popup_activeView', 'popup_retoolOpen', 'popup_notionOpen', 'popup_activeRetoolPage', 'popup_activeNotionPage']).then(data => {
       // First set the dropdown states
       if (typeof data.popup_retoolOpen === 'boolean') {
         setRetoolOpen(data.popup_retoolOpen);
@@ -496,12 +429,12 @@ export const Popup: React.FC = () => {
 
   // Save view state when it changes
   useEffect(() => {
-    chrome.storage.local.set({ popup_activeView: view });
+    StorageService.set('popup_activeView', view);
   }, [view]);
 
   // Save dropdown states when they change
   useEffect(() => {
-    chrome.storage.local.set({ 
+    StorageService.setMany({
       popup_retoolOpen: retoolOpen,
       popup_notionOpen: notionOpen,
       popup_activeRetoolPage: activeRetoolPage,
@@ -511,8 +444,8 @@ export const Popup: React.FC = () => {
 
   useEffect(() => {
     // Load theme from storage (use a separate key for popup)
-    chrome.storage.local.get('popup_theme', (data) => {
-      const savedTheme = data.popup_theme || 'dark';
+    StorageService.get('popup_theme').then(stored => {
+      const savedTheme = stored || 'dark';
       setTheme(savedTheme);
       document.documentElement.classList.toggle('dark', savedTheme === 'dark');
     });
@@ -604,7 +537,7 @@ export const Popup: React.FC = () => {
 
   useEffect(() => {
     // Check if this is the first time the extension is installed
-    chrome.storage.local.get(['seenOnboarding', 'extensionVersion'], (data) => {
+    StorageService.getMany(['seenOnboarding', 'extensionVersion']).then(data => {
       const currentVersion = chrome.runtime.getManifest().version;
       const shouldShowOnboarding = !data.seenOnboarding || 
                                  !data.extensionVersion || 
@@ -614,7 +547,7 @@ export const Popup: React.FC = () => {
         setShowTour(true);
         setShowAnnouncement(true);
         // Save the current version and mark onboarding as seen
-        chrome.storage.local.set({ 
+        StorageService.setMany({
           seenOnboarding: true,
           extensionVersion: currentVersion
         });
@@ -635,7 +568,7 @@ export const Popup: React.FC = () => {
 
   // On mount, check for pending undo in storage
   useEffect(() => {
-    chrome.storage.local.get(['lastDeletedBookmark', 'undoExpire'], (data) => {
+    StorageService.getMany(['lastDeletedBookmark', 'undoExpire']).then(data => {
       if (data.lastDeletedBookmark && data.undoExpire) {
         const now = Date.now();
         if (data.undoExpire > now) {
@@ -643,7 +576,7 @@ export const Popup: React.FC = () => {
           setUndoExpire(data.undoExpire);
           setUndoSeconds(Math.ceil((data.undoExpire - now) / 1000));
         } else {
-          chrome.storage.local.remove(['lastDeletedBookmark', 'undoExpire']);
+          StorageService.remove(['lastDeletedBookmark', 'undoExpire']);
         }
       }
     });
@@ -660,7 +593,7 @@ export const Popup: React.FC = () => {
         if (secondsLeft <= 0) {
           setLastDeleted(null);
           setUndoExpire(null);
-          chrome.storage.local.remove(['lastDeletedBookmark', 'undoExpire']);
+          StorageService.remove(['lastDeletedBookmark', 'undoExpire']);
         }
       }, 200);
     }
@@ -681,7 +614,7 @@ export const Popup: React.FC = () => {
     if (undoPausedAt.current && lastDeleted) {
       const newExpire = Date.now() + undoPausedAt.current;
       setUndoExpire(newExpire);
-      chrome.storage.local.set({ undoExpire: newExpire });
+      StorageService.set('undoExpire', newExpire);
       setUndoSeconds(Math.ceil(undoPausedAt.current / 1000));
       undoPausedAt.current = null;
     }
@@ -690,7 +623,7 @@ export const Popup: React.FC = () => {
   const handleThemeChange = (newTheme: 'light' | 'dark') => {
     setTheme(newTheme);
     document.documentElement.classList.toggle('dark', newTheme === 'dark');
-    chrome.storage.local.set({ popup_theme: newTheme });
+    StorageService.set('popup_theme', newTheme);
   };
 
   const showToast = useCallback((message: string, type: 'success' | 'error') => {
@@ -705,31 +638,31 @@ export const Popup: React.FC = () => {
       await updateBookmarkNode(lastDeleted.id, lastDeleted);
       setLastDeleted(null);
       setUndoExpire(null);
-      chrome.storage.local.remove(['lastDeletedBookmark', 'undoExpire']);
+      StorageService.remove(['lastDeletedBookmark', 'undoExpire']);
       setTimeout(() => {
         showToast('Bookmark restored successfully ✅', 'success');
       }, 0);
     } catch (error) {
       setLastDeleted(null);
       setUndoExpire(null);
-      chrome.storage.local.remove(['lastDeletedBookmark', 'undoExpire']);
+      StorageService.remove(['lastDeletedBookmark', 'undoExpire']);
       setTimeout(() => {
         showToast('Failed to restore bookmark ❌', 'error');
       }, 0);
     }
   };
 
-  // Handle batch delete with undo
-  const handleBatchDeleteWithUndo = async (bookmarks: BookmarkNode[]) => {
+  // Offers a single undo for a change to many bookmarks
+  const showBatchUndo = (message: string, restore: () => Promise<unknown>) => {
     clearToast();
     // Clear any existing single-delete undo state
     setLastDeleted(null);
     setUndoExpire(null);
-    chrome.storage.local.remove(['lastDeletedBookmark', 'undoExpire']);
+    StorageService.remove(['lastDeletedBookmark', 'undoExpire']);
     
     // Set batch undo state
     const expire = Date.now() + UNDO_SECONDS * 1000;
-    setUndoBatch({ bookmarks, expire });
+    setUndoBatch({ message, restore, expire });
     setUndoBatchSeconds(UNDO_SECONDS);
     if (undoTimeout) clearTimeout(undoTimeout);
     setUndoTimeout(setTimeout(() => {
@@ -737,12 +670,19 @@ export const Popup: React.FC = () => {
     }, UNDO_SECONDS * 1000));
   };
 
+  // Handle batch delete with undo
+  const handleBatchDeleteWithUndo = async (bookmarks: BookmarkNode[]) => {
+    showBatchUndo(`${bookmarks.length} bookmark(s) deleted.`, () => upsertMany(bookmarks));
+  };
+
+  const handleMergeWithUndo = async (undo: MergeUndo, removed: number) => {
+    showBatchUndo(`${removed} duplicate(s) merged.`, () => DuplicateMergeService.undo(undo));
+  };
+
   // Handle undo batch
   const handleUndoBatch = async () => {
     if (undoBatch) {
-      for (const bm of undoBatch.bookmarks) {
-        await updateBookmarkNode(bm.id, bm);
-      }
+      await undoBatch.restore();
       setUndoBatch(null);
       if (undoTimeout) clearTimeout(undoTimeout);
       setToast({ message: 'Bookmarks restored successfully ✅', type: 'success' });
@@ -784,14 +724,14 @@ export const Popup: React.FC = () => {
     const expire = Date.now() + 5000;
     setUndoExpire(expire);
     setUndoSeconds(5);
-    chrome.storage.local.set({ lastDeletedBookmark: bm, undoExpire: expire });
+    StorageService.setMany({ lastDeletedBookmark: bm, undoExpire: expire });
     await deleteBookmarkNode(id);
   };
 
   useEffect(() => {
-    chrome.storage.local.get('bookmarkViewMode', (data) => {
-      if (data.bookmarkViewMode === 'card' || data.bookmarkViewMode === 'table' || data.bookmarkViewMode === 'tree') {
-        setViewMode(data.bookmarkViewMode);
+    StorageService.get('bookmarkViewMode').then(stored => {
+      if (stored === 'card' || stored === 'table' || stored === 'tree') {
+        setViewMode(stored);
       } else {
         setViewMode('table');
       }
@@ -799,36 +739,36 @@ export const Popup: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    chrome.storage.local.set({ bookmarkViewMode: viewMode });
+    StorageService.set('bookmarkViewMode', viewMode);
   }, [viewMode]);
 
   useEffect(() => {
-    chrome.storage.local.get(['retoolPages', 'notionPages'], (data) => {
+    StorageService.getMany(['retoolPages', 'notionPages']).then(data => {
       if (Array.isArray(data.retoolPages)) setRetoolPages(data.retoolPages);
       if (Array.isArray(data.notionPages)) setNotionPages(data.notionPages);
     });
   }, []);
 
   useEffect(() => {
-    chrome.storage.local.set({ retoolPages });
+    StorageService.set('retoolPages', retoolPages);
   }, [retoolPages]);
 
   useEffect(() => {
-    chrome.storage.local.set({ notionPages });
+    StorageService.set('notionPages', notionPages);
   }, [notionPages]);
 
   // Restore showAdd state on mount
   useEffect(() => {
-    chrome.storage.local.get(['popup_showAdd'], (data) => {
-      if (typeof data.popup_showAdd === 'boolean') {
-        setShowAdd(data.popup_showAdd);
+    StorageService.get('popup_showAdd').then(stored => {
+      if (typeof stored === 'boolean') {
+        setShowAdd(stored);
       }
     });
   }, []);
 
   // Persist showAdd state on change
   useEffect(() => {
-    chrome.storage.local.set({ popup_showAdd: showAdd });
+    StorageService.set('popup_showAdd', showAdd);
   }, [showAdd]);
 
   // Clear any existing toast
@@ -1100,6 +1040,7 @@ export const Popup: React.FC = () => {
                   onMoveNode={async (nodeId, newParentId) => {
                     await updateBookmarkNode(nodeId, { parentId: newParentId });
                   }}
+                  onOpen={recordAccess}
                 />
               ) : (
                 <>
@@ -1107,7 +1048,9 @@ export const Popup: React.FC = () => {
                     ref={bookmarkTableRef}
                     bookmarks={bookmarks.filter(b => b.parentId === selectedFolderId && b.type === 'bookmark')}
                     onUpdate={async (id, data) => { await updateBookmarkNode(id, data); }}
+                    onUpdateMany={async (ids, changes) => { await updateMany(ids, changes); }}
                     onDelete={handleDeleteWithUndo}
+                    onDeleteMany={async (ids) => { await deleteMany(ids); }}
                     onDuplicate={async (bookmark) => {
                       const { id, createdAt, lastAccessed, accessCount, ...rest } = bookmark;
                       const newBookmark = {
@@ -1121,6 +1064,8 @@ export const Popup: React.FC = () => {
                     viewMode={viewMode}
                     clearToast={() => setToast(null)}
                     onBatchDeleteWithUndo={handleBatchDeleteWithUndo}
+                    onMergeWithUndo={handleMergeWithUndo}
+                    onOpen={recordAccess}
                   />
                   <CategoryManager onCategoryChange={handleRefreshCategories} />
                 </>
@@ -1211,7 +1156,7 @@ export const Popup: React.FC = () => {
         {/* Batch Undo Toast */}
         {undoBatch && !lastDeleted && (
           <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 bg-green-600 text-white px-6 py-3 rounded shadow-lg z-50 flex items-center gap-4">
-            <span>{undoBatch.bookmarks.length} bookmark(s) deleted. </span>
+            <span>{undoBatch.message} </span>
             <button className="underline font-semibold" onClick={handleUndoBatch}>Undo</button>
             <span
               className="ml-2 text-sm inline-flex items-center justify-center w-6 h-6 rounded-full bg-green-700"
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { AccessLogService } from '@/services/accessLogService';
+import { AccessEvent, BookmarkAccessLog } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { folder, node } from '@/tests/bookmarkFactory';
+
+const event = (bookmarkId: string, timestamp: string): AccessEvent => ({ bookmarkId, timestamp, source: 'popup-table' });
+
+describe('AccessLogService', () => {
+  let fake: FakeChrome;
+  const stored = () => fake.store.bookmarkAccessLog as BookmarkAccessLog;
+
+  beforeEach(() => {
+    fake = createFakeChrome();
+    global.chrome = fake.api;
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('record', () => {
+    it('appends an event with the time and source', async () => {
+      const recorded = await AccessLogService.record('a', 'command-k');
+
+      expect(recorded).toEqual({ bookmarkId: 'a', timestamp: '2025-01-01T00:00:00.000Z', source: 'command-k' });
+      expect(stored()).toEqual({ events: [recorded], archived: {} });
+    });
+
+    it('keeps every event recorded at the same time', async () => {
+      await Promise.all([AccessLogService.record('a', 'popup-table'), AccessLogService.record('b', 'tree'), AccessLogService.record('a', 'card')]);
+
+      expect(stored().events.map(({ bookmarkId, source }) => `${bookmarkId}:${source}`)).toEqual(['a:popup-table', 'b:tree', 'a:card']);
+    });
+
+    it('folds the oldest events into the archived totals past the limit', async () => {
+      const events = Array.from({ length: AccessLogService.MAX_EVENTS }, (_, i) =>
+        event(i < 2 ? 'old' : 'a', new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()));
+      fake.store.bookmarkAccessLog = { events, archived: { old: { count: 3, lastAccessed: '2023-06-01T00:00:00.000Z' } } };
+
+      await AccessLogService.record('a', 'popup-table');
+
+      expect(stored().events).toHaveLength(AccessLogService.MAX_EVENTS);
+      expect(stored().events[0].bookmarkId).toBe('old');
+      expect(stored().archived).toEqual({ old: { count: 4, lastAccessed: '2024-01-01T00:00:00.000Z' } });
+      expect(AccessLogService.summarize(stored()).get('old')).toEqual({ count: 5, lastAccessed: '2024-01-01T00:01:00.000Z' });
+    });
+  });
+
+  describe('withAccessStats', () => {
+    it('counts archived and logged opens and takes the latest as the last open', () => {
+      const log: BookmarkAccessLog = {
+        events: [event('a', '2024-05-01T00:00:00.000Z'), event('b', '2024-03-01T00:00:00.000Z'), event('a', '2024-04-01T00:00:00.000Z')],
+        archived: { a: { count: 3, lastAccessed: '2024-01-01T00:00:00.000Z' }, c: { count: 2, lastAccessed: null } },
+      };
+
+      const nodes = AccessLogService.withAccessStats([node('a'), node('b'), node('c'), node('d'), folder('f')], log);
+
+      expect(nodes.map(({ id, accessCount, lastAccessed }) => ({ id, accessCount, lastAccessed }))).toEqual([
+        { id: 'a', accessCount: 5, lastAccessed: '2024-05-01T00:00:00.000Z' },
+        { id: 'b', accessCount: 1, lastAccessed: '2024-03-01T00:00:00.000Z' },
+        { id: 'c', accessCount: 2, lastAccessed: undefined },
+        { id: 'd', accessCount: 0, lastAccessed: undefined },
+        { id: 'f', accessCount: undefined, lastAccessed: undefined },
+      ]);
+    });
+
+    it('replaces stats left on a node by older versions', () => {
+      const [withStats] = AccessLogService.withAccessStats([node('a', { accessCount: 9, lastAccessed: '2020-01-01T00:00:00.000Z' })], { events: [], archived: {} });
+
+      expect(withStats).toMatchObject({ accessCount: 0, lastAccessed: undefined });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import { AnalyticsService } from '@/services/analyticsService';
+import { AccessEvent, BookmarkAccessLog } from '@/types/bookmark';
+import { folder, node } from '@/tests/bookmarkFactory';
+
+// Local times, so the day and week keys do not depend on the machine's time zone
+const at = (month: number, day: number, hour = 12, minute = 0) => new Date(2024, month - 1, day, hour, minute).toISOString();
+
+const open = (bookmarkId: string, timestamp: string): AccessEvent => ({ bookmarkId, timestamp, source: 'command-k' });
+
+const log = (events: AccessEvent[], archived: BookmarkAccessLog['archived'] = {}): BookmarkAccessLog => ({ events, archived });
+
+// Sunday, 2024-05-12 in the afternoon
+const NOW = new Date(2024, 4, 12, 15);
+
+describe('AnalyticsService', () => {
+  it('covers the last days up to today', () => {
+    expect(AnalyticsService.lastDays(7, NOW)).toEqual({ start: '2024-05-06', end: '2024-05-12' });
+    expect(AnalyticsService.lastDays(1, NOW)).toEqual({ start: '2024-05-12', end: '2024-05-12' });
+  });
+
+  describe('computeStats', () => {
+    const bookmarks = [
+      node('a', { url: 'https://www.a.example.com/x', categoryId: 'work', tags: ['docs', 'team'] }),
+      node('b', { categoryId: 'work', tags: ['docs'] }),
+      node('c'),
+      node('d'),
+      folder('f', { tags: ['folder-tag'] }),
+    ];
+
+    it('counts opens per day and per week inside the range, both ends included', () => {
+      const events = [
+        open('a', at(5, 5, 23, 59)),
+        open('a', at(5, 6, 0, 0)),
+        open('b', at(5, 8)),
+        open('a', at(5, 8)),
+        open('c', at(5, 12, 23, 30)),
+        open('c', at(5, 13, 0, 0)),
+      ];
+
+      const stats = AnalyticsService.computeStats(bookmarks, log(events), { start: '2024-05-06', end: '2024-05-12' }, NOW);
+
+      expect(stats.recentAccesses).toEqual({
+        '2024-05-06': 1, '2024-05-07': 0, '2024-05-08': 2, '2024-05-09': 0, '2024-05-10': 0, '2024-05-11': 0, '2024-05-12': 1,
+      });
+      expect(stats.weeklyAccesses).toEqual({ '2024-05-06': 4 });
+      expect(stats.domains).toEqual({ 'a.example.com': 2, 'b.example.com': 1, 'c.example.com': 1 });
+    });
+
+    it('buckets weeks from Monday, including the week the range starts in', () => {
+      const events = [open('a', at(5, 9)), open('a', at(5, 12)), open('b', at(5, 13)), open('b', at(5, 20))];
+
+      const stats = AnalyticsService.computeStats(bookmarks, log(events), { start: '2024-05-09', end: '2024-05-14' }, NOW);
+
+      expect(stats.weeklyAccesses).toEqual({ '2024-05-06': 2, '2024-05-13': 1 });
+      expect(Object.keys(stats.recentAccesses)).toEqual(['2024-05-09', '2024-05-10', '2024-05-11', '2024-05-12', '2024-05-13', '2024-05-14']);
+    });
+
+    it('runs an open-ended range from the first open to today', () => {
+      const stats = AnalyticsService.computeStats(bookmarks, log([open('a', at(5, 10)), open('d', at(5, 11))]), { start: '', end: '' }, NOW);
+
+      expect(stats.recentAccesses).toEqual({ '2024-05-10': 1, '2024-05-11': 1, '2024-05-12': 0 });
+      expect(stats.weeklyAccesses).toEqual({ '2024-05-06': 2 });
+    });
+
+    it('zero-fills a range without opens', () => {
+      const stats = AnalyticsService.computeStats(bookmarks, log([]), { start: '2024-05-11', end: '2024-05-12' }, NOW);
+
+      expect(stats.recentAccesses).toEqual({ '2024-05-11': 0, '2024-05-12': 0 });
+      expect(stats.weeklyAccesses).toEqual({ '2024-05-06': 0 });
+      expect(stats.domains).toEqual({});
+    });
+
+    it('totals the whole library regardless of the range', () => {
+      const events = [open('a', at(5, 10)), open('b', at(3, 1)), open('gone', at(5, 10))];
+      const archived = { c: { count: 4, lastAccessed: null }, b: { count: 2, lastAccessed: at(1, 1) } };
+
+      const stats = AnalyticsService.computeStats(bookmarks, log(events, archived), { start: '2024-05-10', end: '2024-05-12' }, NOW);
+
+      expect(stats.totalBookmarks).toBe(4);
+      expect(stats.categories).toEqual({ work: 2, [AnalyticsService.UNCATEGORIZED]: 2 });
+      expect(stats.tags).toEqual({ docs: 2, team: 1 });
+      expect(stats.staleness).toEqual({
+        '< 1 week': 1,
+        '1–4 weeks': 0,
+        '1–3 months': 1,
+        '3–6 months': 0,
+        '6–12 months': 0,
+        '> 1 year': 0,
+        [AnalyticsService.NEVER_OPENED]: 1,
+        [AnalyticsService.DATE_UNKNOWN]: 1,
+      });
+    });
+  });
+
+  it('lists the largest counts first', () => {
+    expect(AnalyticsService.top({ a: 1, b: 5, c: 3 }, 2)).toEqual([['b', 5], ['c', 3]]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import { BACKUP_SECTIONS, BackupDocumentService, BackupIntegrityError, UNBACKED_KEYS } from '@/services/backupDocumentService';
+import { storageSchemas } from '@/services/storageSchema';
+import { StorageService } from '@/services/storageService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { AccessLogService } from '@/services/accessLogService';
+import { BookmarkNode } from '@/types/bookmark';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+const WORK = { id: 'cat-1', name: 'Work', color: '#3b82f6', icon: 'briefcase' };
+const BOOKMARK = { id: 'b1', type: 'bookmark', title: 'Example', url: 'https://example.com', tags: [], parentId: null, createdAt: '2024-01-01T00:00:00.000Z' };
+const PROFILE = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  bookmarks: [BOOKMARK],
+  bookmark_categories: [WORK],
+  bookmarkAccessLog: { events: [{ bookmarkId: 'b1', timestamp: '2024-02-01T10:00:00.000Z', source: 'card' }], archived: {} },
+  retoolPages: [{ name: 'Ops', mode: 'html', content: '<p>ops</p>' }],
+  savedFilters: [{ name: 'Docs', filter: { title: 'docs', url: '', tags: [], categoryIds: [], dateRange: { start: '', end: '' }, accessCount: { min: '', max: '' }, text: [], domains: [], exclude: { text: [], tags: [], categoryIds: [], domains: [] } } }],
+  columnOrder: ['title', 'url'],
+  forethought_theme: 'dark',
+  searchHistory: ['jira'],
+  nativeSyncState: { rootId: '12', mappings: [], conflicts: [], lastSyncedAt: null, lastError: null },
+};
+
+describe('BackupDocumentService', () => {
+  let fake: FakeChrome;
+
+  const install = (initial: Record<string, unknown> = {}) => {
+    fake = createFakeChrome(initial);
+    global.chrome = fake.api;
+  };
+
+  const exportProfile = async () => BackupDocumentService.serialize(await BackupDocumentService.create());
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    install(PROFILE);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('assigns every storage key to exactly one section or to the unbacked list', () => {
+    const assigned = [...Object.values(BACKUP_SECTIONS).flat(), ...UNBACKED_KEYS];
+    expect([...assigned].sort()).toEqual(Object.keys(storageSchemas).sort());
+    expect(new Set(assigned).size).toBe(assigned.length);
+  });
+
+  it('writes a manifest with the schema version and a checksum per section', async () => {
+    const document = await BackupDocumentService.create();
+
+    expect(document.format).toBe('forethought-toolbox-backup');
+    expect(document.manifest.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(Object.keys(document.sections).sort()).toEqual(['bookmarkView', 'commandK', 'library', 'pages', 'search']);
+    expect(document.manifest.sections.search).toEqual({
+      keys: ['savedFilters', 'searchHistory'],
+      checksum: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+    });
+    expect(document.sections.commandK).toEqual({ forethought_theme: 'dark' });
+    expect(JSON.stringify(document)).not.toContain('nativeSyncState');
+  });
+
+  it('restores every section of its own export', async () => {
+    const contents = await exportProfile();
+    install({});
+
+    const parsed = await BackupDocumentService.parseFiles([contents]);
+    expect((await BackupDocumentService.verify(parsed)).every(report => report.status === 'ok')).toBe(true);
+    await BackupDocumentService.restore(parsed);
+
+    for (const key of ['bookmarks', 'bookmark_categories', 'bookmarkAccessLog', 'retoolPages', 'savedFilters', 'columnOrder', 'forethought_theme', 'searchHistory']) {
+      expect(fake.store[key]).toEqual(PROFILE[key as keyof typeof PROFILE]);
+    }
+  });
+
+  it('holds writes made during a restore until it has finished', async () => {
+    const contents = await exportProfile();
+    install({ bookmarks: [], bookmarkAccessLog: { events: [], archived: {} } });
+    const late = { ...BOOKMARK, id: 'b2', title: 'Added meanwhile' } as BookmarkNode;
+    const writes: Promise<unknown>[] = [];
+    const saveRestorePoint = StorageService.saveRestorePoint.bind(StorageService);
+    jest.spyOn(StorageService, 'saveRestorePoint').mockImplementation(point => {
+      writes.push(BookmarkService.transaction(draft => { draft.push(late); }), AccessLogService.record('b2', 'tree'));
+      return saveRestorePoint(point);
+    });
+
+    await BackupDocumentService.restore(await BackupDocumentService.parseFiles([contents]));
+    await Promise.all(writes);
+
+    expect(fake.store.bookmarks).toEqual([BOOKMARK, late]);
+    expect(fake.store.bookmarkAccessLog).toMatchObject({
+      events: [PROFILE.bookmarkAccessLog.events[0], { bookmarkId: 'b2', source: 'tree' }],
+    });
+  });
+
+  it('gives the same checksum regardless of key order', async () => {
+    const first = await BackupDocumentService.create();
+    install({ searchHistory: PROFILE.searchHistory, savedFilters: PROFILE.savedFilters });
+    const second = await BackupDocumentService.create();
+
+    expect(second.manifest.sections.search!.checksum).toBe(first.manifest.sections.search!.checksum);
+  });
+
+  it('refuses corrupted sections but can restore the intact ones', async () => {
+    const document = JSON.parse(await exportProfile());
+    document.sections.library.bookmarks[0].url = 'https://evil.example';
+    install({});
+
+    const parsed = await BackupDocumentService.parseFiles([JSON.stringify(document)]);
+    const reports = await BackupDocumentService.verify(parsed);
+    expect(reports.find(report => report.name === 'library')!.status).toBe('corrupted');
+    expect(reports.find(report => report.name === 'search')!.status).toBe('ok');
+
+    await expect(BackupDocumentService.restore(parsed)).rejects.toBeInstanceOf(BackupIntegrityError);
+    expect(fake.store.bookmarks).toBeUndefined();
+
+    await BackupDocumentService.restore(parsed, ['search', 'commandK']);
+    expect(fake.store.bookmarks).toBeUndefined();
+    expect(fake.store.searchHistory).toEqual(['jira']);
+    expect(fake.store.forethought_theme).toBe('dark');
+  });
+
+  it('treats a section missing from the body as corrupted', async () => {
+    const document = JSON.parse(await exportProfile());
+    delete document.sections.pages;
+
+    const reports = await BackupDocumentService.verify(await BackupDocumentService.parseFiles([JSON.stringify(document)]));
+    expect(reports.find(report => report.name === 'pages')!.status).toBe('corrupted');
+  });
+
+  it('rejects files that are not backups or come from a newer version', async () => {
+    const document = JSON.parse(await exportProfile());
+
+    await expect(BackupDocumentService.parseFiles(['{not json'])).rejects.toThrow('not valid JSON');
+    await expect(BackupDocumentService.parseFiles([JSON.stringify({ hello: 'world' })])).rejects.toThrow('No backup data');
+    await expect(BackupDocumentService.parseFiles([JSON.stringify({ ...document, formatVersion: 99 })])).rejects.toThrow('newer version');
+    await expect(BackupDocumentService.parseFiles([JSON.stringify({ ...document, manifest: {} })])).rejects.toThrow('damaged');
+    await expect(BackupDocumentService.parseFiles([JSON.stringify(document), JSON.stringify(document)])).rejects.toThrow('single backup file');
+  });
+
+  it('migrates data written with an older schema version', async () => {
+    const document = JSON.parse(await exportProfile());
+    document.manifest.schemaVersion = 2;
+    const importSnapshot = jest.spyOn(StorageService, 'importSnapshot');
+
+    await BackupDocumentService.restore(await BackupDocumentService.parseFiles([JSON.stringify(document)]));
+
+    expect(importSnapshot).toHaveBeenCalledWith(expect.objectContaining({ bookmarks: PROFILE.bookmarks }), 2);
+  });
+
+  it('combines the legacy three-file backup and migrates it', async () => {
+    const exportDate = '2024-01-15T09:00:00.000Z';
+    const files = [
+      { bookmarks: [{ ...BOOKMARK, accessCount: 4 }], bookmarkClicks: { Example: 4 }, exportDate, version: '1.0' },
+      { categories: [{ id: 'cat-1', name: 'Work', color: '#3b82f6' }], exportDate, version: '1.0' },
+      { retoolPages: [], notionPages: [{ name: 'Notes', mode: 'markup', content: '# hi' }], exportDate, version: '1.0' },
+    ].map(file => JSON.stringify(file));
+    install({});
+
+    const parsed = await BackupDocumentService.parseFiles(files);
+    expect(parsed.legacy).toBe(true);
+    expect(parsed.document.manifest).toMatchObject({ schemaVersion: 0, createdAt: exportDate, extensionVersion: '1.0' });
+    expect((await BackupDocumentService.verify(parsed)).map(report => report.status)).toEqual(['unverified', 'unverified']);
+    expect(BackupDocumentService.countItems(parsed.document)).toEqual({ bookmarks: 1, folders: 0, categories: 1, pages: 1 });
+
+    await BackupDocumentService.restore(parsed);
+
+    expect(fake.store.bookmarks).toEqual([BOOKMARK]);
+    expect(fake.store.bookmark_categories).toEqual([{ id: 'cat-1', name: 'Work', color: '#3b82f6', icon: '📁' }]);
+    expect(fake.store.bookmarkAccessLog).toEqual({ events: [], archived: { b1: { count: 4, lastAccessed: null } } });
+    expect(fake.store.bookmarkClicks).toBeUndefined();
+    expect(fake.store.notionPages).toEqual([{ name: 'Notes', mode: 'markup', content: '# hi' }]);
+  });
+});
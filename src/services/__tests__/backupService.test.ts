@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+import { BackupService } from '@/services/backupService';
+import { BACKUP_SNAPSHOT_PREFIX, RESTORE_POINT_PREFIX } from '@/services/storageSchema';
+import { BackupSnapshotMeta } from '@/types/backup';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+const WORK = { id: 'cat-1', name: 'Work', color: '#3b82f6', icon: 'briefcase' };
+const LIBRARY = {
+  bookmarks: [
+    { id: 'f1', type: 'folder', title: 'Docs', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'b1', type: 'bookmark', title: 'Example', url: 'https://example.com', tags: [], parentId: 'f1', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'b2', type: 'bookmark', title: 'Other', url: 'https://other.com', tags: [], parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+  ],
+  bookmark_categories: [WORK],
+  retoolPages: [{ name: 'Ops', mode: 'html', content: '<p>ops</p>' }],
+};
+
+const entry = (id: string, createdAt: string): BackupSnapshotMeta => ({
+  id,
+  createdAt,
+  trigger: 'automatic',
+  sizeBytes: 100,
+  counts: { bookmarks: 0, folders: 0, categories: 0, pages: 0 },
+});
+
+const snapshotKeys = (fake: FakeChrome) => Object.keys(fake.store).filter(key => key.startsWith(BACKUP_SNAPSHOT_PREFIX));
+
+describe('BackupService', () => {
+  let fake: FakeChrome;
+  let nextId = 0;
+
+  const install = (initial: Record<string, unknown> = {}) => {
+    fake = createFakeChrome(initial);
+    global.chrome = fake.api;
+  };
+
+  beforeEach(() => {
+    nextId = 0;
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+    jest.spyOn(crypto, 'randomUUID').mockImplementation(() => `snap-${++nextId}` as ReturnType<Crypto['randomUUID']>);
+    install(LIBRARY);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('selectRetained', () => {
+    // Newest first, one snapshot every six hours (local time) from Thu 21 March back to Fri 1 March 2024
+    const history = Array.from({ length: 84 }, (_, i) =>
+      entry(`s${i}`, new Date(2024, 2, 21, 18 - i * 6).toISOString()));
+
+    it('keeps only the newest snapshots when no buckets are configured', () => {
+      const keep = BackupService.selectRetained(history, { keepLast: 3, daily: 0, weekly: 0, monthly: 0 });
+      expect([...keep]).toEqual(['s0', 's1', 's2']);
+    });
+
+    it('keeps the newest snapshot of each recent day', () => {
+      const keep = BackupService.selectRetained(history, { keepLast: 1, daily: 3, weekly: 0, monthly: 0 });
+      const days = [...keep].map(id => history.find(e => e.id === id)!.createdAt);
+      expect(keep.size).toBe(3);
+      expect(new Set(days.map(day => new Date(day).toDateString())).size).toBe(3);
+      expect(keep.has('s0')).toBe(true);
+    });
+
+    it('combines the last N with weekly and monthly snapshots', () => {
+      const keep = BackupService.selectRetained(history, { keepLast: 2, daily: 0, weekly: 10, monthly: 10 });
+      // The newest two, plus the last snapshot of the weeks starting 26 Feb, 4 Mar and 11 Mar.
+      // All snapshots fall in March, whose newest snapshot is already kept.
+      expect([...keep].sort()).toEqual(['s0', 's1', 's16', 's44', 's72']);
+    });
+  });
+
+  it('stores a snapshot with its size and item counts', async () => {
+    const meta = await BackupService.run('manual');
+
+    expect(meta).toEqual({
+      id: 'snap-1',
+      createdAt: '2024-03-01T12:00:00.000Z',
+      trigger: 'manual',
+      sizeBytes: expect.any(Number),
+      counts: { bookmarks: 2, folders: 1, categories: 1, pages: 1 },
+    });
+    expect(meta.sizeBytes).toBeGreaterThan(0);
+    expect(fake.store.backupHistory).toEqual([meta]);
+    expect((await BackupService.getSnapshot(meta.id))?.sections.library).toMatchObject({ bookmarks: LIBRARY.bookmarks, bookmark_categories: [WORK] });
+    expect(fake.store.lastBackup).toEqual({ bookmarks: meta.createdAt, categories: meta.createdAt, automatic: null });
+    expect(fake.downloads).toHaveLength(0);
+  });
+
+  it('downloads copies only when enabled', async () => {
+    await BackupService.updateSettings({ retention: { keepLast: 5, daily: 0, weekly: 0, monthly: 0 }, downloadCopies: true });
+    await BackupService.run('automatic');
+
+    expect(fake.downloads.map(d => d.filename)).toEqual(['forethought_backup_2024-03-01T12-00-00-000Z.json']);
+  });
+
+  it('prunes snapshots the retention policy no longer keeps', async () => {
+    await BackupService.updateSettings({ retention: { keepLast: 2, daily: 0, weekly: 0, monthly: 0 }, downloadCopies: false });
+    for (let i = 0; i < 4; i++) {
+      await BackupService.run('automatic');
+      jest.advanceTimersByTime(60 * 1000);
+    }
+
+    expect((await BackupService.getHistory()).map(e => e.id)).toEqual(['snap-4', 'snap-3']);
+    expect(snapshotKeys(fake).sort()).toEqual([`${BACKUP_SNAPSHOT_PREFIX}snap-3`, `${BACKUP_SNAPSHOT_PREFIX}snap-4`]);
+
+    // Tightening the policy applies straight away
+    await BackupService.updateSettings({ retention: { keepLast: 1, daily: 0, weekly: 0, monthly: 0 }, downloadCopies: false });
+    expect(snapshotKeys(fake)).toEqual([`${BACKUP_SNAPSHOT_PREFIX}snap-4`]);
+  });
+
+  it('restores a snapshot after saving a restore point of the current data', async () => {
+    const meta = await BackupService.run('manual');
+    await chrome.storage.local.set({ bookmarks: [], bookmark_categories: [] });
+
+    await BackupService.restore(meta.id);
+
+    expect(fake.store.bookmarks).toEqual(LIBRARY.bookmarks);
+    expect(fake.store.bookmark_categories).toEqual([WORK]);
+    const restorePoints = Object.keys(fake.store).filter(key => key.startsWith(RESTORE_POINT_PREFIX));
+    expect(restorePoints).toHaveLength(1);
+    expect(fake.store[restorePoints[0]]).toMatchObject({ bookmarks: [], bookmark_categories: [] });
+  });
+
+  it('deletes a snapshot and its history entry', async () => {
+    const first = await BackupService.run('manual');
+    const second = await BackupService.run('manual');
+
+    await BackupService.delete(first.id);
+
+    expect((await BackupService.getHistory()).map(e => e.id)).toEqual([second.id]);
+    expect(await BackupService.getSnapshot(first.id)).toBeNull();
+    await expect(BackupService.restore(first.id)).rejects.toThrow('Backup not found');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import { BookmarkActionService } from '@/services/bookmarkActionService';
+import { DEFAULT_WORKFLOWS } from '@/services/workflowService';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+describe('BookmarkActionService', () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    fake = createFakeChrome();
+    global.chrome = fake.api;
+  });
+
+  it('asks for access one site at a time', async () => {
+    const confirmSite = jest.fn(() => true);
+    expect(BookmarkActionService.originPattern('https://dash.example.com:8443/a?b=c')).toBe('https://dash.example.com:8443/*');
+    expect(BookmarkActionService.originPattern('chrome://settings')).toBeNull();
+    expect(BookmarkActionService.originPattern(undefined)).toBeNull();
+
+    expect(await BookmarkActionService.hasPermission('https://dash.example.com/')).toBe(false);
+    expect(await BookmarkActionService.requestPermission('https://dash.example.com/x', confirmSite)).toBe(true);
+    expect(confirmSite).toHaveBeenCalledWith('dash.example.com');
+    expect(fake.origins).toEqual(new Set(['https://dash.example.com/*']));
+    expect(fake.store.actionSites).toEqual(['https://dash.example.com/*']);
+    expect(await BookmarkActionService.hasPermission('https://dash.example.com/y')).toBe(true);
+    expect(await BookmarkActionService.hasPermission('https://other.example.com/')).toBe(false);
+
+    // Only asked once per site
+    expect(await BookmarkActionService.requestPermission('https://dash.example.com/z', confirmSite)).toBe(true);
+    expect(confirmSite).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks before running actions on a site Chrome already gave access to', async () => {
+    // As after the link checker was allowed on every site
+    fake.grantOrigins(['https://dash.example.com/*']);
+    expect(await BookmarkActionService.hasPermission('https://dash.example.com/')).toBe(false);
+
+    expect(await BookmarkActionService.requestPermission('https://dash.example.com/', () => false)).toBe(false);
+    expect(await BookmarkActionService.hasPermission('https://dash.example.com/')).toBe(false);
+    expect(fake.store.actionSites).toBeUndefined();
+
+    expect(await BookmarkActionService.requestPermission('https://dash.example.com/', () => true)).toBe(true);
+    expect(await BookmarkActionService.hasPermission('https://dash.example.com/')).toBe(true);
+  });
+
+  it('checks actions before they are saved', async () => {
+    const workflow = { type: 'workflow' as const, workflowId: 'dashboard-org-switch', params: {} };
+    const agree = () => true;
+
+    expect(await BookmarkActionService.prepareToSave(undefined, 'https://a.example.com/')).toEqual({});
+    expect(await BookmarkActionService.prepareToSave({ type: 'bookmarklet', code: ' ' }, 'https://a.example.com/')).toEqual({ error: "Enter the bookmarklet's code" });
+    expect(await BookmarkActionService.prepareToSave({ ...workflow, workflowId: '' }, 'https://a.example.com/')).toEqual({ error: 'Choose a workflow to run' });
+    expect(await BookmarkActionService.prepareToSave(workflow, 'file:///tmp/a.html')).toEqual({ warning: 'Actions only run on http and https pages' });
+    expect(await BookmarkActionService.prepareToSave(workflow, 'https://a.example.com/', agree)).toEqual({});
+    expect(await BookmarkActionService.prepareToSave(workflow, 'https://c.example.com/', () => false))
+      .toEqual({ warning: 'The action will not run until you allow the extension on c.example.com' });
+
+    fake.api.permissions.request = async () => false;
+    expect(await BookmarkActionService.prepareToSave(workflow, 'https://b.example.com/', agree))
+      .toEqual({ warning: 'The action will not run until you allow the extension on b.example.com' });
+  });
+
+  it('reads bookmarklets pasted as code or as javascript: links', () => {
+    expect(BookmarkActionService.bookmarkletSource(' alert(1) ')).toBe('alert(1)');
+    expect(BookmarkActionService.bookmarkletSource('javascript:(()%3D%3E%7Balert(%22hi%22)%7D)()')).toBe('(()=>{alert("hi")})()');
+    expect(BookmarkActionService.bookmarkletSource('javascript:alert("100%")')).toBe('alert("100%")');
+  });
+
+  it('fills workflow parameters from the link unless the bookmark sets them', () => {
+    const action = { type: 'workflow' as const, workflowId: 'x', params: { org: '', view: 'weekly' } };
+
+    expect(BookmarkActionService.params(action, 'https://a.example.com/?org=1459&view=daily')).toEqual({ org: '1459', view: 'weekly' });
+    expect(BookmarkActionService.params(action, 'not a url')).toEqual({ view: 'weekly' });
+    expect(BookmarkActionService.describe(action)).toBe('Runs "x"');
+    expect(BookmarkActionService.describe({ ...action, workflowId: DEFAULT_WORKFLOWS[0].id }, DEFAULT_WORKFLOWS)).toBe('Runs "Switch dashboard org"');
+    expect(BookmarkActionService.describe({ type: 'bookmarklet', code: 'alert(1)' })).toBe('Runs a bookmarklet');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { BookmarkSearchService } from '@/services/bookmarkSearchService';
+import { SearchQueryService } from '@/services/searchQueryService';
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+
+// Timings of the background search index on synthetic libraries. Skipped in normal test
+// runs; `npm run bench` runs them and prints a table.
+const describeBench = process.env.BENCH ? describe : describe.skip;
+
+const WORDS = [
+  'dashboard', 'retool', 'customer', 'escalation', 'playbook', 'deploy', 'incident', 'runbook', 'billing',
+  'analytics', 'onboarding', 'workflow', 'triage', 'ticket', 'macro', 'intent', 'model', 'release', 'notes',
+  'calendar', 'roadmap', 'pricing', 'contract', 'support', 'agent', 'search', 'report', 'weekly', 'sync',
+];
+const HOSTS = ['dashboard-int.forethought.tech', 'notion.so', 'github.com', 'docs.google.com', 'retool.com', 'zendesk.com'];
+const CATEGORIES: BookmarkCategory[] = ['Retool', 'Customer Success', 'Engineering', 'Docs'].map((name, i) =>
+  ({ id: `cat-${i}`, name, color: '#000', icon: '📁' }));
+// Results per query, as Command+K asks for
+const LIMIT = 50;
+const QUERIES = ['dashboard', 'escalaton playbok', 'retool deploy', 'notion onboarding tag:w3', 'zz'];
+
+// Deterministic, so runs compare
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const library = (size: number): BookmarkNode[] => {
+  const next = random(size);
+  const pick = <T,>(list: T[]) => list[Math.floor(next() * list.length)];
+  return Array.from({ length: size }, (_, i) => ({
+    id: `bm-${i}`,
+    type: 'bookmark',
+    title: `${pick(WORDS)} ${pick(WORDS)} ${pick(WORDS)} ${i}`,
+    url: `https://${pick(HOSTS)}/${pick(WORDS)}/${i}?org=${Math.floor(next() * 500)}`,
+    parentId: null,
+    createdAt: new Date(Date.UTC(2024, 0, 1) + i * 60_000).toISOString(),
+    tags: next() < 0.5 ? [`w${Math.floor(next() * 10)}`] : [],
+    description: next() < 0.3 ? `${pick(WORDS)} ${pick(WORDS)} for the ${pick(WORDS)} team` : undefined,
+    categoryId: next() < 0.7 ? pick(CATEGORIES).id : undefined,
+    accessCount: Math.floor(next() * next() * 200),
+    lastAccessed: next() < 0.5 ? new Date(Date.UTC(2025, 0, 1) - Math.floor(next() * 90) * 86_400_000).toISOString() : undefined,
+  }));
+};
+
+const time = (run: () => void, repeat = 1) => {
+  const runs: number[] = [];
+  for (let i = 0; i < repeat; i++) {
+    const start = performance.now();
+    run();
+    runs.push(performance.now() - start);
+  }
+  return runs.sort((a, b) => a - b)[Math.floor(runs.length / 2)];
+};
+
+describeBench('BookmarkSearchService benchmarks', () => {
+  const rows: Record<string, string | number>[] = [];
+
+  afterAll(() => {
+    console.table(rows);
+  });
+
+  it.each([10_000, 50_000])('indexes and searches %d bookmarks', size => {
+    const nodes = library(size);
+    let index = BookmarkSearchService.createIndex([]);
+    const build = time(() => {
+      index = BookmarkSearchService.createIndex(nodes, CATEGORIES);
+    });
+
+    // A typical change: a few edits, an addition, a deletion and some opens
+    const changed = nodes.slice(1).map((bm, i) => {
+      if (i % 5000 === 0) return { ...bm, title: `${bm.title} renamed` };
+      if (i % 1000 === 0) return { ...bm, accessCount: (bm.accessCount ?? 0) + 1 };
+      return bm;
+    });
+    changed.push({ ...nodes[0], id: 'bm-new', title: 'Brand new bookmark' });
+    const update = time(() => BookmarkSearchService.updateIndex(index, changed, CATEGORIES));
+
+    QUERIES.forEach(query => {
+      const { filter } = SearchQueryService.parse(query, CATEGORIES);
+      let page = BookmarkSearchService.search(index, filter, { limit: LIMIT });
+      const ms = time(() => {
+        page = BookmarkSearchService.search(index, filter, { limit: LIMIT });
+      }, 5);
+      rows.push({
+        size,
+        query,
+        'build ms': Math.round(build),
+        'update ms': Math.round(update),
+        'search ms': Math.round(ms),
+        matches: page.total,
+        // What crosses the messaging boundary: the best results rather than the whole library
+        'response KB': Math.round(JSON.stringify(page).length / 1024),
+        'library KB': Math.round(JSON.stringify(nodes).length / 1024),
+      });
+    });
+
+    expect(update).toBeLessThan(build);
+    expect(BookmarkSearchService.search(index, SearchQueryService.parse('renamed', CATEGORIES).filter).total).toBeGreaterThan(0);
+  });
+});
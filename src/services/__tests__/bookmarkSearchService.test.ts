@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { BookmarkSearchService } from '@/services/bookmarkSearchService';
+import { SearchQueryService } from '@/services/searchQueryService';
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import { node } from '@/tests/bookmarkFactory';
+
+const NOW = Date.parse('2025-03-01T00:00:00.000Z');
+
+const CATEGORIES: BookmarkCategory[] = [
+  { id: 'retool', name: 'Retool', color: '#000', icon: '📁' },
+  { id: 'cs', name: 'Customer Success', color: '#000', icon: '📁' },
+];
+
+const LIBRARY: BookmarkNode[] = [
+  node('prod-dash', { title: 'Prod Dashboard', url: 'https://dashboard.forethought.tech/d', tags: ['prod'], categoryId: 'retool' }),
+  node('old-dash', { title: 'Old Dashboard', url: 'https://www.forethought.tech/old', tags: ['prod', 'old'], categoryId: 'retool', accessCount: 40, lastAccessed: '2025-02-28T00:00:00.000Z' }),
+  node('wiki', { title: 'Team wiki', url: 'https://notion.so/wiki', tags: ['docs'], description: 'Onboarding checklist' }),
+  node('playbook', { title: 'Escalation playbook', url: 'https://notion.so/workspace/support/escalations/cs', categoryId: 'cs' }),
+];
+
+const index = BookmarkSearchService.createIndex(LIBRARY, CATEGORIES);
+
+const search = (query: string) =>
+  BookmarkSearchService.search(index, SearchQueryService.parse(query, CATEGORIES).filter, { now: NOW }).results;
+
+const ids = (query: string) => search(query).map(result => result.node.id);
+
+describe('BookmarkSearchService', () => {
+  it('matches words fuzzily across title, URL, tags, description and category name', () => {
+    expect(ids('dashbord')).toEqual(expect.arrayContaining(['prod-dash', 'old-dash']));
+    expect(ids('docs')).toEqual(['wiki']);
+    expect(ids('onboarding')).toEqual(['wiki']);
+    expect(ids('customer success')).toEqual(['playbook']);
+    expect(ids('escalations')).toContain('playbook');
+  });
+
+  it('requires every word to match somewhere', () => {
+    expect(ids('docs onboarding')).toEqual(['wiki']);
+    expect(ids('wiki retool')).toEqual([]);
+  });
+
+  it('applies the rest of the query language', () => {
+    expect(ids('dashboard -tag:old')).toEqual(['prod-dash']);
+    expect(ids('cat:cs')).toEqual(['playbook']);
+  });
+
+  it('ranks often and recently opened bookmarks first among equal matches', () => {
+    expect(ids('dashboard')).toEqual(['old-dash', 'prod-dash']);
+    expect(BookmarkSearchService.popularity(LIBRARY[0], NOW)).toBe(1);
+    expect(BookmarkSearchService.popularity(LIBRARY[1], NOW)).toBeGreaterThan(1.4);
+  });
+
+  it('returns highlights for the matched text', () => {
+    const [result] = search('wiki');
+    expect(result.highlights.title).toEqual([{ start: 5, end: 9 }]);
+    expect(BookmarkSearchService.segments(result.node.title, result.highlights.title)).toEqual([
+      { text: 'Team ', match: false },
+      { text: 'wiki', match: true },
+    ]);
+  });
+
+  it('updates an index in place, reindexing only what changed', () => {
+    const live = BookmarkSearchService.createIndex(LIBRARY, CATEGORIES);
+    const [prodDash, oldDash, wiki] = LIBRARY;
+    const next = [
+      { ...prodDash, accessCount: 3 },
+      { ...oldDash, title: 'Legacy Dashboard' },
+      wiki,
+      node('runbook', { title: 'Incident runbook' }),
+    ];
+
+    expect(BookmarkSearchService.updateIndex(live, next, CATEGORIES)).toEqual({ added: 1, updated: 1, removed: 1 });
+
+    const find = (query: string) => BookmarkSearchService.search(live, SearchQueryService.parse(query, CATEGORIES).filter, { now: NOW }).results;
+    expect(find('legacy').map(result => result.node.id)).toEqual(['old-dash']);
+    expect(find('runbook').map(result => result.node.id)).toEqual(['runbook']);
+    expect(find('escalation')).toEqual([]);
+    expect(find('prod').find(result => result.node.id === 'prod-dash')?.node.accessCount).toBe(3);
+  });
+
+  it('returns the best results up to the limit with the number of matches', () => {
+    const page = BookmarkSearchService.search(index, SearchQueryService.parse('dashboard', CATEGORIES).filter, { limit: 1, now: NOW });
+    expect(page.total).toBe(2);
+    expect(page.results).toEqual([expect.objectContaining({ node: LIBRARY[1], highlights: { title: [{ start: 4, end: 13 }] } })]);
+  });
+
+  it('passes everything through in index order without words', () => {
+    expect(search('').map(result => [result.node.id, result.rank])).toEqual(LIBRARY.map(bm => [bm.id, 0]));
+  });
+});
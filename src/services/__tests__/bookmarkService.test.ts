@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { BookmarkService } from '@/services/bookmarkService';
+import { BookmarkNode } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { node } from '@/tests/bookmarkFactory';
+
+// Lets other queued work run, as a slow storage read or a network call would
+const ticks = async (count: number) => {
+  for (let i = 0; i < count; i++) await Promise.resolve();
+};
+
+describe('BookmarkService', () => {
+  let fake: FakeChrome;
+  const stored = () => fake.store.bookmarks as BookmarkNode[];
+
+  beforeEach(() => {
+    fake = createFakeChrome({ bookmarks: [node('a'), node('b')] });
+    global.chrome = fake.api;
+  });
+
+  describe('write queue', () => {
+    it('applies concurrent writes one after another, so none is lost', async () => {
+      await Promise.all([
+        BookmarkService.transaction(async draft => {
+          await ticks(10);
+          draft.push(node('c'));
+        }),
+        BookmarkService.updateMany(['a'], { title: 'A' }),
+        BookmarkService.deleteMany(['b']),
+        BookmarkService.transaction(draft => {
+          draft.push(node('d'));
+        }),
+      ]);
+
+      expect(stored().map(({ id, title }) => `${id}:${title}`)).toEqual(['a:A', 'c:c', 'd:d']);
+    });
+
+    it('gives each write the result of the ones queued before it', async () => {
+      const seen: string[][] = [];
+
+      await Promise.all([
+        BookmarkService.deleteMany(['a']),
+        BookmarkService.transaction(draft => { seen.push(draft.map(bookmark => bookmark.id)); }),
+        BookmarkService.updateMany(['b'], bookmark => ({ title: `${bookmark.title}!` })),
+        BookmarkService.transaction(draft => { seen.push(draft.map(bookmark => bookmark.title)); }),
+      ]);
+
+      expect(seen).toEqual([['b'], ['b!']]);
+    });
+
+    it('writes nothing for a failing transaction and runs the writes queued after it', async () => {
+      const failing = BookmarkService.transaction(async draft => {
+        draft.splice(0, draft.length);
+        await ticks(3);
+        throw new Error('Aborted');
+      });
+      const next = BookmarkService.updateMany(['b'], { title: 'B' });
+
+      await expect(failing).rejects.toThrow('Aborted');
+      await expect(next).resolves.toEqual([expect.objectContaining({ id: 'b', title: 'B' })]);
+      expect(stored().map(({ id, title }) => `${id}:${title}`)).toEqual(['a:a', 'b:B']);
+    });
+
+    it('keeps other writes waiting while exclusive work runs', async () => {
+      const log: string[] = [];
+
+      await Promise.all([
+        BookmarkService.exclusive(async () => {
+          log.push('start exclusive');
+          await ticks(10);
+          log.push('end exclusive');
+        }),
+        BookmarkService.deleteMany(['a']).then(() => log.push('deleted')),
+      ]);
+
+      expect(log).toEqual(['start exclusive', 'end exclusive', 'deleted']);
+    });
+  });
+});
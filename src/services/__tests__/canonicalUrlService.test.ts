@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { CanonicalUrlService, DEFAULT_URL_PARAM_RULES } from '@/services/canonicalUrlService';
+import { createFakeChrome } from '@/tests/fakeChrome';
+import { folder, node } from '@/tests/bookmarkFactory';
+
+describe('CanonicalUrlService', () => {
+  describe('canonicalize', () => {
+    const canonical = (url: string) => CanonicalUrlService.canonicalize(url, []);
+
+    it('treats host case, www and trailing slashes as the same page', () => {
+      expect(canonical('https://x.com/a')).toBe('https://x.com/a');
+      expect(canonical('https://WWW.X.com/a/')).toBe('https://x.com/a');
+      expect(canonical('https://x.com/')).toBe('https://x.com');
+      expect(canonical('  https://x.com:8080/a//  ')).toBe('https://x.com:8080/a');
+    });
+
+    it('drops tracking parameters and sorts the rest', () => {
+      expect(canonical('https://x.com/a?utm_source=news&utm_medium=email')).toBe('https://x.com/a');
+      expect(canonical('https://x.com/a?b=2&fbclid=abc&a=1&UTM_Campaign=x')).toBe('https://x.com/a?a=1&b=2');
+      expect(canonical('https://x.com/a?tag=b&tag=a')).toBe('https://x.com/a?tag=a&tag=b');
+    });
+
+    it('keeps the scheme, path case and fragment', () => {
+      expect(canonical('http://x.com/Docs#intro')).toBe('http://x.com/Docs#intro');
+      expect(canonical('https://x.com/app/#/settings')).toBe('https://x.com/app#/settings');
+    });
+
+    it('ignores the parameters a rule lists for the domain and its subdomains', () => {
+      const rules = [{ domain: 'www.example.com', params: ['org', 'Tab'] }];
+      expect(CanonicalUrlService.canonicalize('https://example.com/d?org=1&tab=2&id=3', rules)).toBe('https://example.com/d?id=3');
+      expect(CanonicalUrlService.canonicalize('https://eu.example.com/d?org=1', rules)).toBe('https://eu.example.com/d');
+      expect(CanonicalUrlService.canonicalize('https://notexample.com/d?org=1', rules)).toBe('https://notexample.com/d?org=1');
+    });
+
+    it('ignores the dashboard org by default', () => {
+      expect(CanonicalUrlService.canonicalize('https://dashboard-int.forethought.tech/discover/dashboard?org=42'))
+        .toBe('https://dashboard-int.forethought.tech/discover/dashboard');
+    });
+
+    it('leaves anything that is not a web URL alone', () => {
+      expect(canonical('javascript:void(0)')).toBe('javascript:void(0)');
+      expect(canonical('not a url')).toBe('not a url');
+    });
+  });
+
+  describe('findDuplicates', () => {
+    it('groups bookmarks by canonical URL', () => {
+      const groups = CanonicalUrlService.findDuplicates([
+        node('a', { title: 'A', url: 'https://x.com/a' }),
+        node('b', { title: 'B', url: 'https://www.x.com/a/' }),
+        node('c', { title: 'C', url: 'https://x.com/a?utm_source=feed' }),
+        node('d', { title: 'D', url: 'https://x.com/other' }),
+        folder('f1', { title: 'Folder' }),
+        folder('f2', { title: 'Folder' }),
+      ]);
+
+      expect(groups).toEqual([{ key: 'https://x.com/a', tier: 'url', ids: ['a', 'b', 'c'] }]);
+    });
+
+    it('offers near-identical titles on different pages as a second tier', () => {
+      const groups = CanonicalUrlService.findDuplicates([
+        node('a', { title: 'Quarterly Planning Doc', url: 'https://docs.example.com/1' }),
+        node('b', { title: 'Quarterly planning doc.', url: 'https://docs.example.com/2' }),
+        node('c', { title: 'Quarterly Planning Docs', url: 'https://docs.example.com/3' }),
+        node('d', { title: 'Quarterly Budget', url: 'https://docs.example.com/4' }),
+        node('e', { title: 'Home', url: 'https://a.example.com' }),
+        node('f', { title: 'Home', url: 'https://b.example.com' }),
+        // Same page as a, so it is only in the URL tier
+        node('g', { title: 'Quarterly Planning Doc', url: 'https://docs.example.com/1/' }),
+      ]);
+
+      expect(groups).toEqual([
+        { key: 'https://docs.example.com/1', tier: 'url', ids: ['a', 'g'] },
+        { key: 'quarterly planning doc', tier: 'title', ids: ['a', 'b', 'c'] },
+      ]);
+    });
+  });
+
+  describe('findMatches', () => {
+    const library = [
+      node('a', { title: 'Team Dashboard', url: 'https://dashboard-int.forethought.tech/discover/dashboard?org=1' }),
+      node('b', { title: 'Release Checklist', url: 'https://x.com/release' }),
+      node('c', { title: 'Release checklists', url: 'https://y.com/release' }),
+    ];
+
+    it('finds bookmarks for the same page', () => {
+      const matches = CanonicalUrlService.findMatches('https://dashboard-int.forethought.tech/discover/dashboard/?org=7', '', library);
+      expect(matches.sameUrl.map(b => b.id)).toEqual(['a']);
+      expect(matches.similarTitle).toEqual([]);
+    });
+
+    it('suggests bookmarks with similar titles, excluding same-page matches', () => {
+      const matches = CanonicalUrlService.findMatches('https://www.x.com/release', 'Release Checklist', library);
+      expect(matches.sameUrl.map(b => b.id)).toEqual(['b']);
+      expect(matches.similarTitle.map(b => b.id)).toEqual(['c']);
+    });
+
+    it('matches nothing for an empty form', () => {
+      expect(CanonicalUrlService.findMatches('', '', library)).toEqual({ sameUrl: [], similarTitle: [] });
+    });
+  });
+
+  it('reads the rules from storage, falling back to the defaults', async () => {
+    global.chrome = createFakeChrome().api;
+    expect(await CanonicalUrlService.getRules()).toEqual(DEFAULT_URL_PARAM_RULES);
+
+    const rules = [{ domain: 'example.com', params: ['ref'] }];
+    await chrome.storage.local.set({ urlParamRules: rules });
+    expect(await CanonicalUrlService.getRules()).toEqual(rules);
+  });
+});
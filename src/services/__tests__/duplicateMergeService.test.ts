@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+import { DuplicateMergeService, MergeConflictError } from '@/services/duplicateMergeService';
+import { AccessLogService } from '@/services/accessLogService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { BookmarkAccessLog, BookmarkNode } from '@/types/bookmark';
+import { DuplicateGroup, MergeOptions } from '@/types/duplicates';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { node } from '@/tests/bookmarkFactory';
+
+// Copies of https://x.com/a unless extra says otherwise
+const copy = (id: string, createdAt: string, extra: Partial<BookmarkNode> = {}): BookmarkNode =>
+  node(id, { url: 'https://x.com/a', createdAt, ...extra });
+
+const A = copy('a', '2024-01-01T00:00:00.000Z', { tags: ['work'], description: 'First' });
+const B = copy('b', '2024-03-01T00:00:00.000Z', { tags: ['docs'], categoryId: 'cat', description: 'Second' });
+const C = copy('c', '2024-02-01T00:00:00.000Z', { description: 'First' });
+
+const LOG: BookmarkAccessLog = {
+  events: [
+    { bookmarkId: 'a', timestamp: '2024-04-01T00:00:00.000Z', source: 'popup-table' },
+    { bookmarkId: 'c', timestamp: '2024-05-01T00:00:00.000Z', source: 'command-k' },
+    { bookmarkId: 'c', timestamp: '2024-05-02T00:00:00.000Z', source: 'command-k' },
+  ],
+  archived: { c: { count: 3, lastAccessed: '2024-01-15T00:00:00.000Z' } },
+};
+
+const GROUP: DuplicateGroup = { key: 'https://x.com/a', tier: 'url', ids: ['a', 'b', 'c'] };
+
+const OPTIONS: MergeOptions = { policy: 'most-accessed', mergeTags: true, mergeCategories: true, mergeDescriptions: true };
+
+describe('DuplicateMergeService', () => {
+  const withStats = (nodes: BookmarkNode[]) => AccessLogService.withAccessStats(nodes, LOG);
+
+  describe('plan', () => {
+    it('picks the keeper of every group by policy', () => {
+      const keeper = (policy: MergeOptions['policy']) =>
+        DuplicateMergeService.plan([GROUP], withStats([A, B, C]), { ...OPTIONS, policy }).steps[0].keep.id;
+
+      expect(keeper('most-accessed')).toBe('c');
+      expect(keeper('newest')).toBe('b');
+      expect(keeper('oldest')).toBe('a');
+    });
+
+    it('lets a keeper picked by hand override the policy', () => {
+      const plan = DuplicateMergeService.plan([GROUP], withStats([A, B, C]), { ...OPTIONS, keepers: { 'url:https://x.com/a': 'b' } });
+      expect(plan.steps[0].keep.id).toBe('b');
+      expect(plan.removeIds).toEqual(['a', 'c']);
+    });
+
+    it('sums opens, keeps the latest open and combines fields', () => {
+      const plan = DuplicateMergeService.plan([GROUP], withStats([A, B, C]), OPTIONS);
+
+      expect(plan.steps).toEqual([{
+        groupKey: 'url:https://x.com/a',
+        keep: expect.objectContaining({
+          id: 'c',
+          accessCount: 6,
+          lastAccessed: '2024-05-02T00:00:00.000Z',
+          tags: ['work', 'docs'],
+          categoryId: 'cat',
+          description: 'First\n---\nSecond',
+        }),
+        removeIds: ['a', 'b'],
+      }]);
+      expect(plan.moves).toEqual({ a: 'c', b: 'c' });
+    });
+
+    it('skips groups left with one bookmark by earlier merges', () => {
+      const D = copy('d', '2024-06-01T00:00:00.000Z', { url: 'https://x.com/other' });
+      const groups: DuplicateGroup[] = [
+        { key: 'https://x.com/a', tier: 'url', ids: ['a', 'b'] },
+        { key: 'a', tier: 'title', ids: ['a', 'd'] },
+      ];
+
+      const plan = DuplicateMergeService.plan(groups, withStats([A, B, D]), { ...OPTIONS, policy: 'newest' });
+
+      // a is merged into b, which leaves d alone in the title group, so it is skipped
+      expect(plan.steps.map(step => [step.keep.id, step.removeIds])).toEqual([['b', ['a']]]);
+      expect(plan.removeIds).toEqual(['a']);
+    });
+
+    it('chains merges when a keeper is merged away by a later group', () => {
+      const D = copy('d', '2024-06-01T00:00:00.000Z', { url: 'https://x.com/other' });
+      const groups: DuplicateGroup[] = [
+        { key: 'https://x.com/a', tier: 'url', ids: ['a', 'b'] },
+        { key: 'b', tier: 'title', ids: ['b', 'd'] },
+      ];
+
+      const plan = DuplicateMergeService.plan(groups, withStats([A, B, D]), { ...OPTIONS, policy: 'newest' });
+
+      expect(plan.steps.map(step => [step.keep.id, step.removeIds])).toEqual([['d', ['a', 'b']]]);
+      expect(plan.steps[0].keep.tags).toEqual(['docs', 'work']);
+      expect(plan.moves).toEqual({ a: 'd', b: 'd' });
+    });
+  });
+
+  describe('apply and undo', () => {
+    let fake: FakeChrome;
+
+    beforeEach(() => {
+      fake = createFakeChrome({ bookmarks: [A, B, C, copy('e', '2024-01-01T00:00:00.000Z')], bookmarkAccessLog: LOG });
+      global.chrome = fake.api;
+    });
+
+    it('writes the merge and moves the opens to the keeper', async () => {
+      const plan = DuplicateMergeService.plan([GROUP], withStats([A, B, C]), { ...OPTIONS, policy: 'oldest' });
+
+      await DuplicateMergeService.apply(plan);
+
+      const bookmarks = fake.store.bookmarks as BookmarkNode[];
+      expect(bookmarks.map(b => b.id)).toEqual(['a', 'e']);
+      expect(bookmarks[0]).toEqual({ ...A, tags: ['work', 'docs'], categoryId: 'cat', description: 'First\n---\nSecond' });
+      const totals = AccessLogService.summarize(fake.store.bookmarkAccessLog as BookmarkAccessLog);
+      expect(totals.get('a')).toEqual({ count: 6, lastAccessed: '2024-05-02T00:00:00.000Z' });
+      expect(totals.has('c')).toBe(false);
+    });
+
+    it('puts everything back in one undo, keeping opens recorded since', async () => {
+      const plan = DuplicateMergeService.plan([GROUP], withStats([A, B, C]), OPTIONS);
+      const undo = await DuplicateMergeService.apply(plan);
+      await AccessLogService.record('c', 'card');
+
+      await DuplicateMergeService.undo(undo);
+
+      const bookmarks = fake.store.bookmarks as BookmarkNode[];
+      expect(bookmarks).toEqual([A, B, C, copy('e', '2024-01-01T00:00:00.000Z')]);
+      const log = fake.store.bookmarkAccessLog as BookmarkAccessLog;
+      expect(log.events.slice(0, 3)).toEqual(LOG.events);
+      expect(log.archived).toEqual(LOG.archived);
+      expect(AccessLogService.summarize(log).get('c')?.count).toBe(6);
+    });
+
+    it('puts removed bookmarks back at their places among bookmarks added since', async () => {
+      fake.store.bookmarks = [A, node('x'), B, node('y'), C];
+      const plan = DuplicateMergeService.plan([GROUP], withStats([A, B, C]), { ...OPTIONS, policy: 'oldest' });
+      const undo = await DuplicateMergeService.apply(plan);
+      await BookmarkService.transaction(draft => { draft.push(node('z')); });
+
+      await DuplicateMergeService.undo(undo);
+
+      expect((fake.store.bookmarks as BookmarkNode[]).map(b => b.id)).toEqual(['a', 'x', 'b', 'y', 'c', 'z']);
+    });
+
+    it('writes nothing when a bookmark changed or went away after the preview', async () => {
+      const plan = DuplicateMergeService.plan([GROUP], withStats([A, B, C]), OPTIONS);
+      await BookmarkService.updateMany(['b'], { description: 'Edited' });
+
+      await expect(DuplicateMergeService.apply(plan)).rejects.toEqual(new MergeConflictError(['b']));
+
+      await BookmarkService.deleteMany(['c']);
+      const replanned = DuplicateMergeService.plan([GROUP], withStats([A, { ...B, description: 'Edited' }, C]), OPTIONS);
+      await expect(DuplicateMergeService.apply(replanned)).rejects.toThrow(MergeConflictError);
+
+      expect((fake.store.bookmarks as BookmarkNode[]).map(b => b.id)).toEqual(['a', 'b', 'e']);
+      expect(fake.store.bookmarkAccessLog).toEqual(LOG);
+    });
+  });
+});
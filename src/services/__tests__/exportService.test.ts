@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { ExportService } from '@/services/exportService';
+import { HtmlImportService } from '@/services/htmlImportService';
+import { BookmarkNode } from '@/types/bookmark';
+
+const WORK = { id: 'cat-1', name: 'Work', color: '#3b82f6', icon: 'briefcase' };
+const DOCS = { id: 'cat-2', name: 'Docs', color: '#10b981', icon: 'book' };
+
+const LIBRARY: BookmarkNode[] = [
+  { id: 'f1', type: 'folder', title: 'Team', parentId: null, createdAt: '2023-11-14T22:13:20.000Z' },
+  { id: 'f2', type: 'folder', title: 'Ops & On-call', parentId: 'f1', createdAt: '2023-11-14T22:13:20.000Z' },
+  { id: 'f3', type: 'folder', title: 'Empty', parentId: null, createdAt: '2023-11-14T22:13:20.000Z' },
+  {
+    id: 'b1', type: 'bookmark', title: 'Grafana <main>', url: 'https://grafana.example.com/d/1?a=1&b=2', parentId: 'f2',
+    categoryId: 'cat-1', tags: ['monitoring', 'ops'], description: 'Main dashboard', icon: 'data:image/png;base64,AAAA',
+    createdAt: '2023-11-14T22:15:00.000Z', accessCount: 3, lastAccessed: '2024-02-01T10:00:00.000Z',
+  },
+  { id: 'b2', type: 'bookmark', title: 'Runbook [draft]', url: 'https://wiki.example.com/run book (v2)', parentId: 'f1', categoryId: 'cat-2', tags: [], createdAt: '2023-11-14T22:15:00.000Z' },
+  { id: 'b3', type: 'bookmark', title: '=HYPERLINK("x")', url: 'https://example.com/', parentId: null, tags: [], createdAt: '2023-11-14T22:15:00.000Z' },
+];
+const CATEGORIES = [WORK, DOCS];
+const library = { nodes: LIBRARY, categories: CATEGORIES };
+const pick = (...ids: string[]) => LIBRARY.filter(node => ids.includes(node.id));
+
+describe('ExportService', () => {
+  describe('toHtml', () => {
+    it('writes a bookmark file that imports back with the same folders and details', () => {
+      const html = ExportService.toHtml(LIBRARY, LIBRARY);
+      const file = HtmlImportService.parse(html);
+
+      expect(html.startsWith('<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe(true);
+      expect(HtmlImportService.listFolders(file.entries).map(({ folder, depth }) => `${depth}:${folder.title}`))
+        .toEqual(['0:Team', '1:Ops & On-call', '0:Empty']);
+
+      const plan = HtmlImportService.plan(file, {}, { bookmarks: [], categories: [] }, { parentId: null, skipDuplicates: true });
+      expect(plan.nodes.find(node => node.url === LIBRARY[3].url)).toMatchObject({
+        title: 'Grafana <main>',
+        tags: ['monitoring', 'ops'],
+        description: 'Main dashboard',
+        icon: 'data:image/png;base64,AAAA',
+        createdAt: '2023-11-14T22:15:00.000Z',
+      });
+    });
+
+    it('keeps only the folders above the chosen bookmarks', () => {
+      const file = HtmlImportService.parse(ExportService.toHtml(pick('b1'), LIBRARY));
+
+      expect(HtmlImportService.listFolders(file.entries).map(({ folder }) => folder.title)).toEqual(['Team', 'Ops & On-call']);
+      expect(HtmlImportService.countBookmarks(file.entries)).toBe(1);
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('groups links by category in the library order, uncategorized last', () => {
+      expect(ExportService.toMarkdown(pick('b3', 'b2', 'b1'), library, 'category')).toBe([
+        '## Work',
+        '',
+        '- [Grafana <main>](https://grafana.example.com/d/1?a=1&b=2) — Main dashboard',
+        '',
+        '## Docs',
+        '',
+        '- [Runbook \\[draft\\]](https://wiki.example.com/run%20book%20%28v2%29)',
+        '',
+        '## Uncategorized',
+        '',
+        '- [=HYPERLINK("x")](https://example.com/)',
+        '',
+      ].join('\n'));
+    });
+
+    it('groups links by folder path', () => {
+      const markdown = ExportService.toMarkdown(pick('b1', 'b2', 'b3'), library, 'folder');
+
+      expect(markdown.split('\n').filter(line => line.startsWith('## '))).toEqual(['## Team / Ops & On-call', '## Team', '## Top level']);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('writes the chosen columns in order with quoting', () => {
+      const csv = ExportService.toCsv(pick('f1', 'b1', 'b3'), CATEGORIES, ['title', 'url', 'category', 'tags', 'accessCount', 'lastAccessed']);
+
+      expect(csv.split('\r\n')).toEqual([
+        'Title,URL,Category,Tags,Access Count,Last Accessed',
+        'Grafana <main>,https://grafana.example.com/d/1?a=1&b=2,Work,"monitoring, ops",3,2024-02-01T10:00:00.000Z',
+        // Cells that spreadsheets would run as formulas are quoted
+        '"\'=HYPERLINK(""x"")",https://example.com/,,,0,',
+        '',
+      ]);
+    });
+  });
+
+  it('names files by format and date', () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    const options = { groupBy: 'category' as const, columns: ['title' as const] };
+
+    expect(ExportService.export('html', LIBRARY, library, options)).toMatchObject({ mimeType: 'text/html', fileName: 'bookmarks_2024-03-01.html' });
+    expect(ExportService.export('markdown', LIBRARY, library, options).fileName).toBe('bookmarks_2024-03-01.md');
+    expect(ExportService.export('csv', LIBRARY, library, options)).toMatchObject({ mimeType: 'text/csv', content: 'Title\r\nGrafana <main>\r\nRunbook [draft]\r\n"\'=HYPERLINK(""x"")"\r\n' });
+    jest.useRealTimers();
+  });
+});
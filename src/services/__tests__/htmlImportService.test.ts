@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ */
+import { HtmlImportService } from '@/services/htmlImportService';
+import { BookmarkNode } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+// Shaped like Chrome's export: unclosed <DT> and <p> tags, folders as <H3> followed by a <DL>
+const CHROME_EXPORT = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<!-- This is an automatically generated file. -->
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" LAST_MODIFIED="1700000500" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://jira.example.com/" ADD_DATE="1700000100" ICON="data:image/png;base64,AAAA">Jira</A>
+        <DT><H3 ADD_DATE="1700000200">Team &amp; Ops</H3>
+        <DL><p>
+            <DT><A HREF="https://grafana.example.com/d/1?a=1&amp;b=2" ADD_DATE="1700000300" TAGS="monitoring,ops">Grafana</A>
+            <DD>Main dashboard
+            <DT><H3 ADD_DATE="1700000400">Runbooks</H3>
+            <DL><p>
+                <DT><A HREF="https://wiki.example.com/runbooks" ADD_DATE="1700000400000">Runbooks</A>
+            </DL><p>
+        </DL><p>
+        <DT><A HREF="javascript:alert(1)">Bookmarklet</A>
+    </DL><p>
+    <DT><A HREF="https://example.com/">Example</A>
+</DL><p>
+`;
+
+const WORK = { id: 'cat-1', name: 'Team & Ops', color: '#3b82f6', icon: 'briefcase' };
+
+const byTitle = (nodes: BookmarkNode[], title: string) => nodes.find(node => node.title === title)!;
+
+describe('HtmlImportService', () => {
+  let nextId: number;
+
+  beforeEach(() => {
+    nextId = 0;
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+    jest.spyOn(crypto, 'randomUUID').mockImplementation(() => `id-${++nextId}` as ReturnType<Crypto['randomUUID']>);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('parse', () => {
+    it('rebuilds the nested folders with dates, icons, tags and descriptions', () => {
+      const file = HtmlImportService.parse(CHROME_EXPORT);
+
+      expect(file.title).toBe('Bookmarks');
+      expect(file.unsupported).toBe(1);
+      expect(file.entries.map(entry => entry.title)).toEqual(['Bookmarks bar', 'Example']);
+
+      const [bar] = file.entries;
+      expect(bar).toMatchObject({ type: 'folder', id: '0', createdAt: '2023-11-14T22:13:20.000Z' });
+      if (bar.type !== 'folder') throw new Error('expected a folder');
+      expect(bar.children[0]).toEqual({
+        type: 'bookmark',
+        title: 'Jira',
+        url: 'https://jira.example.com/',
+        createdAt: '2023-11-14T22:15:00.000Z',
+        icon: 'data:image/png;base64,AAAA',
+        tags: [],
+      });
+
+      const team = bar.children[1];
+      if (team.type !== 'folder') throw new Error('expected a folder');
+      expect(team).toMatchObject({ id: '0.1', title: 'Team & Ops' });
+      expect(team.children[0]).toMatchObject({
+        url: 'https://grafana.example.com/d/1?a=1&b=2',
+        tags: ['monitoring', 'ops'],
+        description: 'Main dashboard',
+      });
+      // Milliseconds are recognised as well as seconds
+      expect(team.children[1]).toMatchObject({ id: '0.1.1', title: 'Runbooks', children: [{ createdAt: '2023-11-14T22:20:00.000Z' }] });
+    });
+
+    it('lists and counts folders and bookmarks', () => {
+      const file = HtmlImportService.parse(CHROME_EXPORT);
+
+      expect(HtmlImportService.listFolders(file.entries).map(({ folder, depth }) => `${depth}:${folder.title}`))
+        .toEqual(['0:Bookmarks bar', '1:Team & Ops', '2:Runbooks']);
+      expect(HtmlImportService.countBookmarks(file.entries)).toBe(4);
+    });
+
+    it('rejects files that are not bookmark exports or have no links', () => {
+      expect(() => HtmlImportService.parse('<html><body>hi</body></html>')).toThrow('not a browser bookmark file');
+      expect(() => HtmlImportService.parse('<DL><p><DT><H3>Empty</H3><DL><p></DL><p></DL>')).toThrow('No bookmarks found');
+    });
+  });
+
+  describe('plan', () => {
+    const empty = { bookmarks: [], categories: [] };
+    const options = { parentId: null, skipDuplicates: true };
+
+    it('keeps the folder hierarchy by default', () => {
+      const plan = HtmlImportService.plan(HtmlImportService.parse(CHROME_EXPORT), {}, empty, options);
+
+      const bar = byTitle(plan.nodes, 'Bookmarks bar');
+      const team = byTitle(plan.nodes, 'Team & Ops');
+      const runbooksFolder = plan.nodes.find(node => node.title === 'Runbooks' && node.type === 'folder')!;
+      expect(bar).toEqual({ id: expect.any(String), type: 'folder', title: 'Bookmarks bar', parentId: null, createdAt: '2023-11-14T22:13:20.000Z' });
+      expect(byTitle(plan.nodes, 'Jira')).toMatchObject({ parentId: bar.id, icon: 'data:image/png;base64,AAAA', createdAt: '2023-11-14T22:15:00.000Z' });
+      expect(team.parentId).toBe(bar.id);
+      expect(byTitle(plan.nodes, 'Grafana')).toMatchObject({ parentId: team.id, tags: ['monitoring', 'ops'], description: 'Main dashboard' });
+      expect(runbooksFolder.parentId).toBe(team.id);
+      expect(byTitle(plan.nodes, 'Example')).toMatchObject({ parentId: null, createdAt: '2024-03-01T12:00:00.000Z' });
+      expect(plan.categories).toEqual([]);
+    });
+
+    it('turns folders into categories or tags', () => {
+      const plan = HtmlImportService.plan(
+        HtmlImportService.parse(CHROME_EXPORT),
+        { '0.1': 'category', '0.1.1': 'tag' },
+        { bookmarks: [], categories: [WORK] },
+        { parentId: 'target', skipDuplicates: true },
+      );
+
+      const bar = byTitle(plan.nodes, 'Bookmarks bar');
+      expect(plan.nodes.map(node => node.title)).toEqual(['Bookmarks bar', 'Jira', 'Grafana', 'Runbooks', 'Example']);
+      // The existing category with the folder's name is reused, and the bookmarks move up to the folder above
+      expect(byTitle(plan.nodes, 'Grafana')).toMatchObject({ parentId: bar.id, categoryId: 'cat-1', tags: ['monitoring', 'ops'] });
+      expect(byTitle(plan.nodes, 'Runbooks')).toMatchObject({ type: 'bookmark', parentId: bar.id, categoryId: 'cat-1', tags: ['Runbooks'] });
+      expect(bar.parentId).toBe('target');
+      expect(plan.categories).toEqual([]);
+      expect(plan.tags).toEqual(['Runbooks']);
+    });
+
+    it('creates a category for a folder with a new name', () => {
+      const plan = HtmlImportService.plan(HtmlImportService.parse(CHROME_EXPORT), { '0': 'category' }, empty, options);
+
+      expect(plan.categories).toEqual([{ id: expect.any(String), name: 'Bookmarks bar', color: '#6366f1', icon: '📁' }]);
+      expect(byTitle(plan.nodes, 'Jira')).toMatchObject({ parentId: null, categoryId: plan.categories[0].id });
+      expect(byTitle(plan.nodes, 'Example').categoryId).toBeUndefined();
+    });
+
+    it('skips known URLs and fills existing folders instead of duplicating them', () => {
+      const file = HtmlImportService.parse(CHROME_EXPORT);
+      const first = HtmlImportService.plan(file, {}, empty, options);
+      const library = { bookmarks: first.nodes.filter(node => node.title !== 'Grafana'), categories: [] };
+
+      const second = HtmlImportService.plan(file, {}, library, options);
+
+      expect(second.duplicates).toHaveLength(3);
+      expect(second.nodes).toEqual([expect.objectContaining({ title: 'Grafana', parentId: byTitle(first.nodes, 'Team & Ops').id })]);
+    });
+
+    it('drops new folders left empty by skipped duplicates', () => {
+      const library = { bookmarks: [{ id: 'x', type: 'bookmark' as const, title: 'R', url: 'https://wiki.example.com/runbooks', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' }], categories: [] };
+
+      const plan = HtmlImportService.plan(HtmlImportService.parse(CHROME_EXPORT), {}, library, options);
+
+      expect(plan.nodes.filter(node => node.type === 'folder').map(node => node.title)).toEqual(['Bookmarks bar', 'Team & Ops']);
+      expect(plan.duplicates.map(entry => entry.url)).toEqual(['https://wiki.example.com/runbooks']);
+    });
+  });
+
+  describe('import', () => {
+    let fake: FakeChrome;
+
+    beforeEach(() => {
+      fake = createFakeChrome({ bookmarks: [], bookmark_categories: [WORK] });
+      global.chrome = fake.api;
+    });
+
+    it('writes the planned nodes and new categories', async () => {
+      const result = await HtmlImportService.import(HtmlImportService.parse(CHROME_EXPORT), { '0.1.1': 'category' }, { parentId: null, skipDuplicates: true });
+
+      expect(fake.store.bookmarks).toHaveLength(result.nodes.length);
+      expect(fake.store.bookmark_categories).toEqual([WORK, { id: expect.any(String), name: 'Runbooks', color: '#6366f1', icon: '📁' }]);
+      expect(byTitle(fake.store.bookmarks as BookmarkNode[], 'Runbooks').categoryId).toBe(result.categories[0].id);
+    });
+
+    it('writes the nodes and their categories in one set, and neither if it fails', async () => {
+      const set = jest.spyOn(fake.api.storage.local, 'set').mockImplementationOnce(async () => { throw new Error('Quota exceeded'); });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(HtmlImportService.import(HtmlImportService.parse(CHROME_EXPORT), { '0.1.1': 'category' }, { parentId: null, skipDuplicates: true }))
+        .rejects.toThrow('Quota exceeded');
+
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(Object.keys(set.mock.calls[0][0] as object).sort()).toEqual(['bookmark_categories', 'bookmarks']);
+      expect(fake.store).toEqual({ bookmarks: [], bookmark_categories: [WORK] });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { ImportAdapterService } from '@/services/importAdapterService';
+import { HtmlImportService } from '@/services/htmlImportService';
+import { BookmarkNode } from '@/types/bookmark';
+import { ImportedBookmark, ImportedFolder } from '@/types/import';
+
+// Shaped like Raindrop.io's "Export > CSV"
+const RAINDROP_CSV = [
+  'id,title,note,excerpt,url,folder,tags,created,cover,highlights,favorite',
+  '1,Grafana,Main dashboard,Dashboards for ops,https://grafana.example.com/d/1,Work / Ops,"monitoring, ops",2023-11-14T22:15:00.000Z,,,false',
+  '2,"Runbook, ""draft""",,"Multi-line\nexcerpt",https://wiki.example.com/runbook,Work,,2023-11-15T08:00:00.000Z,,,true',
+  '3,Later,,,https://example.com/later,Unsorted,reading,2023-11-16T08:00:00.000Z,,,false',
+  '4,Local,,,file:///tmp/notes.txt,Work,,2023-11-16T08:00:00.000Z,,,false',
+  '',
+].join('\r\n');
+
+const PINBOARD_JSON = JSON.stringify([
+  { href: 'https://grafana.example.com/d/1', description: 'Grafana', extended: 'Main dashboard', meta: 'x', hash: 'y', time: '2023-11-14T22:15:00Z', shared: 'no', toread: 'no', tags: 'monitoring ops' },
+  { href: 'https://example.com/later', description: '', extended: '', time: '2023-11-16T08:00:00Z', shared: 'yes', toread: 'yes', tags: '' },
+]);
+
+const POCKET_HTML = `<!DOCTYPE html>
+<html>
+<head><meta http-equiv="Content-Type" content="text/html; charset=UTF-8"><title>Pocket Export</title></head>
+<body>
+<h1>Unread</h1>
+<ul>
+<li><a href="https://example.com/later" time_added="1700121600" tags="reading,long read">Read &amp; later</a></li>
+</ul>
+
+<h1>Read Archive</h1>
+<ul>
+<li><a href="https://grafana.example.com/d/1" time_added="1700000100" tags="">Grafana</a></li>
+</ul>
+</body>
+</html>
+`;
+
+const bookmarks = (entries: (ImportedBookmark | ImportedFolder)[]): ImportedBookmark[] =>
+  entries.flatMap(entry => (entry.type === 'folder' ? bookmarks(entry.children) : [entry]));
+
+describe('ImportAdapterService', () => {
+  beforeEach(() => {
+    let nextId = 0;
+    jest.spyOn(crypto, 'randomUUID').mockImplementation(() => `id-${++nextId}` as `${string}-${string}-${string}-${string}-${string}`);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('detects the format of each export', () => {
+    expect(ImportAdapterService.detect(RAINDROP_CSV)).toBe('raindrop');
+    expect(ImportAdapterService.detect(PINBOARD_JSON)).toBe('pinboard');
+    expect(ImportAdapterService.detect(POCKET_HTML)).toBe('pocket');
+    expect(ImportAdapterService.detect('<!DOCTYPE NETSCAPE-Bookmark-file-1>\n<DL><p></DL>')).toBe('netscape');
+    expect(ImportAdapterService.detect('name,address\nx,y')).toBeNull();
+    expect(() => ImportAdapterService.parse('hello')).toThrow('not a bookmark export');
+  });
+
+  describe('parseRaindropCsv', () => {
+    it('maps collections to nested folders and keeps tags, notes and dates', () => {
+      const file = ImportAdapterService.parseRaindropCsv(RAINDROP_CSV);
+
+      expect(file).toMatchObject({ format: 'raindrop', unsupported: 1, defaultMapping: 'category' });
+      expect(HtmlImportService.listFolders(file.entries).map(({ folder, depth }) => `${depth}:${folder.title}`)).toEqual(['0:Work', '1:Ops']);
+      expect(bookmarks(file.entries)).toEqual([
+        { type: 'bookmark', title: 'Grafana', url: 'https://grafana.example.com/d/1', createdAt: '2023-11-14T22:15:00.000Z', tags: ['monitoring', 'ops'], description: 'Main dashboard' },
+        // Falls back to the excerpt when there is no note
+        { type: 'bookmark', title: 'Runbook, "draft"', url: 'https://wiki.example.com/runbook', createdAt: '2023-11-15T08:00:00.000Z', tags: [], description: 'Multi-line\nexcerpt' },
+        { type: 'bookmark', title: 'Later', url: 'https://example.com/later', createdAt: '2023-11-16T08:00:00.000Z', tags: ['reading'] },
+      ]);
+      // Unsorted links stay at the top level
+      expect(file.entries[1]).toMatchObject({ type: 'bookmark', title: 'Later' });
+    });
+
+    it('imports collections as categories unless mapped otherwise', () => {
+      const file = ImportAdapterService.parseRaindropCsv(RAINDROP_CSV);
+
+      const plan = HtmlImportService.plan(file, {}, { bookmarks: [], categories: [] }, { parentId: null, skipDuplicates: true });
+
+      expect(plan.nodes.filter(node => node.type === 'folder')).toEqual([]);
+      expect(plan.categories.map(category => category.name)).toEqual(['Work', 'Ops']);
+      expect(plan.nodes.find(node => node.title === 'Grafana')?.categoryId).toBe(plan.categories[1].id);
+    });
+
+    it('requires a url column', () => {
+      expect(() => ImportAdapterService.parseRaindropCsv('title,link\nx,https://example.com')).toThrow('no url column');
+    });
+  });
+
+  it('reads Pinboard posts with space-separated tags and the to-read flag', () => {
+    const file = ImportAdapterService.parsePinboardJson(PINBOARD_JSON);
+
+    expect(file.entries).toEqual([
+      { type: 'bookmark', title: 'Grafana', url: 'https://grafana.example.com/d/1', createdAt: '2023-11-14T22:15:00.000Z', tags: ['monitoring', 'ops'], description: 'Main dashboard' },
+      { type: 'bookmark', title: 'https://example.com/later', url: 'https://example.com/later', createdAt: '2023-11-16T08:00:00.000Z', tags: ['toread'] },
+    ]);
+    expect(() => ImportAdapterService.parsePinboardJson('{"posts": []}')).toThrow('not a Pinboard JSON export');
+  });
+
+  it('reads Pocket lists and tags them by default', () => {
+    const file = ImportAdapterService.parsePocketHtml(POCKET_HTML);
+
+    expect(HtmlImportService.listFolders(file.entries).map(({ folder }) => folder.title)).toEqual(['Unread', 'Read Archive']);
+    expect(bookmarks(file.entries)[0]).toEqual({
+      type: 'bookmark', title: 'Read & later', url: 'https://example.com/later', createdAt: '2023-11-16T08:00:00.000Z', tags: ['reading', 'long read'],
+    });
+
+    const plan = HtmlImportService.plan(file, {}, { bookmarks: [], categories: [] }, { parentId: null, skipDuplicates: true });
+    expect(plan.tags).toEqual(['Unread', 'Read Archive']);
+    expect(plan.nodes.map(node => node.tags)).toEqual([['reading', 'long read', 'Unread'], ['Read Archive']]);
+  });
+
+  it('lists links already in the library as duplicates, imported again only when asked', () => {
+    const existing: BookmarkNode = { id: 'x', type: 'bookmark', title: 'Grafana', url: 'https://grafana.example.com/d/1', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' };
+    const library = { bookmarks: [existing], categories: [] };
+    const file = ImportAdapterService.parse(PINBOARD_JSON);
+
+    const skipped = HtmlImportService.plan(file, {}, library, { parentId: null, skipDuplicates: true });
+    const kept = HtmlImportService.plan(file, {}, library, { parentId: null, skipDuplicates: false });
+
+    expect(skipped.duplicates.map(entry => entry.url)).toEqual(['https://grafana.example.com/d/1']);
+    expect(skipped.nodes.map(node => node.url)).toEqual(['https://example.com/later']);
+    expect(kept.duplicates).toHaveLength(1);
+    expect(kept.nodes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LinkHealthService } from '@/services/linkHealthService';
+import { BookmarkNode, LinkHealth } from '@/types/bookmark';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { node } from '@/tests/bookmarkFactory';
+
+const CHECKED = '2024-03-01T12:00:00.000Z';
+
+// Local stand-in for the sites bookmarks point at
+const ROUTES: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => void> = {
+  '/ok': (_req, res) => res.writeHead(200).end('ok'),
+  '/old': (_req, res) => res.writeHead(301, { Location: '/new' }).end(),
+  '/new': (_req, res) => res.writeHead(200).end('new'),
+  '/gone': (_req, res) => res.writeHead(404).end(),
+  '/error': (_req, res) => res.writeHead(500).end(),
+  '/login': (_req, res) => res.writeHead(401).end(),
+  // Some servers reject HEAD but serve GET
+  '/no-head': (req, res) => res.writeHead(req.method === 'HEAD' ? 405 : 200).end(),
+  '/slow': (_req, res) => setTimeout(() => res.writeHead(200).end(), 500),
+  '/busy': (_req, res) => setTimeout(() => res.writeHead(200).end(), 20),
+};
+
+describe('LinkHealthService', () => {
+  let server: http.Server;
+  let base: string;
+  let requests: { method: string; host: string; path: string }[];
+  let inFlight: Record<string, number>;
+  let maxInFlight: Record<string, number>;
+  let fake: FakeChrome;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const host = req.headers.host ?? '';
+      requests.push({ method: req.method ?? '', host, path: req.url ?? '' });
+      inFlight[host] = (inFlight[host] ?? 0) + 1;
+      maxInFlight[host] = Math.max(maxInFlight[host] ?? 0, inFlight[host]);
+      res.on('close', () => inFlight[host]--);
+      (ROUTES[req.url ?? ''] ?? ROUTES['/gone'])(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    inFlight = {};
+    maxInFlight = {};
+    let nextId = 0;
+    jest.spyOn(crypto, 'randomUUID').mockImplementation(() => `id-${++nextId}` as `${string}-${string}-${string}-${string}-${string}`);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const install = (bookmarks: BookmarkNode[]) => {
+    fake = createFakeChrome({ bookmarks });
+    global.chrome = fake.api;
+  };
+  const stored = () => fake.store.bookmarks as BookmarkNode[];
+  // Adds a node straight to storage, as another page would
+  const addStored = (added: BookmarkNode) => chrome.storage.local.set({ bookmarks: [...stored(), added] });
+
+  describe('check', () => {
+    it('records working, redirected and broken links', async () => {
+      expect(await LinkHealthService.check(`${base}/ok`)).toMatchObject({ status: 'ok', httpStatus: 200 });
+      expect(await LinkHealthService.check(`${base}/old`)).toMatchObject({ status: 'redirected', httpStatus: 200, finalUrl: `${base}/new` });
+      expect(await LinkHealthService.check(`${base}/gone`)).toMatchObject({ status: 'broken', httpStatus: 404 });
+      expect(await LinkHealthService.check(`${base}/error`)).toMatchObject({ status: 'broken', httpStatus: 500 });
+    });
+
+    it('falls back to GET when HEAD is rejected', async () => {
+      expect(await LinkHealthService.check(`${base}/no-head`)).toMatchObject({ status: 'ok', httpStatus: 200 });
+      expect(requests.map(request => request.method)).toEqual(['HEAD', 'GET']);
+    });
+
+    it('treats pages behind a login as working', async () => {
+      expect(await LinkHealthService.check(`${base}/login`)).toMatchObject({ status: 'ok', httpStatus: 401 });
+    });
+
+    it('marks links that time out or refuse connections as unreachable', async () => {
+      expect(await LinkHealthService.check(`${base}/slow`, 50)).toMatchObject({ status: 'unreachable', error: 'Timed out' });
+      const refused = await LinkHealthService.check('http://127.0.0.1:1/');
+      expect(refused.status).toBe('unreachable');
+      expect(refused.error).toBeTruthy();
+    });
+  });
+
+  describe('scan', () => {
+    it('checks due links in batches with one request per host at a time', async () => {
+      const other = base.replace('127.0.0.1', 'localhost');
+      const fresh: LinkHealth = { status: 'ok', httpStatus: 200, checkedAt: new Date().toISOString() };
+      install([
+        node('a', { url: `${base}/busy` }),
+        node('b', { url: `${base}/old` }),
+        node('c', { url: `${other}/busy` }),
+        node('d', { url: `${other}/gone` }),
+        node('e', { url: `${base}/ok`, linkHealth: fresh }),
+        node('f', { url: 'javascript:void(0)' }),
+        node('g', { url: `${base}/ok?org={org}` }),
+        { id: 'folder', type: 'folder', title: 'Folder', parentId: null, createdAt: CHECKED },
+      ]);
+
+      const summary = await LinkHealthService.scan({ delayMs: 0 });
+
+      expect(summary).toEqual({ checked: 4, counts: { ok: 2, redirected: 1, broken: 1, unreachable: 0 } });
+      expect(Object.values(maxInFlight)).toEqual([1, 1]);
+      expect(requests.filter(request => request.method === 'HEAD')).toHaveLength(4 + 1); // The 404 is retried with GET
+      const health = Object.fromEntries(stored().map(b => [b.id, b.linkHealth]));
+      expect(health.b).toMatchObject({ status: 'redirected', finalUrl: `${base}/new` });
+      expect(health.d).toMatchObject({ status: 'broken', httpStatus: 404 });
+      expect(health.e).toEqual(fresh);
+      expect(health.f).toBeUndefined();
+      expect(health.g).toBeUndefined();
+    });
+
+    it('rechecks chosen links when forced and stops at the limit', async () => {
+      const old: LinkHealth = { status: 'broken', httpStatus: 404, checkedAt: new Date().toISOString() };
+      install([node('a', { url: `${base}/ok`, linkHealth: old }), node('b', { url: `${base}/ok` }), node('c', { url: `${base}/ok` })]);
+
+      await LinkHealthService.scan({ ids: ['a', 'b'], force: true, limit: 1, delayMs: 0 });
+
+      expect(requests).toHaveLength(1);
+      // Never-checked links go first
+      expect(stored().map(b => b.linkHealth?.status)).toEqual(['broken', 'ok', undefined]);
+    });
+  });
+
+  describe('fixes', () => {
+    const redirected: LinkHealth = { status: 'redirected', httpStatus: 200, finalUrl: 'https://new.example.com/', checkedAt: CHECKED };
+    const broken: LinkHealth = { status: 'broken', httpStatus: 404, checkedAt: CHECKED };
+
+    it('updates redirected bookmarks to the redirect target', async () => {
+      install([node('a', { url: 'https://old.example.com/', linkHealth: redirected }), node('b', { url: 'https://x.example.com/', linkHealth: broken })]);
+
+      expect(await LinkHealthService.applyRedirects(['a', 'b'])).toBe(1);
+      expect(stored()[0]).toMatchObject({ url: 'https://new.example.com/', linkHealth: { status: 'ok', httpStatus: 200, checkedAt: CHECKED } });
+      expect(stored()[0].linkHealth).not.toHaveProperty('finalUrl');
+      expect(stored()[1].url).toBe('https://x.example.com/');
+    });
+
+    it('moves broken bookmarks into a Broken folder, creating it once', async () => {
+      install([node('a', { linkHealth: broken }), node('b', { linkHealth: redirected })]);
+
+      expect(await LinkHealthService.moveToBrokenFolder(['a', 'b'])).toBe(1);
+      const folder = stored().find(b => b.type === 'folder');
+      expect(folder).toMatchObject({ title: 'Broken', parentId: null });
+      expect(stored().find(b => b.id === 'a')?.parentId).toBe(folder!.id);
+      expect(stored().find(b => b.id === 'b')?.parentId).toBeNull();
+
+      await addStored(node('c', { linkHealth: broken }));
+      await LinkHealthService.moveToBrokenFolder(['c']);
+      expect(stored().filter(b => b.type === 'folder')).toHaveLength(1);
+      expect(stored().find(b => b.id === 'c')?.parentId).toBe(folder!.id);
+    });
+  });
+
+  it('filters by link status', () => {
+    const nodes = [
+      node('a', { linkHealth: { status: 'broken', checkedAt: CHECKED } }),
+      node('b', { linkHealth: { status: 'ok', checkedAt: CHECKED } }),
+      node('c'),
+    ];
+    const ids = (filter: Parameters<typeof LinkHealthService.matchesFilter>[1]) =>
+      nodes.filter(n => LinkHealthService.matchesFilter(n, filter)).map(n => n.id);
+
+    expect(ids('all')).toEqual(['a', 'b', 'c']);
+    expect(ids('problems')).toEqual(['a']);
+    expect(ids('ok')).toEqual(['b']);
+    expect(ids('unchecked')).toEqual(['c']);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { MessageHandlers, MessageRouter } from '@/services/messageRouter';
+
+const sender: chrome.runtime.MessageSender = { id: 'extension' };
+
+// Only the handlers a test sends to; the router never calls the others
+const handlersFor = (handlers: Partial<MessageHandlers>) => handlers as MessageHandlers;
+
+describe('MessageRouter.dispatch', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs the handler with the validated payload and returns its response', async () => {
+    const SWITCH_ORG = jest.fn(async ({ orgId }: { orgId: number }) => ({ tabId: orgId + 1 }));
+
+    const result = await MessageRouter.dispatch(handlersFor({ SWITCH_ORG }), { type: 'SWITCH_ORG', payload: { orgId: 41, extra: true } }, sender);
+
+    expect(result).toEqual({ ok: true, data: { tabId: 42 } });
+    expect(SWITCH_ORG).toHaveBeenCalledWith({ orgId: 41 }, sender);
+  });
+
+  it('answers an unknown type with UNKNOWN_MESSAGE', async () => {
+    expect(await MessageRouter.dispatch(handlersFor({}), { type: 'DELETE_EVERYTHING' }, sender))
+      .toEqual({ ok: false, error: { code: 'UNKNOWN_MESSAGE', message: 'Unknown message type "DELETE_EVERYTHING"' } });
+  });
+
+  it('answers a malformed envelope or payload with INVALID_REQUEST, without calling the handler', async () => {
+    const SWITCH_ORG = jest.fn(() => ({ tabId: 1 }));
+    const handlers = handlersFor({ SWITCH_ORG });
+
+    expect(await MessageRouter.dispatch(handlers, 'SWITCH_ORG', sender)).toEqual({
+      ok: false,
+      error: { code: 'INVALID_REQUEST', message: 'Malformed message', issues: ['(root) Expected object, received string'] },
+    });
+    expect(await MessageRouter.dispatch(handlers, { type: '' }, sender)).toMatchObject({ ok: false, error: { code: 'INVALID_REQUEST', message: 'Malformed message' } });
+    expect(await MessageRouter.dispatch(handlers, { type: 'SWITCH_ORG', payload: { orgId: -1 } }, sender)).toEqual({
+      ok: false,
+      error: { code: 'INVALID_REQUEST', message: 'Invalid payload for SWITCH_ORG', issues: ['orgId Number must be greater than or equal to 0'] },
+    });
+    expect(await MessageRouter.dispatch(handlers, { type: 'SWITCH_ORG' }, sender)).toMatchObject({ ok: false, error: { code: 'INVALID_REQUEST' } });
+    expect(SWITCH_ORG).not.toHaveBeenCalled();
+  });
+
+  it('answers a handler that throws with HANDLER_FAILED', async () => {
+    const SWITCH_ORG = async () => {
+      throw new Error('No dashboard tab');
+    };
+
+    expect(await MessageRouter.dispatch(handlersFor({ SWITCH_ORG }), { type: 'SWITCH_ORG', payload: { orgId: 1 } }, sender))
+      .toEqual({ ok: false, error: { code: 'HANDLER_FAILED', message: 'No dashboard tab' } });
+  });
+
+  it('answers a response that fails its schema with INVALID_RESPONSE', async () => {
+    const SWITCH_ORG = () => ({ tabId: 'seven' }) as unknown as { tabId: number };
+
+    expect(await MessageRouter.dispatch(handlersFor({ SWITCH_ORG }), { type: 'SWITCH_ORG', payload: { orgId: 1 } }, sender)).toEqual({
+      ok: false,
+      error: { code: 'INVALID_RESPONSE', message: 'Invalid response to SWITCH_ORG', issues: ['tabId Expected number, received string'] },
+    });
+  });
+});
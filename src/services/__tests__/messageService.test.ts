@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { MessageError, MessageService } from '@/services/messageService';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+type Reply = { lastError?: string; response?: unknown };
+
+describe('MessageService.send', () => {
+  let fake: FakeChrome;
+
+  // Answers each message with the next reply, as Chrome calls back with lastError set or a response
+  const answerWith = (...replies: Reply[]) => {
+    const sendMessage = jest.fn((_message: unknown, callback: (response: unknown) => void) => {
+      const { lastError, response } = replies.shift() ?? {};
+      const runtime = fake.api.runtime as { lastError?: { message: string } };
+      runtime.lastError = lastError ? { message: lastError } : undefined;
+      callback(response);
+      runtime.lastError = undefined;
+    });
+    fake.api.runtime.sendMessage = sendMessage as unknown as typeof chrome.runtime.sendMessage;
+    return sendMessage;
+  };
+
+  beforeEach(() => {
+    fake = createFakeChrome();
+    global.chrome = fake.api;
+  });
+
+  it('sends the validated payload and returns the validated response', async () => {
+    const sendMessage = answerWith({ response: { ok: true, data: { tabId: 7, extra: 1 } } });
+
+    expect(await MessageService.send('SWITCH_ORG', { orgId: 12 })).toEqual({ tabId: 7 });
+    expect(sendMessage).toHaveBeenCalledWith({ type: 'SWITCH_ORG', payload: { orgId: 12 } }, expect.any(Function));
+  });
+
+  it('retries while nothing answers, up to the given number of times', async () => {
+    const sendMessage = answerWith(
+      { lastError: 'Could not establish connection. Receiving end does not exist.' },
+      { response: undefined },
+      { response: { ok: true, data: { tabId: 3 } } },
+    );
+
+    expect(await MessageService.send('SWITCH_ORG', { orgId: 1 }, { retries: 2 })).toEqual({ tabId: 3 });
+    expect(sendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up with NO_RECEIVER once the retries are used up', async () => {
+    const sendMessage = answerWith({ lastError: 'Receiving end does not exist.' }, { lastError: 'Receiving end does not exist.' });
+
+    await expect(MessageService.send('SWITCH_ORG', { orgId: 1 }, { retries: 1 }))
+      .rejects.toMatchObject({ name: 'MessageError', code: 'NO_RECEIVER', message: 'Receiving end does not exist.' });
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry other failures', async () => {
+    const sendMessage = answerWith({ lastError: 'Extension context invalidated.' });
+
+    await expect(MessageService.send('SWITCH_ORG', { orgId: 1 }, { retries: 2 })).rejects.toMatchObject({ code: 'CONTEXT_INVALIDATED' });
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows the error the background answered with as a MessageError', async () => {
+    const sendMessage = answerWith({ response: { ok: false, error: { code: 'HANDLER_FAILED', message: 'No dashboard tab', issues: ['a', 'b'] } } });
+
+    const error = await MessageService.send('SWITCH_ORG', { orgId: 1 }, { retries: 2 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(MessageError);
+    expect(error).toMatchObject({ code: 'HANDLER_FAILED', message: 'No dashboard tab: a; b', issues: ['a', 'b'] });
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a bad payload before sending and a bad reply after', async () => {
+    const sendMessage = answerWith({ response: { ok: true, data: { tabId: 'x' } } }, { response: 'garbage' });
+
+    await expect(MessageService.send('SWITCH_ORG', { orgId: -1 })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(sendMessage).not.toHaveBeenCalled();
+    await expect(MessageService.send('SWITCH_ORG', { orgId: 1 })).rejects.toMatchObject({ code: 'INVALID_RESPONSE', message: expect.stringContaining('Invalid response to SWITCH_ORG') });
+    await expect(MessageService.send('SWITCH_ORG', { orgId: 1 })).rejects.toMatchObject({ code: 'INVALID_RESPONSE', message: expect.stringContaining('Malformed reply to SWITCH_ORG') });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+import { NativeSyncService } from '@/services/nativeSyncService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+import { BookmarkNode } from '@/types/bookmark';
+import { NativeSyncState } from '@/types/sync';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { folder, node } from '@/tests/bookmarkFactory';
+
+type NativeNode = chrome.bookmarks.BookmarkTreeNode;
+
+// A Chrome folder's contents: bookmarks as "title url", folders as [title, contents]
+const outline = (native: NativeNode): unknown[] =>
+  (native.children ?? []).map(child => (child.url ? `${child.title} ${child.url}` : [child.title, outline(child)]));
+
+describe('NativeSyncService', () => {
+  let fake: FakeChrome;
+
+  const install = (bookmarks: BookmarkNode[]) => {
+    fake = createFakeChrome({ schemaVersion: CURRENT_SCHEMA_VERSION, nativeSyncEnabled: true, bookmarks });
+    global.chrome = fake.api;
+  };
+  const stored = () => fake.store.bookmarks as BookmarkNode[];
+  const state = () => fake.store.nativeSyncState as NativeSyncState;
+  const syncRoot = () => fake.bookmarkTree('1').children!.find(child => child.title === NativeSyncService.ROOT_TITLE)!;
+  const nativeIdOf = (localId: string) => state().mappings.find(mapping => mapping.localId === localId)!.nativeId;
+
+  beforeEach(() => {
+    let nextId = 0;
+    jest.spyOn(crypto, 'randomUUID').mockImplementation(() => `id-${++nextId}` as `${string}-${string}-${string}-${string}-${string}`);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('mirrors the library into a folder in the bookmark bar, once', async () => {
+    const library = [folder('docs', { title: 'Docs' }), node('guide', { title: 'Guide', parentId: 'docs' }), node('home', { title: 'Home' })];
+    install(library);
+
+    await NativeSyncService.sync();
+
+    expect(outline(syncRoot())).toEqual([['Docs', ['Guide https://guide.example.com/']], 'Home https://home.example.com/']);
+    expect(state()).toMatchObject({ rootId: syncRoot().id, conflicts: [], lastError: null });
+    expect(state().mappings.map(mapping => mapping.localId).sort()).toEqual(['docs', 'guide', 'home']);
+
+    await NativeSyncService.sync();
+
+    expect(outline(syncRoot())).toHaveLength(2);
+    expect(stored()).toEqual(library);
+  });
+
+  it('does nothing until sync is turned on', async () => {
+    install([node('home')]);
+    fake.store.nativeSyncEnabled = false;
+
+    await NativeSyncService.sync();
+
+    expect(fake.bookmarkTree('1').children).toEqual([]);
+  });
+
+  it('adds bookmarks and folders created in Chrome to the library', async () => {
+    install([]);
+    await NativeSyncService.sync();
+    const team = await chrome.bookmarks.create({ parentId: syncRoot().id, title: 'Team' });
+    await chrome.bookmarks.create({ parentId: team.id, title: 'Wiki', url: 'https://wiki.example.com/' });
+
+    await NativeSyncService.sync();
+
+    expect(stored()).toEqual([
+      { id: 'id-1', type: 'folder', title: 'Team', parentId: null, createdAt: expect.any(String) },
+      { id: 'id-2', type: 'bookmark', title: 'Wiki', url: 'https://wiki.example.com/', parentId: 'id-1', tags: [], createdAt: expect.any(String) },
+    ]);
+    expect(outline(syncRoot())).toEqual([['Team', ['Wiki https://wiki.example.com/']]]);
+  });
+
+  it('applies renames, address changes and moves from either side', async () => {
+    install([folder('docs', { title: 'Docs' }), node('guide', { title: 'Guide' })]);
+    await NativeSyncService.sync();
+
+    await BookmarkService.updateBookmarkNode('guide', { title: 'User guide', parentId: 'docs' });
+    await NativeSyncService.sync();
+    expect(outline(syncRoot())).toEqual([['Docs', ['User guide https://guide.example.com/']]]);
+
+    await chrome.bookmarks.update(nativeIdOf('guide'), { title: 'Guide v2', url: 'https://guide.example.com/v2' });
+    await chrome.bookmarks.move(nativeIdOf('guide'), { parentId: syncRoot().id });
+    await NativeSyncService.sync();
+    expect(stored()[1]).toMatchObject({ id: 'guide', title: 'Guide v2', url: 'https://guide.example.com/v2', parentId: null });
+    expect(outline(syncRoot())).toEqual([['Docs', []], 'Guide v2 https://guide.example.com/v2']);
+  });
+
+  it('applies deletions from either side', async () => {
+    install([folder('docs'), node('a', { parentId: 'docs' }), node('b')]);
+    await NativeSyncService.sync();
+
+    await BookmarkService.deleteMany(['b']);
+    await NativeSyncService.sync();
+    expect(outline(syncRoot())).toEqual([['docs', ['a https://a.example.com/']]]);
+
+    await chrome.bookmarks.removeTree(nativeIdOf('docs'));
+    await NativeSyncService.sync();
+    expect(stored()).toEqual([]);
+    expect(state().mappings).toEqual([]);
+  });
+
+  it('holds a node changed on both sides as a conflict until it is resolved', async () => {
+    install([node('a'), node('b')]);
+    await NativeSyncService.sync();
+    await BookmarkService.updateMany(['a', 'b'], node => ({ title: `${node.title} in the extension` }));
+    await chrome.bookmarks.update(nativeIdOf('a'), { title: 'a in Chrome' });
+    await chrome.bookmarks.update(nativeIdOf('b'), { title: 'b in Chrome' });
+
+    await NativeSyncService.sync();
+    await NativeSyncService.sync();
+
+    expect(state().conflicts).toEqual([
+      expect.objectContaining({ localId: 'a', local: { title: 'a in the extension', url: 'https://a.example.com/', parentId: null }, native: { title: 'a in Chrome', url: 'https://a.example.com/', parentId: null } }),
+      expect.objectContaining({ localId: 'b' }),
+    ]);
+    expect(stored().map(bookmark => bookmark.title)).toEqual(['a in the extension', 'b in the extension']);
+    expect(outline(syncRoot())).toEqual(['a in Chrome https://a.example.com/', 'b in Chrome https://b.example.com/']);
+
+    await NativeSyncService.resolveConflict('a', 'chrome');
+    await NativeSyncService.resolveConflict('b', 'extension');
+
+    expect(state().conflicts).toEqual([]);
+    expect(stored().map(bookmark => bookmark.title)).toEqual(['a in Chrome', 'b in the extension']);
+    expect(outline(syncRoot())).toEqual(['a in Chrome https://a.example.com/', 'b in the extension https://b.example.com/']);
+
+    // Resolved nodes sync normally again
+    await BookmarkService.updateBookmarkNode('a', { title: 'a again' });
+    await NativeSyncService.sync();
+    expect(outline(syncRoot())[0]).toBe('a again https://a.example.com/');
+  });
+
+  it('keeps URL templates out of Chrome, which would encode their braces', async () => {
+    const template = node('settings', { url: 'https://host.example.com/orgs/{id}/settings' });
+    install([template, node('home')]);
+
+    await NativeSyncService.sync();
+    await NativeSyncService.sync();
+
+    expect(outline(syncRoot())).toEqual(['home https://home.example.com/']);
+    expect(stored()[0]).toEqual(template);
+
+    // A bookmark that becomes a template leaves Chrome
+    await BookmarkService.updateBookmarkNode('home', { url: 'https://home.example.com/{page}' });
+    await NativeSyncService.sync();
+    expect(outline(syncRoot())).toEqual([]);
+    expect(state().mappings).toEqual([]);
+    expect(stored()[1].url).toBe('https://home.example.com/{page}');
+  });
+
+  it('links nodes that already exist on both sides instead of copying them', async () => {
+    install([folder('docs', { title: 'Docs' }), node('guide', { title: 'Guide', parentId: 'docs' })]);
+    const root = await chrome.bookmarks.create({ parentId: '1', title: NativeSyncService.ROOT_TITLE });
+    const docs = await chrome.bookmarks.create({ parentId: root.id, title: 'Docs' });
+    const guide = await chrome.bookmarks.create({ parentId: docs.id, title: 'Guide (synced)', url: 'https://guide.example.com/' });
+
+    await NativeSyncService.sync();
+
+    expect(fake.bookmarkTree('1').children).toHaveLength(1);
+    expect(state().mappings.map(({ localId, nativeId }) => [localId, nativeId])).toEqual([['docs', docs.id], ['guide', guide.id]]);
+    // Links start from Chrome's copy, so the extension's title counts as the newer edit
+    expect(outline(syncRoot())).toEqual([['Docs', ['Guide https://guide.example.com/']]]);
+    expect(stored()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { OrgRegistryService } from '@/services/orgRegistryService';
+import { StorageService } from '@/services/storageService';
+import { OrgEntry } from '@/types/org';
+import { createFakeChrome } from '@/tests/fakeChrome';
+
+const org = (id: number, name: string, extra: Partial<OrgEntry> = {}): OrgEntry =>
+  ({ id, name, aliases: [], environment: 'prod', favorite: false, ...extra });
+
+describe('OrgRegistryService', () => {
+  describe('fromOrgMap', () => {
+    it('turns names and ids into entries, guessing the environment from the name', () => {
+      expect(OrgRegistryService.fromOrgMap({ granicus: 1459, 'ncontracts sandbox': 1455, 'credit-genie-sbox': 1452, 'ISW-test': 1408, ' Noom Support': 613 }))
+        .toEqual([
+          org(1459, 'granicus'),
+          org(1455, 'ncontracts sandbox', { environment: 'sandbox' }),
+          org(1452, 'credit-genie-sbox', { environment: 'sandbox' }),
+          org(1408, 'ISW-test', { environment: 'test' }),
+          org(613, 'Noom Support'),
+        ]);
+    });
+
+    it('reads misspelt sandboxes and demo orgs', () => {
+      expect(OrgRegistryService.inferEnvironment('tapcheck-sanbox')).toBe('sandbox');
+      expect(OrgRegistryService.inferEnvironment('Generic Helpdesk Demo')).toBe('test');
+      expect(OrgRegistryService.inferEnvironment('latestco')).toBe('prod');
+    });
+  });
+
+  describe('parseOrgList', () => {
+    it('reads a JSON object of names to ids', () => {
+      expect(OrgRegistryService.parseOrgList('{ "acme": 12, "acme-sandbox": 13, "bad": "x" }'))
+        .toEqual([org(12, 'acme'), org(13, 'acme-sandbox', { environment: 'sandbox' })]);
+    });
+
+    it('reads the orgMap out of the fix script source', () => {
+      const source = `// Mapping\nconst orgMap = {\n  "Manu's Org": 1392,\n  "Test 123": 1398,\n  "say \\"hi\\"": 7\n};\nconst x = 1;`;
+      expect(OrgRegistryService.parseOrgList(source)).toEqual([
+        org(1392, "Manu's Org"),
+        org(1398, 'Test 123', { environment: 'test' }),
+        org(7, 'say "hi"'),
+      ]);
+    });
+
+    it('reads a list of registry entries, keeping their fields', () => {
+      const entries = [org(5, 'five', { aliases: ['v'], favorite: true, environment: 'test' }), { name: 'no id' }];
+      expect(OrgRegistryService.parseOrgList(JSON.stringify(entries))).toEqual([entries[0]]);
+    });
+
+    it('throws when nothing can be read', () => {
+      expect(() => OrgRegistryService.parseOrgList('hello')).toThrow('No orgs found');
+      expect(() => OrgRegistryService.parseOrgList('{}')).toThrow('No orgs found');
+    });
+  });
+
+  describe('merge', () => {
+    it('adds new orgs and keeps what was edited on known ones', () => {
+      const existing = [org(1, 'Acme', { favorite: true, aliases: ['ac'] }), org(2, 'Beta')];
+      const { orgs, summary } = OrgRegistryService.merge(existing, [org(1, 'acme'), org(2, 'Beta Corp'), org(3, 'Gamma')]);
+
+      expect(summary).toEqual({ added: 1, renamed: 1, unchanged: 1 });
+      expect(orgs).toEqual([
+        org(1, 'Acme', { favorite: true, aliases: ['ac'] }),
+        org(2, 'Beta', { aliases: ['Beta Corp'] }),
+        org(3, 'Gamma'),
+      ]);
+    });
+  });
+
+  describe('search', () => {
+    const orgs = [
+      org(1459, 'granicus'),
+      org(1455, 'ncontracts sandbox', { environment: 'sandbox' }),
+      org(1392, "Manu's Org", { aliases: ['manu'] }),
+      org(1411, 'Qualtrics'),
+      org(1415, 'qualtrics-internal', { favorite: true }),
+      org(145, 'Acme'),
+    ];
+    const names = (query: string) => OrgRegistryService.search(orgs, query).map(entry => entry.name);
+
+    it('finds orgs by name with typos, and by alias', () => {
+      expect(names('granicsu')[0]).toBe('granicus');
+      expect(names('manu')[0]).toBe("Manu's Org");
+      expect(names('ncontract')).toEqual(['ncontracts sandbox']);
+    });
+
+    it('lifts favourites over slightly better matches', () => {
+      expect(names('qualtrics')).toEqual(['qualtrics-internal', 'Qualtrics']);
+    });
+
+    it('puts an exact org id first', () => {
+      expect(names('145')[0]).toBe('Acme');
+      expect(names('1459')).toEqual(['granicus']);
+    });
+
+    it('lists favourites then everything by name for an empty query, up to the limit', () => {
+      expect(OrgRegistryService.search(orgs, ' ', 3).map(entry => entry.name)).toEqual(['qualtrics-internal', 'Acme', 'granicus']);
+    });
+  });
+
+  describe('resolve', () => {
+    const orgs = [org(1392, "Manu's Org", { aliases: ['manu-dev'] }), org(1459, 'granicus')];
+
+    it('finds an org by id, or by name or alias ignoring case and spaces', () => {
+      expect(OrgRegistryService.resolve(orgs, '1459')?.name).toBe('granicus');
+      expect(OrgRegistryService.resolve(orgs, "manu'sorg")?.id).toBe(1392);
+      expect(OrgRegistryService.resolve(orgs, 'MANU-DEV')?.id).toBe(1392);
+      expect(OrgRegistryService.resolve(orgs, '9999')).toBeUndefined();
+    });
+  });
+
+  describe('dashboard URLs', () => {
+    it('recognizes the dashboard and sets its org', () => {
+      expect(OrgRegistryService.isDashboardUrl('https://dashboard-int.forethought.tech/discover/dashboard?org=1')).toBe(true);
+      expect(OrgRegistryService.isDashboardUrl('https://example.com/dashboard')).toBe(false);
+      expect(OrgRegistryService.isDashboardUrl('not a url')).toBe(false);
+      expect(OrgRegistryService.withOrg('https://dashboard-int.forethought.tech/discover/dashboard?org=1&tab=2', 1459))
+        .toBe('https://dashboard-int.forethought.tech/discover/dashboard?org=1459&tab=2');
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(() => {
+      global.chrome = createFakeChrome().api;
+    });
+
+    it('saves orgs sorted by name and reads them back', async () => {
+      expect(await OrgRegistryService.getOrgs()).toEqual([]);
+      await OrgRegistryService.saveOrgs([org(2, 'beta'), org(1, 'Alpha', { environment: 'sandbox' })]);
+
+      expect(await OrgRegistryService.getOrgs()).toEqual([org(1, 'Alpha', { environment: 'sandbox' }), org(2, 'beta')]);
+      await expect(StorageService.set('orgRegistry', [{ id: -1, name: '' }] as OrgEntry[])).rejects.toThrow();
+    });
+  });
+});
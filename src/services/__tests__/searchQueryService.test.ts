@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import { SearchQueryService } from '@/services/searchQueryService';
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import { node } from '@/tests/bookmarkFactory';
+
+const CATEGORIES: BookmarkCategory[] = [
+  { id: 'retool', name: 'Retool', color: '#000', icon: '📁' },
+  { id: 'cs', name: 'Customer Success', color: '#000', icon: '📁' },
+];
+
+const LIBRARY: BookmarkNode[] = [
+  node('prod-dash', { title: 'Prod Dashboard', url: 'https://dashboard.forethought.tech/d', tags: ['prod'], categoryId: 'retool', accessCount: 9, createdAt: '2025-02-01T12:00:00.000Z' }),
+  node('old-dash', { title: 'Old Dashboard', url: 'https://www.forethought.tech/old', tags: ['prod', 'old'], categoryId: 'retool', accessCount: 20, createdAt: '2024-06-01T00:00:00.000Z' }),
+  node('wiki', { title: 'Team wiki', url: 'https://notion.so/wiki', tags: ['docs'], description: 'Onboarding checklist', accessCount: 2, createdAt: '2025-02-01T12:00:00.000Z' }),
+  node('playbook', { title: 'Escalation playbook', url: 'https://notion.so/cs', categoryId: 'cs', createdAt: '2025-01-01T23:00:00.000Z' }),
+];
+
+const search = (query: string) => {
+  const { filter, errors } = SearchQueryService.parse(query, CATEGORIES);
+  expect(errors).toEqual([]);
+  return LIBRARY.filter(bm => SearchQueryService.matches(bm, filter)).map(bm => bm.id);
+};
+
+describe('SearchQueryService', () => {
+  describe('parse', () => {
+    it('fills in the SearchFilter the advanced panel uses', () => {
+      const { filter, errors } = SearchQueryService.parse(
+        'tag:prod cat:"Retool" domain:www.Forethought.tech created:>2025-01-01 clicks:>5 -tag:old "exact phrase" word',
+        CATEGORIES,
+      );
+
+      expect(errors).toEqual([]);
+      expect(filter).toEqual({
+        ...SearchQueryService.emptyFilter(),
+        tags: ['prod'],
+        categoryIds: ['retool'],
+        domains: ['forethought.tech'],
+        dateRange: { start: '2025-01-02', end: '' },
+        accessCount: { min: '6', max: '' },
+        text: ['exact phrase', 'word'],
+        exclude: { text: [], tags: ['old'], categoryIds: [], domains: [] },
+      });
+    });
+
+    it('reads ranges, lists and bounds', () => {
+      const { filter } = SearchQueryService.parse('created:2025-01-01..2025-01-31 created:<=2025-01-15 clicks:2..10 tag:a,b cat:none', CATEGORIES);
+
+      expect(filter.dateRange).toEqual({ start: '2025-01-01', end: '2025-01-15' });
+      expect(filter.accessCount).toEqual({ min: '2', max: '10' });
+      expect(filter.tags).toEqual(['a', 'b']);
+      expect(filter.categoryIds).toEqual(['uncategorized']);
+    });
+
+    it('reports what it cannot use, with its position', () => {
+      const query = 'wiki created:yesterday cat:Nope -clicks:5 tag: "open';
+      const { filter, errors } = SearchQueryService.parse(query, CATEGORIES);
+
+      expect(errors.map(error => [query.slice(error.start, error.end), error.message])).toEqual([
+        ['created:yesterday', expect.stringContaining('Dates look like')],
+        ['cat:Nope', 'No category named "Nope"'],
+        ['-clicks:5', "clicks: can't be negated"],
+        ['tag:', 'tag: needs a value'],
+        ['"open', 'Missing closing quote'],
+      ]);
+      expect(filter.text).toEqual(['wiki']);
+    });
+
+    it('treats unknown keys, such as in URLs, as words', () => {
+      const { filter, errors } = SearchQueryService.parse('https://notion.so', CATEGORIES);
+      expect(errors).toEqual([]);
+      expect(filter.text).toEqual(['https://notion.so']);
+    });
+  });
+
+  describe('matches', () => {
+    it('applies each part of a query', () => {
+      expect(search('dashboard')).toEqual(['prod-dash', 'old-dash']);
+      expect(search('tag:prod -tag:old')).toEqual(['prod-dash']);
+      expect(search('domain:forethought.tech clicks:>10')).toEqual(['old-dash']);
+      expect(search('cat:"Customer Success"')).toEqual(['playbook']);
+      expect(search('-cat:retool -domain:notion.so')).toEqual([]);
+      expect(search('"onboarding checklist"')).toEqual(['wiki']);
+      expect(search('-"team wiki" domain:notion.so')).toEqual(['playbook']);
+    });
+
+    it('includes the whole end day of a date range', () => {
+      expect(search('created:2025-01-01')).toEqual(['playbook']);
+      expect(search('created:<2025-01-02')).toEqual(['old-dash', 'playbook']);
+    });
+
+    it('keeps the advanced panel behaviour for all and untagged', () => {
+      const filter = { ...SearchQueryService.emptyFilter(), categoryIds: ['all'], tags: ['__empty__'] };
+      expect(LIBRARY.filter(bm => SearchQueryService.matches(bm, filter)).map(bm => bm.id)).toEqual(['playbook']);
+      expect(SearchQueryService.isEmpty({ ...SearchQueryService.emptyFilter(), categoryIds: ['all'] })).toBe(true);
+    });
+  });
+
+  describe('suggest', () => {
+    const sources = SearchQueryService.sources(LIBRARY, CATEGORIES);
+    const suggest = (query: string, caret = query.length) => SearchQueryService.suggest(query, caret, sources);
+
+    it('completes filter keys', () => {
+      expect(suggest('wiki c')).toEqual({
+        from: 5,
+        to: 6,
+        items: [
+          { label: 'cat:', detail: 'In any of the categories', insert: 'cat:' },
+          { label: 'created:', detail: 'Added on, before or after a date', insert: 'created:' },
+          { label: 'clicks:', detail: 'Opened this many times', insert: 'clicks:' },
+        ],
+      });
+      expect(suggest('-c')?.items.map(item => item.insert)).toEqual(['-cat:']);
+    });
+
+    it('completes tags, categories and domains', () => {
+      expect(suggest('tag:o')?.items.map(item => item.insert)).toEqual(['tag:old ', 'tag:docs ', 'tag:prod ']);
+      expect(suggest('cat:cus')?.items.map(item => item.insert)).toEqual(['cat:"Customer Success" ']);
+      expect(suggest('-domain:notion')?.items.map(item => item.insert)).toEqual(['-domain:notion.so ']);
+      expect(suggest('tag:prod,d')?.items.map(item => item.insert)).toEqual(['tag:prod,docs ', 'tag:prod,old ']);
+    });
+
+    it('completes the word at the caret', () => {
+      expect(suggest('tag:pr wiki', 6)).toEqual({ from: 0, to: 6, items: [{ label: 'prod', insert: 'tag:prod ' }] });
+    });
+
+    it('offers nothing for plain words or values it cannot list', () => {
+      expect(suggest('dashboard')).toBeNull();
+      expect(suggest('created:>2')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ */
+import { BackupDocumentService } from '@/services/backupDocumentService';
+import { SelectiveRestoreService } from '@/services/selectiveRestoreService';
+import { RESTORE_POINT_PREFIX } from '@/services/storageSchema';
+import { StorageService } from '@/services/storageService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+import { ParsedBackup, RestoreItemDiff } from '@/types/backup';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+import { node } from '@/tests/bookmarkFactory';
+
+const WORK = { id: 'cat-1', name: 'Work', color: '#3b82f6', icon: 'briefcase' };
+const TRAVEL = { id: 'cat-2', name: 'Travel', color: '#10b981', icon: 'plane' };
+const FOLDER = { id: 'f1', type: 'folder', title: 'Trips', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' };
+
+// The backup: two categories, a folder of travel bookmarks and a work bookmark
+const BACKED_UP = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  bookmarks: [node('w1', { categoryId: 'cat-1' }), FOLDER, node('t1', { categoryId: 'cat-2', parentId: 'f1' }), node('t2', { categoryId: 'cat-2', parentId: 'f1' })],
+  bookmark_categories: [WORK, TRAVEL],
+  bookmarkAccessLog: {
+    events: [{ bookmarkId: 't1', timestamp: '2024-02-01T10:00:00.000Z', source: 'card' }],
+    archived: { t2: { count: 3, lastAccessed: '2024-01-20T10:00:00.000Z' } },
+  },
+  retoolPages: [{ name: 'Ops', mode: 'html', content: '<p>ops</p>' }],
+  searchHistory: ['jira'],
+  forethought_theme: 'dark',
+};
+
+// Since then the Travel category was deleted with its bookmarks, w1 was renamed and n1 was added
+const CURRENT = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  bookmarks: [node('w1', { categoryId: 'cat-1', title: 'Renamed' }), node('n1')],
+  bookmark_categories: [WORK],
+  bookmarkAccessLog: { events: [{ bookmarkId: 'n1', timestamp: '2024-03-01T10:00:00.000Z', source: 'tree' }], archived: {} },
+  retoolPages: [{ name: 'Ops', mode: 'html', content: '<p>ops</p>' }],
+  searchHistory: ['confluence'],
+};
+
+const byId = (diffs: RestoreItemDiff[]) => Object.fromEntries(diffs.map(diff => [diff.id, diff]));
+
+describe('SelectiveRestoreService', () => {
+  let fake: FakeChrome;
+  let backup: ParsedBackup;
+
+  const install = (initial: Record<string, unknown>) => {
+    fake = createFakeChrome(initial);
+    global.chrome = fake.api;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    install(BACKED_UP);
+    backup = await BackupDocumentService.parseFiles([BackupDocumentService.serialize(await BackupDocumentService.create())]);
+    install(CURRENT);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('compares the backup with the current data item by item', async () => {
+    const preview = await SelectiveRestoreService.preview(backup);
+    const library = preview.find(section => section.name === 'library')!;
+    const items = byId(library.items);
+
+    expect(items['bookmarks:w1']).toMatchObject({ kind: 'bookmark', change: 'changed', fields: [{ field: 'title', from: 'Renamed', to: 'w1' }] });
+    expect(items['bookmarks:f1']).toMatchObject({ kind: 'folder', label: 'Trips', change: 'added' });
+    expect(items['bookmarks:t1']).toMatchObject({ change: 'added', categoryId: 'cat-2' });
+    expect(items['bookmarks:n1'].change).toBe('removed');
+    expect(items['bookmark_categories:cat-1'].change).toBe('unchanged');
+    expect(items['bookmark_categories:cat-2']).toMatchObject({ kind: 'category', label: 'Travel', change: 'added' });
+    expect(library.settings).toEqual([{ key: 'bookmarkAccessLog', change: 'changed' }]);
+
+    expect(preview.find(section => section.name === 'pages')!.items).toEqual([
+      expect.objectContaining({ id: 'retoolPages:Ops', kind: 'page', change: 'unchanged' }),
+    ]);
+    expect(preview.find(section => section.name === 'search')!.settings).toEqual([{ key: 'searchHistory', change: 'changed' }]);
+    expect(preview.find(section => section.name === 'commandK')!.settings).toEqual([{ key: 'forethought_theme', change: 'added' }]);
+  });
+
+  it('recovers a deleted category with its bookmarks and leaves everything else alone', async () => {
+    const report = await SelectiveRestoreService.apply(backup, { items: ['bookmark_categories:cat-2', 'bookmarks:t1', 'bookmarks:t2'], settings: [] });
+
+    // The folder the bookmarks were in comes back with them, and so does their access history
+    expect(fake.store.bookmarks).toEqual([CURRENT.bookmarks[0], CURRENT.bookmarks[1], FOLDER, BACKED_UP.bookmarks[2], BACKED_UP.bookmarks[3]]);
+    expect(fake.store.bookmark_categories).toEqual([WORK, TRAVEL]);
+    expect(fake.store.bookmarkAccessLog).toEqual({
+      events: [BACKED_UP.bookmarkAccessLog.events[0], CURRENT.bookmarkAccessLog.events[0]],
+      archived: BACKED_UP.bookmarkAccessLog.archived,
+    });
+    expect(fake.store.searchHistory).toEqual(['confluence']);
+    expect(fake.store.forethought_theme).toBeUndefined();
+
+    expect(report.items.map(diff => `${diff.change} ${diff.id}`)).toEqual([
+      'added bookmarks:f1', 'added bookmarks:t1', 'added bookmarks:t2', 'added bookmark_categories:cat-2',
+    ]);
+    expect(report.settings).toEqual([{ key: 'bookmarkAccessLog', change: 'changed' }]);
+    expect(fake.store[report.restorePoint]).toMatchObject({ bookmarks: CURRENT.bookmarks, bookmark_categories: [WORK] });
+  });
+
+  it('holds bookmark writes made during a restore until it has finished', async () => {
+    const late = node('late');
+    let write: Promise<void> | undefined;
+    const saveRestorePoint = StorageService.saveRestorePoint.bind(StorageService);
+    jest.spyOn(StorageService, 'saveRestorePoint').mockImplementation(point => {
+      write = BookmarkService.transaction(draft => { draft.push(late as typeof draft[number]); });
+      return saveRestorePoint(point);
+    });
+
+    await SelectiveRestoreService.apply(backup, { items: ['bookmarks:t1'], settings: [] });
+    await write;
+
+    expect((fake.store.bookmarks as { id: string }[]).map(bookmark => bookmark.id)).toEqual(['w1', 'n1', 'f1', 't1', 'late']);
+  });
+
+  it('brings back a bookmark category the user did not pick when restoring its bookmark', async () => {
+    await SelectiveRestoreService.apply(backup, { items: ['bookmarks:t1'], settings: [] });
+
+    expect((fake.store.bookmarks as { id: string }[]).map(item => item.id)).toEqual(['w1', 'n1', 'f1', 't1']);
+    expect(fake.store.bookmark_categories).toEqual([WORK, TRAVEL]);
+  });
+
+  it('reverts changed items, removes items missing from the backup and replaces settings', async () => {
+    const report = await SelectiveRestoreService.apply(backup, { items: ['bookmarks:w1', 'bookmarks:n1'], settings: ['searchHistory', 'forethought_theme'] });
+
+    expect(fake.store.bookmarks).toEqual([BACKED_UP.bookmarks[0]]);
+    expect(fake.store.searchHistory).toEqual(['jira']);
+    expect(fake.store.forethought_theme).toBe('dark');
+    expect(byId(report.items)['bookmarks:w1'].fields).toEqual([{ field: 'title', from: 'Renamed', to: 'w1' }]);
+    expect(byId(report.items)['bookmarks:n1'].change).toBe('removed');
+    expect(report.settings).toEqual([{ key: 'searchHistory', change: 'changed' }, { key: 'forethought_theme', change: 'added' }]);
+    expect(Object.keys(fake.store).filter(key => key.startsWith(RESTORE_POINT_PREFIX))).toHaveLength(1);
+  });
+
+  it('moves bookmarks to the top level when their folder is removed', async () => {
+    install({ ...CURRENT, bookmarks: [{ ...FOLDER, id: 'f9' }, node('n1', { parentId: 'f9' })] });
+
+    await SelectiveRestoreService.apply(backup, { items: ['bookmarks:f9'], settings: [] });
+
+    expect(fake.store.bookmarks).toEqual([node('n1')]);
+  });
+
+  it('leaves corrupted sections out of the preview and the restore', async () => {
+    backup.document.sections.library!.bookmarks = [];
+
+    const preview = await SelectiveRestoreService.preview(backup);
+    expect(preview.find(section => section.name === 'library')).toEqual({ name: 'library', status: 'corrupted', items: [], settings: [] });
+
+    await expect(SelectiveRestoreService.apply(backup, { items: ['bookmarks:t1'], settings: ['bookmarkAccessLog'] })).rejects.toThrow('Nothing to restore');
+    expect(fake.store.bookmarks).toEqual(CURRENT.bookmarks);
+  });
+
+  it('compares against backups written with an older schema after migrating them', async () => {
+    const legacy = await BackupDocumentService.parseFiles([JSON.stringify({
+      bookmarks: [{ ...node('w1', { categoryId: 'cat-1' }), accessCount: 2 }],
+      categories: [{ id: 'cat-1', name: 'Work', color: '#3b82f6', icon: 'briefcase' }],
+      exportDate: '2024-01-15T09:00:00.000Z',
+    })]);
+
+    const library = (await SelectiveRestoreService.preview(legacy)).find(section => section.name === 'library')!;
+
+    expect(library.status).toBe('unverified');
+    expect(byId(library.items)['bookmarks:w1'].fields.map(field => field.field)).toEqual(['title']);
+    expect(byId(library.items)['bookmark_categories:cat-1'].change).toBe('unchanged');
+  });
+});
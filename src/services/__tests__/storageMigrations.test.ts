@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import { applyMigrations, migrations, StorageSnapshot } from '@/services/storageMigrations';
+import { DEFAULT_CATEGORY_ICON } from '@/services/storageSchema';
+
+const migration = (version: number) => migrations.find(item => item.version === version)!.migrate;
+
+// A store as written before the first migration
+const legacyStore = (): StorageSnapshot => ({
+  categories: [{ id: 'work', name: 'Work (old)', color: 'red' }, { id: 'home', name: 'Home' }, { name: 'no id' }],
+  bookmark_categories: [{ id: 'work', name: 'Work', color: 'blue', icon: '💼' }],
+  bookmarks: [
+    { id: 'a', title: 'A', url: 'https://a.example.com/', createdAt: 1704067200000, accessCount: 3, lastAccessed: '2024-02-01T00:00:00.000Z' },
+    { title: 'No id', url: 'https://b.example.com/', createdAt: 'yesterday', tags: ['x', 1] },
+    { id: 'docs', type: 'folder', title: 'Docs', url: 'https://stray.example.com/', createdAt: '2024-01-01T00:00:00.000Z', accessCount: 2 },
+    { id: 'c', title: 'C', url: 'https://c.example.com/', parentId: 'gone', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'a', title: 'A again', url: 'https://a.example.com/again', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'no-url', title: 'No url' },
+    'junk',
+  ],
+  lastDeletedBookmark: { id: 'gone', title: 'Gone' },
+  undoExpire: 1704067200000,
+  columnVisibility: { Title: true, URL: 0, lastAccessed: 1 },
+  unrelated: 'kept',
+});
+
+describe('storage migrations', () => {
+  beforeEach(() => {
+    jest.spyOn(crypto, 'randomUUID').mockReturnValue('new-id' as `${string}-${string}-${string}-${string}-${string}`);
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('are numbered in order, one version apart', () => {
+    expect(migrations.map(item => item.version)).toEqual(migrations.map((_, index) => index + 1));
+  });
+
+  describe('v1', () => {
+    it('folds legacy categories into bookmark_categories, keeping the current entry for an id', () => {
+      const { categories, bookmark_categories, ...rest } = migration(1)(legacyStore());
+
+      expect(categories).toBeUndefined();
+      expect(bookmark_categories).toEqual([
+        { id: 'work', name: 'Work', color: 'blue', icon: '💼' },
+        { id: 'home', name: 'Home', color: 'blue', icon: DEFAULT_CATEGORY_ICON },
+      ]);
+      expect(rest.unrelated).toBe('kept');
+    });
+
+    it('leaves a store without categories alone', () => {
+      expect(migration(1)({ bookmarks: [] })).toEqual({ bookmarks: [] });
+    });
+  });
+
+  describe('v2', () => {
+    it('turns legacy records into valid, unique, rooted nodes', () => {
+      const { bookmarks } = migration(2)(legacyStore());
+
+      expect(bookmarks).toEqual([
+        { id: 'a', type: 'bookmark', title: 'A', url: 'https://a.example.com/', parentId: null, tags: [], createdAt: '2024-01-01T00:00:00.000Z', accessCount: 3, lastAccessed: '2024-02-01T00:00:00.000Z' },
+        { id: 'new-id', type: 'bookmark', title: 'No id', url: 'https://b.example.com/', parentId: null, tags: ['x'], createdAt: '2025-01-01T00:00:00.000Z', accessCount: 0 },
+        { id: 'docs', type: 'folder', title: 'Docs', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+        { id: 'c', type: 'bookmark', title: 'C', url: 'https://c.example.com/', parentId: null, tags: [], createdAt: '2024-01-01T00:00:00.000Z', accessCount: 0 },
+      ]);
+    });
+
+    it('drops an undo entry that cannot be converted, with its expiry', () => {
+      const migrated = migration(2)(legacyStore());
+
+      expect(migrated).not.toHaveProperty('lastDeletedBookmark');
+      expect(migrated).not.toHaveProperty('undoExpire');
+    });
+
+    it('leaves a store without bookmarks alone', () => {
+      expect(migration(2)({ unrelated: 'kept' })).toEqual({ unrelated: 'kept' });
+    });
+  });
+
+  describe('v3', () => {
+    it('lower-cases the first letter of column ids and stores booleans', () => {
+      expect(migration(3)(legacyStore()).columnVisibility).toEqual({ title: true, uRL: false, lastAccessed: true });
+    });
+  });
+
+  describe('v4', () => {
+    const store = (): StorageSnapshot => ({
+      bookmarks: [
+        { id: 'a', type: 'bookmark', title: 'Wiki', url: 'https://a.example.com/', accessCount: 2, lastAccessed: '2024-03-01T00:00:00.000Z' },
+        { id: 'b', type: 'bookmark', title: 'Wiki', url: 'https://b.example.com/', accessCount: 0 },
+        { id: 'c', type: 'bookmark', title: 'Jira', url: 'https://c.example.com/', lastAccessed: '2024-02-01T00:00:00.000Z' },
+        { id: 'd', type: 'folder', title: 'Docs' },
+      ],
+      bookmarkClicks: { Wiki: 3, Jira: 1.7, Gone: 4, Docs: 2, Broken: 'x' },
+    });
+
+    it('folds node counts and title-keyed clicks into the log, keeping the larger count and the node\'s last open', () => {
+      const { bookmarks, bookmarkClicks, bookmarkAccessLog } = migration(4)(store());
+
+      expect(bookmarkClicks).toBeUndefined();
+      expect(bookmarks).toEqual([
+        { id: 'a', type: 'bookmark', title: 'Wiki', url: 'https://a.example.com/' },
+        { id: 'b', type: 'bookmark', title: 'Wiki', url: 'https://b.example.com/' },
+        { id: 'c', type: 'bookmark', title: 'Jira', url: 'https://c.example.com/' },
+        { id: 'd', type: 'folder', title: 'Docs' },
+      ]);
+      expect(bookmarkAccessLog).toEqual({
+        events: [],
+        archived: {
+          a: { count: 3, lastAccessed: '2024-03-01T00:00:00.000Z' },
+          c: { count: 1, lastAccessed: '2024-02-01T00:00:00.000Z' },
+        },
+      });
+    });
+
+    it('adds to a log that already exists', () => {
+      const existing = {
+        events: [{ bookmarkId: 'a', timestamp: '2024-05-01T00:00:00.000Z', source: 'popup-table' }],
+        archived: { a: { count: 1, lastAccessed: '2024-04-01T00:00:00.000Z' } },
+      };
+
+      expect(migration(4)({ ...store(), bookmarkAccessLog: existing }).bookmarkAccessLog).toEqual({
+        events: existing.events,
+        archived: {
+          a: { count: 4, lastAccessed: '2024-04-01T00:00:00.000Z' },
+          c: { count: 1, lastAccessed: '2024-02-01T00:00:00.000Z' },
+        },
+      });
+    });
+
+    it('starts no log when there were no opens', () => {
+      expect(migration(4)({ bookmarks: [{ id: 'a', type: 'bookmark', title: 'A', url: 'https://a.example.com/' }] }))
+        .toEqual({ bookmarks: [{ id: 'a', type: 'bookmark', title: 'A', url: 'https://a.example.com/' }] });
+    });
+  });
+
+  it('gives the same result when a step runs twice', () => {
+    for (const { version, migrate } of migrations) {
+      const once = migrate(applyMigrations(legacyStore(), version - 1));
+      expect({ version, data: migrate(once) }).toEqual({ version, data: once });
+    }
+  });
+
+  it('applies only the migrations newer than the given version', () => {
+    const store = legacyStore();
+
+    expect(applyMigrations(store, 2)).toEqual(migration(4)(migration(3)(store)));
+    expect(applyMigrations(store, migrations.length)).toEqual(store);
+    expect(store).toEqual(legacyStore());
+  });
+});
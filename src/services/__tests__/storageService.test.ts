@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { StorageService, StorageValidationError } from '@/services/storageService';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+import { createFakeChrome, FakeChrome } from '@/tests/fakeChrome';
+
+// Written before any migration: legacy categories and Bookmark records
+const legacyStore = () => ({
+  categories: [{ id: 'work', name: 'Work', color: 'red' }],
+  bookmarks: [{ id: 'a', title: 'A', url: 'https://a.example.com/', createdAt: 1704067200000, accessCount: 2 }],
+  columnVisibility: { Title: true },
+});
+
+const migratedCategories = [{ id: 'work', name: 'Work', color: 'red', icon: '📁' }];
+const migratedBookmarks = [{ id: 'a', type: 'bookmark', title: 'A', url: 'https://a.example.com/', parentId: null, tags: [], createdAt: '2024-01-01T00:00:00.000Z' }];
+const migratedAccessLog = { events: [], archived: { a: { count: 2, lastAccessed: null } } };
+
+describe('StorageService', () => {
+  let fake: FakeChrome;
+
+  const install = (initial: Record<string, unknown>) => {
+    fake = createFakeChrome(initial);
+    global.chrome = fake.api;
+    // Each test stands for a fresh page, which migrates once
+    (StorageService as unknown as { migrationPromise: Promise<void> | null }).migrationPromise = null;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('migrate', () => {
+    it('writes the migrated values and the new version in one set, then removes legacy keys', async () => {
+      install(legacyStore());
+      const set = jest.spyOn(fake.api.storage.local, 'set');
+      const remove = jest.spyOn(fake.api.storage.local, 'remove');
+
+      await StorageService.migrate();
+
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(set.mock.calls[0][0]).toMatchObject({ schemaVersion: CURRENT_SCHEMA_VERSION, bookmark_categories: migratedCategories });
+      expect(remove).toHaveBeenCalledWith(['categories']);
+      expect(set.mock.invocationCallOrder[0]).toBeLessThan(remove.mock.invocationCallOrder[0]);
+      expect(fake.store).toEqual({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        bookmark_categories: migratedCategories,
+        bookmarks: migratedBookmarks,
+        bookmarkAccessLog: migratedAccessLog,
+        columnVisibility: { title: true },
+      });
+    });
+
+    it('runs once per page', async () => {
+      install(legacyStore());
+      const get = jest.spyOn(fake.api.storage.local, 'get');
+
+      await Promise.all([StorageService.migrate(), StorageService.migrate()]);
+      await StorageService.migrate();
+
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('does nothing to a current store', async () => {
+      install({ schemaVersion: CURRENT_SCHEMA_VERSION, categories: [], bookmarks: migratedBookmarks });
+      const set = jest.spyOn(fake.api.storage.local, 'set');
+
+      await StorageService.migrate();
+
+      expect(set).not.toHaveBeenCalled();
+    });
+
+    it('writes nothing when a migrated value fails validation, and retries on the next call', async () => {
+      const store = { ...legacyStore(), bookmarks: [{ id: 'a', title: 'A', url: 'https://a.example.com/', createdAt: 0, icon: 5 }] };
+      install(store);
+
+      await expect(StorageService.migrate()).rejects.toThrow(StorageValidationError);
+      expect(fake.store).toEqual(store);
+
+      fake.store.bookmarks = [];
+      await StorageService.migrate();
+      expect(fake.store.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('finishes removing legacy keys after an interrupted run without migrating them again', async () => {
+      install(legacyStore());
+      jest.spyOn(fake.api.storage.local, 'remove').mockImplementationOnce(async () => { throw new Error('Service worker stopped'); });
+
+      await expect(StorageService.migrate()).rejects.toThrow('Service worker stopped');
+      expect(fake.store).toMatchObject({ schemaVersion: CURRENT_SCHEMA_VERSION, categories: legacyStore().categories });
+
+      // The category was renamed after the upgrade; the stale legacy copy must not win again
+      fake.store.bookmark_categories = [{ ...migratedCategories[0], name: 'Renamed' }];
+      await StorageService.migrate();
+
+      expect(fake.store).not.toHaveProperty('categories');
+      expect(fake.store.bookmark_categories).toEqual([{ ...migratedCategories[0], name: 'Renamed' }]);
+    });
+  });
+
+  describe('set', () => {
+    it('rejects values that do not match the schema without writing anything', async () => {
+      install({});
+
+      await expect(StorageService.setMany({ bookmarks: [], columnVisibility: { title: 'yes' } as unknown as Record<string, boolean> }))
+        .rejects.toThrow('Invalid value for storage key "columnVisibility": title Expected boolean, received string');
+      expect(fake.store).toEqual({});
+    });
+  });
+
+  describe('importSnapshot', () => {
+    it('migrates data written by an older version before storing it', async () => {
+      install({ schemaVersion: CURRENT_SCHEMA_VERSION });
+
+      const imported = await StorageService.importSnapshot({ ...legacyStore(), schemaVersion: 0, notAKey: true });
+
+      expect(imported).toEqual({ bookmark_categories: migratedCategories, bookmarks: migratedBookmarks, bookmarkAccessLog: migratedAccessLog, columnVisibility: { title: true } });
+      expect(fake.store).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, ...imported });
+    });
+
+    it('skips the migrations the data has already been through', async () => {
+      install({});
+
+      // Already camelCase at v3, so the v3 step must not run again
+      await StorageService.importSnapshot({ columnVisibility: { URL: true } }, 3);
+
+      expect(fake.store.columnVisibility).toEqual({ URL: true });
+    });
+
+    it('writes nothing if any imported value is invalid', async () => {
+      install({});
+
+      await expect(StorageService.importSnapshot({ bookmarks: migratedBookmarks, columnVisibility: { title: 'yes' } }, CURRENT_SCHEMA_VERSION))
+        .rejects.toThrow(StorageValidationError);
+      expect(fake.store).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { UrlTemplateService } from '@/services/urlTemplateService';
+import { StorageService } from '@/services/storageService';
+import { OrgEntry } from '@/types/org';
+import { createFakeChrome } from '@/tests/fakeChrome';
+
+const org = (id: number, name: string, extra: Partial<OrgEntry> = {}): OrgEntry =>
+  ({ id, name, aliases: [], environment: 'prod', favorite: false, ...extra });
+
+const orgs = [org(12, 'acme', { aliases: ['acme corp'] }), org(13, 'acme-sandbox', { environment: 'sandbox' }), org(40, 'globex')];
+
+describe('UrlTemplateService', () => {
+  describe('variables', () => {
+    it('lists each variable once, in order', () => {
+      expect(UrlTemplateService.variables('https://dash.example.com/{org}/tickets/{ticket_id}?org={org}')).toEqual(['org', 'ticket_id']);
+    });
+
+    it('does not take JSON-like braces or plain URLs for templates', () => {
+      expect(UrlTemplateService.isTemplate('https://example.com/?q={"a":1}')).toBe(false);
+      expect(UrlTemplateService.isTemplate('https://example.com/')).toBe(false);
+      expect(UrlTemplateService.isTemplate(undefined)).toBe(false);
+      expect(UrlTemplateService.isTemplate('https://example.com/?org={org}')).toBe(true);
+    });
+  });
+
+  describe('fill', () => {
+    it('replaces every occurrence with the encoded value', () => {
+      expect(UrlTemplateService.fill('https://x.com/{org}/search?q={query}&org={org}', { org: '12', query: 'a b&c' }))
+        .toBe('https://x.com/12/search?q=a%20b%26c&org=12');
+    });
+
+    it('throws for a variable without a value', () => {
+      expect(() => UrlTemplateService.fill('https://x.com/?org={org}', { org: '  ' })).toThrow('No value for {org}');
+    });
+  });
+
+  describe('suggestions', () => {
+    it('offers recent values first, then matching orgs, without repeats', () => {
+      expect(UrlTemplateService.suggestions('org', 'acme', { recent: ['13', '40'], orgs })).toEqual([
+        { value: '13', label: 'acme-sandbox', detail: '#13 · recent' },
+        { value: '12', label: 'acme', detail: '#12 · prod' },
+      ]);
+    });
+
+    it('only offers orgs for org variables', () => {
+      expect(UrlTemplateService.suggestions('ticket', '', { recent: ['881', '872'], orgs })).toEqual([
+        { value: '881', label: '881', detail: 'recent' },
+        { value: '872', label: '872', detail: 'recent' },
+      ]);
+      expect(UrlTemplateService.suggestions('ticket', '87', { recent: ['881', '872'], orgs })).toEqual([
+        { value: '872', label: '872', detail: 'recent' },
+      ]);
+    });
+  });
+
+  it('turns org names and aliases into ids, leaving other variables as typed', () => {
+    expect(UrlTemplateService.resolveValues({ org: ' Acme Corp ', orgId: '40', view: 'acme' }, orgs))
+      .toEqual({ org: '12', orgId: '40', view: 'acme' });
+    expect(UrlTemplateService.resolveValues({ org: 'unknown' }, orgs)).toEqual({ org: 'unknown' });
+  });
+
+  it('remembers the latest values first, up to the limit', () => {
+    const recent = { org: Array.from({ length: UrlTemplateService.RECENT_LIMIT }, (_, i) => String(i)), view: ['a'] };
+    const next = UrlTemplateService.remember(recent, { org: '5', view: '', ticket: '9' });
+    expect(next.org).toEqual(['5', '0', '1', '2', '3', '4', '6', '7', '8', '9']);
+    expect(next.view).toEqual(['a']);
+    expect(next.ticket).toEqual(['9']);
+  });
+
+  describe('saveValues', () => {
+    beforeEach(() => {
+      global.chrome = createFakeChrome().api;
+    });
+
+    it('keeps the values used in storage', async () => {
+      await UrlTemplateService.saveValues({ org: '12' });
+      await UrlTemplateService.saveValues({ org: '40', ticket: '881' });
+      expect(await StorageService.get('urlTemplateValues')).toEqual({ org: ['40', '12'], ticket: ['881'] });
+      expect(await UrlTemplateService.getRecent()).toEqual({ org: ['40', '12'], ticket: ['881'] });
+    });
+
+    it('keeps every value saved at the same time', async () => {
+      await Promise.all([
+        UrlTemplateService.saveValues({ org: '12' }),
+        UrlTemplateService.saveValues({ ticket: '881' }),
+        UrlTemplateService.saveValues({ org: '40' }),
+      ]);
+
+      expect(await UrlTemplateService.getRecent()).toEqual({ org: ['40', '12'], ticket: ['881'] });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @jest-environment jsdom
+ */
+import { WorkflowRecorder } from '@/services/workflowRecorder';
+import { WorkflowRunner } from '@/services/workflowRunner';
+import { WorkflowStep } from '@/types/workflow';
+
+const element = (selector: string) => document.querySelector(selector) as Element;
+
+describe('WorkflowRecorder', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('prefers data-testid, then aria-label, ids and field names', () => {
+    document.body.innerHTML = `
+      <div data-testid="change-org"><span class="label">Change Org</span></div>
+      <button aria-label="Account Setting"><svg></svg></button>
+      <button aria-label="Close"></button><button aria-label="Close"></button>
+      <input id="org-search" /><input id="field-48213" name="email" />`;
+
+    expect(WorkflowRecorder.clickStep(element('.label'))).toEqual({ action: 'click', selector: '[data-testid="change-org"]' });
+    expect(WorkflowRecorder.clickStep(element('svg'))).toEqual({ action: 'click', selector: 'button[aria-label="Account Setting"]' });
+    expect(WorkflowRecorder.locate(element('#org-search'))).toEqual({ selector: '#org-search' });
+    expect(WorkflowRecorder.typeStep(element('[name="email"]'), 'a@b.c')).toEqual({ action: 'type', selector: 'input[name="email"]', value: 'a@b.c' });
+    // Two elements share the label, so it does not find the second one
+    expect(WorkflowRecorder.locate(document.querySelectorAll('[aria-label="Close"]')[1]).selector).not.toBe('button[aria-label="Close"]');
+  });
+
+  it('finds buttons by their text, leaving out generated and state classes', () => {
+    document.body.innerHTML = `
+      <button class="ModalItem-container css-1x2y3z">Acme sandbox</button>
+      <button class="ModalItem-container is-selected">Acme</button>
+      <button class="sc-bdVaJa">Apply</button>`;
+
+    expect(WorkflowRecorder.clickStep(element('.is-selected'))).toEqual({ action: 'click', selector: 'button.ModalItem-container', text: 'Acme' });
+    expect(WorkflowRecorder.clickStep(element('.sc-bdVaJa'))).toEqual({ action: 'click', selector: 'button', text: 'Apply' });
+  });
+
+  it('falls back to a path from the nearest element with a test id', () => {
+    document.body.innerHTML = '<ul data-testid="menu"><li><a href="#">One</a></li><li><a href="#">One</a></li></ul>';
+    const second = document.querySelectorAll('a')[1];
+    const { selector } = WorkflowRecorder.locate(second);
+
+    expect(selector).toBe('[data-testid="menu"] > li:nth-of-type(2) > a');
+    expect(document.querySelector(selector)).toBe(second);
+  });
+
+  it('replays what it recorded', async () => {
+    document.body.innerHTML = '<button class="Toolbar-filter"><span>Filters</span></button><input placeholder="Search" />';
+    const clicks: string[] = [];
+    document.body.addEventListener('click', e => clicks.push((e.target as Element).tagName));
+
+    let steps: WorkflowStep[] = [];
+    steps = WorkflowRecorder.append(steps, WorkflowRecorder.clickStep(element('span')));
+    for (const value of ['A', 'Ac', 'Acme']) steps = WorkflowRecorder.append(steps, WorkflowRecorder.typeStep(element('input'), value));
+
+    expect(steps).toEqual([
+      { action: 'click', selector: 'button.Toolbar-filter', text: 'Filters' },
+      { action: 'type', selector: 'input[placeholder="Search"]', value: 'Acme' },
+    ]);
+    (element('input') as HTMLInputElement).value = '';
+    expect(await WorkflowRunner.run({ id: 'r', name: 'Recorded', timeoutMs: 100, steps })).toEqual({ ok: true, steps: 2 });
+    expect(clicks).toEqual(['BUTTON']);
+    expect((element('input') as HTMLInputElement).value).toBe('Acme');
+  });
+
+  it('records navigation only when the path changes', () => {
+    expect(WorkflowRecorder.navigationStep('https://a.example/one?x=1', 'https://a.example/two')).toEqual({ action: 'waitForUrl', urlIncludes: '/two' });
+    expect(WorkflowRecorder.navigationStep('https://a.example/one?x=1', 'https://a.example/one?x=2#top')).toBeNull();
+    expect(WorkflowRecorder.navigationStep('https://a.example/one', 'https://b.example/')).toEqual({ action: 'waitForUrl', urlIncludes: 'b.example' });
+  });
+
+  it('makes a workflow parameterized by the chosen query parameters', () => {
+    const steps: WorkflowStep[] = [
+      { action: 'type', selector: 'input.SearchBar-input', value: 'Acme' },
+      { action: 'click', selector: 'button.ModalItem-container', text: 'Acme Corp' },
+      { action: 'waitForUrl', urlIncludes: '/reports/week' },
+      { action: 'pause', ms: 100 },
+    ];
+    const workflow = WorkflowRecorder.toWorkflow({
+      name: ' Weekly report setup ',
+      startUrl: 'https://dashboard.example/discover/dashboard?org=1459&range=week&v=2',
+      steps,
+      params: { org: 'Acme', range: 'week', v: '2' },
+      trigger: true,
+    });
+
+    expect(workflow).toEqual({
+      id: 'weekly-report-setup',
+      name: 'Weekly report setup',
+      description: 'Recorded on dashboard.example/discover/dashboard with {{org}}, {{range}}, {{v}}',
+      trigger: { urlIncludes: 'dashboard.example/discover/dashboard', queryParams: ['org', 'range', 'v'] },
+      steps: [
+        { action: 'type', selector: 'input.SearchBar-input', value: '{{org}}' },
+        { action: 'click', selector: 'button.ModalItem-container', text: '{{org}} Corp' },
+        { action: 'waitForUrl', urlIncludes: '/reports/{{range}}' },
+        { action: 'pause', ms: 100 },
+      ],
+    });
+    expect(WorkflowRecorder.toWorkflow({ name: '', startUrl: 'https://a.example/x', steps, params: {}, trigger: true }))
+      .toMatchObject({ id: 'recorded-on-a-example', name: 'Recorded on a.example', steps });
+  });
+});
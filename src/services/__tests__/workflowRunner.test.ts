@@ -0,0 +1,128 @@
+/**
+ * @jest-environment jsdom
+ */
+import { WorkflowRunner } from '@/services/workflowRunner';
+import { DEFAULT_WORKFLOWS } from '@/services/workflowService';
+import { Workflow, WorkflowStep } from '@/types/workflow';
+
+const workflow = (steps: WorkflowStep[], timeoutMs = 200): Workflow => ({ id: 'test', name: 'Test workflow', timeoutMs, steps });
+
+// Adds markup to the page after a delay, as a single-page app renders after a click
+const renderLater = (html: string, ms = 20) => setTimeout(() => document.body.insertAdjacentHTML('beforeend', html), ms);
+
+describe('WorkflowRunner', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('waits for elements that appear later, then clicks and types', async () => {
+    const clicks: string[] = [];
+    document.body.addEventListener('click', e => clicks.push((e.target as HTMLElement).id));
+    const typed: string[] = [];
+    document.body.addEventListener('input', e => typed.push((e.target as HTMLInputElement).value));
+    renderLater('<button id="open">Open</button>');
+    renderLater('<input id="search" class="search" />', 40);
+
+    const result = await WorkflowRunner.run(workflow([
+      { action: 'click', selector: '#open' },
+      { action: 'type', selector: 'input.search', value: '{{org}} inc' },
+      { action: 'assert', selector: '#search' },
+    ]), { org: 'Acme' });
+
+    expect(result).toEqual({ ok: true, steps: 3 });
+    expect(clicks).toEqual(['open']);
+    expect(typed).toEqual(['Acme inc']);
+    expect((document.getElementById('search') as HTMLInputElement).value).toBe('Acme inc');
+  });
+
+  it('clicks the element containing the text, preferring an exact match', async () => {
+    document.body.innerHTML = '<button class="item">Acme Sandbox</button><button class="item">Beta</button><button class="item"> Acme </button>';
+    const clicked: string[] = [];
+    document.querySelectorAll('button').forEach(button => button.addEventListener('click', () => clicked.push(button.textContent ?? '')));
+
+    await WorkflowRunner.run(workflow([{ action: 'click', selector: 'button.item', text: '{{org}}' }]), { org: 'Beta' });
+    await WorkflowRunner.run(workflow([{ action: 'click', selector: 'button.item', text: 'Acme' }]));
+    await WorkflowRunner.run(workflow([{ action: 'click', selector: 'button.item', text: 'Sand' }]));
+
+    expect(clicked).toEqual(['Beta', ' Acme ', 'Acme Sandbox']);
+  });
+
+  it('waits for text anywhere on the page or within a selector', async () => {
+    renderLater('<p class="status">Switched to <b>Acme</b></p>');
+    const result = await WorkflowRunner.run(workflow([
+      { action: 'waitForText', text: 'Switched to Acme' },
+      { action: 'waitForText', text: 'Acme', selector: '.status' },
+    ]));
+    expect(result.ok).toBe(true);
+  });
+
+  it('waits for a single-page app to change the address', async () => {
+    setTimeout(() => window.history.pushState(null, '', '/reports/weekly?org=1'), 20);
+    const result = await WorkflowRunner.run(workflow([{ action: 'waitForUrl', urlIncludes: '/reports/{{range}}' }], 1000), { range: 'weekly' });
+    window.history.pushState(null, '', '/');
+
+    expect(result).toEqual({ ok: true, steps: 1 });
+    expect(WorkflowRunner.stepLabel({ action: 'waitForUrl', urlIncludes: '/reports' })).toBe('wait for the address to contain "/reports"');
+  });
+
+  it('reports the step that timed out', async () => {
+    const steps: WorkflowStep[] = [
+      { action: 'pause', ms: 1 },
+      { action: 'click', selector: '[data-testid="change-org"]', label: 'Choose Change Org', timeoutMs: 30 },
+    ];
+    const started = Date.now();
+    const result = await WorkflowRunner.run(workflow(steps, 5000));
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        code: 'TIMEOUT',
+        message: '"[data-testid="change-org"]" did not appear within 0.03 s',
+        workflowId: 'test',
+        workflowName: 'Test workflow',
+        stepIndex: 1,
+        step: steps[1],
+      },
+    });
+    if (!result.ok) {
+      expect(WorkflowRunner.describeError(result.error))
+        .toBe('Test workflow: step 2 (Choose Change Org) failed, "[data-testid="change-org"]" did not appear within 0.03 s');
+    }
+  });
+
+  it('fails assertions, bad selectors, missing parameters and typing into non-fields', async () => {
+    document.body.innerHTML = '<div id="banner">Error</div>';
+    const code = async (step: WorkflowStep, params: Record<string, string> = {}) => {
+      const result = await WorkflowRunner.run(workflow([step], 30), params);
+      return result.ok ? 'ok' : result.error.code;
+    };
+
+    expect(await code({ action: 'assert', selector: '#banner', absent: true })).toBe('ASSERTION_FAILED');
+    expect(await code({ action: 'assert', selector: '#banner', text: 'Saved' })).toBe('ASSERTION_FAILED');
+    expect(await code({ action: 'assert', selector: '#missing', absent: true })).toBe('ok');
+    expect(await code({ action: 'waitFor', selector: 'button[' })).toBe('INVALID_SELECTOR');
+    expect(await code({ action: 'type', selector: '#banner', value: '{{org}}' })).toBe('MISSING_PARAM');
+    expect(await code({ action: 'type', selector: '#banner', value: '{{org}}' }, { org: 'x' })).toBe('NOT_TYPEABLE');
+  });
+
+  it('switches the org with the built-in workflow', async () => {
+    const log: string[] = [];
+    document.body.innerHTML = '<button aria-label="Account Setting">Me</button>';
+    document.body.addEventListener('click', e => {
+      const target = e.target as HTMLElement;
+      log.push(target.textContent ?? '');
+      if (target.getAttribute('aria-label') === 'Account Setting') renderLater('<div data-testid="change-org">Change Org</div>');
+      if (target.dataset.testid === 'change-org') renderLater('<input class="SearchBar-input" />');
+    });
+    document.body.addEventListener('input', e => {
+      const query = (e.target as HTMLInputElement).value;
+      renderLater(`<button class="ModalItem-container">${query} sandbox</button><button class="ModalItem-container">${query}</button><button class="BreakdownModal-applyBreakdownButton">Apply</button>`);
+    });
+
+    const result = await WorkflowRunner.run({ ...DEFAULT_WORKFLOWS[0], timeoutMs: 500 }, { org: 'Acme' });
+
+    expect(result).toEqual({ ok: true, steps: DEFAULT_WORKFLOWS[0].steps.length });
+    expect(log).toEqual(['Me', 'Change Org', 'Acme', 'Apply']);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { DEFAULT_WORKFLOWS, ORG_SWITCH_WORKFLOW_ID, WorkflowDefinitionError, WorkflowService } from '@/services/workflowService';
+import { Workflow } from '@/types/workflow';
+import { createFakeChrome } from '@/tests/fakeChrome';
+
+const CUSTOM: Workflow = {
+  id: 'notion-setup',
+  name: 'Notion setup',
+  trigger: { urlIncludes: 'notion.so', queryParams: ['page', 'view'] },
+  steps: [{ action: 'click', selector: '[data-testid="{{view}}"]' }],
+};
+
+describe('WorkflowService', () => {
+  beforeEach(() => {
+    global.chrome = createFakeChrome().api;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the built-in org switch until workflows are saved', async () => {
+    expect((await WorkflowService.getWorkflows()).map(workflow => workflow.id)).toEqual([ORG_SWITCH_WORKFLOW_ID]);
+
+    await WorkflowService.saveWorkflows([CUSTOM]);
+    expect(await WorkflowService.getWorkflows()).toEqual([CUSTOM]);
+  });
+
+  it('adds recorded workflows, numbering ids that are taken', async () => {
+    await WorkflowService.saveWorkflows([CUSTOM]);
+    expect((await WorkflowService.addWorkflow(CUSTOM)).id).toBe('notion-setup-2');
+    expect((await WorkflowService.addWorkflow(CUSTOM)).id).toBe('notion-setup-3');
+    expect((await WorkflowService.getWorkflows()).map(workflow => workflow.id)).toEqual(['notion-setup', 'notion-setup-2', 'notion-setup-3']);
+  });
+
+  it('keeps every workflow added or changed at the same time', async () => {
+    await Promise.all([
+      WorkflowService.addWorkflow(CUSTOM),
+      WorkflowService.updateWorkflows(workflows => workflows.filter(workflow => workflow.id !== ORG_SWITCH_WORKFLOW_ID)),
+      WorkflowService.addWorkflow(CUSTOM),
+    ]);
+
+    expect((await WorkflowService.getWorkflows()).map(workflow => workflow.id)).toEqual(['notion-setup', 'notion-setup-2']);
+  });
+
+  it('reads stored workflows for the content script, skipping invalid ones', () => {
+    expect(WorkflowService.fromStored(undefined)).toBe(DEFAULT_WORKFLOWS);
+    expect(WorkflowService.fromStored([CUSTOM, { id: 'broken', name: 'Broken', steps: [] }])).toEqual([CUSTOM]);
+    expect(WorkflowService.fromStored([])).toEqual([]);
+  });
+
+  it('parses workflows edited as JSON and lists what is wrong with invalid ones', () => {
+    expect(WorkflowService.parse(WorkflowService.serialize(CUSTOM))).toEqual(CUSTOM);
+
+    expect(() => WorkflowService.parse('{ "id": ')).toThrow(WorkflowDefinitionError);
+    try {
+      WorkflowService.parse(JSON.stringify({ id: 'x', name: 'X', steps: [{ action: 'hover', selector: 'a' }, { action: 'click' }] }));
+      throw new Error('expected a WorkflowDefinitionError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorkflowDefinitionError);
+      expect((error as WorkflowDefinitionError).issues).toEqual([
+        expect.stringMatching(/^steps\.0\.action /),
+        expect.stringMatching(/^steps\.1\.selector /),
+      ]);
+    }
+  });
+
+  it('lists the parameters a workflow uses', () => {
+    expect(WorkflowService.placeholders(DEFAULT_WORKFLOWS[0])).toEqual(['org']);
+    expect(WorkflowService.placeholders({ ...CUSTOM, steps: [...CUSTOM.steps, { action: 'type', selector: '#{{ field }}', value: '{{view}} {{page}}' }] }))
+      .toEqual(['view', 'field', 'page']);
+  });
+
+  it('finds the workflows a URL triggers, with their parameters', () => {
+    const workflows = [...DEFAULT_WORKFLOWS, CUSTOM];
+
+    expect(WorkflowService.triggeredBy(workflows, 'https://dashboard-int.forethought.tech/discover/dashboard?org=1459'))
+      .toEqual([{ workflow: DEFAULT_WORKFLOWS[0], params: { org: '1459' } }]);
+    expect(WorkflowService.triggeredBy(workflows, 'https://www.notion.so/x?page=1&view=table'))
+      .toEqual([{ workflow: CUSTOM, params: { page: '1', view: 'table' } }]);
+    expect(WorkflowService.triggeredBy(workflows, 'https://www.notion.so/x?page=1')).toEqual([]);
+    expect(WorkflowService.triggeredBy(workflows, 'https://dashboard-int.forethought.tech/discover/dashboard?org=')).toEqual([]);
+    expect(WorkflowService.triggeredBy(workflows, 'not a url')).toEqual([]);
+  });
+
+  it('only switches orgs on the dashboard itself', () => {
+    expect(WorkflowService.triggeredBy(DEFAULT_WORKFLOWS, 'https://dashboard-int.forethought.tech/settings?org=1459')).toHaveLength(1);
+    expect(WorkflowService.triggeredBy(DEFAULT_WORKFLOWS, 'https://grafana.example.com/d/dashboard?org=2')).toEqual([]);
+    expect(WorkflowService.triggeredBy(DEFAULT_WORKFLOWS, 'https://dashboard-int.forethought.tech.example.com/?org=2')).toEqual([]);
+    expect(WorkflowService.triggeredBy(DEFAULT_WORKFLOWS, 'https://other.site/?u=https://dashboard-int.forethought.tech/discover/dashboard&org=1')).toEqual([]);
+    expect(WorkflowService.triggeredBy(DEFAULT_WORKFLOWS, 'https://other.site/dashboard-int.forethought.tech/?org=1')).toEqual([]);
+  });
+
+  it('matches a trigger against the start of the page\'s origin and path', () => {
+    const page = (url: string) => new URL(url);
+
+    expect(WorkflowService.matchesTrigger(page('https://dash.example/discover/dashboard?x=1'), 'dash.example/discover/dashboard')).toBe(true);
+    expect(WorkflowService.matchesTrigger(page('https://dash.example/discover/dashboard/week'), 'dash.example/discover/dashboard')).toBe(true);
+    expect(WorkflowService.matchesTrigger(page('https://dash.example/discover/dashboards'), 'dash.example/discover/dashboard')).toBe(false);
+    expect(WorkflowService.matchesTrigger(page('https://dash.example/other#/discover/dashboard'), 'dash.example/discover/dashboard')).toBe(false);
+    expect(WorkflowService.matchesTrigger(page('https://app.dash.example/'), 'dash.example')).toBe(true);
+    expect(WorkflowService.matchesTrigger(page('https://notdash.example/'), 'dash.example')).toBe(false);
+    expect(WorkflowService.matchesTrigger(page('http://dash.example/'), 'https://dash.example/')).toBe(false);
+    expect(WorkflowService.matchesTrigger(page('https://app.dash.example/'), 'https://dash.example/')).toBe(false);
+    expect(WorkflowService.matchesTrigger(page('https://dash.example/'), 'https://')).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import { createWriteQueue } from '@/services/writeQueue';
+
+// A task that records when it starts and ends, finishing after the given number of ticks
+const step = (log: string[], name: string, ticks: number, fail = false) => async () => {
+  log.push(`start ${name}`);
+  for (let i = 0; i < ticks; i++) await Promise.resolve();
+  log.push(`end ${name}`);
+  if (fail) throw new Error(`${name} failed`);
+  return name;
+};
+
+describe('createWriteQueue', () => {
+  it('runs tasks one at a time, in call order', async () => {
+    const enqueue = createWriteQueue('test-lock');
+    const log: string[] = [];
+
+    const results = await Promise.all([enqueue(step(log, 'a', 5)), enqueue(step(log, 'b', 1)), enqueue(step(log, 'c', 3))]);
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(log).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('rejects only the failing task and carries on with the next', async () => {
+    const enqueue = createWriteQueue('test-lock');
+    const log: string[] = [];
+
+    const failing = enqueue(step(log, 'a', 2, true));
+    const next = enqueue(step(log, 'b', 1));
+
+    await expect(failing).rejects.toThrow('a failed');
+    await expect(next).resolves.toBe('b');
+    expect(log).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('keeps separate queues independent', async () => {
+    const first = createWriteQueue('first');
+    const second = createWriteQueue('second');
+    const log: string[] = [];
+
+    await Promise.all([first(step(log, 'a', 3)), second(step(log, 'b', 1))]);
+
+    expect(log).toEqual(['start a', 'start b', 'end b', 'end a']);
+  });
+});
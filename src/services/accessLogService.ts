@@ -0,0 +1,135 @@
+import { AccessEvent, AccessLogReassignment, AccessSource, AccessTotals, BookmarkAccessLog, BookmarkNode } from '@/types/bookmark';
+import { StorageService } from '@/services/storageService';
+import { createWriteQueue } from '@/services/writeQueue';
+
+const emptyLog = (): BookmarkAccessLog => ({ events: [], archived: {} });
+
+const latest = (a: string | null | undefined, b: string | null | undefined) => (!a ? b ?? null : !b || a > b ? a : b);
+
+export class AccessLogService {
+  private static readonly STORAGE_KEY = 'bookmarkAccessLog' as const;
+  private static readonly LOCK_NAME = 'forethought-toolbox-access-log';
+  private static readonly enqueue = createWriteQueue(this.LOCK_NAME);
+  // Older events are folded into the per-bookmark archived totals
+  static readonly MAX_EVENTS = 5000;
+
+  static async getLog(): Promise<BookmarkAccessLog> {
+    try {
+      return (await StorageService.get(this.STORAGE_KEY)) ?? emptyLog();
+    } catch (error) {
+      console.error('Failed to fetch access log:', error);
+      return emptyLog();
+    }
+  }
+
+  /**
+   * Appends an access event. Pages that may close while the bookmark opens (the popup,
+   * content scripts) should send RECORD_BOOKMARK_ACCESS to the background instead.
+   */
+  static async record(bookmarkId: string, source: AccessSource): Promise<AccessEvent> {
+    return this.enqueue(async () => {
+      const log = (await StorageService.getOrThrow(this.STORAGE_KEY)) ?? emptyLog();
+      const event: AccessEvent = { bookmarkId, timestamp: new Date().toISOString(), source };
+      await StorageService.set(this.STORAGE_KEY, this.compact({ ...log, events: [...log.events, event] }));
+      return event;
+    });
+  }
+
+  /**
+   * Moves the opens recorded for some bookmarks onto others (old id → new id), as when
+   * duplicates are merged. The result can be passed to revert to move them back.
+   */
+  static async reassign(moves: Record<string, string>): Promise<AccessLogReassignment> {
+    return this.enqueue(async () => {
+      const log = (await StorageService.getOrThrow(this.STORAGE_KEY)) ?? emptyLog();
+      const ids = new Set([...Object.keys(moves), ...Object.values(moves)]);
+      const reassignment: AccessLogReassignment = {
+        moves,
+        events: log.events.filter(event => event.bookmarkId in moves),
+        archived: Object.fromEntries(Array.from(ids, id => [id, log.archived[id] ?? null])),
+      };
+      if (reassignment.events.length === 0 && !Object.keys(moves).some(id => log.archived[id])) return reassignment;
+
+      const archived = { ...log.archived };
+      for (const [from, to] of Object.entries(moves)) {
+        const moved = archived[from];
+        if (!moved) continue;
+        archived[to] = {
+          count: (archived[to]?.count ?? 0) + moved.count,
+          lastAccessed: latest(archived[to]?.lastAccessed, moved.lastAccessed),
+        };
+        delete archived[from];
+      }
+      const events = log.events.map(event => (event.bookmarkId in moves ? { ...event, bookmarkId: moves[event.bookmarkId] } : event));
+      await StorageService.set(this.STORAGE_KEY, { events, archived });
+      return reassignment;
+    });
+  }
+
+  // Undoes reassign, leaving opens recorded since then where they are
+  static async revert(reassignment: AccessLogReassignment): Promise<void> {
+    await this.enqueue(async () => {
+      const log = (await StorageService.getOrThrow(this.STORAGE_KEY)) ?? emptyLog();
+      const events = [...log.events];
+      for (const original of reassignment.events) {
+        const index = events.findIndex(event =>
+          event.bookmarkId === reassignment.moves[original.bookmarkId]
+          && event.timestamp === original.timestamp
+          && event.source === original.source);
+        if (index !== -1) events[index] = original;
+      }
+      const archived = { ...log.archived };
+      for (const [id, totals] of Object.entries(reassignment.archived)) {
+        if (totals) archived[id] = totals; else delete archived[id];
+      }
+      await StorageService.set(this.STORAGE_KEY, { events, archived });
+    });
+  }
+
+  // Runs fn with no other access log write in between; see BookmarkService.exclusive
+  static exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    return this.enqueue(fn);
+  }
+
+  static async clear(): Promise<void> {
+    await this.enqueue(() => StorageService.remove(this.STORAGE_KEY));
+  }
+
+  private static compact(log: BookmarkAccessLog): BookmarkAccessLog {
+    const overflow = log.events.length - this.MAX_EVENTS;
+    if (overflow <= 0) return log;
+    const archived = { ...log.archived };
+    for (const event of log.events.slice(0, overflow)) {
+      const previous = archived[event.bookmarkId];
+      archived[event.bookmarkId] = {
+        count: (previous?.count ?? 0) + 1,
+        lastAccessed: event.timestamp,
+      };
+    }
+    return { events: log.events.slice(overflow), archived };
+  }
+
+  // Total opens and the latest open per bookmark id
+  static summarize(log: BookmarkAccessLog): Map<string, AccessTotals> {
+    const totals = new Map<string, AccessTotals>(
+      Object.entries(log.archived).map(([id, archived]) => [id, { ...archived }])
+    );
+    for (const event of log.events) {
+      const total = totals.get(event.bookmarkId) ?? { count: 0, lastAccessed: null };
+      total.count += 1;
+      if (!total.lastAccessed || event.timestamp > total.lastAccessed) total.lastAccessed = event.timestamp;
+      totals.set(event.bookmarkId, total);
+    }
+    return totals;
+  }
+
+  // Fills in accessCount and lastAccessed on bookmarks from the log
+  static withAccessStats(nodes: BookmarkNode[], log: BookmarkAccessLog): BookmarkNode[] {
+    const totals = this.summarize(log);
+    return nodes.map(node => {
+      if (node.type !== 'bookmark') return node;
+      const total = totals.get(node.id);
+      return { ...node, accessCount: total?.count ?? 0, lastAccessed: total?.lastAccessed ?? undefined };
+    });
+  }
+}
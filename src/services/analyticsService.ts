@@ -0,0 +1,131 @@
+import { BookmarkAccessLog, BookmarkNode, BookmarkStats, DateRange } from '@/types/bookmark';
+import { AccessLogService } from '@/services/accessLogService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  // getDay() is 0 for Sunday; weeks start on Monday
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+};
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const getDomain = (url?: string) => {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+};
+
+export class AnalyticsService {
+  static readonly UNCATEGORIZED = 'uncategorized';
+  static readonly NEVER_OPENED = 'Never opened';
+  // Opens migrated from the old click counter have no timestamp
+  static readonly DATE_UNKNOWN = 'Opened, date unknown';
+  static readonly STALE_BUCKETS: { label: string; maxDays: number }[] = [
+    { label: '< 1 week', maxDays: 7 },
+    { label: '1–4 weeks', maxDays: 30 },
+    { label: '1–3 months', maxDays: 90 },
+    { label: '3–6 months', maxDays: 180 },
+    { label: '6–12 months', maxDays: 365 },
+    { label: '> 1 year', maxDays: Infinity },
+  ];
+
+  // Range covering the last `days` days, today included
+  static lastDays(days: number, now = new Date()): DateRange {
+    const start = startOfDay(now);
+    start.setDate(start.getDate() - (days - 1));
+    return { start: toDateKey(start), end: toDateKey(now) };
+  }
+
+  /**
+   * Builds the dashboard statistics. Access charts and domains only count opens inside
+   * range; category, tag and staleness figures describe the whole library as of now.
+   * Opens folded into the log's archived totals have no timestamps and only affect staleness.
+   */
+  static computeStats(bookmarks: BookmarkNode[], log: BookmarkAccessLog, range: DateRange, now = new Date()): BookmarkStats {
+    const links = bookmarks.filter(node => node.type === 'bookmark');
+    const byId = new Map(links.map(node => [node.id, node]));
+
+    const stats: BookmarkStats = {
+      totalBookmarks: links.length,
+      categories: {},
+      tags: {},
+      recentAccesses: {},
+      weeklyAccesses: {},
+      domains: {},
+      staleness: {},
+    };
+
+    for (const node of links) {
+      const categoryId = node.categoryId || this.UNCATEGORIZED;
+      stats.categories[categoryId] = (stats.categories[categoryId] ?? 0) + 1;
+      for (const tag of node.tags ?? []) {
+        stats.tags[tag] = (stats.tags[tag] ?? 0) + 1;
+      }
+    }
+
+    // Events are stored oldest first, so the first and last in range bound the series
+    const rangeStart = range.start ? parseDateKey(range.start) : null;
+    const rangeEnd = range.end ? new Date(parseDateKey(range.end).getTime() + DAY_MS) : null;
+    const inRange = log.events.filter(event => {
+      const time = new Date(event.timestamp);
+      return (!rangeStart || time >= rangeStart) && (!rangeEnd || time < rangeEnd);
+    });
+
+    const firstDay = rangeStart ?? (inRange.length > 0 ? startOfDay(new Date(inRange[0].timestamp)) : startOfDay(now));
+    const lastDay = range.end ? parseDateKey(range.end) : startOfDay(now);
+    // Zero-fill so quiet days and weeks still show up on the charts
+    for (let day = new Date(firstDay); day <= lastDay; day.setDate(day.getDate() + 1)) {
+      stats.recentAccesses[toDateKey(day)] = 0;
+    }
+    for (let week = startOfWeek(firstDay); week <= lastDay; week.setDate(week.getDate() + 7)) {
+      stats.weeklyAccesses[toDateKey(week)] = 0;
+    }
+
+    for (const event of inRange) {
+      const time = new Date(event.timestamp);
+      const dayKey = toDateKey(time);
+      const weekKey = toDateKey(startOfWeek(time));
+      stats.recentAccesses[dayKey] = (stats.recentAccesses[dayKey] ?? 0) + 1;
+      stats.weeklyAccesses[weekKey] = (stats.weeklyAccesses[weekKey] ?? 0) + 1;
+      const domain = getDomain(byId.get(event.bookmarkId)?.url);
+      if (domain) stats.domains[domain] = (stats.domains[domain] ?? 0) + 1;
+    }
+
+    for (const bucket of this.STALE_BUCKETS) stats.staleness[bucket.label] = 0;
+    stats.staleness[this.NEVER_OPENED] = 0;
+    const totals = AccessLogService.summarize(log);
+    for (const node of links) {
+      const total = totals.get(node.id);
+      let label = this.NEVER_OPENED;
+      if (total?.lastAccessed) {
+        const days = (now.getTime() - new Date(total.lastAccessed).getTime()) / DAY_MS;
+        label = this.STALE_BUCKETS.find(bucket => days < bucket.maxDays)?.label ?? this.NEVER_OPENED;
+      } else if (total && total.count > 0) {
+        label = this.DATE_UNKNOWN;
+      }
+      stats.staleness[label] = (stats.staleness[label] ?? 0) + 1;
+    }
+
+    return stats;
+  }
+
+  // Entries of a count map, largest first
+  static top(counts: Record<string, number>, limit: number): [string, number][] {
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, limit);
+  }
+}
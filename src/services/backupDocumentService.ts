@@ -0,0 +1,240 @@
+import { z } from 'zod';
+import { StorageKey, StorageShape } from '@/types/storage';
+import { BackupDocument, BackupItemCounts, BackupSectionName, BackupSectionReport, ParsedBackup } from '@/types/backup';
+import { StorageService } from '@/services/storageService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+
+export class BackupIntegrityError extends Error {
+  constructor(public readonly sections: BackupSectionName[]) {
+    super(`Backup sections failed the integrity check: ${sections.join(', ')}`);
+    this.name = 'BackupIntegrityError';
+  }
+}
+
+// Every persisted key is either in a section or listed in UNBACKED_KEYS
+export const BACKUP_SECTIONS: Record<BackupSectionName, StorageKey[]> = {
+  library: ['bookmarks', 'bookmark_categories', 'bookmarkAccessLog'],
+  pages: ['retoolPages', 'notionPages'],
+  search: ['savedFilters', 'activeSearchFilter', 'showAdvancedSearch', 'searchHistory', 'searchSuggestions', 'urlTemplateValues'],
+  bookmarkView: ['columnVisibility', 'columnOrder', 'sortKey', 'sortOrder', 'tableZoom', 'bookmarkViewMode', 'bookmarkListMode'],
+  popup: ['popup_theme', 'popup_activeView', 'popup_retoolOpen', 'popup_notionOpen', 'popup_activeRetoolPage', 'popup_activeNotionPage', 'popup_showAdd'],
+  commandK: ['forethought_theme', 'forethought_overlay_opacity', 'forethought_expandRecent', 'forethought_expandTop', 'forethought_recentLimit', 'forethought_topLimit'],
+  preferences: ['seenOnboarding', 'seenGlobalSearchOnboarding', 'backupFrequency', 'backupSettings', 'urlParamRules', 'orgRegistry', 'workflows'],
+};
+
+export const UNBACKED_KEYS: StorageKey[] = [
+  'schemaVersion', 'extensionVersion',                  // Recorded in the manifest instead
+  'categories', 'bookmarkClicks',                       // Legacy keys, migrated away
+  'addBookmarkFormState', 'lastDeletedBookmark', 'undoExpire', // Transient UI state
+  'lastBackup', 'nextBackupTime', 'backupHistory',      // Bookkeeping for this install's backups
+  'nativeSyncEnabled', 'nativeSyncState',               // Tied to this browser's bookmark ids; set up per device
+  'actionSites',                                        // Consent to run actions; given again on each device
+];
+
+const SECTION_NAMES = Object.keys(BACKUP_SECTIONS) as BackupSectionName[];
+const sectionNameSchema = z.enum(SECTION_NAMES as [BackupSectionName, ...BackupSectionName[]]);
+
+const documentSchema = z.object({
+  format: z.literal('forethought-toolbox-backup'),
+  formatVersion: z.number().int().positive(),
+  manifest: z.object({
+    schemaVersion: z.number().int().nonnegative(),
+    createdAt: z.string(),
+    extensionVersion: z.string().nullable(),
+    sections: z.record(sectionNameSchema, z.object({ keys: z.array(z.string()), checksum: z.string() })),
+  }),
+  sections: z.record(sectionNameSchema, z.record(z.string(), z.unknown())),
+});
+
+// JSON with object keys sorted, so equal data always hashes the same
+export const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonicalize((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+};
+
+const checksum = async (section: Record<string, unknown>) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(canonicalize(section)));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return `sha256:${Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const extensionVersion = () => {
+  try {
+    return chrome.runtime.getManifest().version;
+  } catch {
+    return null;
+  }
+};
+
+// Export files written before the backup document: the three manual backup files and Quick Export
+const legacyFileSchema = z.object({
+  bookmarks: z.array(z.unknown()).optional(),
+  categories: z.array(z.unknown()).optional(),
+  bookmark_categories: z.array(z.unknown()).optional(),
+  bookmarkAccessLog: z.unknown().optional(),
+  bookmarkClicks: z.record(z.string(), z.number()).optional(),
+  retoolPages: z.array(z.unknown()).optional(),
+  notionPages: z.array(z.unknown()).optional(),
+  exportDate: z.string().optional(),
+  version: z.string().optional(),
+}).passthrough();
+
+export class BackupDocumentService {
+  static readonly FORMAT = 'forethought-toolbox-backup' as const;
+  static readonly FORMAT_VERSION = 1;
+
+  // Builds a document from everything currently in storage
+  static async create(): Promise<BackupDocument> {
+    const stored = await StorageService.getMany(Object.values(BACKUP_SECTIONS).flat());
+    return this.build(stored, CURRENT_SCHEMA_VERSION, new Date().toISOString(), extensionVersion());
+  }
+
+  static serialize(document: BackupDocument): string {
+    return JSON.stringify(document, null, 2);
+  }
+
+  static fileName(document: BackupDocument): string {
+    return `forethought_backup_${document.manifest.createdAt.replace(/[:.]/g, '-')}.json`;
+  }
+
+  /**
+   * Reads the contents of one backup document, or of one or more legacy export files, which
+   * are combined into a single document. Throws if the files are not a backup.
+   */
+  static async parseFiles(contents: string[]): Promise<ParsedBackup> {
+    const values = contents.map(content => {
+      try {
+        return JSON.parse(content) as unknown;
+      } catch {
+        throw new Error('Backup file is not valid JSON');
+      }
+    });
+    const isDocument = (value: unknown) => (value as { format?: unknown } | null)?.format === this.FORMAT;
+    if (values.some(isDocument)) {
+      if (values.length > 1) throw new Error('Choose a single backup file');
+      return { document: this.read(values[0]), legacy: false };
+    }
+    return { document: await this.fromLegacy(values), legacy: true };
+  }
+
+  // Validates the structure of a document object (not its checksums; see verify)
+  static read(value: unknown): BackupDocument {
+    const formatVersion = (value as { formatVersion?: unknown } | null)?.formatVersion;
+    if (typeof formatVersion === 'number' && formatVersion > this.FORMAT_VERSION) {
+      throw new Error('This backup was made by a newer version of the extension');
+    }
+    const result = documentSchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(`Backup file is damaged: ${result.error.issues.map(issue => `${issue.path.join('.') || '(root)'} ${issue.message}`).join('; ')}`);
+    }
+    return result.data as BackupDocument;
+  }
+
+  // Recomputes each section's checksum and compares it with the manifest
+  static async verify({ document, legacy }: ParsedBackup): Promise<BackupSectionReport[]> {
+    const names = Object.keys(document.manifest.sections) as BackupSectionName[];
+    return Promise.all(names.map(async name => {
+      const entry = document.manifest.sections[name]!;
+      const section = document.sections[name];
+      if (!section) return { name, status: 'corrupted' as const, keys: entry.keys };
+      if (legacy) return { name, status: 'unverified' as const, keys: entry.keys };
+      return { name, status: (await checksum(section)) === entry.checksum ? 'ok' as const : 'corrupted' as const, keys: entry.keys };
+    }));
+  }
+
+  /**
+   * Writes the chosen sections (all by default) back to storage, migrating data written with
+   * an older schema. Refuses with a BackupIntegrityError if any chosen section is corrupted.
+   * The current library is saved as a restore point first; both writes hold the library's
+   * lock, so no other write to it lands in between and is lost.
+   */
+  static async restore(parsed: ParsedBackup, sections?: BackupSectionName[]): Promise<Partial<StorageShape>> {
+    const reports = await this.verify(parsed);
+    const chosen = reports.filter(report => !sections || sections.includes(report.name));
+    const corrupted = chosen.filter(report => report.status === 'corrupted').map(report => report.name);
+    if (corrupted.length > 0) throw new BackupIntegrityError(corrupted);
+
+    const data = this.extract(parsed.document, chosen.map(report => report.name));
+    if (Object.keys(data).length === 0) throw new Error('Nothing to restore');
+
+    return BookmarkService.exclusive(async () => {
+      const current = await StorageService.getMany(['bookmarks', 'bookmark_categories', 'retoolPages', 'notionPages', 'bookmarkAccessLog']);
+      await StorageService.saveRestorePoint(current);
+      return StorageService.importSnapshot(data, parsed.document.manifest.schemaVersion);
+    });
+  }
+
+  // The stored values of the given sections, as written in the backup (not yet migrated)
+  static extract(document: BackupDocument, sections: BackupSectionName[]): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const name of sections) {
+      const section = document.sections[name] ?? {};
+      for (const key of document.manifest.sections[name]?.keys ?? []) {
+        if (section[key] !== undefined) data[key] = section[key];
+      }
+    }
+    return data;
+  }
+
+  static countItems(document: BackupDocument): BackupItemCounts {
+    const library = document.sections.library ?? {};
+    const pages = document.sections.pages ?? {};
+    const nodes = Array.isArray(library.bookmarks) ? library.bookmarks as { type?: string }[] : [];
+    const length = (value: unknown) => (Array.isArray(value) ? value.length : 0);
+    return {
+      bookmarks: nodes.filter(node => node.type !== 'folder').length,
+      folders: nodes.filter(node => node.type === 'folder').length,
+      categories: length(library.bookmark_categories),
+      pages: length(pages.retoolPages) + length(pages.notionPages),
+    };
+  }
+
+  private static async build(values: Record<string, unknown>, schemaVersion: number, createdAt: string, version: string | null): Promise<BackupDocument> {
+    const document: BackupDocument = {
+      format: this.FORMAT,
+      formatVersion: this.FORMAT_VERSION,
+      manifest: { schemaVersion, createdAt, extensionVersion: version, sections: {} },
+      sections: {},
+    };
+    for (const name of SECTION_NAMES) {
+      const section: Record<string, unknown> = {};
+      for (const key of BACKUP_SECTIONS[name]) {
+        if (values[key] !== undefined) section[key] = values[key];
+      }
+      // Legacy exports carry title-keyed click counts; the schema migrations fold them into the access log
+      if (name === 'library' && values.bookmarkClicks !== undefined) section.bookmarkClicks = values.bookmarkClicks;
+      if (Object.keys(section).length === 0) continue;
+      document.sections[name] = section;
+      document.manifest.sections[name] = { keys: Object.keys(section), checksum: await checksum(section) };
+    }
+    return document;
+  }
+
+  private static async fromLegacy(values: unknown[]): Promise<BackupDocument> {
+    const merged: Record<string, unknown> = {};
+    let createdAt: string | null = null;
+    let version: string | null = null;
+    for (const value of values) {
+      const result = legacyFileSchema.safeParse(value);
+      if (!result.success) continue;
+      const file = result.data;
+      for (const key of ['bookmarks', 'bookmarkAccessLog', 'bookmarkClicks', 'retoolPages', 'notionPages'] as const) {
+        if (file[key] !== undefined) merged[key] = file[key];
+      }
+      const categories = file.bookmark_categories ?? file.categories;
+      if (categories) merged.bookmark_categories = categories;
+      if (file.exportDate && (!createdAt || file.exportDate > createdAt)) {
+        createdAt = file.exportDate;
+        version = file.version ?? version;
+      }
+    }
+    if (Object.keys(merged).length === 0) {
+      throw new Error('No backup data found in the selected file(s)');
+    }
+    return this.build(merged, 0, createdAt ?? new Date().toISOString(), version);
+  }
+}
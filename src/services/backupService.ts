@@ -0,0 +1,141 @@
+import { BackupDocument, BackupRetentionPolicy, BackupSettings, BackupSnapshotMeta, BackupTrigger } from '@/types/backup';
+import { StorageService } from '@/services/storageService';
+import { BACKUP_SNAPSHOT_PREFIX, storageSchemas } from '@/services/storageSchema';
+import { BackupDocumentService } from '@/services/backupDocumentService';
+import { createWriteQueue } from '@/services/writeQueue';
+import { startOfWeek, toDateKey } from '@/services/analyticsService';
+
+// Downloads need a URL; service workers have no URL.createObjectURL, so use a data URL
+const toDataUrl = (content: string) => `data:application/json;charset=utf-8,${encodeURIComponent(content)}`;
+
+const snapshotKey = (id: string) => `${BACKUP_SNAPSHOT_PREFIX}${id}`;
+
+// Retention buckets: a snapshot stands for the day, week or month it was taken in
+const BUCKETS: { key: keyof Omit<BackupRetentionPolicy, 'keepLast'>; of: (date: Date) => string }[] = [
+  { key: 'daily', of: date => toDateKey(date) },
+  { key: 'weekly', of: date => toDateKey(startOfWeek(date)) },
+  { key: 'monthly', of: date => toDateKey(date).slice(0, 7) },
+];
+
+export class BackupService {
+  private static readonly LOCK_NAME = 'forethought-toolbox-backups';
+  private static readonly enqueue = createWriteQueue(this.LOCK_NAME);
+
+  static async getSettings(): Promise<BackupSettings> {
+    return storageSchemas.backupSettings.parse((await StorageService.get('backupSettings')) ?? {});
+  }
+
+  // Saves the settings and prunes right away, so a tighter policy takes effect immediately
+  static async updateSettings(settings: BackupSettings): Promise<void> {
+    await this.enqueue(async () => {
+      await StorageService.set('backupSettings', settings);
+      await this.prune(settings.retention);
+    });
+  }
+
+  static async getHistory(): Promise<BackupSnapshotMeta[]> {
+    return (await StorageService.get('backupHistory')) ?? [];
+  }
+
+  /**
+   * Takes a snapshot (a full backup document), applies the retention policy and, when
+   * enabled in the settings, also downloads it. Returns the new history entry.
+   */
+  static async run(trigger: BackupTrigger): Promise<BackupSnapshotMeta> {
+    const settings = await this.getSettings();
+    const meta = await this.enqueue(async () => {
+      const created = await this.createSnapshot(trigger);
+      await this.prune(settings.retention);
+      return created;
+    });
+    if (settings.downloadCopies) {
+      await this.download(meta);
+    }
+
+    const lastBackup = await StorageService.get('lastBackup');
+    await StorageService.set('lastBackup', trigger === 'automatic'
+      ? { bookmarks: meta.createdAt, categories: meta.createdAt, automatic: meta.createdAt }
+      : { bookmarks: meta.createdAt, categories: meta.createdAt, automatic: lastBackup?.automatic ?? null });
+    return meta;
+  }
+
+  static async getSnapshot(id: string): Promise<BackupDocument | null> {
+    const key = snapshotKey(id);
+    const stored = (await chrome.storage.local.get(key))[key];
+    return stored === undefined ? null : BackupDocumentService.read(stored);
+  }
+
+  /**
+   * Replaces the settings and library with a snapshot, after checking its checksums.
+   * The current library is saved as a restore point first.
+   */
+  static async restore(id: string): Promise<void> {
+    const document = await this.getSnapshot(id);
+    if (!document) throw new Error('Backup not found');
+    await BackupDocumentService.restore({ document, legacy: false });
+  }
+
+  static async delete(id: string): Promise<void> {
+    await this.enqueue(async () => {
+      const history = (await StorageService.getOrThrow('backupHistory')) ?? [];
+      await StorageService.set('backupHistory', history.filter(entry => entry.id !== id));
+      await chrome.storage.local.remove(snapshotKey(id));
+    });
+  }
+
+  // Saves the snapshot to the downloads folder as a backup file
+  static async download(meta: BackupSnapshotMeta): Promise<void> {
+    const document = await this.getSnapshot(meta.id);
+    if (!document) throw new Error('Backup not found');
+    await chrome.downloads.download({
+      url: toDataUrl(BackupDocumentService.serialize(document)),
+      filename: BackupDocumentService.fileName(document),
+      saveAs: false,
+    });
+  }
+
+  /**
+   * Picks the snapshots a policy keeps from a newest-first history: the newest keepLast,
+   * plus the newest snapshot of each of the last N days, weeks and months that have one.
+   */
+  static selectRetained(history: BackupSnapshotMeta[], policy: BackupRetentionPolicy): Set<string> {
+    const keep = new Set(history.slice(0, policy.keepLast).map(entry => entry.id));
+    for (const bucket of BUCKETS) {
+      const seen = new Set<string>();
+      for (const entry of history) {
+        if (seen.size >= policy[bucket.key]) break;
+        const key = bucket.of(new Date(entry.createdAt));
+        if (seen.has(key)) continue;
+        seen.add(key);
+        keep.add(entry.id);
+      }
+    }
+    return keep;
+  }
+
+  private static async createSnapshot(trigger: BackupTrigger): Promise<BackupSnapshotMeta> {
+    const document = await BackupDocumentService.create();
+    const meta: BackupSnapshotMeta = {
+      id: crypto.randomUUID(),
+      createdAt: document.manifest.createdAt,
+      trigger,
+      sizeBytes: new TextEncoder().encode(JSON.stringify(document)).length,
+      counts: BackupDocumentService.countItems(document),
+    };
+
+    const history = (await StorageService.getOrThrow('backupHistory')) ?? [];
+    // Write the data before listing it, so the history never points at a missing snapshot
+    await chrome.storage.local.set({ [snapshotKey(meta.id)]: document });
+    await StorageService.set('backupHistory', [meta, ...history]);
+    return meta;
+  }
+
+  private static async prune(policy: BackupRetentionPolicy): Promise<void> {
+    const history = (await StorageService.getOrThrow('backupHistory')) ?? [];
+    const keep = this.selectRetained(history, policy);
+    const dropped = history.filter(entry => !keep.has(entry.id));
+    if (dropped.length === 0) return;
+    await StorageService.set('backupHistory', history.filter(entry => keep.has(entry.id)));
+    await chrome.storage.local.remove(dropped.map(entry => snapshotKey(entry.id)));
+  }
+}
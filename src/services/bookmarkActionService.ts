@@ -0,0 +1,111 @@
+import { BookmarkAction } from '@/types/bookmark';
+import { Workflow } from '@/types/workflow';
+import { StorageService } from '@/services/storageService';
+import { createWriteQueue } from '@/services/writeQueue';
+
+const askToAllow = (host: string) =>
+  window.confirm(`Let bookmark actions run on ${host}? They can click, type and run scripts on its pages.`);
+
+/**
+ * Actions attached to bookmarks, which run on the page once a bookmark opened from the
+ * extension has loaded. They only run on sites the user has allowed, one site at a time,
+ * through the prompt shown when a bookmark with an action is saved. The allowed sites are
+ * kept in storage: Chrome's host permissions alone are not enough, as the link checker may
+ * hold them for every site.
+ */
+export class BookmarkActionService {
+  private static readonly SITES_KEY = 'actionSites' as const;
+  private static readonly enqueue = createWriteQueue('forethought-toolbox-action-sites');
+
+  // The host permission covering the bookmark's site, or null for pages actions cannot run on
+  static originPattern(url: string | undefined): string | null {
+    try {
+      const { protocol, host } = new URL(url ?? '');
+      return protocol === 'https:' || protocol === 'http:' ? `${protocol}//${host}/*` : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static async getAllowedSites(): Promise<string[]> {
+    return (await StorageService.get(this.SITES_KEY)) ?? [];
+  }
+
+  // Whether the user allowed actions on the page's site and Chrome lets the extension run there
+  static async hasPermission(url: string | undefined): Promise<boolean> {
+    const origin = this.originPattern(url);
+    if (!origin || !(await this.getAllowedSites()).includes(origin)) return false;
+    return chrome.permissions.contains({ origins: [origin] });
+  }
+
+  /**
+   * Asks for access to the site: Chrome's prompt first (skipped if it was granted before), which
+   * must be called from a click, then confirmSite unless actions are already allowed there.
+   */
+  static async requestPermission(url: string | undefined, confirmSite: (host: string) => boolean = askToAllow): Promise<boolean> {
+    const origin = this.originPattern(url);
+    if (!origin || !(await chrome.permissions.request({ origins: [origin] }))) return false;
+    if ((await this.getAllowedSites()).includes(origin)) return true;
+    if (!confirmSite(new URL(url as string).host)) return false;
+    await this.enqueue(async () => {
+      const sites = (await StorageService.getOrThrow(this.SITES_KEY)) ?? [];
+      if (!sites.includes(origin)) await StorageService.set(this.SITES_KEY, [...sites, origin]);
+    });
+    return true;
+  }
+
+  // Why the action cannot be saved as it is, or null if it can
+  static problem(action: BookmarkAction): string | null {
+    if (action.type === 'bookmarklet') return action.code.trim() ? null : "Enter the bookmarklet's code";
+    return action.workflowId ? null : 'Choose a workflow to run';
+  }
+
+  /**
+   * Checks an action about to be saved with a bookmark and asks for access to the site, which
+   * Chrome only allows from a click, so call it before anything else is awaited. Returns an
+   * error for an unfinished action, or a warning when access was refused; the action only
+   * runs once it is granted.
+   */
+  static async prepareToSave(action: BookmarkAction | undefined, url: string | undefined, confirmSite?: (host: string) => boolean): Promise<{ error?: string; warning?: string }> {
+    if (!action) return {};
+    const problem = this.problem(action);
+    if (problem) return { error: problem };
+    if (!this.originPattern(url)) return { warning: 'Actions only run on http and https pages' };
+    const granted = await this.requestPermission(url, confirmSite).catch(error => {
+      console.error('Failed to request site access:', error);
+      return false;
+    });
+    return granted ? {} : { warning: `The action will not run until you allow the extension on ${new URL(url as string).host}` };
+  }
+
+  // The script in a bookmarklet, which may be pasted as its javascript: link
+  static bookmarkletSource(code: string): string {
+    const trimmed = code.trim();
+    if (!/^javascript:/i.test(trimmed)) return trimmed;
+    const body = trimmed.slice('javascript:'.length);
+    try {
+      return decodeURIComponent(body);
+    } catch {
+      return body;
+    }
+  }
+
+  // What a workflow action runs with: the page's query parameters, then the values set on the bookmark
+  static params(action: Extract<BookmarkAction, { type: 'workflow' }>, pageUrl: string): Record<string, string> {
+    let query: Record<string, string> = {};
+    try {
+      query = Object.fromEntries(new URL(pageUrl).searchParams.entries());
+    } catch {
+      // A page without a parseable address has no query parameters to offer
+    }
+    const set = Object.fromEntries(Object.entries(action.params).filter(([, value]) => value !== ''));
+    return { ...query, ...set };
+  }
+
+  // A short account of the action, for lists and notices
+  static describe(action: BookmarkAction, workflows: Workflow[] = []): string {
+    if (action.type === 'bookmarklet') return 'Runs a bookmarklet';
+    const workflow = workflows.find(candidate => candidate.id === action.workflowId);
+    return `Runs "${workflow?.name ?? action.workflowId}"`;
+  }
+}
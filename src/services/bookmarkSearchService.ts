@@ -0,0 +1,227 @@
+import Fuse, { Expression, FuseResultMatch, IFuseOptions } from 'fuse.js';
+import { BookmarkCategory, BookmarkNode, SearchFilter } from '@/types/bookmark';
+import { BookmarkSearchPage, BookmarkSearchResult, HighlightRange, SearchField } from '@/types/searchQuery';
+import { SearchQueryService } from '@/services/searchQueryService';
+
+// What Fuse searches for each bookmark: its own fields plus its category's name
+interface SearchDocument {
+  node: BookmarkNode;
+  title: string;
+  url: string;
+  tags: string[];
+  description: string;
+  categoryName: string;
+}
+
+export interface BookmarkSearchIndex {
+  fuse: Fuse<SearchDocument>;
+  nodes: BookmarkNode[];
+  documents: Map<string, SearchDocument>;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  now?: number; // For recency, in ms
+}
+
+// What an incremental update changed
+export interface SearchIndexUpdate {
+  added: number;
+  updated: number; // Reindexed because a searched field changed
+  removed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDocument = (node: BookmarkNode, categoryNames: Map<string, string>): SearchDocument => ({
+  node,
+  title: node.title || '',
+  url: node.url || '',
+  tags: node.tags || [],
+  description: node.description || '',
+  categoryName: (node.categoryId && categoryNames.get(node.categoryId)) || '',
+});
+
+const sameText = (a: SearchDocument, b: SearchDocument) =>
+  a.title === b.title && a.url === b.url && a.description === b.description
+  && a.categoryName === b.categoryName && a.tags.join('\n') === b.tags.join('\n');
+
+const HIGHLIGHTED_FIELDS = ['title', 'url', 'description'] as const;
+
+// Sorts and joins overlapping or touching ranges, and drops single letters, which fuzzy
+// matching scatters across the text and which read as noise when highlighted
+const mergeRanges = (ranges: HighlightRange[]): HighlightRange[] => {
+  const merged: HighlightRange[] = [];
+  [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged.filter(range => range.end - range.start >= BookmarkSearchService.MIN_HIGHLIGHT_LENGTH);
+};
+
+const toHighlights = (matches: readonly FuseResultMatch[] = []): BookmarkSearchResult['highlights'] => {
+  const highlights: BookmarkSearchResult['highlights'] = {};
+  HIGHLIGHTED_FIELDS.forEach(field => {
+    const ranges = matches
+      .filter(match => match.key === field)
+      .flatMap(match => match.indices.map(([start, end]) => ({ start, end: end + 1 })));
+    const merged = mergeRanges(ranges);
+    if (merged.length > 0) highlights[field] = merged;
+  });
+  return highlights;
+};
+
+/**
+ * Fuzzy, ranked bookmark search shared by the bookmark table and Command+K, so that a query
+ * finds the same bookmarks in the same order in both. Words are matched with Fuse across the
+ * weighted fields, the rest of the query language through SearchQueryService, and results are
+ * boosted by how often and how recently each bookmark was opened.
+ */
+export class BookmarkSearchService {
+  // Relative weights of the fields a word can match in
+  static readonly FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 3,
+    url: 2,
+    tags: 2,
+    categoryName: 1.5,
+    description: 1,
+  };
+  static readonly THRESHOLD = 0.4;
+  static readonly MIN_HIGHLIGHT_LENGTH = 2;
+  // The most opens add, reached on a log scale: 10 opens add half, 100 add all of it
+  static readonly FREQUENCY_BOOST = 0.3;
+  // Added for a bookmark opened just now, halving every RECENCY_HALF_LIFE_DAYS since
+  static readonly RECENCY_BOOST = 0.2;
+  static readonly RECENCY_HALF_LIFE_DAYS = 14;
+
+  private static readonly FUSE_OPTIONS: IFuseOptions<SearchDocument> = {
+    keys: (Object.keys(BookmarkSearchService.FIELD_WEIGHTS) as SearchField[])
+      .map(name => ({ name, weight: BookmarkSearchService.FIELD_WEIGHTS[name] })),
+    threshold: BookmarkSearchService.THRESHOLD,
+    // Long URLs and descriptions match anywhere, not only near their start
+    ignoreLocation: true,
+    includeScore: true,
+  };
+
+  static createIndex(nodes: BookmarkNode[], categories: BookmarkCategory[] = []): BookmarkSearchIndex {
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+    const documents = nodes.map(node => toDocument(node, categoryNames));
+    return {
+      fuse: new Fuse(documents, BookmarkSearchService.FUSE_OPTIONS),
+      nodes,
+      documents: new Map(documents.map(document => [document.node.id, document])),
+    };
+  }
+
+  /**
+   * Brings an index in line with the library without rebuilding it: only bookmarks that were
+   * added, removed or had a searched field change are (re)indexed. Changes that only affect
+   * ranking, such as new opens, swap in the new node.
+   */
+  static updateIndex(index: BookmarkSearchIndex, nodes: BookmarkNode[], categories: BookmarkCategory[] = []): SearchIndexUpdate {
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+    const next = new Map(nodes.map(node => [node.id, toDocument(node, categoryNames)]));
+    const stale = new Set<string>();
+    const fresh: SearchDocument[] = [];
+    let added = 0;
+
+    next.forEach((document, id) => {
+      const current = index.documents.get(id);
+      if (!current) {
+        added++;
+        fresh.push(document);
+      } else if (!sameText(current, document)) {
+        stale.add(id);
+        fresh.push(document);
+      } else {
+        current.node = document.node;
+        next.set(id, current);
+      }
+    });
+    index.documents.forEach((_document, id) => {
+      if (!next.has(id)) stale.add(id);
+    });
+
+    if (stale.size > 0) index.fuse.remove(document => stale.has(document.node.id));
+    fresh.forEach(document => index.fuse.add(document));
+    index.nodes = nodes;
+    index.documents = next;
+    return { added, updated: fresh.length - added, removed: stale.size - (fresh.length - added) };
+  }
+
+  /**
+   * How much opening history lifts a match: 1 for a bookmark never opened, up to
+   * 1 + FREQUENCY_BOOST + RECENCY_BOOST for one opened often and just now.
+   */
+  static popularity(node: BookmarkNode, now: number = Date.now()): number {
+    const count = node.accessCount ?? 0;
+    const frequency = Math.min(1, Math.log10(1 + count) / 2);
+    const opened = node.lastAccessed ? Date.parse(node.lastAccessed) : NaN;
+    const days = Number.isNaN(opened) ? Infinity : Math.max(0, now - opened) / DAY_MS;
+    const recency = Math.pow(0.5, days / BookmarkSearchService.RECENCY_HALF_LIFE_DAYS);
+    return 1 + BookmarkSearchService.FREQUENCY_BOOST * frequency + BookmarkSearchService.RECENCY_BOOST * recency;
+  }
+
+  /**
+   * Bookmarks passing the filter, best first, with the number of matches. Every word of
+   * filter.text must fuzzily match some field; without words, everything that passes the rest
+   * of the filter comes back in index order with a rank of 0. Only the first `limit` results
+   * are returned, and only those get highlights, which cost a second pass.
+   */
+  static search(index: BookmarkSearchIndex, filter: SearchFilter, options: SearchOptions = {}): BookmarkSearchPage {
+    const { limit = Infinity, now = Date.now() } = options;
+    const rest: SearchFilter = { ...filter, text: [] };
+    const passes = (node: BookmarkNode) => SearchQueryService.isEmpty(rest) || SearchQueryService.matches(node, rest);
+
+    if (filter.text.length === 0) {
+      const nodes = index.nodes.filter(passes);
+      return { results: nodes.slice(0, limit).map(node => ({ node, rank: 0, highlights: {} })), total: nodes.length };
+    }
+
+    const query = BookmarkSearchService.toQuery(filter.text);
+    const ranked = index.fuse.search(query)
+      .filter(result => passes(result.item.node))
+      .map(result => ({
+        document: result.item,
+        rank: (1 - (result.score ?? 1)) * BookmarkSearchService.popularity(result.item.node, now),
+      }))
+      .sort((a, b) => b.rank - a.rank);
+
+    const top = ranked.slice(0, limit);
+    const matches = new Map(
+      new Fuse(top.map(result => result.document), { ...BookmarkSearchService.FUSE_OPTIONS, includeMatches: true })
+        .search(query)
+        .map(result => [result.item, result.matches] as const),
+    );
+    return {
+      results: top.map(({ document, rank }) => ({ node: document.node, rank, highlights: toHighlights(matches.get(document)) })),
+      total: ranked.length,
+    };
+  }
+
+  // Every word has to match in at least one field. A single word needs no logical query,
+  // which is the slower path through Fuse.
+  private static toQuery(words: string[]): string | Expression {
+    if (words.length === 1) return words[0];
+    const fields = Object.keys(BookmarkSearchService.FIELD_WEIGHTS) as SearchField[];
+    return { $and: words.map(word => ({ $or: fields.map(field => ({ [field]: word })) })) };
+  }
+
+  // Splits text into plain and highlighted runs for rendering
+  static segments(text: string, ranges: HighlightRange[] = []): { text: string; match: boolean }[] {
+    const parts: { text: string; match: boolean }[] = [];
+    let position = 0;
+    ranges.forEach(range => {
+      if (range.start < position || range.start >= text.length) return;
+      if (range.start > position) parts.push({ text: text.slice(position, range.start), match: false });
+      parts.push({ text: text.slice(range.start, range.end), match: true });
+      position = Math.min(range.end, text.length);
+    });
+    if (position < text.length) parts.push({ text: text.slice(position), match: false });
+    return parts;
+  }
+}
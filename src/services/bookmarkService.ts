@@ -1,13 +1,21 @@
 import { BookmarkNode, BookmarkCategory } from '@/types/bookmark';
+import { StorageService } from '@/services/storageService';
+import { AccessLogService } from '@/services/accessLogService';
+import { createWriteQueue } from '@/services/writeQueue';
+
+type NodeChanges = Partial<BookmarkNode> | ((node: BookmarkNode) => Partial<BookmarkNode>);
 
 export class BookmarkService {
-  private static readonly STORAGE_KEY = 'bookmarks';
-  private static readonly CATEGORY_KEY = 'bookmark_categories';
+  private static readonly STORAGE_KEY = 'bookmarks' as const;
+  private static readonly CATEGORY_KEY = 'bookmark_categories' as const;
+  // Web Locks are shared by every extension page and the service worker, so this also
+  // serializes writes made from the popup and the background at the same time.
+  private static readonly LOCK_NAME = 'forethought-toolbox-library';
+  private static readonly enqueue = createWriteQueue(this.LOCK_NAME);
 
   static async getBookmarks(): Promise<BookmarkNode[]> {
     try {
-      const data = await chrome.storage.local.get([this.STORAGE_KEY]);
-      const bookmarks = data[this.STORAGE_KEY];
+      const bookmarks = await StorageService.get(this.STORAGE_KEY);
       return Array.isArray(bookmarks) ? bookmarks : [];
     } catch (error) {
       console.error('Failed to fetch bookmarks:', error);
@@ -15,70 +23,142 @@ export class BookmarkService {
     }
   }
 
-  static async addBookmarkOrFolder(node: Omit<BookmarkNode, 'id' | 'createdAt' | 'lastAccessed' | 'accessCount'> & { type: 'bookmark' | 'folder' }): Promise<BookmarkNode> {
-    const bookmarks = await this.getBookmarks();
-    const newNode: BookmarkNode = {
-      ...node,
-      id: crypto.randomUUID(),
-      createdAt: new Date().toISOString(),
-      lastAccessed: node.type === 'bookmark' ? new Date().toISOString() : undefined,
-      accessCount: node.type === 'bookmark' ? 0 : undefined,
-    };
-    const updatedBookmarks = [...bookmarks, newNode];
-    await chrome.storage.local.set({ [this.STORAGE_KEY]: updatedBookmarks });
-    return newNode;
+  /**
+   * Reads the bookmarks, passes a draft copy to fn and writes the draft back in one set.
+   * fn may add, remove or replace entries in the draft; if it throws, nothing is written.
+   * Transactions are queued, so calling transaction from inside fn would deadlock.
+   */
+  static transaction<T>(fn: (draft: BookmarkNode[]) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const stored = await StorageService.getOrThrow(this.STORAGE_KEY);
+      const original = Array.isArray(stored) ? stored : [];
+      const draft = original.map(node => ({ ...node }));
+      const result = await fn(draft);
+      if (JSON.stringify(draft) !== JSON.stringify(original)) {
+        await StorageService.set(this.STORAGE_KEY, draft);
+      }
+      return result;
+    });
   }
 
-  static async updateBookmarkNode(id: string, updates: Partial<BookmarkNode>): Promise<BookmarkNode | null> {
-    const bookmarks = await this.getBookmarks();
-    const index = bookmarks.findIndex(b => b.id === id);
-    if (index === -1) {
-      // If node doesn't exist, add it back
-      const restoredNode = {
-        ...updates,
-        id,
-        lastAccessed: updates.type === 'bookmark' ? new Date().toISOString() : undefined,
-      } as BookmarkNode;
-      const updatedBookmarks = [...bookmarks, restoredNode];
-      await chrome.storage.local.set({ [this.STORAGE_KEY]: updatedBookmarks });
-      return restoredNode;
-    }
-    const updatedNode = {
-      ...bookmarks[index],
-      ...updates,
-      lastAccessed: bookmarks[index].type === 'bookmark' ? new Date().toISOString() : undefined,
-    };
-    bookmarks[index] = updatedNode;
-    await chrome.storage.local.set({ [this.STORAGE_KEY]: bookmarks });
-    return updatedNode;
+  /**
+   * Like transaction, with a draft of the categories as well. Both are written in one set, so
+   * bookmarks are never stored referring to categories that are not, as imports need.
+   */
+  static transactionWithCategories<T>(fn: (draft: BookmarkNode[], categories: BookmarkCategory[]) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const stored = await StorageService.getOrThrow(this.STORAGE_KEY);
+      const original = Array.isArray(stored) ? stored : [];
+      const originalCategories = await this.readCategories();
+      const draft = original.map(node => ({ ...node }));
+      const categories = originalCategories.map(category => ({ ...category }));
+      const result = await fn(draft, categories);
+      const changes: { bookmarks?: BookmarkNode[]; bookmark_categories?: BookmarkCategory[] } = {};
+      if (JSON.stringify(draft) !== JSON.stringify(original)) changes[this.STORAGE_KEY] = draft;
+      if (JSON.stringify(categories) !== JSON.stringify(originalCategories)) changes[this.CATEGORY_KEY] = categories;
+      if (Object.keys(changes).length > 0) await StorageService.setMany(changes);
+      return result;
+    });
   }
 
-  static async deleteBookmarkNode(id: string): Promise<boolean> {
-    let bookmarks = await this.getBookmarks();
-    // Recursively delete all children if it's a folder
-    const toDelete = new Set([id]);
-    let changed = false;
+  /**
+   * Runs fn with the library to itself: transactions, native sync, link checks and recorded
+   * opens all wait until it finishes. For restores, which read the library and its access log
+   * and replace them together. As with transaction, fn must not call the queued methods.
+   */
+  static exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    // Always the library's lock first, then the access log's
+    return this.enqueue(() => AccessLogService.exclusive(fn));
+  }
+
+  // Returns the ids of the given nodes plus all of their descendants
+  private static collectSubtree(bookmarks: BookmarkNode[], ids: string[]): Set<string> {
+    const toDelete = new Set(ids);
     let found;
     do {
       found = false;
       for (const node of bookmarks) {
-        if (node.parentId && toDelete.has(node.parentId)) {
+        if (node.parentId && toDelete.has(node.parentId) && !toDelete.has(node.id)) {
           toDelete.add(node.id);
           found = true;
         }
       }
     } while (found);
-    const updatedBookmarks = bookmarks.filter(b => !toDelete.has(b.id));
-    changed = updatedBookmarks.length !== bookmarks.length;
-    if (!changed) return false;
-    await chrome.storage.local.set({ [this.STORAGE_KEY]: updatedBookmarks });
-    return true;
+    return toDelete;
+  }
+
+  static async addBookmarkOrFolder(node: Omit<BookmarkNode, 'id' | 'createdAt' | 'lastAccessed' | 'accessCount'> & { type: 'bookmark' | 'folder' }): Promise<BookmarkNode> {
+    return this.transaction(draft => {
+      const newNode: BookmarkNode = {
+        ...node,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+      };
+      draft.push(newNode);
+      return newNode;
+    });
+  }
+
+  static async updateBookmarkNode(id: string, updates: Partial<BookmarkNode>): Promise<BookmarkNode | null> {
+    return this.transaction(draft => {
+      const index = draft.findIndex(b => b.id === id);
+      if (index === -1) {
+        // If node doesn't exist, add it back
+        const restoredNode = { ...updates, id } as BookmarkNode;
+        draft.push(restoredNode);
+        return restoredNode;
+      }
+      draft[index] = { ...draft[index], ...updates };
+      return draft[index];
+    });
+  }
+
+  // Applies the same changes (or a per-node function) to every listed node in a single write
+  static async updateMany(ids: string[], changes: NodeChanges): Promise<BookmarkNode[]> {
+    const targets = new Set(ids);
+    return this.transaction(draft => {
+      const updated: BookmarkNode[] = [];
+      draft.forEach((node, index) => {
+        if (!targets.has(node.id)) return;
+        draft[index] = { ...node, ...(typeof changes === 'function' ? changes(node) : changes) };
+        updated.push(draft[index]);
+      });
+      return updated;
+    });
+  }
+
+  // Puts nodes back as they were, replacing any existing node with the same id (used by undo)
+  static async upsertMany(nodes: BookmarkNode[]): Promise<BookmarkNode[]> {
+    return this.transaction(draft => {
+      for (const node of nodes) {
+        const index = draft.findIndex(b => b.id === node.id);
+        if (index === -1) draft.push(node); else draft[index] = node;
+      }
+      return nodes;
+    });
+  }
+
+  static async deleteBookmarkNode(id: string): Promise<boolean> {
+    const deleted = await this.deleteMany([id]);
+    return deleted.length > 0;
+  }
+
+  // Deletes the nodes and, for folders, everything inside them. Returns the removed ids.
+  static async deleteMany(ids: string[]): Promise<string[]> {
+    return this.transaction(draft => {
+      const toDelete = this.collectSubtree(draft, ids);
+      const removed = draft.filter(b => toDelete.has(b.id)).map(b => b.id);
+      if (removed.length > 0) {
+        const remaining = draft.filter(b => !toDelete.has(b.id));
+        draft.splice(0, draft.length, ...remaining);
+      }
+      return removed;
+    });
   }
 
   static async getCategories(): Promise<BookmarkCategory[]> {
     try {
-      const data = await chrome.storage.local.get([this.CATEGORY_KEY]);
-      const categories = data[this.CATEGORY_KEY];
+      const categories = await StorageService.get(this.CATEGORY_KEY);
       return Array.isArray(categories) ? categories : [];
     } catch (error) {
       console.error('Failed to fetch categories:', error);
@@ -86,52 +166,61 @@ export class BookmarkService {
     }
   }
 
+  private static async readCategories(): Promise<BookmarkCategory[]> {
+    const categories = await StorageService.getOrThrow(this.CATEGORY_KEY);
+    return Array.isArray(categories) ? categories : [];
+  }
+
   static async addCategory(category: { name: string; color: string; icon: string }): Promise<string> {
-    const id = crypto.randomUUID();
-    const newCategory = { id, ...category };
-    
-    // Get existing categories
-    const categories = await this.getCategories();
-    
-    // Add new category
-    const updatedCategories = [...categories, newCategory];
-    
-    // Save to storage
-    await chrome.storage.local.set({ [this.CATEGORY_KEY]: updatedCategories });
-    
-    return id;
+    return this.enqueue(async () => {
+      const id = crypto.randomUUID();
+      const newCategory = { id, ...category };
+
+      // Get existing categories
+      const categories = await this.readCategories();
+
+      // Add new category
+      const updatedCategories = [...categories, newCategory];
+
+      // Save to storage
+      await StorageService.set(this.CATEGORY_KEY, updatedCategories);
+
+      return id;
+    });
   }
 
   static async updateCategory(id: string, updates: Partial<BookmarkCategory>): Promise<BookmarkCategory | null> {
-    const categories = await this.getCategories();
-    const index = categories.findIndex(c => c.id === id);
-    
-    if (index === -1) return null;
+    return this.enqueue(async () => {
+      const categories = await this.readCategories();
+      const index = categories.findIndex(c => c.id === id);
+
+      if (index === -1) return null;
 
-    const updatedCategory = {
-      ...categories[index],
-      ...updates
-    };
+      const updatedCategory = {
+        ...categories[index],
+        ...updates
+      };
 
-    categories[index] = updatedCategory;
-    await chrome.storage.local.set({ [this.CATEGORY_KEY]: categories });
-    return updatedCategory;
+      categories[index] = updatedCategory;
+      await StorageService.set(this.CATEGORY_KEY, categories);
+      return updatedCategory;
+    });
   }
 
   static async deleteCategory(id: string): Promise<void> {
-    const categories = await this.getCategories();
-    const updatedCategories = categories.filter(cat => cat.id !== id);
-    await chrome.storage.local.set({ [this.CATEGORY_KEY]: updatedCategories });
+    return this.enqueue(async () => {
+      const categories = await this.readCategories();
+      const updatedCategories = categories.filter(cat => cat.id !== id);
+      await StorageService.set(this.CATEGORY_KEY, updatedCategories);
+    });
   }
 
   static async updateBookmarkCategory(bookmarkId: string, categoryId: string | null): Promise<void> {
-    const bookmarks = await this.getBookmarks();
-    const updatedBookmarks = bookmarks.map((bookmark: BookmarkNode) => {
-      if (bookmark.id === bookmarkId) {
-        return { ...bookmark, categoryId };
+    await this.transaction(draft => {
+      const index = draft.findIndex(bookmark => bookmark.id === bookmarkId);
+      if (index !== -1) {
+        draft[index] = { ...draft[index], categoryId: categoryId ?? undefined };
       }
-      return bookmark;
     });
-    await chrome.storage.local.set({ [this.STORAGE_KEY]: updatedBookmarks });
   }
-} 
\ No newline at end of file
+}
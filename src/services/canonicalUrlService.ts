@@ -0,0 +1,198 @@
+import { BookmarkNode } from '@/types/bookmark';
+import { DuplicateGroup, DuplicateMatches, UrlParamRule } from '@/types/duplicates';
+import { StorageService } from '@/services/storageService';
+
+// Used until the user edits the rules: dashboard links differ only by the org being viewed
+export const DEFAULT_URL_PARAM_RULES: UrlParamRule[] = [
+  { domain: 'dashboard-int.forethought.tech', params: ['org'] },
+];
+
+const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^www\./, '');
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Dice coefficient of two bigram multisets: 1 for identical text, 0 for nothing in common
+const dice = (a: Map<string, number>, b: Map<string, number>, sizeA: number, sizeB: number) => {
+  if (sizeA + sizeB === 0) return 0;
+  let shared = 0;
+  a.forEach((count, pair) => {
+    shared += Math.min(count, b.get(pair) ?? 0);
+  });
+  return (2 * shared) / (sizeA + sizeB);
+};
+
+/**
+ * Reduces URLs to a canonical form so that links to the same page compare equal, and groups
+ * bookmarks that are likely duplicates. Drives duplicate detection in the bookmark table and
+ * the "already bookmarked" warning when adding a bookmark.
+ */
+export class CanonicalUrlService {
+  static readonly TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok',
+  ]);
+  static readonly TRACKING_PREFIXES = ['utm_'];
+  // Titles at least this similar (Dice coefficient of their letter pairs) count as near-duplicates
+  static readonly TITLE_SIMILARITY = 0.85;
+  // Shorter titles ("Home", "Docs") match too much to be useful
+  static readonly MIN_TITLE_LENGTH = 6;
+
+  static async getRules(): Promise<UrlParamRule[]> {
+    return (await StorageService.get('urlParamRules')) ?? DEFAULT_URL_PARAM_RULES;
+  }
+
+  /**
+   * Lowercases the host and drops "www.", trailing slashes, tracking parameters and the
+   * parameters the rules ignore for the host, then sorts the remaining parameters. The scheme
+   * and fragment are kept. Anything that is not an http(s) URL comes back trimmed but unchanged.
+   */
+  static canonicalize(url: string, rules: UrlParamRule[] = DEFAULT_URL_PARAM_RULES): string {
+    const trimmed = url.trim();
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return trimmed;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return trimmed;
+
+    const host = normalizeDomain(parsed.hostname);
+    const ignored = new Set(rules
+      .filter(rule => {
+        const domain = normalizeDomain(rule.domain);
+        return host === domain || host.endsWith(`.${domain}`);
+      })
+      .flatMap(rule => rule.params.map(param => param.toLowerCase())));
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => {
+        const lower = name.toLowerCase();
+        return !this.TRACKING_PARAMS.has(lower)
+          && !this.TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix))
+          && !ignored.has(lower);
+      })
+      .sort(([a, valueA], [b, valueB]) => (a === b ? valueA.localeCompare(valueB) : a < b ? -1 : 1));
+
+    const query = new URLSearchParams(params).toString();
+    const port = parsed.port ? `:${parsed.port}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${host}${port}${path}${query ? `?${query}` : ''}${parsed.hash}`;
+  }
+
+  // Lowercase words without accents or punctuation, for comparing titles
+  static normalizeTitle(title: string): string {
+    return title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  static titleSimilarity(a: string, b: string): number {
+    const left = this.normalizeTitle(a);
+    const right = this.normalizeTitle(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    return dice(bigrams(left), bigrams(right), left.length - 1, right.length - 1);
+  }
+
+  /**
+   * Groups bookmarks in two tiers. URL groups share a canonical URL and are safe to merge.
+   * Title groups link pages whose titles are near-identical; only one bookmark per canonical
+   * URL takes part, so a title group never just repeats a URL group.
+   */
+  static findDuplicates(nodes: BookmarkNode[], rules: UrlParamRule[] = DEFAULT_URL_PARAM_RULES): DuplicateGroup[] {
+    const byUrl = new Map<string, BookmarkNode[]>();
+    nodes.forEach(node => {
+      if (node.type !== 'bookmark' || !node.url) return;
+      const key = this.canonicalize(node.url, rules);
+      if (!byUrl.has(key)) byUrl.set(key, []);
+      byUrl.get(key)!.push(node);
+    });
+
+    const urlGroups: DuplicateGroup[] = Array.from(byUrl.entries())
+      .filter(([, members]) => members.length > 1)
+      .map(([key, members]) => ({ key, tier: 'url', ids: members.map(node => node.id) }));
+    const representatives = Array.from(byUrl.values(), members => members[0]);
+    return [...urlGroups, ...this.groupSimilarTitles(representatives)];
+  }
+
+  /**
+   * Existing bookmarks matching a URL and title about to be saved: those with the same
+   * canonical URL, and up to `limit` others with a near-identical title, most similar first.
+   */
+  static findMatches(
+    url: string,
+    title: string,
+    nodes: BookmarkNode[],
+    rules: UrlParamRule[] = DEFAULT_URL_PARAM_RULES,
+    limit = 3,
+  ): DuplicateMatches {
+    const bookmarks = nodes.filter(node => node.type === 'bookmark' && !!node.url);
+    const key = url.trim() ? this.canonicalize(url, rules) : null;
+    const sameUrl = key ? bookmarks.filter(node => this.canonicalize(node.url!, rules) === key) : [];
+
+    const normalized = this.normalizeTitle(title);
+    const similarTitle = normalized.length < this.MIN_TITLE_LENGTH ? [] : bookmarks
+      .filter(node => !sameUrl.includes(node))
+      .map(node => ({ node, score: this.titleSimilarity(normalized, node.title) }))
+      .filter(({ score }) => score >= this.TITLE_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ node }) => node);
+    return { sameUrl, similarTitle };
+  }
+
+  // Links bookmarks whose titles are similar enough, transitively, and returns groups of two or more
+  private static groupSimilarTitles(nodes: BookmarkNode[]): DuplicateGroup[] {
+    const entries = nodes
+      .map((node, index) => {
+        const title = this.normalizeTitle(node.title);
+        return { node, index, title, pairs: bigrams(title), size: title.length - 1 };
+      })
+      .filter(entry => entry.title.length >= this.MIN_TITLE_LENGTH);
+
+    // Only titles sharing their first word are compared, which keeps large libraries fast
+    const blocks = new Map<string, typeof entries>();
+    entries.forEach(entry => {
+      const word = entry.title.split(' ')[0];
+      if (!blocks.has(word)) blocks.set(word, []);
+      blocks.get(word)!.push(entry);
+    });
+
+    const parent = nodes.map((_, index) => index);
+    const root = (index: number): number => {
+      while (parent[index] !== index) index = parent[index] = parent[parent[index]];
+      return index;
+    };
+    blocks.forEach(block => {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const a = block[i];
+          const b = block[j];
+          // Dice can't reach the threshold when one title has far more letter pairs than the other
+          if ((2 * Math.min(a.size, b.size)) / (a.size + b.size) < this.TITLE_SIMILARITY) continue;
+          if (a.title === b.title || dice(a.pairs, b.pairs, a.size, b.size) >= this.TITLE_SIMILARITY) {
+            parent[root(b.index)] = root(a.index);
+          }
+        }
+      }
+    });
+
+    const groups = new Map<number, BookmarkNode[]>();
+    entries.forEach(entry => {
+      const key = root(entry.index);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(entry.node);
+    });
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => ({ key: this.normalizeTitle(members[0].title), tier: 'title', ids: members.map(node => node.id) }));
+  }
+}
@@ -0,0 +1,163 @@
+import { BookmarkNode } from '@/types/bookmark';
+import { DuplicateGroup, MergeOptions, MergePlan, MergePolicy, MergeStep, MergeUndo } from '@/types/duplicates';
+import { BookmarkService } from '@/services/bookmarkService';
+import { AccessLogService } from '@/services/accessLogService';
+
+export const MERGE_POLICIES: { value: MergePolicy; label: string }[] = [
+  { value: 'most-accessed', label: 'Keep the most opened' },
+  { value: 'newest', label: 'Keep the newest' },
+  { value: 'oldest', label: 'Keep the oldest' },
+];
+
+const time = (value: string | undefined) => (value ? new Date(value).getTime() || 0 : 0);
+
+const latest = (a: string | undefined, b: string | undefined) => (time(b) > time(a) ? b : a);
+
+// A bookmark's own fields in a comparable form, without the access stats derived from the log
+const ownFields = (node: BookmarkNode): string => {
+  const { accessCount, lastAccessed, ...fields } = node;
+  return JSON.stringify(Object.entries(fields).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+// Thrown by apply when the library no longer matches the plan; nothing is written
+export class MergeConflictError extends Error {
+  constructor(public readonly ids: string[]) {
+    super(`${ids.length} bookmark(s) changed since the merge was previewed`);
+    this.name = 'MergeConflictError';
+  }
+}
+
+/**
+ * Merges groups of duplicate bookmarks into one bookmark per group. plan() is a dry run the
+ * merge modal previews; apply() writes it, if the bookmarks are still as previewed, and returns
+ * what undo() needs to put it all back.
+ */
+export class DuplicateMergeService {
+  static readonly DESCRIPTION_SEPARATOR = '\n---\n';
+
+  static groupKey(group: DuplicateGroup): string {
+    return `${group.tier}:${group.key}`;
+  }
+
+  // The bookmark a policy keeps; ties go to the one first in the library
+  static pickKeeper(nodes: BookmarkNode[], policy: MergePolicy): BookmarkNode {
+    const score = (node: BookmarkNode) => {
+      switch (policy) {
+        case 'most-accessed': return [node.accessCount ?? 0, time(node.lastAccessed)];
+        case 'newest': return [time(node.createdAt)];
+        case 'oldest': return [-time(node.createdAt)];
+      }
+    };
+    return nodes.reduce((best, node) => {
+      const [a, b] = [score(node), score(best)];
+      const index = a.findIndex((value, i) => value !== b[i]);
+      return index !== -1 && a[index] > b[index] ? node : best;
+    });
+  }
+
+  /**
+   * Works out the merge of each group without writing anything. nodes must carry their
+   * access stats (see AccessLogService.withAccessStats). Groups are merged in order, so a
+   * bookmark in two groups (same page and similar title) ends up merged once, into the
+   * keeper of the later group.
+   */
+  static plan(groups: DuplicateGroup[], nodes: BookmarkNode[], options: MergeOptions): MergePlan {
+    const original = new Map(nodes.map(node => [node.id, node]));
+    const current = new Map(original);
+    const removed = new Set<string>();
+    const moves: Record<string, string> = {};
+    // Keyed by keeper id
+    const steps = new Map<string, MergeStep>();
+
+    for (const group of groups) {
+      const members = group.ids.filter(id => !removed.has(id)).map(id => current.get(id)).filter((node): node is BookmarkNode => !!node);
+      if (members.length < 2) continue;
+
+      const groupKey = this.groupKey(group);
+      const picked = options.keepers?.[groupKey];
+      const keeper = members.find(node => node.id === picked) ?? this.pickKeeper(members, options.policy);
+      const others = members.filter(node => node !== keeper);
+      // The keeper's fields come first, so its category and description lead
+      const ordered = [keeper, ...others];
+
+      const merged: BookmarkNode = {
+        ...keeper,
+        accessCount: ordered.reduce((sum, node) => sum + (node.accessCount ?? 0), 0),
+        lastAccessed: ordered.reduce<string | undefined>((last, node) => latest(last, node.lastAccessed), undefined),
+      };
+      if (options.mergeTags) {
+        const tags = Array.from(new Set(ordered.flatMap(node => node.tags ?? [])));
+        if (tags.length > 0) merged.tags = tags;
+      }
+      if (options.mergeCategories) {
+        merged.categoryId = ordered.map(node => node.categoryId).find(Boolean) ?? merged.categoryId;
+      }
+      if (options.mergeDescriptions) {
+        const descriptions = Array.from(new Set(ordered.map(node => node.description?.trim()).filter((text): text is string => !!text)));
+        if (descriptions.length > 0) merged.description = descriptions.join(this.DESCRIPTION_SEPARATOR);
+      }
+
+      current.set(keeper.id, merged);
+      for (const node of others) {
+        removed.add(node.id);
+        moves[node.id] = keeper.id;
+        // Bookmarks this one absorbed earlier now belong to the new keeper
+        Object.keys(moves).forEach(id => {
+          if (moves[id] === node.id) moves[id] = keeper.id;
+        });
+        steps.delete(node.id);
+      }
+      const removeIds = Object.keys(moves).filter(id => moves[id] === keeper.id);
+      steps.set(keeper.id, { groupKey, keep: merged, removeIds });
+    }
+
+    const sources = [...steps.keys(), ...removed].map(id => original.get(id) as BookmarkNode);
+    return { steps: Array.from(steps.values()), removeIds: Array.from(removed), moves, sources };
+  }
+
+  /**
+   * Writes a plan in one library write and moves the removed bookmarks' opens to their keepers.
+   * Throws a MergeConflictError, writing nothing, if any of the bookmarks was changed or deleted
+   * after the plan was made.
+   */
+  static async apply(plan: MergePlan): Promise<MergeUndo> {
+    const keepers = new Map(plan.steps.map(step => [step.keep.id, step.keep]));
+    const removing = new Set(plan.removeIds);
+    const nodes = await BookmarkService.transaction(draft => {
+      const stored = new Map(draft.map(node => [node.id, node]));
+      const changed = plan.sources.filter(source => {
+        const node = stored.get(source.id);
+        return !node || ownFields(node) !== ownFields(source);
+      });
+      if (changed.length > 0) throw new MergeConflictError(changed.map(node => node.id));
+
+      const originals = draft.flatMap((node, index) => (keepers.has(node.id) || removing.has(node.id) ? [{ node: { ...node }, index }] : []));
+      const remaining = draft
+        .filter(node => !removing.has(node.id))
+        .map(node => {
+          const keep = keepers.get(node.id);
+          if (!keep) return node;
+          // Access stats are derived from the log, so only the bookmark's own fields are written
+          const { accessCount, lastAccessed, ...fields } = keep;
+          return { ...node, ...fields };
+        });
+      draft.splice(0, draft.length, ...remaining);
+      return originals;
+    });
+    const accessLog = await AccessLogService.reassign(plan.moves);
+    return { nodes, accessLog };
+  }
+
+  // Restores the kept bookmarks in place and puts the removed ones back where they were
+  static async undo(undo: MergeUndo): Promise<void> {
+    await BookmarkService.transaction(draft => {
+      // In library order, so each index counts the bookmarks restored before it
+      for (const { node, index } of [...undo.nodes].sort((a, b) => a.index - b.index)) {
+        const current = draft.findIndex(other => other.id === node.id);
+        if (current !== -1) draft[current] = node;
+        else draft.splice(Math.min(index, draft.length), 0, node);
+      }
+    });
+    await AccessLogService.revert(undo.accessLog);
+  }
+}
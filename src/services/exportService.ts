@@ -0,0 +1,169 @@
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import { ExportColumn, ExportFile, ExportFormat, ExportOptions, MarkdownGrouping } from '@/types/export';
+
+export const EXPORT_COLUMNS: Record<ExportColumn, string> = {
+  title: 'Title',
+  category: 'Category',
+  url: 'URL',
+  tags: 'Tags',
+  description: 'Description',
+  createdAt: 'Created',
+  lastAccessed: 'Last Accessed',
+  accessCount: 'Access Count',
+};
+
+export const isExportColumn = (key: string): key is ExportColumn => Object.prototype.hasOwnProperty.call(EXPORT_COLUMNS, key);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toSeconds = (iso: string | undefined) => {
+  const time = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(time) ? String(Math.floor(time / 1000)) : null;
+};
+
+const escapeMarkdown = (text: string) => text.replace(/([\\[\]])/g, '\\$1');
+const URL_ESCAPES: Record<string, string> = { ' ': '%20', '(': '%28', ')': '%29', '<': '%3C', '>': '%3E' };
+const escapeMarkdownUrl = (url: string) => url.replace(/[ ()<>]/g, char => URL_ESCAPES[char]);
+
+// Spreadsheets run cells starting with these as formulas, so shared CSVs get them quoted
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isBookmark = (node: BookmarkNode) => node.type === 'bookmark';
+
+/**
+ * Writes bookmarks as a Netscape bookmark file (which browsers import), a Markdown link list or
+ * CSV. The chosen bookmarks are placed using the folders and categories of the whole library.
+ */
+export class ExportService {
+  static export(
+    format: ExportFormat,
+    bookmarks: BookmarkNode[],
+    library: { nodes: BookmarkNode[]; categories: BookmarkCategory[] },
+    options: ExportOptions,
+  ): ExportFile {
+    const stamp = new Date().toISOString().slice(0, 10);
+    switch (format) {
+      case 'html':
+        return { content: this.toHtml(bookmarks, library.nodes), mimeType: 'text/html', fileName: `bookmarks_${stamp}.html` };
+      case 'markdown':
+        return { content: this.toMarkdown(bookmarks, library, options.groupBy), mimeType: 'text/markdown', fileName: `bookmarks_${stamp}.md` };
+      case 'csv':
+        return { content: this.toCsv(bookmarks, library.categories, options.columns), mimeType: 'text/csv', fileName: `bookmarks_${stamp}.csv` };
+    }
+  }
+
+  // Keeps the folders the chosen nodes are in; passing the whole library exports every folder
+  static toHtml(nodes: BookmarkNode[], library: BookmarkNode[]): string {
+    const byId = new Map([...library, ...nodes].map(node => [node.id, node]));
+    const keep = new Set(nodes.map(node => node.id));
+    for (const node of nodes) {
+      for (let parent = node.parentId ? byId.get(node.parentId) : undefined; parent && !keep.has(parent.id); parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+        keep.add(parent.id);
+      }
+    }
+    // Nodes whose folder is not in the library go at the top level
+    const children = new Map<string | null, BookmarkNode[]>();
+    for (const node of byId.values()) {
+      if (!keep.has(node.id)) continue;
+      const parentId = node.parentId && byId.has(node.parentId) ? node.parentId : null;
+      if (!children.has(parentId)) children.set(parentId, []);
+      children.get(parentId)!.push(node);
+    }
+    const childrenOf = (parentId: string | null) => children.get(parentId) ?? [];
+
+    const render = (parentId: string | null, depth: number, visited: Set<string>): string[] => {
+      const indent = '    '.repeat(depth);
+      return childrenOf(parentId).filter(node => !visited.has(node.id)).flatMap(node => {
+        visited.add(node.id);
+        const added = toSeconds(node.createdAt);
+        const date = added ? ` ADD_DATE="${added}"` : '';
+        if (node.type === 'folder') {
+          return [
+            `${indent}<DT><H3${date}>${escapeHtml(node.title)}</H3>`,
+            `${indent}<DL><p>`,
+            ...render(node.id, depth + 1, visited),
+            `${indent}</DL><p>`,
+          ];
+        }
+        const tags = node.tags && node.tags.length > 0 ? ` TAGS="${escapeHtml(node.tags.join(','))}"` : '';
+        const icon = node.icon ? ` ICON="${escapeHtml(node.icon)}"` : '';
+        return [
+          `${indent}<DT><A HREF="${escapeHtml(node.url ?? '')}"${date}${icon}${tags}>${escapeHtml(node.title)}</A>`,
+          ...(node.description ? [`${indent}<DD>${escapeHtml(node.description)}`] : []),
+        ];
+      });
+    };
+
+    return [
+      '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+      '<!-- This is an automatically generated file.',
+      '     It will be read and overwritten.',
+      '     DO NOT EDIT! -->',
+      '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+      '<TITLE>Bookmarks</TITLE>',
+      '<H1>Bookmarks</H1>',
+      '<DL><p>',
+      ...render(null, 1, new Set()),
+      '</DL><p>',
+      '',
+    ].join('\n');
+  }
+
+  // A "## heading" per category (in the library's order) or per folder path, then the links
+  static toMarkdown(nodes: BookmarkNode[], library: { nodes: BookmarkNode[]; categories: BookmarkCategory[] }, groupBy: MarkdownGrouping): string {
+    const byId = new Map(library.nodes.map(node => [node.id, node]));
+    const folderPath = (node: BookmarkNode) => {
+      const titles: string[] = [];
+      const visited = new Set<string>();
+      for (let parent = node.parentId ? byId.get(node.parentId) : undefined; parent && !visited.has(parent.id); parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+        visited.add(parent.id);
+        titles.unshift(parent.title);
+      }
+      return titles.join(' / ');
+    };
+    const categoryName = (node: BookmarkNode) => library.categories.find(category => category.id === node.categoryId)?.name ?? '';
+
+    const groups = new Map<string, BookmarkNode[]>();
+    if (groupBy === 'category') {
+      library.categories.forEach(category => groups.set(category.name, []));
+    }
+    for (const node of nodes.filter(isBookmark)) {
+      const key = groupBy === 'category' ? categoryName(node) : folderPath(node);
+      groups.set(key, [...(groups.get(key) ?? []), node]);
+    }
+    // Bookmarks without a category or folder go last
+    const ordered = [...groups].filter(([key, items]) => key && items.length > 0);
+    if (groups.get('')?.length) ordered.push([groupBy === 'category' ? 'Uncategorized' : 'Top level', groups.get('')!]);
+
+    return ordered.map(([heading, items]) => [
+      `## ${heading}`,
+      '',
+      ...items.map(node => `- [${escapeMarkdown(node.title || node.url || '')}](${escapeMarkdownUrl(node.url ?? '')})${node.description ? ` — ${node.description}` : ''}`),
+      '',
+    ].join('\n')).join('\n');
+  }
+
+  static toCsv(nodes: BookmarkNode[], categories: BookmarkCategory[], columns: ExportColumn[]): string {
+    const value = (node: BookmarkNode, column: ExportColumn) => {
+      switch (column) {
+        case 'category': return categories.find(category => category.id === node.categoryId)?.name ?? '';
+        case 'tags': return (node.tags ?? []).join(', ');
+        case 'accessCount': return node.accessCount ?? 0;
+        default: return node[column];
+      }
+    };
+    const rows = [
+      columns.map(column => csvCell(EXPORT_COLUMNS[column])),
+      ...nodes.filter(isBookmark).map(node => columns.map(column => csvCell(value(node, column)))),
+    ];
+    return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+  }
+}
@@ -0,0 +1,243 @@
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+import {
+  FolderMapping,
+  HtmlImportOptions,
+  HtmlImportPlan,
+  ImportedBookmark,
+  ImportedEntry,
+  ImportedFolder,
+  ParsedBookmarkFile,
+} from '@/types/import';
+import { BookmarkService } from '@/services/bookmarkService';
+import { DEFAULT_CATEGORY_ICON } from '@/services/storageSchema';
+
+// Colors given to categories created from folders, in turn
+const CATEGORY_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#3b82f6', '#ec4899', '#14b8a6', '#8b5cf6'];
+
+const TAG_PATTERN = /<\s*(\/?)\s*([a-zA-Z0-9]+)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+export const toText = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+
+export const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? '');
+  }
+  return attributes;
+};
+
+// ADD_DATE is in seconds since the epoch; some exporters write milliseconds or microseconds.
+// The other import formats use it for their timestamps too.
+export const parseTimestamp = (value: string | undefined) => {
+  const number = Number(value);
+  if (!value || !Number.isFinite(number) || number <= 0) return null;
+  const ms = number > 1e14 ? number / 1000 : number > 1e11 ? number : number * 1000;
+  return new Date(ms).toISOString();
+};
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/**
+ * Imports the bookmark files browsers export (Netscape bookmark file format), keeping the
+ * folder hierarchy, dates, favicons and tags. Parsing works on the raw markup, so it also
+ * runs where there is no DOMParser, such as the service worker.
+ */
+export class HtmlImportService {
+  static parse(html: string): ParsedBookmarkFile {
+    if (!/<dl[\s>]/i.test(html)) throw new Error('This is not a browser bookmark file.');
+
+    const root: ImportedFolder = { type: 'folder', id: 'root', title: '', createdAt: null, children: [] };
+    const stack = [root];
+    let title = '';
+    let pendingFolder: ImportedFolder | null = null;
+    let lastBookmark: ImportedBookmark | null = null;
+    let unsupported = 0;
+
+    // Reads up to the closing tag and moves the scanner past it
+    const readUntilClosing = (tagName: string, from: number) => {
+      const closing = new RegExp(`<\\s*/\\s*${tagName}\\s*>`, 'ig');
+      closing.lastIndex = from;
+      const match = closing.exec(html);
+      const end = match ? match.index : html.length;
+      TAG_PATTERN.lastIndex = match ? end + match[0].length : html.length;
+      return html.slice(from, end);
+    };
+
+    TAG_PATTERN.lastIndex = 0;
+    for (let match = TAG_PATTERN.exec(html); match; match = TAG_PATTERN.exec(html)) {
+      const [source, closing, rawName, attributeSource] = match;
+      const tagName = rawName.toLowerCase();
+      const end = match.index + source.length;
+      const current = stack[stack.length - 1];
+
+      if (closing) {
+        if (tagName === 'dl' && stack.length > 1) stack.pop();
+        continue;
+      }
+      switch (tagName) {
+        case 'h1':
+          title = toText(readUntilClosing('h1', end));
+          break;
+        case 'h3': {
+          const attributes = parseAttributes(attributeSource);
+          const folder: ImportedFolder = {
+            type: 'folder',
+            id: current === root ? String(current.children.length) : `${current.id}.${current.children.length}`,
+            title: toText(readUntilClosing('h3', end)) || 'Unnamed Folder',
+            createdAt: parseTimestamp(attributes.add_date),
+            children: [],
+          };
+          current.children.push(folder);
+          pendingFolder = folder;
+          lastBookmark = null;
+          break;
+        }
+        case 'dl':
+          // A list right after a folder heading holds that folder's contents
+          if (pendingFolder) stack.push(pendingFolder);
+          pendingFolder = null;
+          break;
+        case 'a': {
+          const attributes = parseAttributes(attributeSource);
+          const text = toText(readUntilClosing('a', end));
+          const url = attributes.href ?? '';
+          pendingFolder = null;
+          lastBookmark = null;
+          if (!/^https?:\/\//i.test(url)) {
+            unsupported++;
+            break;
+          }
+          const bookmark: ImportedBookmark = {
+            type: 'bookmark',
+            title: text || url,
+            url,
+            createdAt: parseTimestamp(attributes.add_date),
+            tags: unique((attributes.tags ?? '').split(',').map(tag => tag.trim()).filter(Boolean)),
+            ...(attributes.icon ? { icon: attributes.icon } : {}),
+          };
+          current.children.push(bookmark);
+          lastBookmark = bookmark;
+          break;
+        }
+        case 'dd': {
+          const next = html.indexOf('<', end);
+          const description = toText(html.slice(end, next === -1 ? html.length : next));
+          if (lastBookmark && description) lastBookmark.description = description;
+          lastBookmark = null;
+          break;
+        }
+        case 'dt':
+          lastBookmark = null;
+          break;
+      }
+    }
+
+    if (this.countBookmarks(root.children) === 0) throw new Error('No bookmarks found in the HTML file.');
+    return { format: 'netscape', title, entries: root.children, unsupported };
+  }
+
+  // Every folder in the file, depth first, with its depth for display
+  static listFolders(entries: ImportedEntry[], depth = 0): { folder: ImportedFolder; depth: number }[] {
+    return entries.flatMap(entry => entry.type === 'folder'
+      ? [{ folder: entry, depth }, ...this.listFolders(entry.children, depth + 1)]
+      : []);
+  }
+
+  static countBookmarks(entries: ImportedEntry[]): number {
+    return entries.reduce((count, entry) => count + (entry.type === 'folder' ? this.countBookmarks(entry.children) : 1), 0);
+  }
+
+  /**
+   * Works out the nodes and categories an import adds to the given library. Folders follow
+   * the mapping (the file's default mapping, else folder): a folder mapped to a category or
+   * tag is not created, its bookmarks get the category or tag and go into the nearest folder
+   * above it. Also used for the files read by ImportAdapterService.
+   */
+  static plan(
+    file: ParsedBookmarkFile,
+    mapping: Record<string, FolderMapping>,
+    library: { bookmarks: BookmarkNode[]; categories: BookmarkCategory[] },
+    options: HtmlImportOptions,
+  ): HtmlImportPlan {
+    const now = new Date().toISOString();
+    const plan: HtmlImportPlan = { nodes: [], categories: [], tags: [], duplicates: [] };
+    const urls = new Set(library.bookmarks.filter(node => node.type === 'bookmark').map(node => node.url));
+    const folders = library.bookmarks.filter(node => node.type === 'folder');
+    const categoryFor = (name: string) => {
+      const existing = [...library.categories, ...plan.categories].find(category => category.name.toLowerCase() === name.toLowerCase());
+      if (existing) return existing.id;
+      const category = { id: crypto.randomUUID(), name, color: CATEGORY_COLORS[plan.categories.length % CATEGORY_COLORS.length], icon: DEFAULT_CATEGORY_ICON };
+      plan.categories.push(category);
+      return category.id;
+    };
+
+    // Returns the number of nodes added, so folders left empty by skipped duplicates can be dropped
+    const walk = (entries: ImportedEntry[], parentId: string | null, categoryId: string | undefined, tags: string[]): number =>
+      entries.reduce((added, entry) => {
+        if (entry.type === 'bookmark') {
+          if (urls.has(entry.url)) {
+            plan.duplicates.push(entry);
+            if (options.skipDuplicates) return added;
+          }
+          urls.add(entry.url);
+          plan.nodes.push({
+            id: crypto.randomUUID(),
+            type: 'bookmark',
+            title: entry.title,
+            url: entry.url,
+            parentId,
+            tags: unique([...entry.tags, ...tags]),
+            createdAt: entry.createdAt ?? now,
+            ...(categoryId ? { categoryId } : {}),
+            ...(entry.description ? { description: entry.description } : {}),
+            ...(entry.icon ? { icon: entry.icon } : {}),
+          });
+          return added + 1;
+        }
+
+        const as = mapping[entry.id] ?? file.defaultMapping ?? 'folder';
+        if (as === 'category') return added + walk(entry.children, parentId, categoryFor(entry.title), tags);
+        if (as === 'tag') {
+          plan.tags = unique([...plan.tags, entry.title]);
+          return added + walk(entry.children, parentId, categoryId, [...tags, entry.title]);
+        }
+
+        // Importing the same file again fills the existing folders instead of duplicating them
+        const existing = [...folders, ...plan.nodes].find(node => node.type === 'folder' && node.parentId === parentId && node.title === entry.title);
+        const folder: BookmarkNode = existing ?? { id: crypto.randomUUID(), type: 'folder', title: entry.title, parentId, createdAt: entry.createdAt ?? now };
+        if (existing) return added + walk(entry.children, folder.id, categoryId, tags);
+        const index = plan.nodes.length;
+        plan.nodes.push(folder);
+        const inside = walk(entry.children, folder.id, categoryId, tags);
+        if (inside > 0 || entry.children.length === 0) return added + inside + 1;
+        plan.nodes.length = index;
+        return added;
+      }, 0);
+
+    walk(file.entries, options.parentId, undefined, []);
+    return plan;
+  }
+
+  // Plans the import against the current library and writes its nodes and categories together.
+  // Returns what was added.
+  static async import(file: ParsedBookmarkFile, mapping: Record<string, FolderMapping>, options: HtmlImportOptions): Promise<HtmlImportPlan> {
+    return BookmarkService.transactionWithCategories((draft, categories) => {
+      const plan = this.plan(file, mapping, { bookmarks: draft, categories }, options);
+      draft.push(...plan.nodes);
+      categories.push(...plan.categories);
+      return plan;
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import { ImportedBookmark, ImportedEntry, ImportedFolder, ImportFormat, ParsedBookmarkFile } from '@/types/import';
+import { HtmlImportService, parseAttributes, parseTimestamp, toText } from '@/services/htmlImportService';
+
+export const IMPORT_FORMATS: Record<ImportFormat, string> = {
+  netscape: 'Browser bookmarks',
+  raindrop: 'Raindrop.io',
+  pinboard: 'Pinboard',
+  pocket: 'Pocket',
+};
+
+// Raindrop puts links outside any collection in "Unsorted"; they are imported without one
+const RAINDROP_UNSORTED = 'Unsorted';
+
+const isWebUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const splitTags = (value: string | undefined, separator: RegExp) =>
+  [...new Set((value ?? '').split(separator).map(tag => tag.trim()).filter(Boolean))];
+
+// ISO dates (Raindrop, Pinboard) or epoch timestamps (Pocket)
+const parseDate = (value: string | undefined) => {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return parseTimestamp(value.trim());
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+};
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(Boolean));
+};
+
+// Builds the folder tree from folder paths, reusing a folder for each repeated path
+const createTree = () => {
+  const root: ImportedFolder = { type: 'folder', id: 'root', title: '', createdAt: null, children: [] };
+  const byPath = new Map<string, ImportedFolder>();
+  const folderAt = (path: string[]) => path.reduce((parent, title, depth) => {
+    const key = JSON.stringify(path.slice(0, depth + 1));
+    let folder = byPath.get(key);
+    if (!folder) {
+      folder = {
+        type: 'folder',
+        id: parent === root ? String(parent.children.length) : `${parent.id}.${parent.children.length}`,
+        title,
+        createdAt: null,
+        children: [],
+      };
+      parent.children.push(folder);
+      byPath.set(key, folder);
+    }
+    return folder;
+  }, root);
+  return { root, folderAt };
+};
+
+const finish = (format: ImportFormat, title: string, entries: ImportedEntry[], unsupported: number): ParsedBookmarkFile => {
+  if (HtmlImportService.countBookmarks(entries) === 0) throw new Error(`No bookmarks found in the ${IMPORT_FORMATS[format]} export.`);
+  return { format, title, entries, unsupported };
+};
+
+/**
+ * Reads the exports of other bookmark tools into the same shape as a browser bookmark file,
+ * so they go through the same import step and its folder mapping: Raindrop.io CSV
+ * (collections become categories by default), Pinboard JSON (no folders) and Pocket HTML
+ * (the Unread and Read Archive lists become tags by default). Tags, notes and dates are kept.
+ */
+export class ImportAdapterService {
+  static detect(content: string): ImportFormat | null {
+    const text = content.trimStart();
+    if (text.startsWith('[') || text.startsWith('{')) return 'pinboard';
+    if (/<dl[\s>]/i.test(text)) return 'netscape';
+    if (/<h1[\s>]/i.test(text) && /time_added\s*=/i.test(text)) return 'pocket';
+    const header = text.slice(0, text.search(/\r?\n|$/)).toLowerCase();
+    if (!header.includes('<') && header.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')).includes('url')) return 'raindrop';
+    return null;
+  }
+
+  // Reads a file of any supported format
+  static parse(content: string): ParsedBookmarkFile {
+    switch (this.detect(content)) {
+      case 'netscape': return HtmlImportService.parse(content);
+      case 'raindrop': return this.parseRaindropCsv(content);
+      case 'pinboard': return this.parsePinboardJson(content);
+      case 'pocket': return this.parsePocketHtml(content);
+      default: throw new Error('This file is not a bookmark export from a browser, Raindrop.io, Pinboard or Pocket.');
+    }
+  }
+
+  // Columns: id, title, note, excerpt, url, folder, tags, created, cover, highlights, favorite
+  static parseRaindropCsv(csv: string): ParsedBookmarkFile {
+    const [header = [], ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+    const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name);
+    const columns = {
+      title: column('title'), note: column('note'), excerpt: column('excerpt'), url: column('url'),
+      folder: column('folder'), tags: column('tags'), created: column('created'),
+    };
+    if (columns.url === -1) throw new Error('The CSV file has no url column.');
+
+    const { root, folderAt } = createTree();
+    let unsupported = 0;
+    for (const cells of rows) {
+      const cell = (index: number) => (index === -1 ? '' : cells[index] ?? '').trim();
+      const url = cell(columns.url);
+      if (!isWebUrl(url)) {
+        unsupported++;
+        continue;
+      }
+      const description = cell(columns.note) || cell(columns.excerpt);
+      const bookmark: ImportedBookmark = {
+        type: 'bookmark',
+        title: cell(columns.title) || url,
+        url,
+        createdAt: parseDate(cell(columns.created)),
+        tags: splitTags(cell(columns.tags), /,/),
+        ...(description ? { description } : {}),
+      };
+      // Nested collections are written as "Parent / Child"
+      const path = cell(columns.folder).split('/').map(part => part.trim()).filter(Boolean);
+      const folder = path.length === 0 || (path.length === 1 && path[0] === RAINDROP_UNSORTED) ? root : folderAt(path);
+      folder.children.push(bookmark);
+    }
+
+    const file = finish('raindrop', 'Raindrop.io', root.children, unsupported);
+    // Raindrop collections are closest to our categories
+    return { ...file, defaultMapping: 'category' };
+  }
+
+  // Pinboard's JSON export: description is the title, extended the note, tags are space-separated
+  static parsePinboardJson(json: string): ParsedBookmarkFile {
+    let posts: unknown;
+    try {
+      posts = JSON.parse(json);
+    } catch {
+      throw new Error('This is not a Pinboard JSON export.');
+    }
+    if (!Array.isArray(posts)) throw new Error('This is not a Pinboard JSON export.');
+
+    const entries: ImportedEntry[] = [];
+    let unsupported = 0;
+    for (const post of posts) {
+      const field = (name: string) => (post && typeof post === 'object' && typeof post[name] === 'string' ? (post[name] as string).trim() : '');
+      const url = field('href');
+      if (!isWebUrl(url)) {
+        unsupported++;
+        continue;
+      }
+      const description = field('extended');
+      entries.push({
+        type: 'bookmark',
+        title: field('description') || url,
+        url,
+        createdAt: parseDate(field('time')),
+        // Unread posts keep Pinboard's "toread" flag as a tag
+        tags: splitTags(`${field('tags')}${field('toread') === 'yes' ? ' toread' : ''}`, /\s+/),
+        ...(description ? { description } : {}),
+      });
+    }
+    return finish('pinboard', 'Pinboard', entries, unsupported);
+  }
+
+  // Pocket's HTML export: an <h1> per list (Unread, Read Archive) followed by a <ul> of links
+  static parsePocketHtml(html: string): ParsedBookmarkFile {
+    const { root, folderAt } = createTree();
+    let folder = root;
+    let unsupported = 0;
+    for (const match of html.matchAll(/<h1[^>]*>([\s\S]*?)<\/h1>|<a\s((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/a>/gi)) {
+      const [, heading, attributeSource, text] = match;
+      if (heading !== undefined) {
+        const title = toText(heading);
+        folder = title ? folderAt([title]) : root;
+        continue;
+      }
+      const attributes = parseAttributes(attributeSource);
+      const url = attributes.href ?? '';
+      if (!isWebUrl(url)) {
+        unsupported++;
+        continue;
+      }
+      folder.children.push({
+        type: 'bookmark',
+        title: toText(text) || url,
+        url,
+        createdAt: parseDate(attributes.time_added),
+        tags: splitTags(attributes.tags, /,/),
+      });
+    }
+
+    const file = finish('pocket', 'Pocket', root.children.filter(entry => entry.type === 'bookmark' || entry.children.length > 0), unsupported);
+    // Whether a link was read is better kept as a tag than as a folder
+    return { ...file, defaultMapping: 'tag' };
+  }
+}
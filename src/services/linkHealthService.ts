@@ -0,0 +1,172 @@
+import { BookmarkNode, LinkHealth, LinkStatus } from '@/types/bookmark';
+import { LinkHealthFilter, LinkScanOptions, LinkScanSummary } from '@/types/linkHealth';
+import { BookmarkService } from '@/services/bookmarkService';
+import { UrlTemplateService } from '@/services/urlTemplateService';
+
+// Host access the checker needs; requested from the user when they first check links
+export const LINK_CHECK_ORIGINS = ['http://*/*', 'https://*/*'];
+
+// Answers that say the page is there but not for us: behind a login or rate limited
+const RESTRICTED_STATUSES = new Set([401, 403, 407, 429]);
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const emptyCounts = (): Record<LinkStatus, number> => ({ ok: 0, redirected: 0, broken: 0, unreachable: 0 });
+
+/**
+ * Checks whether bookmarked URLs still resolve and records the outcome on each node as
+ * linkHealth. The background scanner calls scan() on a schedule; the bookmark table filters
+ * on the results and offers the fixes below.
+ */
+export class LinkHealthService {
+  static readonly BATCH_SIZE = 4;
+  static readonly BATCH_DELAY_MS = 1000;
+  static readonly TIMEOUT_MS = 10000;
+  static readonly RECHECK_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+  static readonly BROKEN_FOLDER_TITLE = 'Broken';
+
+  static isProblem(health: LinkHealth | undefined): boolean {
+    return !!health && health.status !== 'ok';
+  }
+
+  static matchesFilter(node: BookmarkNode, filter: LinkHealthFilter): boolean {
+    switch (filter) {
+      case 'all': return true;
+      case 'problems': return this.isProblem(node.linkHealth);
+      case 'unchecked': return node.type === 'bookmark' && !node.linkHealth;
+      default: return node.linkHealth?.status === filter;
+    }
+  }
+
+  /**
+   * Requests the URL and follows its redirects. HEAD is tried first to avoid downloading
+   * pages; servers that reject HEAD get a GET. Cookies are sent, so internal tools the user
+   * is signed in to are not mistaken for redirects to a login page.
+   */
+  static async check(url: string, timeoutMs = this.TIMEOUT_MS): Promise<LinkHealth> {
+    const checkedAt = new Date().toISOString();
+    const request = (method: 'HEAD' | 'GET') => fetch(url, {
+      method,
+      redirect: 'follow',
+      credentials: 'include',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    try {
+      let response = await request('HEAD');
+      if (response.status >= 400) {
+        response = await request('GET');
+        // Only the status matters, so the body is not read
+        await response.body?.cancel().catch(() => undefined);
+      }
+      const httpStatus = response.status;
+      if (httpStatus >= 400 && !RESTRICTED_STATUSES.has(httpStatus)) {
+        return { status: 'broken', httpStatus, checkedAt };
+      }
+      if (response.redirected && response.url && response.url !== url) {
+        return { status: 'redirected', httpStatus, finalUrl: response.url, checkedAt };
+      }
+      return { status: 'ok', httpStatus, checkedAt };
+    } catch (error) {
+      // Aborts are DOMExceptions, which are not always instances of Error
+      const { name, message } = (error ?? {}) as { name?: string; message?: string };
+      const timedOut = name === 'TimeoutError' || name === 'AbortError';
+      return { status: 'unreachable', error: timedOut ? 'Timed out' : message || String(error), checkedAt };
+    }
+  }
+
+  // Bookmarks to check: never checked first, then the longest ago
+  static due(nodes: BookmarkNode[], options: Pick<LinkScanOptions, 'ids' | 'force'> = {}, now = Date.now()): BookmarkNode[] {
+    const ids = options.ids ? new Set(options.ids) : null;
+    const checkedAt = (node: BookmarkNode) => (node.linkHealth ? new Date(node.linkHealth.checkedAt).getTime() : 0);
+    return nodes
+      // A URL template is not a page until its variables are filled in
+      .filter(node => node.type === 'bookmark' && !!node.url && /^https?:\/\//i.test(node.url) && !UrlTemplateService.isTemplate(node.url))
+      .filter(node => !ids || ids.has(node.id))
+      .filter(node => options.force || !node.linkHealth || now - checkedAt(node) >= this.RECHECK_AFTER_MS)
+      .sort((a, b) => checkedAt(a) - checkedAt(b));
+  }
+
+  /**
+   * Checks the due bookmarks in batches, never hitting the same host twice in one batch, and
+   * pauses between batches. Results are written after each batch, so a run cut short by the
+   * worker being suspended keeps what it found.
+   */
+  static async scan(options: LinkScanOptions = {}): Promise<LinkScanSummary> {
+    const batchSize = options.batchSize ?? this.BATCH_SIZE;
+    const delayMs = options.delayMs ?? this.BATCH_DELAY_MS;
+    const queue = this.due(await BookmarkService.getBookmarks(), options).slice(0, options.limit ?? Infinity);
+    const summary: LinkScanSummary = { checked: 0, counts: emptyCounts() };
+
+    while (queue.length > 0) {
+      const hosts = new Set<string>();
+      const batch: BookmarkNode[] = [];
+      for (let i = 0; i < queue.length && batch.length < batchSize; i++) {
+        const host = hostOf(queue[i].url!);
+        if (hosts.has(host)) continue;
+        hosts.add(host);
+        batch.push(...queue.splice(i--, 1));
+      }
+
+      const results = await Promise.all(batch.map(async node => ({ node, health: await this.check(node.url!, options.timeoutMs) })));
+      await BookmarkService.transaction(draft => {
+        for (const { node, health } of results) {
+          const index = draft.findIndex(b => b.id === node.id);
+          // Skip bookmarks deleted or given a new URL while they were being checked
+          if (index === -1 || draft[index].url !== node.url) continue;
+          draft[index] = { ...draft[index], linkHealth: health };
+        }
+      });
+      results.forEach(({ health }) => summary.counts[health.status]++);
+      summary.checked += results.length;
+
+      if (queue.length > 0 && delayMs > 0) await sleep(delayMs);
+    }
+    return summary;
+  }
+
+  // Points redirected bookmarks at where they now live. Returns how many were updated.
+  static async applyRedirects(ids: string[]): Promise<number> {
+    const targets = new Set(ids);
+    return BookmarkService.transaction(draft => {
+      let updated = 0;
+      draft.forEach((node, index) => {
+        const health = node.linkHealth;
+        if (!targets.has(node.id) || health?.status !== 'redirected' || !health.finalUrl) return;
+        const { finalUrl, ...rest } = health;
+        draft[index] = { ...node, url: finalUrl, linkHealth: { ...rest, status: 'ok' } };
+        updated++;
+      });
+      return updated;
+    });
+  }
+
+  // Moves broken and unreachable bookmarks into a top-level "Broken" folder, creating it if needed
+  static async moveToBrokenFolder(ids: string[]): Promise<number> {
+    const targets = new Set(ids);
+    return BookmarkService.transaction(draft => {
+      const moving = draft.filter(node => targets.has(node.id) && (node.linkHealth?.status === 'broken' || node.linkHealth?.status === 'unreachable'));
+      if (moving.length === 0) return 0;
+
+      let folder = draft.find(node => node.type === 'folder' && node.parentId === null && node.title === this.BROKEN_FOLDER_TITLE);
+      if (!folder) {
+        folder = { id: crypto.randomUUID(), type: 'folder', title: this.BROKEN_FOLDER_TITLE, parentId: null, createdAt: new Date().toISOString() };
+        draft.push(folder);
+      }
+      const folderId = folder.id;
+      draft.forEach((node, index) => {
+        if (moving.includes(node)) draft[index] = { ...node, parentId: folderId };
+      });
+      return moving.length;
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { BroadcastMap, BroadcastType, MessageMap, MessageType } from '@/types/messages';
+import { bookmarkActionSchema, bookmarkNodeSchema, workflowRecordingSchema, workflowSchema } from '@/services/storageSchema';
+
+type MessageSchemas = {
+  [K in MessageType]: {
+    request: z.ZodType<MessageMap[K]['request'], z.ZodTypeDef, unknown>;
+    response: z.ZodType<MessageMap[K]['response'], z.ZodTypeDef, unknown>;
+  };
+};
+
+type BroadcastSchemas = {
+  [K in BroadcastType]: z.ZodType<BroadcastMap[K], z.ZodTypeDef, unknown>;
+};
+
+const empty = z.object({}).strip() as z.ZodType<Record<string, never>, z.ZodTypeDef, unknown>;
+
+const highlightRangeSchema = z.object({ start: z.number().int().nonnegative(), end: z.number().int().nonnegative() });
+
+export const envelopeSchema = z.object({
+  type: z.string().min(1),
+  payload: z.unknown().optional(),
+});
+
+export const resultSchema = z.union([
+  z.object({ ok: z.literal(true), data: z.unknown() }),
+  z.object({
+    ok: z.literal(false),
+    error: z.object({
+      code: z.enum(['UNKNOWN_MESSAGE', 'INVALID_REQUEST', 'INVALID_RESPONSE', 'HANDLER_FAILED', 'NO_RECEIVER', 'CONTEXT_INVALIDATED']),
+      message: z.string(),
+      issues: z.array(z.string()).optional(),
+    }),
+  }),
+]);
+
+export const messageSchemas: MessageSchemas = {
+  GET_BOOKMARKS: {
+    request: z.object({ useSystemBookmarks: z.boolean().optional() }),
+    response: z.object({ bookmarks: z.array(bookmarkNodeSchema) }),
+  },
+  RECORD_BOOKMARK_ACCESS: {
+    request: z.object({
+      bookmarkId: z.string().min(1),
+      source: z.enum(['command-k', 'popup-table', 'card', 'tree']),
+      url: z.string().optional(),
+    }),
+    response: empty,
+  },
+  RESET_BOOKMARK_ACCESS: { request: empty, response: empty },
+  SYNC_NATIVE_BOOKMARKS: { request: empty, response: empty },
+  RESOLVE_SYNC_CONFLICT: {
+    request: z.object({ localId: z.string().min(1), keep: z.enum(['extension', 'chrome']) }),
+    response: empty,
+  },
+  GET_BACKUP_SCHEDULE: {
+    request: empty,
+    response: z.object({
+      frequency: z.string().nullable(),
+      periodMs: z.number().positive().nullable(),
+      nextBackupTime: z.number().nullable(),
+      lastAutomaticBackup: z.string().nullable(),
+      alarmScheduled: z.boolean(),
+    }),
+  },
+  CHECK_LINKS: {
+    request: z.object({ bookmarkIds: z.array(z.string().min(1)).optional() }),
+    response: z.object({ started: z.boolean() }),
+  },
+  SEARCH_BOOKMARKS: {
+    request: z.object({ query: z.string(), limit: z.number().int().positive().optional() }),
+    response: z.object({
+      results: z.array(z.object({
+        node: bookmarkNodeSchema,
+        rank: z.number(),
+        highlights: z.object({
+          title: z.array(highlightRangeSchema).optional(),
+          url: z.array(highlightRangeSchema).optional(),
+          description: z.array(highlightRangeSchema).optional(),
+        }),
+      })),
+      total: z.number().int().nonnegative(),
+    }),
+  },
+  SWITCH_ORG: {
+    request: z.object({ orgId: z.number().int().nonnegative() }),
+    response: z.object({ tabId: z.number().int() }),
+  },
+  CLAIM_BOOKMARK_ACTION: {
+    request: empty,
+    response: z.object({
+      claim: z.discriminatedUnion('allowed', [
+        z.object({ bookmarkTitle: z.string(), url: z.string(), action: bookmarkActionSchema, allowed: z.literal(true) }),
+        z.object({ bookmarkTitle: z.string(), url: z.string(), allowed: z.literal(false) }),
+      ]).nullable(),
+    }),
+  },
+  SAVE_WORKFLOW: {
+    request: z.object({ workflow: workflowSchema }),
+    response: z.object({ id: z.string() }),
+  },
+  KEEP_WORKFLOW_RECORDING: {
+    request: z.object({ recording: workflowRecordingSchema.nullable() }),
+    response: empty,
+  },
+  RESUME_WORKFLOW_RECORDING: {
+    request: empty,
+    response: z.object({ recording: workflowRecordingSchema.nullable() }),
+  },
+};
+
+export const broadcastSchemas: BroadcastSchemas = {
+  SHOW_TOAST: z.object({ message: z.string(), type: z.enum(['success', 'error']) }),
+};
+
+export function isMessageType(type: string): type is MessageType {
+  return Object.prototype.hasOwnProperty.call(messageSchemas, type);
+}
+
+export function isBroadcastType(type: string): type is BroadcastType {
+  return Object.prototype.hasOwnProperty.call(broadcastSchemas, type);
+}
+
+export function formatIssues(issues: z.ZodIssue[]): string[] {
+  return issues.map(issue => `${issue.path.join('.') || '(root)'} ${issue.message}`);
+}
@@ -0,0 +1,60 @@
+import { MessageRequest, MessageResponse, MessageResult, MessageType } from '@/types/messages';
+import { envelopeSchema, formatIssues, isBroadcastType, isMessageType, messageSchemas } from '@/services/messageProtocol';
+
+export type MessageHandler<K extends MessageType> = (
+  payload: MessageRequest<K>,
+  sender: chrome.runtime.MessageSender
+) => MessageResponse<K> | Promise<MessageResponse<K>>;
+
+export type MessageHandlers = {
+  [K in MessageType]: MessageHandler<K>;
+};
+
+export class MessageRouter {
+  /**
+   * Validates a raw message, runs its handler and validates the handler's response.
+   * Never throws: every failure comes back as a structured error result.
+   */
+  static async dispatch(handlers: MessageHandlers, message: unknown, sender: chrome.runtime.MessageSender): Promise<MessageResult<unknown>> {
+    const envelope = envelopeSchema.safeParse(message);
+    if (!envelope.success) {
+      return { ok: false, error: { code: 'INVALID_REQUEST', message: 'Malformed message', issues: formatIssues(envelope.error.issues) } };
+    }
+    const { type } = envelope.data;
+    if (!isMessageType(type)) {
+      return { ok: false, error: { code: 'UNKNOWN_MESSAGE', message: `Unknown message type "${type}"` } };
+    }
+
+    const schemas = messageSchemas[type];
+    const request = schemas.request.safeParse(envelope.data.payload ?? {});
+    if (!request.success) {
+      return { ok: false, error: { code: 'INVALID_REQUEST', message: `Invalid payload for ${type}`, issues: formatIssues(request.error.issues) } };
+    }
+
+    let data: unknown;
+    try {
+      // The schemas and handlers are both keyed by type, so this pairing is sound
+      const handler = handlers[type] as MessageHandler<MessageType>;
+      data = await handler(request.data as MessageRequest<MessageType>, sender);
+    } catch (error) {
+      console.error(`Failed to handle ${type}:`, error);
+      return { ok: false, error: { code: 'HANDLER_FAILED', message: error instanceof Error ? error.message : String(error) } };
+    }
+
+    const response = schemas.response.safeParse(data);
+    if (!response.success) {
+      console.error(`Handler for ${type} returned an invalid response:`, response.error.issues);
+      return { ok: false, error: { code: 'INVALID_RESPONSE', message: `Invalid response to ${type}`, issues: formatIssues(response.error.issues) } };
+    }
+    return { ok: true, data: response.data };
+  }
+
+  // Answers every request sent to this context. Broadcasts are left to the pages that listen for them.
+  static listen(handlers: MessageHandlers): void {
+    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+      if (typeof message?.type === 'string' && isBroadcastType(message.type)) return false;
+      this.dispatch(handlers, message, sender).then(sendResponse);
+      return true; // Keep sendResponse alive for the async reply
+    });
+  }
+}
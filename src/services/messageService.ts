@@ -1,67 +1,105 @@
-import { z } from 'zod';
+import { BroadcastMap, BroadcastType, MessageErrorCode, MessageRequest, MessageResponse, MessageType } from '@/types/messages';
+import { broadcastSchemas, envelopeSchema, formatIssues, messageSchemas, resultSchema } from '@/services/messageProtocol';
 
-const MessageSchema = z.object({
-  type: z.string(),
-  payload: z.unknown(),
-});
+export class MessageError extends Error {
+  constructor(public readonly code: MessageErrorCode, message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'MessageError';
+  }
+}
 
-export class MessageService {
-  static async sendMessage<T>(message: unknown): Promise<T> {
-    // Validate message
-    const validatedMessage = MessageSchema.parse(message);
+interface SendOptions {
+  // Extra attempts when nothing answered, e.g. while the service worker is starting up
+  retries?: number;
+}
 
-    // Add security headers
-    const secureMessage = {
-      ...validatedMessage,
-      timestamp: Date.now(),
-      nonce: crypto.randomUUID(),
-    };
+const isContextInvalidated = (message?: string) => !!message && message.includes('Extension context invalid');
+
+export class MessageService {
+  private static readonly RETRY_DELAY_MS = 100;
 
+  private static rawSend(message: unknown): Promise<unknown> {
     return new Promise((resolve, reject) => {
       try {
-        chrome.runtime.sendMessage(secureMessage, (response) => {
-          if (chrome.runtime.lastError) {
-            // Gracefully handle 'Extension context invalid' error
-            if (
-              chrome.runtime.lastError.message &&
-              chrome.runtime.lastError.message.includes('Extension context invalid')
-            ) {
-              console.warn('Extension context invalid. Skipping message.');
-              resolve(undefined as unknown as T);
-              return;
-            }
-            reject(chrome.runtime.lastError);
+        if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) {
+          throw new MessageError('CONTEXT_INVALIDATED', 'Extension messaging is not available');
+        }
+        chrome.runtime.sendMessage(message, (response) => {
+          const lastError = chrome.runtime.lastError;
+          if (lastError) {
+            reject(isContextInvalidated(lastError.message)
+              ? new MessageError('CONTEXT_INVALIDATED', 'Extension context invalidated')
+              : new MessageError('NO_RECEIVER', lastError.message || 'No response'));
             return;
           }
-          resolve(response as T);
+          resolve(response);
         });
       } catch (err) {
-        // Handle case where chrome.runtime is not available
-        if (
-          err instanceof Error &&
-          err.message.includes('Extension context invalid')
-        ) {
-          console.warn('Extension context invalid. Skipping message.');
-          resolve(undefined as unknown as T);
-          return;
-        }
-        reject(err);
+        if (err instanceof MessageError) reject(err);
+        else if (err instanceof Error && isContextInvalidated(err.message)) reject(new MessageError('CONTEXT_INVALIDATED', 'Extension context invalidated'));
+        else reject(err);
       }
     });
   }
 
-  static async sendMessageWithRetry<T>(message: unknown, maxRetries = 3): Promise<T> {
-    let lastError: Error | null = null;
-    
-    for (let i = 0; i < maxRetries; i++) {
+  /**
+   * Sends a request to the background worker and returns its validated response.
+   * Rejects with a MessageError when the request is malformed, the background rejects it
+   * or its handler fails.
+   */
+  static async send<K extends MessageType>(type: K, payload: MessageRequest<K>, options: SendOptions = {}): Promise<MessageResponse<K>> {
+    const request = messageSchemas[type].request.safeParse(payload);
+    if (!request.success) {
+      throw new MessageError('INVALID_REQUEST', `Invalid payload for ${type}`, formatIssues(request.error.issues));
+    }
+
+    const retries = options.retries ?? 0;
+    let raw: unknown;
+    for (let attempt = 0; ; attempt++) {
       try {
-        return await this.sendMessage<T>(message);
+        raw = await this.rawSend({ type, payload: request.data });
+        if (raw === undefined) throw new MessageError('NO_RECEIVER', `No handler answered ${type}`);
+        break;
       } catch (error) {
-        lastError = error as Error;
-        await new Promise(resolve => setTimeout(resolve, 100 * Math.pow(2, i)));
+        if (!(error instanceof MessageError) || error.code !== 'NO_RECEIVER' || attempt >= retries) throw error;
+        await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY_MS * Math.pow(2, attempt)));
       }
     }
 
-    throw lastError || new Error('Failed to send message after retries');
+    const result = resultSchema.safeParse(raw);
+    if (!result.success) {
+      throw new MessageError('INVALID_RESPONSE', `Malformed reply to ${type}`, formatIssues(result.error.issues));
+    }
+    if (!result.data.ok) {
+      const { code, message, issues } = result.data.error;
+      throw new MessageError(code, message, issues);
+    }
+    const response = messageSchemas[type].response.safeParse(result.data.data);
+    if (!response.success) {
+      throw new MessageError('INVALID_RESPONSE', `Invalid response to ${type}`, formatIssues(response.error.issues));
+    }
+    return response.data;
+  }
+
+  // Notifies open extension pages. Having no page open to receive it is not an error.
+  static broadcast<K extends BroadcastType>(type: K, payload: BroadcastMap[K]): void {
+    const parsed = broadcastSchemas[type].parse(payload);
+    this.rawSend({ type, payload: parsed }).catch(() => undefined);
+  }
+
+  // Calls handler for each valid broadcast of the given type. Returns an unsubscribe function.
+  static onBroadcast<K extends BroadcastType>(type: K, handler: (payload: BroadcastMap[K]) => void): () => void {
+    const listener = (message: unknown) => {
+      const envelope = envelopeSchema.safeParse(message);
+      if (!envelope.success || envelope.data.type !== type) return;
+      const payload = broadcastSchemas[type].safeParse(envelope.data.payload);
+      if (!payload.success) {
+        console.warn(`Ignoring malformed ${type} broadcast:`, formatIssues(payload.error.issues));
+        return;
+      }
+      handler(payload.data);
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
   }
-} 
\ No newline at end of file
+}
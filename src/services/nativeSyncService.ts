@@ -0,0 +1,381 @@
+import { BookmarkNode } from '@/types/bookmark';
+import { NativeSyncState, SyncConflictResolution, SyncFingerprint, SyncMapping } from '@/types/sync';
+import { BookmarkService } from '@/services/bookmarkService';
+import { StorageService } from '@/services/storageService';
+import { UrlTemplateService } from '@/services/urlTemplateService';
+
+type NativeNode = chrome.bookmarks.BookmarkTreeNode;
+
+const INITIAL_STATE: NativeSyncState = {
+  rootId: null,
+  mappings: [],
+  conflicts: [],
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+const sameFingerprint = (a: SyncFingerprint | null, b: SyncFingerprint | null) =>
+  a === b || (!!a && !!b && a.title === b.title && a.url === b.url && a.parentId === b.parentId);
+
+const localFingerprint = (node: BookmarkNode): SyncFingerprint => ({
+  title: node.title,
+  url: node.type === 'bookmark' ? node.url ?? null : null,
+  parentId: node.parentId,
+});
+
+// Chrome percent-encodes the braces of a URL template's path ({org} becomes %7Borg%7D), which
+// would break the template on its way back, so templates are kept out of Chrome altogether
+const syncable = (node: BookmarkNode) => !UrlTemplateService.isTemplate(node.url);
+
+// Flattens the native subtree below the root, parents before children
+const flattenNative = (root: NativeNode): NativeNode[] => {
+  const nodes: NativeNode[] = [];
+  const queue = [...(root.children ?? [])];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    nodes.push(node);
+    queue.push(...(node.children ?? []));
+  }
+  return nodes;
+};
+
+// Orders local nodes so every folder comes before its contents
+const sortParentsFirst = (nodes: BookmarkNode[]): BookmarkNode[] => {
+  const ids = new Set(nodes.map(node => node.id));
+  const sorted: BookmarkNode[] = [];
+  const placed = new Set<string>();
+  let remaining = nodes;
+  while (remaining.length > 0) {
+    const next = remaining.filter(node => !node.parentId || !ids.has(node.parentId) || placed.has(node.parentId));
+    if (next.length === 0) return [...sorted, ...remaining]; // Cycle; keep the rest in storage order
+    next.forEach(node => placed.add(node.id));
+    sorted.push(...next);
+    remaining = remaining.filter(node => !placed.has(node.id));
+  }
+  return sorted;
+};
+
+/**
+ * Mirrors the extension's folders and bookmarks into a "Forethought Toolbox" folder in
+ * Chrome's bookmark bar and applies changes from either side to the other.
+ *
+ * Every run is a three-way merge: each mapped node keeps the title/url/parent both sides
+ * agreed on last time (the base). A side that differs from the base changed; if both
+ * changed differently the node is recorded as a conflict and left alone until resolved.
+ * Our own writes show up as events too, but by then both sides match the base again, so
+ * the run they trigger is a no-op. Tags, categories, descriptions and URL templates only
+ * live in the extension and are never touched by sync.
+ */
+export class NativeSyncService {
+  static readonly ROOT_TITLE = 'Forethought Toolbox';
+  private static readonly STATE_KEY = 'nativeSyncState' as const;
+  private static readonly ENABLED_KEY = 'nativeSyncEnabled' as const;
+  private static queue: Promise<void> = Promise.resolve();
+  private static queued: Promise<void> | null = null;
+  private static listening = false;
+
+  static async isEnabled(): Promise<boolean> {
+    return (await StorageService.get(this.ENABLED_KEY)) === true;
+  }
+
+  static async getState(): Promise<NativeSyncState> {
+    return (await StorageService.get(this.STATE_KEY)) ?? INITIAL_STATE;
+  }
+
+  // Registers the bookmark and storage listeners. Must be called synchronously at service
+  // worker startup so Chrome wakes the worker for these events.
+  static start(): void {
+    if (this.listening) return;
+    this.listening = true;
+    const onNativeChange = () => { this.sync().catch(() => undefined); };
+    chrome.bookmarks.onCreated.addListener(onNativeChange);
+    chrome.bookmarks.onChanged.addListener(onNativeChange);
+    chrome.bookmarks.onMoved.addListener(onNativeChange);
+    chrome.bookmarks.onRemoved.addListener(onNativeChange);
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && (changes.bookmarks || changes[this.ENABLED_KEY])) {
+        this.sync().catch(() => undefined);
+      }
+    });
+    this.sync().catch(() => undefined);
+  }
+
+  // Queues a sync run. Calls made while a run is waiting share it instead of queueing more.
+  static sync(): Promise<void> {
+    if (this.queued) return this.queued;
+    const run = this.queue.then(() => {
+      this.queued = null;
+      return this.recordingErrors(() => this.reconcile());
+    });
+    this.queued = run;
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  static resolveConflict(localId: string, keep: SyncConflictResolution): Promise<void> {
+    const run = this.queue.then(() => this.recordingErrors(() => this.applyResolution(localId, keep)));
+    this.queue = run.catch(() => undefined);
+    return run.then(() => this.sync());
+  }
+
+  private static async recordingErrors(task: () => Promise<void>): Promise<void> {
+    try {
+      await task();
+    } catch (error) {
+      console.error('Bookmark sync failed:', error);
+      const state = await this.getState();
+      await StorageService.set(this.STATE_KEY, {
+        ...state,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  // Finds or creates the sync root. Mappings only make sense for the root they were made in.
+  private static async ensureRoot(state: NativeSyncState): Promise<NativeSyncState> {
+    if (state.rootId) {
+      try {
+        const [existing] = await chrome.bookmarks.get(state.rootId);
+        if (existing && !existing.url) return state;
+      } catch {
+        // Root was deleted; fall through and recreate it
+      }
+    }
+    const [tree] = await chrome.bookmarks.getTree();
+    const bookmarkBar = tree.children?.[0];
+    if (!bookmarkBar) throw new Error('Chrome bookmark bar not found');
+    const found = bookmarkBar.children?.find(node => !node.url && node.title === this.ROOT_TITLE);
+    const root = found ?? await chrome.bookmarks.create({ parentId: bookmarkBar.id, title: this.ROOT_TITLE });
+    return { ...state, rootId: root.id, mappings: [], conflicts: [] };
+  }
+
+  private static async reconcile(): Promise<void> {
+    await StorageService.migrate();
+    if (!(await this.isEnabled())) return;
+    const state = await this.ensureRoot(await this.getState());
+    const rootId = state.rootId!;
+    const [root] = await chrome.bookmarks.getSubTree(rootId);
+    const nativeNodes = flattenNative(root);
+    const nativeById = new Map(nativeNodes.map(node => [node.id, node]));
+
+    const mappings = new Map(state.mappings.map(mapping => [mapping.localId, { ...mapping }]));
+    const byNative = new Map(Array.from(mappings.values()).map(mapping => [mapping.nativeId, mapping]));
+    const conflicts = [...state.conflicts];
+    const inConflict = new Set(conflicts.map(conflict => conflict.localId));
+    const errors: string[] = [];
+
+    const addMapping = (mapping: SyncMapping) => {
+      mappings.set(mapping.localId, mapping);
+      byNative.set(mapping.nativeId, mapping);
+    };
+    const dropMapping = (mapping: SyncMapping) => {
+      mappings.delete(mapping.localId);
+      byNative.delete(mapping.nativeId);
+    };
+    const localParentOf = (nativeParentId: string | undefined): string | null | undefined =>
+      nativeParentId === rootId ? null : byNative.get(nativeParentId ?? '')?.localId;
+    const nativeParentOf = (localParentId: string | null): string =>
+      (localParentId && mappings.get(localParentId)?.nativeId) || rootId;
+    const nativeFingerprint = (node: NativeNode): SyncFingerprint => ({
+      title: node.title,
+      url: node.url ?? null,
+      parentId: localParentOf(node.parentId) ?? null,
+    });
+    const attempt = async (label: string, action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (error) {
+        errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    await BookmarkService.transaction(async draft => {
+      const localById = new Map(draft.map(node => [node.id, node]));
+      const replaceLocal = (node: BookmarkNode) => {
+        const index = draft.findIndex(existing => existing.id === node.id);
+        if (index === -1) draft.push(node); else draft[index] = node;
+        localById.set(node.id, node);
+      };
+
+      // 1. Link unmapped nodes that already exist on both sides (e.g. the root folder was
+      //    synced from another device that has the same library), so they are not duplicated
+      const unmappedLocal = draft.filter(node => !mappings.has(node.id) && syncable(node));
+      for (const native of nativeNodes) {
+        if (byNative.has(native.id)) continue;
+        const parentId = localParentOf(native.parentId);
+        if (parentId === undefined) continue;
+        const match = unmappedLocal.find(node => !mappings.has(node.id) && node.parentId === parentId && (native.url
+          ? node.type === 'bookmark' && node.url === native.url
+          : node.type === 'folder' && node.title === native.title));
+        if (match) addMapping({ localId: match.id, nativeId: native.id, base: nativeFingerprint(native) });
+      }
+
+      // 2. Nodes created in Chrome become extension nodes
+      for (const native of nativeNodes) {
+        if (byNative.has(native.id)) continue;
+        const now = new Date().toISOString();
+        const node: BookmarkNode = native.url
+          ? { id: crypto.randomUUID(), type: 'bookmark', title: native.title, url: native.url, parentId: localParentOf(native.parentId) ?? null, tags: [], createdAt: now }
+          : { id: crypto.randomUUID(), type: 'folder', title: native.title, parentId: localParentOf(native.parentId) ?? null, createdAt: now };
+        replaceLocal(node);
+        addMapping({ localId: node.id, nativeId: native.id, base: localFingerprint(node) });
+      }
+
+      // 3. Nodes created in the extension are mirrored into Chrome
+      for (const node of sortParentsFirst(draft.filter(node => !mappings.has(node.id) && syncable(node)))) {
+        await attempt(`Create "${node.title}"`, async () => {
+          const created = await chrome.bookmarks.create({
+            parentId: nativeParentOf(node.parentId),
+            title: node.title,
+            ...(node.type === 'bookmark' ? { url: node.url } : {}),
+          });
+          nativeById.set(created.id, created);
+          addMapping({ localId: node.id, nativeId: created.id, base: localFingerprint(node) });
+        });
+      }
+
+      // 4. Three-way merge of everything that was already mapped
+      const nativeRemovals: SyncMapping[] = [];
+      const localRemovals = new Set<string>();
+      for (const mapping of Array.from(mappings.values())) {
+        if (inConflict.has(mapping.localId)) continue;
+        const local = localById.get(mapping.localId) ?? null;
+        const native = nativeById.get(mapping.nativeId) ?? null;
+        if (!local && !native) {
+          dropMapping(mapping);
+          continue;
+        }
+        if (local && !syncable(local)) {
+          // Became a template since it was mirrored
+          if (native) nativeRemovals.push(mapping); else dropMapping(mapping);
+          continue;
+        }
+        const localState = local && localFingerprint(local);
+        const nativeState = native && nativeFingerprint(native);
+        const localChanged = !sameFingerprint(localState, mapping.base);
+        const nativeChanged = !sameFingerprint(nativeState, mapping.base);
+        if (!localChanged && !nativeChanged) continue;
+
+        if (sameFingerprint(localState, nativeState)) {
+          mapping.base = localState!;
+        } else if (localChanged && nativeChanged) {
+          conflicts.push({ localId: mapping.localId, nativeId: mapping.nativeId, local: localState, native: nativeState, detectedAt: new Date().toISOString() });
+          inConflict.add(mapping.localId);
+        } else if (localChanged) {
+          if (!local) {
+            nativeRemovals.push(mapping);
+          } else {
+            await attempt(`Update "${local.title}"`, async () => {
+              await this.pushToNative(mapping.nativeId, localState!, nativeState!, nativeParentOf(local.parentId));
+              mapping.base = localState!;
+            });
+          }
+        } else if (!native) {
+          localRemovals.add(mapping.localId);
+          dropMapping(mapping);
+        } else {
+          replaceLocal({ ...local!, title: nativeState!.title, parentId: nativeState!.parentId, ...(local!.type === 'bookmark' ? { url: nativeState!.url ?? '' } : {}) });
+          mapping.base = nativeState!;
+        }
+      }
+
+      // 5. Deletions run last so moves out of a deleted folder are applied first
+      for (const mapping of nativeRemovals) {
+        await attempt('Remove bookmark', async () => {
+          try {
+            await chrome.bookmarks.removeTree(mapping.nativeId);
+          } catch (error) {
+            // Fine if it already went away with its parent folder
+            const stillExists = await chrome.bookmarks.get(mapping.nativeId).then(() => true, () => false);
+            if (stillExists) throw error;
+          }
+          dropMapping(mapping);
+        });
+      }
+      if (localRemovals.size > 0) {
+        const remaining = draft.filter(node => !localRemovals.has(node.id));
+        const remainingIds = new Set(remaining.map(node => node.id));
+        draft.splice(0, draft.length, ...remaining.map(node =>
+          node.parentId && !remainingIds.has(node.parentId) ? { ...node, parentId: null } : node
+        ));
+      }
+    });
+
+    await StorageService.set(this.STATE_KEY, {
+      rootId,
+      mappings: Array.from(mappings.values()),
+      conflicts,
+      lastSyncedAt: new Date().toISOString(),
+      lastError: errors.length > 0 ? errors.join('\n') : null,
+    });
+  }
+
+  private static async pushToNative(nativeId: string, local: SyncFingerprint, native: SyncFingerprint, nativeParentId: string): Promise<void> {
+    if (local.title !== native.title || local.url !== native.url) {
+      await chrome.bookmarks.update(nativeId, { title: local.title, ...(local.url !== null ? { url: local.url } : {}) });
+    }
+    if (local.parentId !== native.parentId) {
+      await chrome.bookmarks.move(nativeId, { parentId: nativeParentId });
+    }
+  }
+
+  private static async applyResolution(localId: string, keep: SyncConflictResolution): Promise<void> {
+    const state = await this.getState();
+    const conflict = state.conflicts.find(item => item.localId === localId);
+    if (!conflict || !state.rootId) return;
+    const rootId = state.rootId;
+    let mappings = state.mappings.filter(mapping => mapping.localId !== localId);
+    const nativeParentOf = (localParentId: string | null) =>
+      (localParentId && mappings.find(mapping => mapping.localId === localParentId)?.nativeId) || rootId;
+    const native = await chrome.bookmarks.get(conflict.nativeId).then(([node]) => node ?? null, () => null);
+
+    await BookmarkService.transaction(async draft => {
+      const index = draft.findIndex(node => node.id === localId);
+      const local = index === -1 ? null : draft[index];
+
+      if (keep === 'extension') {
+        if (!local) {
+          if (native) await chrome.bookmarks.removeTree(native.id);
+          return;
+        }
+        const localState = localFingerprint(local);
+        let nativeId = native?.id;
+        if (native) {
+          const nativeParent = mappings.find(mapping => mapping.nativeId === native.parentId)?.localId ?? null;
+          await this.pushToNative(native.id, localState, { title: native.title, url: native.url ?? null, parentId: nativeParent }, nativeParentOf(local.parentId));
+        } else {
+          nativeId = (await chrome.bookmarks.create({
+            parentId: nativeParentOf(local.parentId),
+            title: local.title,
+            ...(local.type === 'bookmark' ? { url: local.url } : {}),
+          })).id;
+        }
+        mappings = [...mappings, { localId, nativeId: nativeId!, base: localState }];
+        return;
+      }
+
+      if (!native) {
+        if (local) draft.splice(index, 1);
+        return;
+      }
+      const parentId = native.parentId === rootId
+        ? null
+        : mappings.find(mapping => mapping.nativeId === native.parentId)?.localId ?? null;
+      const base: SyncFingerprint = { title: native.title, url: native.url ?? null, parentId };
+      const resolved: BookmarkNode = local
+        ? { ...local, title: native.title, parentId, ...(local.type === 'bookmark' ? { url: native.url ?? '' } : {}) }
+        : native.url
+          ? { id: localId, type: 'bookmark', title: native.title, url: native.url, parentId, tags: [], createdAt: new Date().toISOString() }
+          : { id: localId, type: 'folder', title: native.title, parentId, createdAt: new Date().toISOString() };
+      if (local) draft[index] = resolved; else draft.push(resolved);
+      mappings = [...mappings, { localId, nativeId: native.id, base }];
+    });
+
+    await StorageService.set(this.STATE_KEY, {
+      ...state,
+      mappings,
+      conflicts: state.conflicts.filter(item => item.localId !== localId),
+    });
+  }
+}
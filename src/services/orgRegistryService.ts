@@ -0,0 +1,184 @@
+import Fuse from 'fuse.js';
+import { OrgEntry, OrgEnvironment, OrgImportSummary } from '@/types/org';
+import { StorageService } from '@/services/storageService';
+
+// Names compare the way fix_dashboard_orgid.cjs matched them: ignoring case and spaces
+const normalize = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+const byName = (a: OrgEntry, b: OrgEntry) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+/**
+ * The dashboard orgs support engineers switch between, with their org_ids, aliases and
+ * environments. Edited in settings, searched by Command+K's org: mode, and used to turn an
+ * `?org=` id in a dashboard link back into the name the dashboard's org picker searches for.
+ */
+export class OrgRegistryService {
+  static readonly DASHBOARD_ORIGIN = 'https://dashboard-int.forethought.tech';
+  static readonly DASHBOARD_PATH = '/discover/dashboard';
+  static readonly THRESHOLD = 0.4;
+  // Added to a favourite's rank, enough to lift it over slightly better matches
+  static readonly FAVORITE_BOOST = 0.25;
+
+  static async getOrgs(): Promise<OrgEntry[]> {
+    return (await StorageService.get('orgRegistry')) ?? [];
+  }
+
+  static async saveOrgs(orgs: OrgEntry[]): Promise<void> {
+    await StorageService.set('orgRegistry', [...orgs].sort(byName));
+  }
+
+  // Guesses an environment from how orgs are usually named ("acme-sandbox", "acme sbox", "Acme Test")
+  static inferEnvironment(name: string): OrgEnvironment {
+    if (/sandbox|sanbox|sbox/i.test(name)) return 'sandbox';
+    if (/\b(test|demo|mock|training|bug-bash)/i.test(name)) return 'test';
+    return 'prod';
+  }
+
+  static fromOrgMap(map: Record<string, number>): OrgEntry[] {
+    return Object.entries(map)
+      .filter(([name, id]) => name.trim() && Number.isInteger(id) && id >= 0)
+      .map(([name, id]) => ({
+        id,
+        name: name.trim(),
+        aliases: [],
+        environment: this.inferEnvironment(name),
+        favorite: false,
+      }));
+  }
+
+  /**
+   * Reads orgs from pasted text: a JSON object of names to ids, a JSON list of registry
+   * entries, or source containing `"name": id` pairs such as the orgMap in
+   * fix_dashboard_orgid.cjs. Throws if no org can be read.
+   */
+  static parseOrgList(text: string): OrgEntry[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = undefined;
+    }
+
+    let orgs: OrgEntry[];
+    if (Array.isArray(parsed)) {
+      orgs = parsed
+        .filter((entry): entry is Partial<OrgEntry> => !!entry && typeof entry === 'object')
+        .filter(entry => typeof entry.name === 'string' && typeof entry.id === 'number')
+        .map(entry => ({
+          id: entry.id as number,
+          name: (entry.name as string).trim(),
+          aliases: Array.isArray(entry.aliases) ? entry.aliases.filter(alias => typeof alias === 'string') : [],
+          environment: entry.environment ?? this.inferEnvironment(entry.name as string),
+          favorite: entry.favorite === true,
+        }));
+    } else if (parsed && typeof parsed === 'object') {
+      const map = Object.fromEntries(Object.entries(parsed).filter(([, id]) => typeof id === 'number'));
+      orgs = this.fromOrgMap(map);
+    } else {
+      const map: Record<string, number> = {};
+      for (const [, name, id] of text.matchAll(/"((?:[^"\\]|\\.)+)"\s*:\s*(\d+)/g)) {
+        map[name.replace(/\\(.)/g, '$1')] = Number(id);
+      }
+      orgs = this.fromOrgMap(map);
+    }
+
+    if (orgs.length === 0) {
+      throw new Error('No orgs found. Paste a JSON object of org names to ids, or the orgMap from fix_dashboard_orgid.cjs.');
+    }
+    return orgs;
+  }
+
+  /**
+   * Adds imported orgs to the registry. Orgs already registered keep their name, aliases,
+   * environment and favourite; an imported name they are not known by becomes an alias.
+   */
+  static merge(existing: OrgEntry[], incoming: OrgEntry[]): { orgs: OrgEntry[]; summary: OrgImportSummary } {
+    const orgs = new Map(existing.map(org => [org.id, org]));
+    const summary: OrgImportSummary = { added: 0, renamed: 0, unchanged: 0 };
+
+    incoming.forEach(org => {
+      const current = orgs.get(org.id);
+      if (!current) {
+        orgs.set(org.id, org);
+        summary.added++;
+      } else if ([current.name, ...current.aliases].some(name => normalize(name) === normalize(org.name))) {
+        summary.unchanged++;
+      } else {
+        orgs.set(org.id, { ...current, aliases: [...current.aliases, org.name] });
+        summary.renamed++;
+      }
+    });
+
+    return { orgs: [...orgs.values()].sort(byName), summary };
+  }
+
+  /**
+   * Orgs matching a query, best first: an exact org_id, then fuzzy matches on name and
+   * aliases, with favourites lifted. An empty query lists favourites first, then by name.
+   */
+  static search(orgs: OrgEntry[], query: string, limit: number = Infinity): OrgEntry[] {
+    const term = query.trim();
+    if (!term) {
+      return [...orgs].sort((a, b) => Number(b.favorite) - Number(a.favorite) || byName(a, b)).slice(0, limit);
+    }
+
+    const exact = /^\d+$/.test(term) ? orgs.filter(org => org.id === Number(term)) : [];
+    const fuse = new Fuse(orgs, {
+      keys: [{ name: 'name', weight: 2 }, { name: 'aliases', weight: 1 }],
+      threshold: this.THRESHOLD,
+      ignoreLocation: true,
+      includeScore: true,
+    });
+    const ranked = fuse.search(term)
+      .filter(result => !exact.includes(result.item))
+      .map(result => ({ org: result.item, rank: 1 - (result.score ?? 1) + (result.item.favorite ? this.FAVORITE_BOOST : 0) }))
+      .sort((a, b) => b.rank - a.rank)
+      .map(result => result.org);
+    return [...exact, ...ranked].slice(0, limit);
+  }
+
+  // The org an `?org=` value names: an org_id, or a name or alias
+  static resolve(orgs: OrgEntry[], value: string): OrgEntry | undefined {
+    const term = value.trim();
+    if (/^\d+$/.test(term)) return orgs.find(org => org.id === Number(term));
+    const wanted = normalize(term);
+    return orgs.find(org => [org.name, ...org.aliases].some(name => normalize(name) === wanted));
+  }
+
+  static isDashboardUrl(url: string): boolean {
+    try {
+      return new URL(url).origin === this.DASHBOARD_ORIGIN;
+    } catch {
+      return false;
+    }
+  }
+
+  // The URL with its org parameter set, which the content script switches the dashboard to on load
+  static withOrg(url: string, orgId: number): string {
+    const parsed = new URL(url);
+    parsed.searchParams.set('org', String(orgId));
+    return parsed.toString();
+  }
+
+  /**
+   * Switches a dashboard tab to the org by loading it with `?org=`: the active dashboard tab
+   * in the window, else any dashboard tab, else a new one. Returns the tab's id.
+   */
+  static async openInDashboard(orgId: number, windowId?: number): Promise<number> {
+    const tabs = await chrome.tabs.query({ url: `${this.DASHBOARD_ORIGIN}/*` });
+    const tab = tabs.find(t => t.active && t.windowId === windowId)
+      ?? tabs.find(t => t.windowId === windowId)
+      ?? tabs[0];
+
+    if (tab?.id !== undefined) {
+      const url = tab.url && this.isDashboardUrl(tab.url) ? tab.url : `${this.DASHBOARD_ORIGIN}${this.DASHBOARD_PATH}`;
+      await chrome.tabs.update(tab.id, { url: this.withOrg(url, orgId), active: true });
+      await chrome.windows.update(tab.windowId, { focused: true });
+      return tab.id;
+    }
+
+    const created = await chrome.tabs.create({ url: this.withOrg(`${this.DASHBOARD_ORIGIN}${this.DASHBOARD_PATH}`, orgId), windowId });
+    if (created.id === undefined) throw new Error('Dashboard tab could not be opened');
+    return created.id;
+  }
+}
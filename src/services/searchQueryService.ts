@@ -0,0 +1,333 @@
+import { BookmarkCategory, BookmarkNode, SearchFilter } from '@/types/bookmark';
+import { ParsedQuery, QueryError, QuerySources, QuerySuggestions } from '@/types/searchQuery';
+
+type QueryKey = 'tag' | 'cat' | 'domain' | 'title' | 'url' | 'created' | 'clicks';
+
+// Filter keys the search box understands, in the order they are suggested
+export const QUERY_KEYS: { key: QueryKey; aliases: string[]; description: string; example: string }[] = [
+  { key: 'tag', aliases: ['tags'], description: 'Has any of the tags', example: 'tag:prod,staging' },
+  { key: 'cat', aliases: ['category'], description: 'In any of the categories', example: 'cat:"Retool"' },
+  { key: 'domain', aliases: ['site'], description: 'On the site or its subdomains', example: 'domain:forethought.tech' },
+  { key: 'title', aliases: [], description: 'Title contains', example: 'title:dashboard' },
+  { key: 'url', aliases: [], description: 'URL contains', example: 'url:/settings' },
+  { key: 'created', aliases: ['added'], description: 'Added on, before or after a date', example: 'created:>2025-01-01' },
+  { key: 'clicks', aliases: ['opens'], description: 'Opened this many times', example: 'clicks:>5' },
+];
+
+// Keys that can be negated with a leading "-", besides plain words
+const NEGATABLE = new Set<QueryKey>(['tag', 'cat', 'domain']);
+// Keys whose value is a comma-separated list
+const LISTS = new Set<QueryKey>(['tag', 'cat', 'domain']);
+
+const KEY_NAMES = new Map<string, QueryKey>(QUERY_KEYS.flatMap(({ key, aliases }) => [key, ...aliases].map(name => [name, key] as [string, QueryKey])));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface Token {
+  start: number;
+  end: number;
+  negated: boolean;
+  key: QueryKey | null;
+  value: string;
+  quoted: boolean;
+  unterminated: boolean;
+}
+
+// Splits a query into words, "phrases" and key:value filters. Unknown keys (as in a pasted
+// https://… URL) are left as plain words.
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    const keyMatch = /^([a-z]+):/i.exec(query.slice(i));
+    const key = keyMatch ? KEY_NAMES.get(keyMatch[1].toLowerCase()) ?? null : null;
+    if (keyMatch && key) i += keyMatch[0].length;
+
+    let value: string;
+    let quoted = false;
+    let unterminated = false;
+    if (query[i] === '"') {
+      quoted = true;
+      const close = query.indexOf('"', i + 1);
+      unterminated = close === -1;
+      value = query.slice(i + 1, unterminated ? query.length : close);
+      i = unterminated ? query.length : close + 1;
+    } else {
+      const valueStart = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(valueStart, i);
+    }
+    tokens.push({ start, end: i, negated, key, value, quoted, unterminated });
+  }
+  return tokens;
+};
+
+const shiftDate = (date: string, days: number) => new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+const isDate = (value: string) => DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const isCount = (value: string) => /^\d+$/.test(value);
+
+const later = (a: string, b: string) => (!a ? b : !b ? a : a > b ? a : b);
+const earlier = (a: string, b: string) => (!a ? b : !b ? a : a < b ? a : b);
+const larger = (a: string, b: string) => (!a ? b : !b ? a : String(Math.max(Number(a), Number(b))));
+const smaller = (a: string, b: string) => (!a ? b : !b ? a : String(Math.min(Number(a), Number(b))));
+
+/**
+ * Turns a comparison such as ">5", "<=2025-01-31", "2..10" or "7" into inclusive bounds.
+ * step moves a strict bound past the value: one day for dates, one for counts.
+ */
+const parseBounds = (
+  value: string,
+  valid: (part: string) => boolean,
+  step: (part: string, by: number) => string,
+): { min: string; max: string } | null => {
+  const range = /^(.*)\.\.(.*)$/.exec(value);
+  if (range) {
+    const [, from, to] = range;
+    if ((from && !valid(from)) || (to && !valid(to)) || (!from && !to)) return null;
+    return { min: from, max: to };
+  }
+  const comparison = /^(>=|<=|>|<)?(.*)$/.exec(value)!;
+  const [, operator, operand] = comparison;
+  if (!valid(operand)) return null;
+  switch (operator) {
+    case '>': return { min: step(operand, 1), max: '' };
+    case '>=': return { min: operand, max: '' };
+    case '<': return { min: '', max: step(operand, -1) };
+    case '<=': return { min: '', max: operand };
+    default: return { min: operand, max: operand };
+  }
+};
+
+const hostOf = (url: string | undefined) => {
+  if (!url) return '';
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+const onDomain = (host: string, domain: string) => !!host && (host === domain || host.endsWith(`.${domain}`));
+
+const needsQuotes = (value: string) => /[\s",]/.test(value);
+
+/**
+ * The bookmark table's search language: words and "exact phrases" plus filters such as
+ * tag:prod, cat:"Retool", domain:forethought.tech, created:>2025-01-01 and clicks:>5, any of
+ * them negated with a leading "-" where that makes sense. Queries parse into the same
+ * SearchFilter the advanced search panel edits, and matches() applies either.
+ */
+export class SearchQueryService {
+  static emptyFilter(): SearchFilter {
+    return {
+      title: '',
+      url: '',
+      tags: [],
+      categoryIds: [],
+      dateRange: { start: '', end: '' },
+      accessCount: { min: '', max: '' },
+      text: [],
+      domains: [],
+      exclude: { text: [], tags: [], categoryIds: [], domains: [] },
+    };
+  }
+
+  // True when the filter lets every bookmark through
+  static isEmpty(filter: SearchFilter): boolean {
+    const categories = filter.categoryIds.filter(id => id !== 'all');
+    return !filter.title && !filter.url && filter.tags.length === 0 && categories.length === 0
+      && !filter.dateRange.start && !filter.dateRange.end && !filter.accessCount.min && !filter.accessCount.max
+      && filter.text.length === 0 && filter.domains.length === 0
+      && Object.values(filter.exclude).every(values => values.length === 0);
+  }
+
+  static parse(query: string, categories: BookmarkCategory[] = []): ParsedQuery {
+    const filter = this.emptyFilter();
+    const errors: QueryError[] = [];
+
+    for (const token of tokenize(query)) {
+      const fail = (message: string) => errors.push({ start: token.start, end: token.end, message });
+      const name = token.key ? `${token.key}:` : '';
+
+      if (token.unterminated) {
+        fail('Missing closing quote');
+        continue;
+      }
+      if (!token.key) {
+        if (!token.value) continue;
+        (token.negated ? filter.exclude.text : filter.text).push(token.value.toLowerCase());
+        continue;
+      }
+      if (!token.value.trim()) {
+        fail(`${name} needs a value`);
+        continue;
+      }
+      if (token.negated && !NEGATABLE.has(token.key)) {
+        fail(`${name} can't be negated`);
+        continue;
+      }
+
+      const values = LISTS.has(token.key) && !token.quoted
+        ? token.value.split(',').map(value => value.trim()).filter(Boolean)
+        : [token.value.trim()];
+      switch (token.key) {
+        case 'tag':
+          (token.negated ? filter.exclude.tags : filter.tags).push(...values);
+          break;
+        case 'cat': {
+          const ids: string[] = [];
+          for (const value of values) {
+            const lower = value.toLowerCase();
+            const category = categories.find(c => c.id === value || c.name.toLowerCase() === lower);
+            if (category) ids.push(category.id);
+            else if (lower === 'none' || lower === 'uncategorized') ids.push('uncategorized');
+            else fail(`No category named "${value}"`);
+          }
+          (token.negated ? filter.exclude.categoryIds : filter.categoryIds).push(...ids);
+          break;
+        }
+        case 'domain':
+          (token.negated ? filter.exclude.domains : filter.domains).push(...values.map(value => value.toLowerCase().replace(/^www\./, '')));
+          break;
+        case 'title':
+        case 'url':
+          if (filter[token.key]) fail(`Only one ${name} filter can be used`);
+          else filter[token.key] = values[0];
+          break;
+        case 'created': {
+          const bounds = parseBounds(values[0], isDate, shiftDate);
+          if (!bounds) {
+            fail('Dates look like created:2025-01-31, created:>2025-01-01 or created:2025-01-01..2025-03-31');
+            break;
+          }
+          filter.dateRange = { start: later(filter.dateRange.start, bounds.min), end: earlier(filter.dateRange.end, bounds.max) };
+          break;
+        }
+        case 'clicks': {
+          const bounds = parseBounds(values[0], isCount, (count, by) => String(Math.max(0, Number(count) + by)));
+          if (!bounds) {
+            fail('Counts look like clicks:5, clicks:>5 or clicks:2..10');
+            break;
+          }
+          filter.accessCount = { min: larger(filter.accessCount.min, bounds.min), max: smaller(filter.accessCount.max, bounds.max) };
+          break;
+        }
+      }
+    }
+    return { filter, errors };
+  }
+
+  /**
+   * Whether a bookmark passes a filter. Each part that is set must match; lists of tags,
+   * categories and domains match when any entry does, and excluded entries must not match.
+   */
+  static matches(node: BookmarkNode, filter: SearchFilter): boolean {
+    const title = (node.title || '').toLowerCase();
+    const url = (node.url || '').toLowerCase();
+    const tags = (node.tags || []).map(tag => tag.toLowerCase());
+    const haystack = [title, url, ...tags, (node.description || '').toLowerCase()].join('\n');
+    const host = hostOf(node.url);
+    const category = node.categoryId && node.categoryId !== 'uncategorized' ? node.categoryId : 'uncategorized';
+
+    if (!filter.text.every(term => haystack.includes(term.toLowerCase()))) return false;
+    if (filter.exclude.text.some(term => haystack.includes(term.toLowerCase()))) return false;
+    if (filter.title && !title.includes(filter.title.toLowerCase())) return false;
+    if (filter.url && !url.includes(filter.url.toLowerCase())) return false;
+
+    if (filter.tags.length > 0) {
+      // The advanced panel's "Empty Tags" option
+      const wantsUntagged = filter.tags.includes('__empty__') && tags.length === 0;
+      if (!wantsUntagged && !filter.tags.some(tag => tags.includes(tag.toLowerCase()))) return false;
+    }
+    if (filter.exclude.tags.some(tag => tags.includes(tag.toLowerCase()))) return false;
+
+    const categoryIds = filter.categoryIds.filter(id => id !== 'all');
+    if (categoryIds.length > 0 && !filter.categoryIds.includes('all') && !categoryIds.includes(category)) return false;
+    if (filter.exclude.categoryIds.includes(category)) return false;
+
+    if (filter.domains.length > 0 && !filter.domains.some(domain => onDomain(host, domain))) return false;
+    if (filter.exclude.domains.some(domain => onDomain(host, domain))) return false;
+
+    if (filter.dateRange.start || filter.dateRange.end) {
+      const createdAt = new Date(node.createdAt || '').getTime();
+      const start = filter.dateRange.start ? new Date(filter.dateRange.start).getTime() : -Infinity;
+      // The end date is inclusive: anything added that day matches
+      const end = filter.dateRange.end ? new Date(filter.dateRange.end).getTime() + DAY_MS : Infinity;
+      if (!(createdAt >= start && createdAt < end)) return false;
+    }
+
+    if (filter.accessCount.min || filter.accessCount.max) {
+      const count = node.accessCount || 0;
+      const min = filter.accessCount.min ? parseInt(filter.accessCount.min) : 0;
+      const max = filter.accessCount.max ? parseInt(filter.accessCount.max) : Infinity;
+      if (count < min || count > max) return false;
+    }
+    return true;
+  }
+
+  // Tags, categories and domains to complete from
+  static sources(nodes: BookmarkNode[], categories: BookmarkCategory[]): QuerySources {
+    const tags = new Set<string>();
+    const domains = new Set<string>();
+    nodes.forEach(node => {
+      node.tags?.forEach(tag => tags.add(tag));
+      const host = hostOf(node.url);
+      if (host) domains.add(host);
+    });
+    return { tags: Array.from(tags).sort(), categories, domains: Array.from(domains).sort() };
+  }
+
+  /**
+   * Completions for the word at the caret: filter keys while typing a bare word, and tags,
+   * categories or domains after tag:, cat: or domain:. Returns null when there is nothing
+   * to offer.
+   */
+  static suggest(query: string, caret: number, sources: QuerySources, limit = 8): QuerySuggestions | null {
+    const token = tokenize(query).find(t => t.start <= caret && caret <= t.end);
+    const from = token?.start ?? caret;
+    const to = token?.end ?? caret;
+    const typed = query.slice(from, caret);
+    const negation = typed.startsWith('-') ? '-' : '';
+    const body = typed.slice(negation.length);
+
+    const valueMatch = /^([a-z]+):"?(.*)$/i.exec(body);
+    if (valueMatch) {
+      const key = KEY_NAMES.get(valueMatch[1].toLowerCase());
+      if (!key || !LISTS.has(key)) return null;
+      // Complete the last entry of a comma-separated list
+      const entries = valueMatch[2].split(',');
+      const partial = entries.pop()!.toLowerCase();
+      const earlierEntries = entries.length > 0 ? `${entries.join(',')},` : '';
+      const candidates = key === 'tag' ? sources.tags : key === 'cat' ? sources.categories.map(c => c.name) : sources.domains;
+      const ranked = [
+        ...candidates.filter(value => value.toLowerCase().startsWith(partial)),
+        ...candidates.filter(value => !value.toLowerCase().startsWith(partial) && value.toLowerCase().includes(partial)),
+      ]
+        // Only a whole value can be quoted, so names with spaces can't join a list
+        .filter(value => !entries.includes(value) && (earlierEntries === '' || !needsQuotes(value)));
+      const items = ranked.slice(0, limit).map(value => {
+        const written = needsQuotes(value) ? `"${value.replace(/"/g, '')}"` : value;
+        return { label: value, insert: `${negation}${valueMatch[1]}:${earlierEntries}${written} ` };
+      });
+      return items.length > 0 ? { from, to, items } : null;
+    }
+
+    if (!body || /[^a-z]/i.test(body)) return null;
+    const items = QUERY_KEYS
+      .filter(({ key }) => key.startsWith(body.toLowerCase()) && (!negation || NEGATABLE.has(key)))
+      .slice(0, limit)
+      .map(({ key, description }) => ({ label: `${key}:`, detail: description, insert: `${negation}${key}:` }));
+    return items.length > 0 ? { from, to, items } : null;
+  }
+}
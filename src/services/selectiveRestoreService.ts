@@ -0,0 +1,235 @@
+import { StorageKey, StorageShape } from '@/types/storage';
+import { BookmarkAccessLog, BookmarkNode } from '@/types/bookmark';
+import {
+  BackupSectionName,
+  ParsedBackup,
+  RestoreChange,
+  RestoreFieldChange,
+  RestoreItemDiff,
+  RestoreItemKind,
+  RestoreListKey,
+  RestoreReport,
+  RestoreSectionPreview,
+  RestoreSelection,
+  RestoreSettingDiff,
+} from '@/types/backup';
+import { StorageService, StorageValidationError } from '@/services/storageService';
+import { BookmarkService } from '@/services/bookmarkService';
+import { isStorageKey, storageSchemas } from '@/services/storageSchema';
+import { applyMigrations } from '@/services/storageMigrations';
+import { BACKUP_SECTIONS, BackupDocumentService, canonicalize } from '@/services/backupDocumentService';
+
+type Item = Record<string, unknown>;
+
+// How the items of each list are identified and described
+const LISTS: Record<RestoreListKey, { idOf: (item: Item) => string; kindOf: (item: Item) => RestoreItemKind; labelOf: (item: Item) => string }> = {
+  bookmarks: {
+    idOf: item => String(item.id),
+    kindOf: item => (item.type === 'folder' ? 'folder' : 'bookmark'),
+    labelOf: item => String(item.title ?? item.url ?? item.id),
+  },
+  bookmark_categories: { idOf: item => String(item.id), kindOf: () => 'category', labelOf: item => String(item.name) },
+  // Custom pages have no id; their names are unique
+  retoolPages: { idOf: item => String(item.name), kindOf: () => 'page', labelOf: item => `${item.name} (Retool)` },
+  notionPages: { idOf: item => String(item.name), kindOf: () => 'page', labelOf: item => `${item.name} (Notion)` },
+};
+
+const isListKey = (key: string): key is RestoreListKey => Object.prototype.hasOwnProperty.call(LISTS, key);
+
+// The items of a list as plain records; a missing list is empty
+const listOf = (data: Partial<StorageShape>, key: RestoreListKey) => (data[key] ?? []) as unknown as Item[];
+
+const itemId = (key: RestoreListKey, id: string) => `${key}:${id}`;
+
+const sameData = (a: unknown, b: unknown) => JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+
+const sectionOf = (key: StorageKey) =>
+  (Object.keys(BACKUP_SECTIONS) as BackupSectionName[]).find(name => BACKUP_SECTIONS[name].includes(key));
+
+// Compares the current items of a list with the items it would have after restoring
+const diffList = (key: RestoreListKey, current: Item[], next: Item[]): RestoreItemDiff[] => {
+  const { idOf, kindOf, labelOf } = LISTS[key];
+  const currentById = new Map(current.map(item => [idOf(item), item]));
+  const nextIds = new Set(next.map(idOf));
+  const describe = (item: Item, change: RestoreChange, fields: RestoreFieldChange[] = []): RestoreItemDiff => ({
+    id: itemId(key, idOf(item)),
+    storageKey: key,
+    kind: kindOf(item),
+    label: labelOf(item),
+    change,
+    fields,
+    ...(key === 'bookmarks' && typeof item.categoryId === 'string' ? { categoryId: item.categoryId } : {}),
+  });
+
+  const diffs = next.map(item => {
+    const existing = currentById.get(idOf(item));
+    if (!existing) return describe(item, 'added');
+    const fields = [...new Set([...Object.keys(existing), ...Object.keys(item)])]
+      .filter(field => !sameData(existing[field], item[field]))
+      .map(field => ({ field, from: existing[field], to: item[field] }));
+    return describe(item, fields.length > 0 ? 'changed' : 'unchanged', fields);
+  });
+  return [...diffs, ...current.filter(item => !nextIds.has(idOf(item))).map(item => describe(item, 'removed'))];
+};
+
+const diffSetting = (key: string, current: unknown, next: unknown): RestoreSettingDiff => ({
+  key,
+  change: current === undefined ? 'added' : sameData(current, next) ? 'unchanged' : 'changed',
+});
+
+// The selected items of a list applied onto its current items: backup versions replace
+// changed items, removed items are dropped and added items are appended in backup order
+const mergeList = (key: RestoreListKey, current: Item[], backup: Item[], selected: Set<string>): Item[] => {
+  const { idOf } = LISTS[key];
+  const backupById = new Map(backup.map(item => [idOf(item), item]));
+  const currentIds = new Set(current.map(idOf));
+  const merged = current.flatMap(item => {
+    if (!selected.has(itemId(key, idOf(item)))) return [item];
+    const restored = backupById.get(idOf(item));
+    return restored ? [restored] : [];
+  });
+  return [...merged, ...backup.filter(item => !currentIds.has(idOf(item)) && selected.has(itemId(key, idOf(item))))];
+};
+
+// Brings back the access history of restored bookmarks the current log knows nothing about
+const mergeAccessLog = (current: BookmarkAccessLog, backup: BookmarkAccessLog, bookmarkIds: string[]): BookmarkAccessLog => {
+  const known = new Set([...current.events.map(event => event.bookmarkId), ...Object.keys(current.archived)]);
+  const ids = new Set(bookmarkIds.filter(id => !known.has(id)));
+  return {
+    events: [...current.events, ...backup.events.filter(event => ids.has(event.bookmarkId))]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    archived: {
+      ...current.archived,
+      ...Object.fromEntries(Object.entries(backup.archived).filter(([id]) => ids.has(id))),
+    },
+  };
+};
+
+/**
+ * Restores part of a backup: compares it item by item with the current data, and applies
+ * only the bookmarks, categories, pages and settings the user picks.
+ */
+export class SelectiveRestoreService {
+  /**
+   * Lists, per section, what restoring would add, remove or change. Corrupted sections are
+   * listed without entries. Lists and settings missing from the backup are left out.
+   */
+  static async preview(parsed: ParsedBackup): Promise<RestoreSectionPreview[]> {
+    const { sections, backup, current } = await this.load(parsed);
+    return sections.map(({ name, status }) => {
+      const keys = status === 'corrupted' ? [] : BACKUP_SECTIONS[name].filter(key => backup[key] !== undefined);
+      return {
+        name,
+        status,
+        items: keys.filter(isListKey).flatMap(key => diffList(key, listOf(current, key), listOf(backup, key))),
+        settings: keys.filter(key => !isListKey(key)).map(key => diffSetting(key, current[key], backup[key])),
+      };
+    });
+  }
+
+  /**
+   * Applies the selected entries of a preview to the current data. Restored bookmarks also
+   * bring back the folders and categories they belong to, if those no longer exist. The
+   * current library is saved as a restore point first.
+   */
+  static apply(parsed: ParsedBackup, selection: RestoreSelection): Promise<RestoreReport> {
+    // Current data is read and replaced under the library's lock, so no write lands in between
+    return BookmarkService.exclusive(async () => {
+      const { sections, backup, current } = await this.load(parsed);
+      const restorable = new Set(sections.filter(section => section.status !== 'corrupted').flatMap(section => BACKUP_SECTIONS[section.name]));
+      const selectedItems = new Set(selection.items);
+      const settings = selection.settings.filter((key): key is StorageKey =>
+        isStorageKey(key) && !isListKey(key) && restorable.has(key) && backup[key] !== undefined);
+
+      const backupNodes = listOf(backup, 'bookmarks');
+      if (restorable.has('bookmarks')) {
+        this.includeDependencies(backupNodes, listOf(current, 'bookmarks'), listOf(backup, 'bookmark_categories'), listOf(current, 'bookmark_categories'), selectedItems);
+      }
+
+      const updates: Partial<Record<StorageKey, unknown>> = {};
+      for (const key of Object.keys(LISTS) as RestoreListKey[]) {
+        if (!restorable.has(key) || backup[key] === undefined) continue;
+        if (![...selectedItems].some(id => id.startsWith(`${key}:`))) continue;
+        updates[key] = mergeList(key, listOf(current, key), listOf(backup, key), selectedItems);
+      }
+      if (updates.bookmarks) {
+        // Nodes whose folder was removed move to the top level
+        const nodes = updates.bookmarks as Item[];
+        const ids = new Set(nodes.map(node => String(node.id)));
+        updates.bookmarks = nodes.map(node => (node.parentId && !ids.has(String(node.parentId)) ? { ...node, parentId: null } : node));
+      }
+      for (const key of settings) {
+        updates[key] = backup[key];
+      }
+      if (updates.bookmarks && !settings.includes('bookmarkAccessLog') && backup.bookmarkAccessLog) {
+        const restored = backupNodes.map(node => String(node.id)).filter(id => selectedItems.has(itemId('bookmarks', id)));
+        updates.bookmarkAccessLog = mergeAccessLog(
+          current.bookmarkAccessLog ?? { events: [], archived: {} },
+          backup.bookmarkAccessLog,
+          restored,
+        );
+      }
+      if (Object.keys(updates).length === 0) throw new Error('Nothing to restore');
+
+      const restorePoint = await StorageService.saveRestorePoint({
+        bookmarks: current.bookmarks,
+        bookmark_categories: current.bookmark_categories,
+        retoolPages: current.retoolPages,
+        notionPages: current.notionPages,
+        bookmarkAccessLog: current.bookmarkAccessLog,
+      });
+      await StorageService.setMany(updates as Partial<StorageShape>);
+
+      const keys = Object.keys(updates) as StorageKey[];
+      return {
+        items: keys.filter(isListKey)
+          .flatMap(key => diffList(key, listOf(current, key), updates[key] as Item[]))
+          .filter(diff => diff.change !== 'unchanged'),
+        settings: keys.filter(key => !isListKey(key))
+          .map(key => diffSetting(key, current[key], updates[key]))
+          .filter(diff => diff.change !== 'unchanged'),
+        restorePoint,
+      };
+    });
+  }
+
+  // Verifies the backup and reads both sides: intact sections are migrated to the current
+  // schema and normalized the way they would be stored
+  private static async load(parsed: ParsedBackup) {
+    const sections = await BackupDocumentService.verify(parsed);
+    const intact = sections.filter(section => section.status !== 'corrupted').map(section => section.name);
+    const migrated = applyMigrations(BackupDocumentService.extract(parsed.document, intact), parsed.document.manifest.schemaVersion);
+
+    const backup: Partial<StorageShape> = {};
+    for (const [key, value] of Object.entries(migrated)) {
+      if (!isStorageKey(key) || !sectionOf(key)) continue;
+      const result = storageSchemas[key].safeParse(value);
+      if (!result.success) throw new StorageValidationError(key, result.error.issues);
+      (backup as Record<string, unknown>)[key] = result.data;
+    }
+    const current = await StorageService.getMany(Object.values(BACKUP_SECTIONS).flat());
+    return { sections, backup, current };
+  }
+
+  // Adds the missing folders above restored bookmarks and their missing categories to the selection
+  private static includeDependencies(backupNodes: Item[], currentNodes: Item[], backupCategories: Item[], currentCategories: Item[], selected: Set<string>): void {
+    const backupById = new Map(backupNodes.map(node => [String(node.id), node as BookmarkNode]));
+    const currentIds = new Set(currentNodes.map(node => String(node.id)));
+    const currentCategoryIds = new Set(currentCategories.map(category => String(category.id)));
+    const backupCategoryIds = new Set(backupCategories.map(category => String(category.id)));
+
+    for (const node of backupById.values()) {
+      if (!selected.has(itemId('bookmarks', node.id)) || currentIds.has(node.id)) continue;
+      const visited = new Set([node.id]);
+      let parent = node.parentId ? backupById.get(node.parentId) : undefined;
+      while (parent && !currentIds.has(parent.id) && !visited.has(parent.id)) {
+        visited.add(parent.id);
+        selected.add(itemId('bookmarks', parent.id));
+        parent = parent.parentId ? backupById.get(parent.parentId) : undefined;
+      }
+      if (node.categoryId && !currentCategoryIds.has(node.categoryId) && backupCategoryIds.has(node.categoryId)) {
+        selected.add(itemId('bookmark_categories', node.categoryId));
+      }
+    }
+  }
+}
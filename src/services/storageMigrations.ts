@@ -0,0 +1,194 @@
+import { DEFAULT_CATEGORY_ICON } from '@/services/storageSchema';
+
+// Raw contents of chrome.storage.local as read before validation
+export type StorageSnapshot = Record<string, unknown>;
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  // Receives a copy of the whole store and returns the migrated copy. Keys missing
+  // from the result are removed from storage.
+  migrate: (data: StorageSnapshot) => StorageSnapshot;
+  // Keys the migration replaces. Removed again on later runs if a run was interrupted after
+  // writing the migrated values but before removing them.
+  legacyKeys?: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toIsoString = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// The later of two ISO timestamps, either of which may be missing
+const latest = (a: string | null, b: string | null) => (!a ? b : !b || a > b ? a : b);
+
+const normalizeCategory = (raw: unknown) => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+    color: typeof raw.color === 'string' ? raw.color : 'blue',
+    icon: typeof raw.icon === 'string' && raw.icon ? raw.icon : DEFAULT_CATEGORY_ICON,
+  };
+};
+
+// Converts legacy Bookmark records (and partially written BookmarkNodes) into BookmarkNodes
+const normalizeBookmarkNode = (raw: unknown): Record<string, unknown> | null => {
+  if (!isRecord(raw)) return null;
+  const type = raw.type === 'folder' ? 'folder' : 'bookmark';
+  const url = typeof raw.url === 'string' ? raw.url : undefined;
+  if (type === 'bookmark' && !url) return null;
+
+  const node: Record<string, unknown> = {
+    ...raw,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    type,
+    title: typeof raw.title === 'string' ? raw.title : (url ?? ''),
+    parentId: typeof raw.parentId === 'string' && raw.parentId ? raw.parentId : null,
+    createdAt: toIsoString(raw.createdAt) ?? new Date().toISOString(),
+  };
+
+  if (type === 'bookmark') {
+    node.url = url;
+    node.tags = Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+    node.accessCount = typeof raw.accessCount === 'number' && raw.accessCount >= 0 ? raw.accessCount : 0;
+    const lastAccessed = toIsoString(raw.lastAccessed);
+    if (lastAccessed) node.lastAccessed = lastAccessed; else delete node.lastAccessed;
+  } else {
+    delete node.url;
+    delete node.accessCount;
+    delete node.lastAccessed;
+    if (raw.tags !== undefined && !Array.isArray(raw.tags)) delete node.tags;
+  }
+
+  if (typeof raw.categoryId !== 'string' || !raw.categoryId) delete node.categoryId;
+  if (typeof raw.description !== 'string') delete node.description;
+  return node;
+};
+
+// Ordered list of migrations. Append new entries with the next version number; never edit
+// a migration that has already shipped.
+export const migrations: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Fold the legacy "categories" key into "bookmark_categories"',
+    legacyKeys: ['categories'],
+    migrate: (data) => {
+      const { categories: legacy, ...rest } = data;
+      const current = Array.isArray(data.bookmark_categories) ? data.bookmark_categories : [];
+      const merged = new Map<string, NonNullable<ReturnType<typeof normalizeCategory>>>();
+      for (const raw of [...(Array.isArray(legacy) ? legacy : []), ...current]) {
+        const category = normalizeCategory(raw);
+        if (category) merged.set(category.id, category);
+      }
+      if (merged.size === 0 && data.bookmark_categories === undefined) return rest;
+      return { ...rest, bookmark_categories: Array.from(merged.values()) };
+    },
+  },
+  {
+    version: 2,
+    description: 'Convert Bookmark records into BookmarkNodes',
+    migrate: (data) => {
+      if (data.bookmarks === undefined) return data;
+      const nodes = (Array.isArray(data.bookmarks) ? data.bookmarks : [])
+        .map(normalizeBookmarkNode)
+        .filter((node): node is Record<string, unknown> => node !== null);
+      // Drop duplicate ids and re-root nodes whose parent folder no longer exists
+      const seen = new Set<string>();
+      const unique = nodes.filter(node => {
+        if (seen.has(node.id as string)) return false;
+        seen.add(node.id as string);
+        return true;
+      });
+      const folderIds = new Set(unique.filter(node => node.type === 'folder').map(node => node.id));
+      const bookmarks = unique.map(node =>
+        node.parentId && !folderIds.has(node.parentId) ? { ...node, parentId: null } : node
+      );
+
+      const migrated: StorageSnapshot = { ...data, bookmarks };
+      if (data.lastDeletedBookmark !== undefined) {
+        const lastDeleted = normalizeBookmarkNode(data.lastDeletedBookmark);
+        if (lastDeleted) {
+          migrated.lastDeletedBookmark = lastDeleted;
+        } else {
+          delete migrated.lastDeletedBookmark;
+          delete migrated.undoExpire;
+        }
+      }
+      return migrated;
+    },
+  },
+  {
+    version: 3,
+    description: 'Use camelCase column ids in "columnVisibility"',
+    migrate: (data) => {
+      if (!isRecord(data.columnVisibility)) return data;
+      const columnVisibility = Object.fromEntries(
+        Object.entries(data.columnVisibility).map(([key, value]) => [key.charAt(0).toLowerCase() + key.slice(1), Boolean(value)])
+      );
+      return { ...data, columnVisibility };
+    },
+  },
+  {
+    version: 4,
+    description: 'Move title-keyed "bookmarkClicks" and per-node access stats into the id-keyed "bookmarkAccessLog"',
+    legacyKeys: ['bookmarkClicks'],
+    migrate: (data) => {
+      const { bookmarkClicks, ...rest } = data;
+      const bookmarks = Array.isArray(data.bookmarks) ? data.bookmarks.filter(isRecord) : [];
+      // Access stats are derived from the log now
+      if (Array.isArray(data.bookmarks)) {
+        rest.bookmarks = bookmarks.map(({ accessCount, lastAccessed, ...node }) => node);
+      }
+
+      // Opens counted on the nodes themselves and the clicks counted by title. Where a bookmark
+      // has both they counted the same opens, so the larger count is kept rather than the sum.
+      const opens = new Map<string, number>();
+      for (const node of bookmarks) {
+        if (node.type !== 'bookmark' || typeof node.id !== 'string') continue;
+        const count = Number(node.accessCount);
+        if (Number.isFinite(count) && count > 0) opens.set(node.id, Math.floor(count));
+      }
+      for (const [title, clicks] of Object.entries(isRecord(bookmarkClicks) ? bookmarkClicks : {})) {
+        const count = Number(clicks);
+        if (!Number.isFinite(count) || count <= 0) continue;
+        // Titles were never unique; credit the first bookmark with that title, as the dashboard did
+        const bookmark = bookmarks.find(node => node.type === 'bookmark' && node.title === title);
+        if (!bookmark || typeof bookmark.id !== 'string') continue;
+        opens.set(bookmark.id, Math.max(opens.get(bookmark.id) ?? 0, Math.floor(count)));
+      }
+      if (opens.size === 0 && !isRecord(bookmarkClicks)) return rest;
+
+      const current = isRecord(data.bookmarkAccessLog) ? data.bookmarkAccessLog : {};
+      const archived: Record<string, { count: number; lastAccessed: string | null }> = isRecord(current.archived)
+        ? { ...(current.archived as Record<string, { count: number; lastAccessed: string | null }>) }
+        : {};
+      for (const [id, count] of opens) {
+        const previous = archived[id];
+        const lastAccessed = toIsoString(bookmarks.find(node => node.id === id)?.lastAccessed) ?? null;
+        archived[id] = {
+          count: (previous?.count ?? 0) + count,
+          lastAccessed: latest(previous?.lastAccessed ?? null, lastAccessed),
+        };
+      }
+      return {
+        ...rest,
+        bookmarkAccessLog: { events: Array.isArray(current.events) ? current.events : [], archived },
+      };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Applies every migration newer than fromVersion. Also used on imported backups, which
+// may have been written by an older version of the extension.
+export function applyMigrations(data: StorageSnapshot, fromVersion: number): StorageSnapshot {
+  return migrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => migration.migrate(migrated), { ...data });
+}
@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import { StorageKey, StorageShape } from '@/types/storage';
+
+export const DEFAULT_CATEGORY_ICON = '📁';
+
+// Prefix of the snapshots SettingsModal writes before overwriting data during a restore
+export const RESTORE_POINT_PREFIX = 'restore_backup_';
+
+// Prefix of the snapshots BackupService keeps in the extension, listed in backupHistory
+export const BACKUP_SNAPSHOT_PREFIX = 'backup_snapshot_';
+
+export const linkHealthSchema = z.object({
+  status: z.enum(['ok', 'redirected', 'broken', 'unreachable']),
+  httpStatus: z.number().int().optional(),
+  finalUrl: z.string().optional(),
+  error: z.string().optional(),
+  checkedAt: z.string(),
+});
+
+export const bookmarkActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('workflow'), workflowId: z.string().min(1), params: z.record(z.string()).default({}) }),
+  z.object({ type: z.literal('bookmarklet'), code: z.string().trim().min(1) }),
+]);
+
+export const bookmarkNodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['bookmark', 'folder']),
+  title: z.string(),
+  url: z.string().optional(),
+  parentId: z.string().nullable(),
+  // updateBookmarkCategory historically stored null for "uncategorized"
+  categoryId: z.string().nullish().transform(value => value ?? undefined),
+  tags: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  lastAccessed: z.string().optional(),
+  accessCount: z.number().nonnegative().optional(),
+  description: z.string().optional(),
+  icon: z.string().optional(),
+  linkHealth: linkHealthSchema.optional(),
+  action: bookmarkActionSchema.optional(),
+}).passthrough();
+
+// accessCount and lastAccessed are derived from bookmarkAccessLog, so they are dropped
+// whenever a node is written back to storage
+const storedBookmarkNodeSchema = bookmarkNodeSchema.transform(({ accessCount, lastAccessed, ...node }) => node);
+
+export const bookmarkCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: z.string(),
+  icon: z.string().default(DEFAULT_CATEGORY_ICON),
+});
+
+export const searchFilterSchema = z.object({
+  title: z.string().default(''),
+  url: z.string().default(''),
+  tags: z.array(z.string()).default([]),
+  categoryIds: z.array(z.string()).default([]),
+  dateRange: z.object({
+    start: z.string().default(''),
+    end: z.string().default(''),
+  }).default({}),
+  accessCount: z.object({
+    min: z.string().default(''),
+    max: z.string().default(''),
+  }).default({}),
+  text: z.array(z.string()).default([]),
+  domains: z.array(z.string()).default([]),
+  exclude: z.object({
+    text: z.array(z.string()).default([]),
+    tags: z.array(z.string()).default([]),
+    categoryIds: z.array(z.string()).default([]),
+    domains: z.array(z.string()).default([]),
+  }).default({}),
+});
+
+const customPageSchema = z.object({
+  name: z.string(),
+  mode: z.enum(['markup', 'html']),
+  content: z.string(),
+});
+
+const syncFingerprintSchema = z.object({
+  title: z.string(),
+  url: z.string().nullable(),
+  parentId: z.string().nullable(),
+});
+
+const accessLogSchema = z.object({
+  events: z.array(z.object({
+    bookmarkId: z.string().min(1),
+    timestamp: z.string(),
+    source: z.enum(['command-k', 'popup-table', 'card', 'tree']),
+  })).default([]),
+  archived: z.record(z.string(), z.object({
+    count: z.number().int().nonnegative(),
+    lastAccessed: z.string().nullable(),
+  })).default({}),
+});
+
+export const orgEntrySchema = z.object({
+  id: z.number().int().nonnegative(),
+  name: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  environment: z.enum(['prod', 'sandbox', 'test']).default('prod'),
+  favorite: z.boolean().default(false),
+});
+
+const selectorSchema = z.string().trim().min(1);
+const stepTimeoutSchema = z.number().int().positive().optional();
+
+export const workflowStepSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('waitFor'), selector: selectorSchema, label: z.string().optional(), timeoutMs: stepTimeoutSchema }),
+  z.object({ action: z.literal('click'), selector: selectorSchema, text: z.string().optional(), label: z.string().optional(), timeoutMs: stepTimeoutSchema }),
+  z.object({ action: z.literal('type'), selector: selectorSchema, value: z.string(), label: z.string().optional(), timeoutMs: stepTimeoutSchema }),
+  z.object({ action: z.literal('waitForText'), text: z.string().min(1), selector: selectorSchema.optional(), label: z.string().optional(), timeoutMs: stepTimeoutSchema }),
+  z.object({ action: z.literal('assert'), selector: selectorSchema, text: z.string().optional(), absent: z.boolean().optional(), label: z.string().optional() }),
+  z.object({ action: z.literal('waitForUrl'), urlIncludes: z.string().min(1), label: z.string().optional(), timeoutMs: stepTimeoutSchema }),
+  z.object({ action: z.literal('pause'), ms: z.number().int().nonnegative(), label: z.string().optional() }),
+]);
+
+export const workflowSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  trigger: z.object({
+    urlIncludes: z.string().min(1),
+    queryParams: z.array(z.string().min(1)).default([]),
+  }).optional(),
+  timeoutMs: stepTimeoutSchema,
+  steps: z.array(workflowStepSchema).min(1),
+});
+
+export const workflowRecordingSchema = z.object({
+  startUrl: z.string().url(),
+  lastUrl: z.string().url(),
+  steps: z.array(workflowStepSchema),
+});
+
+const themeSchema = z.enum(['light', 'dark']);
+const counterMapSchema = z.record(z.string(), z.number());
+
+type StorageSchemas = {
+  [K in StorageKey]: z.ZodType<StorageShape[K], z.ZodTypeDef, unknown>;
+};
+
+export const storageSchemas: StorageSchemas = {
+  schemaVersion: z.number().int().nonnegative(),
+
+  bookmarks: z.array(storedBookmarkNodeSchema),
+  bookmark_categories: z.array(bookmarkCategorySchema),
+  categories: z.array(bookmarkCategorySchema),
+  bookmarkClicks: counterMapSchema,
+  bookmarkAccessLog: accessLogSchema,
+  retoolPages: z.array(customPageSchema),
+  notionPages: z.array(customPageSchema),
+
+  savedFilters: z.array(z.object({ name: z.string(), filter: searchFilterSchema })),
+  activeSearchFilter: searchFilterSchema,
+  showAdvancedSearch: z.boolean(),
+  columnVisibility: z.record(z.string(), z.boolean()),
+  columnOrder: z.array(z.string()),
+  sortKey: z.string(),
+  sortOrder: z.enum(['asc', 'desc']),
+  tableZoom: z.number().positive(),
+  bookmarkViewMode: z.enum(['table', 'card', 'tree']),
+  bookmarkListMode: z.enum(['pages', 'scroll']),
+  addBookmarkFormState: z.object({
+    title: z.string().default(''),
+    url: z.string().default(''),
+    tags: z.array(z.string()).default([]),
+    tagInput: z.string().default(''),
+    description: z.string().default(''),
+    categoryId: z.string().default(''),
+    // Kept while it is being filled in, so it may still be unfinished
+    action: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('workflow'), workflowId: z.string(), params: z.record(z.string()).default({}) }),
+      z.object({ type: z.literal('bookmarklet'), code: z.string() }),
+    ]).optional(),
+  }),
+  lastDeletedBookmark: storedBookmarkNodeSchema,
+  undoExpire: z.number(),
+  urlParamRules: z.array(z.object({ domain: z.string().min(1), params: z.array(z.string().min(1)) })),
+
+  seenOnboarding: z.boolean(),
+  seenGlobalSearchOnboarding: z.boolean(),
+  extensionVersion: z.string(),
+
+  backupFrequency: z.string(),
+  lastBackup: z.object({
+    bookmarks: z.string().nullable().default(null),
+    categories: z.string().nullable().default(null),
+    automatic: z.string().nullable().default(null),
+  }),
+  nextBackupTime: z.number(),
+  backupSettings: z.object({
+    retention: z.object({
+      keepLast: z.number().int().min(1).default(10),
+      daily: z.number().int().nonnegative().default(7),
+      weekly: z.number().int().nonnegative().default(4),
+      monthly: z.number().int().nonnegative().default(6),
+    }).default({}),
+    downloadCopies: z.boolean().default(false),
+  }),
+  backupHistory: z.array(z.object({
+    id: z.string().min(1),
+    createdAt: z.string(),
+    trigger: z.enum(['automatic', 'manual']),
+    sizeBytes: z.number().nonnegative(),
+    counts: z.object({
+      bookmarks: z.number().int().nonnegative(),
+      folders: z.number().int().nonnegative(),
+      categories: z.number().int().nonnegative(),
+      pages: z.number().int().nonnegative(),
+    }),
+  })),
+
+  nativeSyncEnabled: z.boolean(),
+  nativeSyncState: z.object({
+    rootId: z.string().nullable(),
+    mappings: z.array(z.object({
+      localId: z.string(),
+      nativeId: z.string(),
+      base: syncFingerprintSchema,
+    })),
+    conflicts: z.array(z.object({
+      localId: z.string(),
+      nativeId: z.string(),
+      local: syncFingerprintSchema.nullable(),
+      native: syncFingerprintSchema.nullable(),
+      detectedAt: z.string(),
+    })),
+    lastSyncedAt: z.string().nullable(),
+    lastError: z.string().nullable(),
+  }),
+
+  popup_theme: themeSchema,
+  popup_activeView: z.enum(['dashboard', 'bookmarks', 'importExport', 'custom-retool', 'custom-notion']),
+  popup_retoolOpen: z.boolean(),
+  popup_notionOpen: z.boolean(),
+  popup_activeRetoolPage: z.number().int().nullable(),
+  popup_activeNotionPage: z.number().int().nullable(),
+  popup_showAdd: z.boolean(),
+
+  forethought_theme: themeSchema,
+  forethought_overlay_opacity: z.union([z.string(), z.number()]),
+  forethought_expandRecent: z.union([z.boolean(), z.string()]),
+  forethought_expandTop: z.union([z.boolean(), z.string()]),
+  forethought_recentLimit: z.union([z.string(), z.number()]),
+  forethought_topLimit: z.union([z.string(), z.number()]),
+  searchHistory: z.array(z.string()),
+  searchSuggestions: counterMapSchema,
+  urlTemplateValues: z.record(z.array(z.string())),
+
+  orgRegistry: z.array(orgEntrySchema),
+  workflows: z.array(workflowSchema),
+  actionSites: z.array(z.string()),
+};
+
+// Restore points (taken right before a restore) and backup snapshots hold a partial copy of the library keys
+export const restorePointSchema = z.object({
+  bookmarks: storageSchemas.bookmarks.optional(),
+  bookmark_categories: storageSchemas.bookmark_categories.optional(),
+  retoolPages: storageSchemas.retoolPages.optional(),
+  notionPages: storageSchemas.notionPages.optional(),
+  bookmarkAccessLog: storageSchemas.bookmarkAccessLog.optional(),
+});
+
+export type RestorePoint = z.infer<typeof restorePointSchema>;
+
+export function isStorageKey(key: string): key is StorageKey {
+  return Object.prototype.hasOwnProperty.call(storageSchemas, key);
+}
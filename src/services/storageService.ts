@@ -1,24 +1,88 @@
+import { z } from 'zod';
+import { StorageKey, StorageShape } from '@/types/storage';
+import { storageSchemas, isStorageKey, RESTORE_POINT_PREFIX, restorePointSchema, RestorePoint } from '@/services/storageSchema';
+import { migrations, applyMigrations, CURRENT_SCHEMA_VERSION, StorageSnapshot } from '@/services/storageMigrations';
+
+export class StorageValidationError extends Error {
+  constructor(public readonly key: string, public readonly issues: z.ZodIssue[]) {
+    super(`Invalid value for storage key "${key}": ${issues.map(issue => `${issue.path.join('.') || '(root)'} ${issue.message}`).join('; ')}`);
+    this.name = 'StorageValidationError';
+  }
+}
+
 export class StorageService {
-  static async get<T>(key: string): Promise<T | null> {
+  private static readonly VERSION_KEY = 'schemaVersion';
+  private static migrationPromise: Promise<void> | null = null;
+
+  private static validate<K extends StorageKey>(key: K, value: unknown): StorageShape[K] {
+    const result = storageSchemas[key].safeParse(value);
+    if (!result.success) {
+      throw new StorageValidationError(key, result.error.issues);
+    }
+    return result.data;
+  }
+
+  // Stored values that fail validation are returned as-is (with a warning) rather than
+  // dropped, so callers never overwrite data they could not read.
+  private static parseStored<K extends StorageKey>(key: K, value: unknown): StorageShape[K] {
+    const result = storageSchemas[key].safeParse(value);
+    if (!result.success) {
+      console.warn(`Stored value for "${key}" failed validation:`, result.error.issues);
+      return value as StorageShape[K];
+    }
+    return result.data;
+  }
+
+  static async get<K extends StorageKey>(key: K): Promise<StorageShape[K] | null> {
     try {
-      const result = await chrome.storage.local.get(key);
-      return result[key] || null;
+      return await this.getOrThrow(key);
     } catch (error) {
       console.error('Storage get failed:', error);
       return null;
     }
   }
 
-  static async set(key: string, value: unknown): Promise<void> {
+  // Like get, but rethrows read failures. Use before a read-modify-write, where treating
+  // an unreadable value as empty would overwrite it.
+  static async getOrThrow<K extends StorageKey>(key: K): Promise<StorageShape[K] | null> {
+    const result = await chrome.storage.local.get(key);
+    return result[key] === undefined ? null : this.parseStored(key, result[key]);
+  }
+
+  static async getMany<K extends StorageKey>(keys: K[]): Promise<Partial<Pick<StorageShape, K>>> {
+    try {
+      const result = await chrome.storage.local.get(keys);
+      const values: Partial<Pick<StorageShape, K>> = {};
+      for (const key of keys) {
+        if (result[key] !== undefined) values[key] = this.parseStored(key, result[key]);
+      }
+      return values;
+    } catch (error) {
+      console.error('Storage get failed:', error);
+      return {};
+    }
+  }
+
+  static async set<K extends StorageKey>(key: K, value: StorageShape[K]): Promise<void> {
+    await this.setMany({ [key]: value } as Partial<StorageShape>);
+  }
+
+  // Validates every value before writing anything, so a bad value never leaves the store half-updated
+  static async setMany(values: Partial<StorageShape>): Promise<void> {
+    const validated: Partial<Record<StorageKey, unknown>> = {};
+    for (const key of Object.keys(values)) {
+      if (!isStorageKey(key)) throw new Error(`Unknown storage key "${key}"`);
+      validated[key] = this.validate(key, values[key]);
+    }
     try {
-      await chrome.storage.local.set({ [key]: value });
+      await chrome.storage.local.set(validated);
     } catch (error) {
       console.error('Storage set failed:', error);
       throw error;
     }
   }
 
-  static async remove(key: string): Promise<void> {
+  static async remove(key: StorageKey | StorageKey[]): Promise<void> {
     try {
       await chrome.storage.local.remove(key);
     } catch (error) {
@@ -35,4 +99,73 @@ export class StorageService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  static async saveRestorePoint(data: RestorePoint): Promise<string> {
+    const result = restorePointSchema.safeParse(data);
+    if (!result.success) {
+      throw new StorageValidationError(RESTORE_POINT_PREFIX, result.error.issues);
+    }
+    const key = `${RESTORE_POINT_PREFIX}${new Date().toISOString()}`;
+    await chrome.storage.local.set({ [key]: result.data });
+    return key;
+  }
+
+  // Writes data from an exported file (backup, quick export) after bringing it up to the
+  // current schema. fromVersion is the schema the data was written with; files without one
+  // are migrated from the start. Unknown keys are ignored and nothing is written if any value is invalid.
+  static async importSnapshot(data: StorageSnapshot, fromVersion = 0): Promise<Partial<StorageShape>> {
+    const migrated = applyMigrations(data, fromVersion);
+    const values: Partial<Record<StorageKey, unknown>> = {};
+    for (const key of Object.keys(migrated)) {
+      if (isStorageKey(key) && key !== this.VERSION_KEY) values[key] = migrated[key];
+    }
+    await this.setMany(values as Partial<StorageShape>);
+    return values as Partial<StorageShape>;
+  }
+
+  // Runs pending migrations once per page. Migrated values are validated together and
+  // written in a single set with the new version, so an upgrade is either fully applied or
+  // not applied at all. Keys the upgrade dropped are removed after that write; legacy keys
+  // left behind by an interrupted removal are cleaned up on the next run instead of being
+  // migrated a second time.
+  static migrate(): Promise<void> {
+    if (!this.migrationPromise) {
+      this.migrationPromise = this.runMigrations().catch(error => {
+        this.migrationPromise = null;
+        console.error('Storage migration failed:', error);
+        throw error;
+      });
+    }
+    return this.migrationPromise;
+  }
+
+  private static async runMigrations(): Promise<void> {
+    const original: StorageSnapshot = await chrome.storage.local.get(null);
+    const storedVersion = typeof original[this.VERSION_KEY] === 'number' ? original[this.VERSION_KEY] as number : 0;
+    const pending = migrations.filter(migration => migration.version > storedVersion);
+    const leftover = new Set(migrations
+      .filter(migration => migration.version <= storedVersion)
+      .flatMap(migration => migration.legacyKeys ?? [])
+      .filter(key => key in original));
+    if (pending.length === 0) {
+      if (leftover.size > 0) await chrome.storage.local.remove(Array.from(leftover));
+      return;
+    }
+
+    const data = applyMigrations(original, storedVersion);
+    leftover.forEach(key => delete data[key]);
+
+    const updates: StorageSnapshot = { [this.VERSION_KEY]: CURRENT_SCHEMA_VERSION };
+    for (const [key, value] of Object.entries(data)) {
+      if (key === this.VERSION_KEY || JSON.stringify(value) === JSON.stringify(original[key])) continue;
+      updates[key] = isStorageKey(key) ? this.validate(key, value) : value;
+    }
+    const removed = Object.keys(original).filter(key => !(key in data));
+
+    await chrome.storage.local.set(updates);
+    if (removed.length > 0) {
+      await chrome.storage.local.remove(removed);
+    }
+    console.info(`Storage migrated from v${storedVersion} to v${CURRENT_SCHEMA_VERSION}:`, pending.map(migration => migration.description));
+  }
+}
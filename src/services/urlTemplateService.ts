@@ -0,0 +1,107 @@
+import { OrgEntry } from '@/types/org';
+import { StorageService } from '@/services/storageService';
+import { OrgRegistryService } from '@/services/orgRegistryService';
+import { createWriteQueue } from '@/services/writeQueue';
+
+const VARIABLE = /\{([A-Za-z_][\w-]*)\}/g;
+
+// A value offered for a template variable
+export interface TemplateSuggestion {
+  value: string;
+  label: string;
+  detail?: string;
+}
+
+/**
+ * Bookmarks whose URL is a template, such as .../dashboard?org={org}: opening one asks for
+ * each {variable}, offering the values used lately and, for org variables, the org registry.
+ * One template stands in for a bookmark per org.
+ */
+export class UrlTemplateService {
+  // Values remembered per variable name
+  static readonly RECENT_LIMIT = 10;
+  // Variables filled in from the org registry, with the org's id
+  static readonly ORG_VARIABLES = ['org', 'orgId', 'org_id'];
+  private static readonly enqueue = createWriteQueue('forethought-toolbox-url-template-values');
+
+  // The variable names in a URL, in the order they first appear
+  static variables(url: string | undefined): string[] {
+    return Array.from(new Set(Array.from((url ?? '').matchAll(VARIABLE), match => match[1])));
+  }
+
+  static isTemplate(url: string | undefined): boolean {
+    return this.variables(url).length > 0;
+  }
+
+  // The URL with each variable replaced by its value, encoded for a URL. Throws if one has no value.
+  static fill(url: string, values: Record<string, string>): string {
+    return url.replace(VARIABLE, (_match, name: string) => {
+      const value = values[name]?.trim();
+      if (!value) throw new Error(`No value for {${name}}`);
+      return encodeURIComponent(value);
+    });
+  }
+
+  /**
+   * Values to offer for a variable as the user types: recent ones that contain the text,
+   * then for org variables the orgs that match it, as in Command+K's org: mode.
+   */
+  static suggestions(
+    name: string,
+    query: string,
+    sources: { recent?: string[]; orgs?: OrgEntry[] },
+    limit = 20,
+  ): TemplateSuggestion[] {
+    const orgs = this.ORG_VARIABLES.includes(name) ? sources.orgs ?? [] : [];
+    const text = query.trim().toLowerCase();
+    const recent = (sources.recent ?? []).flatMap(value => {
+      const org = orgs.length > 0 ? OrgRegistryService.resolve(orgs, value) : undefined;
+      const label = org ? org.name : value;
+      if (text && !value.toLowerCase().includes(text) && !label.toLowerCase().includes(text)) return [];
+      return [{ value, label, detail: org ? `#${org.id} · recent` : 'recent' }];
+    });
+    const fromOrgs = OrgRegistryService.search(orgs, query, limit).map(org => ({
+      value: String(org.id),
+      label: org.name,
+      detail: `#${org.id} · ${org.environment}`,
+    }));
+    const seen = new Set<string>();
+    return [...recent, ...fromOrgs]
+      .filter(suggestion => {
+        if (seen.has(suggestion.value)) return false;
+        seen.add(suggestion.value);
+        return true;
+      })
+      .slice(0, limit);
+  }
+
+  // The values to fill in, with an org typed by name or alias turned into its id
+  static resolveValues(values: Record<string, string>, orgs: OrgEntry[]): Record<string, string> {
+    return Object.fromEntries(Object.entries(values).map(([name, value]) => {
+      const org = this.ORG_VARIABLES.includes(name) ? OrgRegistryService.resolve(orgs, value.trim()) : undefined;
+      return [name, org ? String(org.id) : value.trim()];
+    }));
+  }
+
+  // The remembered values with these ones moved to the front of their lists
+  static remember(recent: Record<string, string[]>, values: Record<string, string>): Record<string, string[]> {
+    const next = { ...recent };
+    Object.entries(values).forEach(([name, raw]) => {
+      const value = raw.trim();
+      if (!value) return;
+      next[name] = [value, ...(next[name] ?? []).filter(other => other !== value)].slice(0, this.RECENT_LIMIT);
+    });
+    return next;
+  }
+
+  static async getRecent(): Promise<Record<string, string[]>> {
+    return (await StorageService.get('urlTemplateValues')) ?? {};
+  }
+
+  static async saveValues(values: Record<string, string>): Promise<void> {
+    await this.enqueue(async () => {
+      const recent = (await StorageService.getOrThrow('urlTemplateValues')) ?? {};
+      await StorageService.set('urlTemplateValues', this.remember(recent, values));
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { Workflow, WorkflowStep } from '@/types/workflow';
+
+// What a click lands on when it lands inside a button, link or list item: the control itself
+const CLICKABLE = 'button, a[href], input, select, textarea, label, [role="button"], [role="link"], [role="menuitem"], [role="option"], [role="tab"], [data-testid]';
+
+// Class names a build step generated (css-1x2y3z, sc-bdVaJa, Button_root__a1B2c) or that come and go with state
+const GENERATED_CLASS = /\d|^(css|sc|jss|emotion)-|__/;
+const STATE_CLASS = /(^|[-_])(active|hover|hovered|focus|focused|selected|open|disabled|checked|visible|hidden)$/i;
+
+const MAX_TEXT_LENGTH = 60;
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const tagOf = (element: Element) => element.tagName.toLowerCase();
+
+const stableClasses = (element: Element) =>
+  Array.from(element.classList).filter(name => !GENERATED_CLASS.test(name) && !STATE_CLASS.test(name)).slice(0, 2);
+
+// Short enough, and on one line, to be worth matching a click by
+const visibleText = (element: Element): string | undefined => {
+  const text = (element.textContent ?? '').trim();
+  return text && text.length <= MAX_TEXT_LENGTH && !text.includes('\n') ? text : undefined;
+};
+
+const matches = (selector: string): Element[] => {
+  try {
+    return Array.from(document.querySelectorAll(selector));
+  } catch {
+    return [];
+  }
+};
+
+// Whether WorkflowRunner, given the selector and text, would find this element and no other
+const picks = (element: Element, selector: string, text?: string): boolean => {
+  const found = matches(selector);
+  if (text === undefined) return found.length === 1 && found[0] === element;
+  const containing = found.filter(other => (other.textContent ?? '').includes(text));
+  return (containing.find(other => (other.textContent ?? '').trim() === text) ?? containing[0]) === element;
+};
+
+// The last resort: a path of tags and stable classes from the nearest ancestor with a selector of its own
+const cssPath = (element: Element): string => {
+  const segments: string[] = [];
+  for (let current: Element | null = element; current && current !== document.body; current = current.parentElement) {
+    const testId = current.getAttribute('data-testid');
+    if (current !== element && testId && matches(`[data-testid=${quote(testId)}]`).length === 1) {
+      segments.unshift(`[data-testid=${quote(testId)}]`);
+      break;
+    }
+    const tag = tagOf(current);
+    const sameTag = current.parentElement
+      ? Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current?.tagName)
+      : [];
+    const position = sameTag.length > 1 ? `:nth-of-type(${sameTag.indexOf(current) + 1})` : '';
+    segments.unshift(`${tag}${stableClasses(current).map(name => `.${name}`).join('')}${position}`);
+  }
+  return segments.join(' > ') || tagOf(element);
+};
+
+/**
+ * Turns what someone does on a page into workflow steps, for recording a workflow by
+ * demonstration. Selectors prefer what a page keeps across releases: data-testid, then
+ * aria-label, ids, field names and the text on a button, before a path through the page.
+ */
+export class WorkflowRecorder {
+  // The element a click was meant for: the button around the icon or label that was hit
+  static target(element: Element): Element {
+    return element.closest(CLICKABLE) ?? element;
+  }
+
+  // A selector, and for buttons and links the text to look for, that finds the element again
+  static locate(element: Element): { selector: string; text?: string } {
+    const tag = tagOf(element);
+    const candidates: string[] = [];
+    const testId = element.getAttribute('data-testid');
+    if (testId) candidates.push(`[data-testid=${quote(testId)}]`);
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel) candidates.push(`${tag}[aria-label=${quote(ariaLabel)}]`);
+    if (element.id && /^[A-Za-z][\w-]*$/.test(element.id) && !/\d{3,}/.test(element.id)) candidates.push(`#${element.id}`);
+    for (const attribute of ['name', 'placeholder']) {
+      const value = element.getAttribute(attribute);
+      if (value) candidates.push(`${tag}[${attribute}=${quote(value)}]`);
+    }
+    const found = candidates.find(selector => picks(element, selector));
+    if (found) return { selector: found };
+
+    const text = element.matches('input, select, textarea') ? undefined : visibleText(element);
+    if (text) {
+      const classes = stableClasses(element).map(name => `.${name}`).join('');
+      const role = element.getAttribute('role');
+      const withText = [`${tag}${classes}`, role ? `${tag}[role=${quote(role)}]` : tag, ...candidates]
+        .find(selector => picks(element, selector, text));
+      if (withText) return { selector: withText, text };
+    }
+    return { selector: cssPath(element) };
+  }
+
+  static clickStep(element: Element): WorkflowStep {
+    return { action: 'click', ...this.locate(this.target(element)) };
+  }
+
+  static typeStep(element: Element, value: string): WorkflowStep {
+    return { action: 'type', selector: this.locate(element).selector, value };
+  }
+
+  // A step waiting for a single-page app to reach the new address, or null if only the query or hash changed
+  static navigationStep(fromUrl: string, toUrl: string): WorkflowStep | null {
+    const from = new URL(fromUrl);
+    const to = new URL(toUrl);
+    if (from.origin === to.origin && from.pathname === to.pathname) return null;
+    return { action: 'waitForUrl', urlIncludes: to.pathname === '/' ? to.host : to.pathname };
+  }
+
+  // Adds a step, folding a run of typing into one field into the value it ended with
+  static append(steps: WorkflowStep[], step: WorkflowStep): WorkflowStep[] {
+    const last = steps[steps.length - 1];
+    if (last && last.action === 'type' && step.action === 'type' && last.selector === step.selector) {
+      return [...steps.slice(0, -1), step];
+    }
+    return [...steps, step];
+  }
+
+  /**
+   * Replaces the values of parameters in the steps with `{{name}}`, so a recording made with
+   * ?org=Acme runs for whichever org the link names. Longer values are replaced first, and
+   * one-character values are left alone, since they turn up everywhere.
+   */
+  static parameterize(steps: WorkflowStep[], values: Record<string, string>): WorkflowStep[] {
+    const replacements = Object.entries(values)
+      .filter(([, value]) => value.length > 1)
+      .sort(([, a], [, b]) => b.length - a.length);
+    const fill = (text: string) =>
+      replacements.reduce((result, [name, value]) => result.split(value).join(`{{${name}}}`), text);
+    return steps.map(step => {
+      const filled = { ...step } as Record<string, unknown>;
+      for (const key of ['selector', 'text', 'value', 'urlIncludes']) {
+        if (typeof filled[key] === 'string') filled[key] = fill(filled[key] as string);
+      }
+      return filled as WorkflowStep;
+    });
+  }
+
+  /**
+   * The workflow a recording makes. `params` are the query parameters chosen to stand in for
+   * their values; with `trigger`, the workflow also runs by itself on links to the page that
+   * have them, as the org switch does for ?org=.
+   */
+  static toWorkflow(recording: {
+    name: string;
+    startUrl: string;
+    steps: WorkflowStep[];
+    params: Record<string, string>;
+    trigger: boolean;
+  }): Workflow {
+    const url = new URL(recording.startUrl);
+    const name = recording.name.trim() || `Recorded on ${url.host}`;
+    const queryParams = Object.keys(recording.params);
+    return {
+      id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'recorded-workflow',
+      name,
+      description: `Recorded on ${url.host}${url.pathname}${queryParams.length ? ` with ${queryParams.map(param => `{{${param}}}`).join(', ')}` : ''}`,
+      ...(recording.trigger && queryParams.length ? { trigger: { urlIncludes: `${url.host}${url.pathname}`, queryParams } } : {}),
+      steps: this.parameterize(recording.steps, recording.params),
+    };
+  }
+}
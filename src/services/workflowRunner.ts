@@ -0,0 +1,177 @@
+import { Workflow, WorkflowErrorCode, WorkflowRunError, WorkflowRunResult, WorkflowStep } from '@/types/workflow';
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Why a step stopped; run() turns it into a WorkflowRunError
+class StepFailure extends Error {
+  constructor(public readonly code: WorkflowErrorCode, message: string) {
+    super(message);
+    this.name = 'StepFailure';
+  }
+}
+
+const fill = (text: string, params: Record<string, string>) =>
+  text.replace(PLACEHOLDER, (_match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(params, name)) {
+      throw new StepFailure('MISSING_PARAM', `no value was given for {{${name}}}`);
+    }
+    return params[name];
+  });
+
+// The first element matching the selector, and containing the text if one is given. An element
+// whose whole text is the text wins over one that only contains it ("Acme" over "Acme sandbox").
+const find = (selector: string, text?: string): Element | null => {
+  let elements: Element[];
+  try {
+    elements = Array.from(document.querySelectorAll(selector));
+  } catch {
+    throw new StepFailure('INVALID_SELECTOR', `"${selector}" is not a valid selector`);
+  }
+  if (text === undefined) return elements[0] ?? null;
+  const containing = elements.filter(element => (element.textContent ?? '').includes(text));
+  return containing.find(element => (element.textContent ?? '').trim() === text.trim()) ?? containing[0] ?? null;
+};
+
+const findText = (text: string, selector?: string): Element | null => {
+  if (selector) return find(selector, text);
+  return document.body && (document.body.textContent ?? '').includes(text) ? document.body : null;
+};
+
+// How often waiting steps also check on their own, for changes no mutation announces (the address)
+const POLL_MS = 250;
+
+/**
+ * Resolves with what `lookup` finds, checking again whenever the page changes, or with null
+ * once the time is up. A lookup that throws (a bad selector) rejects straight away.
+ */
+const waitUntil = <T>(lookup: () => T | null, timeoutMs: number): Promise<T | null> =>
+  new Promise(resolve => {
+    const found = lookup();
+    if (found) {
+      resolve(found);
+      return;
+    }
+    const finish = (value: T | null) => {
+      observer.disconnect();
+      clearInterval(poll);
+      clearTimeout(timer);
+      resolve(value);
+    };
+    const check = () => {
+      const match = lookup();
+      if (match) finish(match);
+    };
+    const observer = new MutationObserver(check);
+    const poll = setInterval(check, POLL_MS);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+  });
+
+const describeTarget = (selector: string | undefined, text: string | undefined) =>
+  [selector && `"${selector}"`, text !== undefined && `containing "${text}"`].filter(Boolean).join(' ') || 'the page';
+
+// Sets a text field's value so that frameworks listening for input, React included, see it
+const typeInto = (element: Element, value: string) => {
+  if (!(element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+    throw new StepFailure('NOT_TYPEABLE', `${element.tagName.toLowerCase()} is not a text field`);
+  }
+  element.focus();
+  // React keeps the value it last rendered on the element; the prototype's setter bypasses it
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')?.set;
+  if (setter) setter.call(element, value);
+  else element.value = value;
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+};
+
+/**
+ * Runs workflows (JSON step definitions from settings) against the page the content script
+ * is in. Each step waits for what it needs with a MutationObserver, up to its own timeout.
+ */
+export class WorkflowRunner {
+  static readonly DEFAULT_TIMEOUT_MS = 10_000;
+
+  /**
+   * Runs the steps in order, stopping at the first that fails. Never throws: a failure comes
+   * back as a structured error naming the step.
+   */
+  static async run(workflow: Workflow, params: Record<string, string> = {}): Promise<WorkflowRunResult> {
+    for (const [stepIndex, step] of workflow.steps.entries()) {
+      try {
+        await this.runStep(step, params, workflow.timeoutMs ?? this.DEFAULT_TIMEOUT_MS);
+      } catch (error) {
+        const { code, message } = error instanceof StepFailure
+          ? error
+          : { code: 'STEP_FAILED' as const, message: error instanceof Error ? error.message : String(error) };
+        return { ok: false, error: { code, message, workflowId: workflow.id, workflowName: workflow.name, stepIndex, step } };
+      }
+    }
+    return { ok: true, steps: workflow.steps.length };
+  }
+
+  // A one-line account of a failure, for a toast
+  static describeError(error: WorkflowRunError): string {
+    return `${error.workflowName}: step ${error.stepIndex + 1} (${this.stepLabel(error.step)}) failed, ${error.message}`;
+  }
+
+  static stepLabel(step: WorkflowStep): string {
+    if (step.label) return step.label;
+    switch (step.action) {
+      case 'pause':
+        return `pause ${step.ms} ms`;
+      case 'waitForText':
+        return `wait for text ${describeTarget(step.selector, step.text)}`;
+      case 'waitFor':
+        return `wait for "${step.selector}"`;
+      case 'waitForUrl':
+        return `wait for the address to contain "${step.urlIncludes}"`;
+      default:
+        return `${step.action} "${step.selector}"`;
+    }
+  }
+
+  private static async runStep(step: WorkflowStep, params: Record<string, string>, defaultTimeoutMs: number): Promise<void> {
+    if (step.action === 'pause') {
+      await new Promise(resolve => setTimeout(resolve, step.ms));
+      return;
+    }
+
+    if (step.action === 'assert') {
+      const selector = fill(step.selector, params);
+      const text = step.text === undefined ? undefined : fill(step.text, params);
+      const present = find(selector, text) !== null;
+      if (present === !!step.absent) {
+        throw new StepFailure('ASSERTION_FAILED', `${describeTarget(selector, text)} is ${present ? 'on' : 'not on'} the page`);
+      }
+      return;
+    }
+
+    const timeoutMs = step.timeoutMs ?? defaultTimeoutMs;
+    if (step.action === 'waitForUrl') {
+      const urlIncludes = fill(step.urlIncludes, params);
+      if (!(await waitUntil(() => (window.location.href.includes(urlIncludes) || null), timeoutMs))) {
+        throw new StepFailure('TIMEOUT', `the address did not come to contain "${urlIncludes}" within ${timeoutMs / 1000} s`);
+      }
+      return;
+    }
+
+    const selector = step.selector === undefined ? undefined : fill(step.selector, params);
+    const text = step.action === 'click' || step.action === 'waitForText'
+      ? (step.text === undefined ? undefined : fill(step.text, params))
+      : undefined;
+    const element = await waitUntil(
+      () => (step.action === 'waitForText' ? findText(text as string, selector) : find(selector as string, text)),
+      timeoutMs,
+    );
+    if (!element) {
+      throw new StepFailure('TIMEOUT', `${describeTarget(selector, text)} did not appear within ${timeoutMs / 1000} s`);
+    }
+
+    if (step.action === 'click') {
+      if (element instanceof HTMLElement) element.click();
+      else element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+    } else if (step.action === 'type') {
+      typeInto(element, fill(step.value, params));
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { Workflow } from '@/types/workflow';
+import { StorageService } from '@/services/storageService';
+import { workflowSchema } from '@/services/storageSchema';
+import { formatIssues } from '@/services/messageProtocol';
+import { OrgRegistryService } from '@/services/orgRegistryService';
+import { createWriteQueue } from '@/services/writeQueue';
+
+export const ORG_SWITCH_WORKFLOW_ID = 'dashboard-org-switch';
+
+// Shipped with the extension and used until the workflows are first edited in settings
+export const DEFAULT_WORKFLOWS: Workflow[] = [
+  {
+    id: ORG_SWITCH_WORKFLOW_ID,
+    name: 'Switch dashboard org',
+    description: 'Opens the account menu, searches the org picker for {{org}} and applies it. Runs on dashboard links with ?org=, and from org: in Command+K.',
+    trigger: { urlIncludes: `${OrgRegistryService.DASHBOARD_ORIGIN}/`, queryParams: ['org'] },
+    timeoutMs: 10_000,
+    steps: [
+      { action: 'click', selector: 'button[aria-label="Account Setting"]', label: 'Open the account menu' },
+      { action: 'click', selector: '[data-testid="change-org"]', label: 'Choose Change Org' },
+      { action: 'type', selector: 'input.SearchBar-input', value: '{{org}}', label: 'Search for the org' },
+      { action: 'waitFor', selector: '.BreakdownModal-applyBreakdownButton', label: 'Wait for the Apply button' },
+      { action: 'click', selector: 'button.ModalItem-container', text: '{{org}}', label: 'Pick the org' },
+      { action: 'pause', ms: 300 },
+      { action: 'click', selector: '.BreakdownModal-applyBreakdownButton', label: 'Apply' },
+    ],
+  },
+];
+
+export class WorkflowDefinitionError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid workflow: ${issues.join('; ')}`);
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+/**
+ * Workflows kept in storage, so the steps can be fixed from settings when a page they
+ * automate changes, without a new build of the extension. WorkflowRunner runs them.
+ */
+export class WorkflowService {
+  // Recordings are saved from the background while settings may be editing the list
+  private static readonly enqueue = createWriteQueue('forethought-toolbox-workflows');
+
+  static async getWorkflows(): Promise<Workflow[]> {
+    return (await StorageService.get('workflows')) ?? DEFAULT_WORKFLOWS;
+  }
+
+  static async saveWorkflows(workflows: Workflow[]): Promise<void> {
+    await this.enqueue(() => StorageService.set('workflows', workflows));
+  }
+
+  // Replaces the stored workflows with what update makes of them, and resolves with the result
+  static async updateWorkflows(update: (workflows: Workflow[]) => Workflow[]): Promise<Workflow[]> {
+    return this.enqueue(async () => {
+      const workflows = update((await StorageService.getOrThrow('workflows')) ?? DEFAULT_WORKFLOWS);
+      await StorageService.set('workflows', workflows);
+      return workflows;
+    });
+  }
+
+  // Adds a workflow, such as one just recorded, numbering its id if another workflow has it
+  static async addWorkflow(workflow: Workflow): Promise<Workflow> {
+    let added = workflow;
+    await this.updateWorkflows(workflows => {
+      const ids = new Set(workflows.map(other => other.id));
+      let id = workflow.id;
+      for (let n = 2; ids.has(id); n++) id = `${workflow.id}-${n}`;
+      added = { ...workflow, id };
+      return [...workflows, added];
+    });
+    return added;
+  }
+
+  /**
+   * Workflows from a raw storage value, as the content script reads it. Falls back to the
+   * built-in workflows when nothing is stored, and skips stored workflows that do not validate.
+   */
+  static fromStored(value: unknown): Workflow[] {
+    if (!Array.isArray(value)) return DEFAULT_WORKFLOWS;
+    return value.flatMap(entry => {
+      const result = workflowSchema.safeParse(entry);
+      if (!result.success) {
+        console.warn('Skipping invalid workflow:', formatIssues(result.error.issues));
+        return [];
+      }
+      return [result.data];
+    });
+  }
+
+  // Reads one workflow from JSON, as edited in settings. Throws a WorkflowDefinitionError listing what is wrong.
+  static parse(text: string): Workflow {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new WorkflowDefinitionError([`not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+    }
+    const result = workflowSchema.safeParse(value);
+    if (!result.success) throw new WorkflowDefinitionError(formatIssues(result.error.issues));
+    return result.data;
+  }
+
+  // The {{parameters}} a workflow's steps use, in the order they first appear
+  static placeholders(workflow: Workflow): string[] {
+    const text = workflow.steps.flatMap(step => Object.values(step).filter((value): value is string => typeof value === 'string'));
+    return Array.from(new Set(text.flatMap(value => Array.from(value.matchAll(/\{\{\s*([\w-]+)\s*\}\}/g), match => match[1]))));
+  }
+
+  static serialize(workflow: Workflow): string {
+    return JSON.stringify(workflow, null, 2);
+  }
+
+  /**
+   * Whether a page is one a trigger names. The trigger is a URL prefix such as
+   * `https://a.example/reports/`, or one without a scheme such as `a.example/reports`, which
+   * also takes the site's subdomains. Only the page's own origin and path are compared, so a
+   * link to the page in another site's query does not match.
+   */
+  static matchesTrigger(page: URL, urlIncludes: string): boolean {
+    const hasScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(urlIncludes);
+    let prefix: URL;
+    try {
+      prefix = new URL(hasScheme ? urlIncludes : `https://${urlIncludes}`);
+    } catch {
+      return false;
+    }
+    const sameSite = hasScheme
+      ? page.origin === prefix.origin
+      : ['http:', 'https:'].includes(page.protocol) && (page.host === prefix.host || page.host.endsWith(`.${prefix.host}`));
+    const path = prefix.pathname;
+    return sameSite && (path.endsWith('/') ? page.pathname.startsWith(path) : page.pathname === path || page.pathname.startsWith(`${path}/`));
+  }
+
+  // The workflows whose trigger matches the URL, with their parameters read from its query
+  static triggeredBy(workflows: Workflow[], url: string): { workflow: Workflow; params: Record<string, string> }[] {
+    let page: URL;
+    try {
+      page = new URL(url);
+    } catch {
+      return [];
+    }
+    const query = page.searchParams;
+    return workflows.flatMap(workflow => {
+      const { trigger } = workflow;
+      if (!trigger || !this.matchesTrigger(page, trigger.urlIncludes)) return [];
+      if (!trigger.queryParams.every(name => query.get(name))) return [];
+      return [{ workflow, params: Object.fromEntries(trigger.queryParams.map(name => [name, query.get(name) as string])) }];
+    });
+  }
+}
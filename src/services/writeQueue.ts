@@ -0,0 +1,21 @@
+// Runs a write task after the ones queued before it and resolves with its result
+export type WriteQueue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * A queue for read-modify-write tasks on storage. Within a page, tasks run one after another in
+ * call order; the Web Lock named lockName is shared by every extension page and the service
+ * worker, so it also serializes writes made from the popup and the background at the same time.
+ * A task that fails rejects its own promise without holding up the tasks after it.
+ */
+export const createWriteQueue = (lockName: string): WriteQueue => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    // The lock resolves with the task's promise; awaiting it keeps the result typed as T
+    const run = async (): Promise<T> => typeof navigator !== 'undefined' && navigator.locks
+      ? await navigator.locks.request(lockName, task)
+      : task();
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+};
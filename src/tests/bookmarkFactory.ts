@@ -0,0 +1,12 @@
+import { BookmarkNode } from '@/types/bookmark';
+
+// Bookmark nodes for tests. Each is top-level and titled with its id; extra overrides any field.
+
+export const CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+// A bookmark at https://<id>.example.com/
+export const node = (id: string, extra: Partial<BookmarkNode> = {}): BookmarkNode =>
+  ({ id, type: 'bookmark', title: id, url: `https://${id}.example.com/`, tags: [], parentId: null, createdAt: CREATED_AT, ...extra });
+
+export const folder = (id: string, extra: Partial<BookmarkNode> = {}): BookmarkNode =>
+  ({ id, type: 'folder', title: id, parentId: null, createdAt: CREATED_AT, ...extra });
@@ -0,0 +1,318 @@
+// In-memory stand-in for the chrome.* APIs the background worker uses, for tests that
+// need real behaviour (stored values, scheduled alarms) rather than bare jest.fn() mocks.
+
+type Listener<T extends unknown[]> = (...args: T) => void;
+
+class FakeEvent<T extends unknown[]> {
+  private listeners: Listener<T>[] = [];
+
+  addListener(listener: Listener<T>) {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: Listener<T>) {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  hasListeners() {
+    return this.listeners.length > 0;
+  }
+
+  emit(...args: T) {
+    this.listeners.forEach(listener => listener(...args));
+  }
+}
+
+type Changes = { [key: string]: chrome.storage.StorageChange };
+
+// A node of Chrome's bookmark tree; folders list their children's ids in order
+interface FakeBookmark {
+  id: string;
+  parentId?: string;
+  title: string;
+  url?: string;
+  children?: string[];
+}
+
+export interface FakeChrome {
+  api: typeof chrome;
+  store: Record<string, unknown>;
+  // chrome.storage.session, which lasts until the browser closes
+  sessionStore: Record<string, unknown>;
+  alarms: Map<string, chrome.alarms.Alarm>;
+  downloads: chrome.downloads.DownloadOptions[];
+  sentMessages: unknown[];
+  // Host permissions granted so far
+  origins: Set<string>;
+  // Grants host permissions, as when the user accepts the permission prompt
+  grantOrigins: (origins: string[]) => void;
+  // Scripts injected with chrome.scripting.executeScript
+  scripts: chrome.scripting.ScriptInjection<unknown[], unknown>[];
+  // Chrome's bookmark tree below the node with the given id (the whole tree by default)
+  bookmarkTree: (id?: string) => chrome.bookmarks.BookmarkTreeNode;
+  // Tab events, as when Chrome opens and loads pages
+  tabs: {
+    created: (tab: Partial<chrome.tabs.Tab> & { id: number }) => void;
+    updated: (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => void;
+    removed: (tabId: number) => void;
+  };
+  // Fires every alarm due at the current (possibly faked) time, like Chrome waking the worker
+  fireDueAlarms: () => void;
+  // Drops alarms and listeners, as when the browser restarts the extension
+  restart: () => void;
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+export function createFakeChrome(initial: Record<string, unknown> = {}): FakeChrome {
+  const store: Record<string, unknown> = clone(initial);
+  const sessionStore: Record<string, unknown> = {};
+  const alarms = new Map<string, chrome.alarms.Alarm>();
+  const downloads: chrome.downloads.DownloadOptions[] = [];
+  const sentMessages: unknown[] = [];
+  const origins = new Set<string>();
+  let onChanged = new FakeEvent<[Changes, string]>();
+  let onAlarm = new FakeEvent<[chrome.alarms.Alarm]>();
+  let onMessage = new FakeEvent<[unknown, chrome.runtime.MessageSender, (response?: unknown) => void]>();
+  let onPermissionsAdded = new FakeEvent<[chrome.permissions.Permissions]>();
+  const scripts: chrome.scripting.ScriptInjection<unknown[], unknown>[] = [];
+  let onTabCreated = new FakeEvent<[chrome.tabs.Tab]>();
+  let onTabUpdated = new FakeEvent<[number, chrome.tabs.TabChangeInfo, chrome.tabs.Tab]>();
+  let onTabRemoved = new FakeEvent<[number, chrome.tabs.TabRemoveInfo]>();
+  // Chrome's bookmark tree starts with its two permanent folders
+  const nativeBookmarks = new Map<string, FakeBookmark>([
+    ['0', { id: '0', title: '', children: ['1', '2'] }],
+    ['1', { id: '1', parentId: '0', title: 'Bookmarks bar', children: [] }],
+    ['2', { id: '2', parentId: '0', title: 'Other bookmarks', children: [] }],
+  ]);
+  let nextBookmarkId = 3;
+  let onBookmarkCreated = new FakeEvent<[string, chrome.bookmarks.BookmarkTreeNode]>();
+  let onBookmarkChanged = new FakeEvent<[string, chrome.bookmarks.BookmarkChangeInfo]>();
+  let onBookmarkMoved = new FakeEvent<[string, chrome.bookmarks.BookmarkMoveInfo]>();
+  let onBookmarkRemoved = new FakeEvent<[string, chrome.bookmarks.BookmarkRemoveInfo]>();
+
+  const findBookmark = (id: string) => {
+    const bookmark = nativeBookmarks.get(id);
+    if (!bookmark) throw new Error(`Can't find bookmark for id.`);
+    return bookmark;
+  };
+  const bookmarkNode = (id: string, withChildren: boolean): chrome.bookmarks.BookmarkTreeNode => {
+    const { parentId, title, url, children } = findBookmark(id);
+    return {
+      id,
+      title,
+      ...(parentId ? { parentId, index: findBookmark(parentId).children!.indexOf(id) } : {}),
+      ...(url !== undefined ? { url } : {}),
+      ...(children && withChildren ? { children: children.map(child => bookmarkNode(child, true)) } : {}),
+    };
+  };
+  // Chrome stores URLs canonicalized, so for example braces in a path come back percent-encoded
+  const canonicalUrl = (url: string) => new URL(url).href;
+
+  const grantOrigins = (granted: string[]) => {
+    granted.forEach(origin => origins.add(origin));
+    onPermissionsAdded.emit({ origins: granted });
+  };
+
+  const pick = (keys?: string | string[] | null) => {
+    if (keys === null || keys === undefined) return clone(store);
+    const list = Array.isArray(keys) ? keys : [keys];
+    const result: Record<string, unknown> = {};
+    list.forEach(key => {
+      if (store[key] !== undefined) result[key] = clone(store[key]);
+    });
+    return result;
+  };
+
+  const write = (updates: Record<string, unknown>, removals: string[]) => {
+    const changes: Changes = {};
+    Object.entries(updates).forEach(([key, value]) => {
+      changes[key] = { oldValue: clone(store[key]), newValue: clone(value) };
+      store[key] = clone(value);
+    });
+    removals.forEach(key => {
+      if (!(key in store)) return;
+      changes[key] = { oldValue: store[key] };
+      delete store[key];
+    });
+    if (Object.keys(changes).length > 0) onChanged.emit(changes, 'local');
+  };
+
+  const api = {
+    storage: {
+      local: {
+        get: async (keys?: string | string[] | null) => pick(keys),
+        set: async (items: Record<string, unknown>) => write(items, []),
+        remove: async (keys: string | string[]) => write({}, Array.isArray(keys) ? keys : [keys]),
+        clear: async () => write({}, Object.keys(store)),
+      },
+      session: {
+        get: async (key: string) => (sessionStore[key] === undefined ? {} : { [key]: clone(sessionStore[key]) }),
+        set: async (items: Record<string, unknown>) => {
+          Object.entries(items).forEach(([key, value]) => { sessionStore[key] = clone(value); });
+        },
+        remove: async (key: string) => {
+          delete sessionStore[key];
+        },
+      },
+      get onChanged() {
+        return onChanged;
+      },
+    },
+    alarms: {
+      create: async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        const scheduledTime = info.when ?? Date.now() + (info.delayInMinutes ?? 0) * 60 * 1000;
+        alarms.set(name, { name, scheduledTime, periodInMinutes: info.periodInMinutes });
+      },
+      get: async (name: string) => alarms.get(name),
+      getAll: async () => Array.from(alarms.values()),
+      clear: async (name: string) => alarms.delete(name),
+      get onAlarm() {
+        return onAlarm;
+      },
+    },
+    downloads: {
+      download: async (options: chrome.downloads.DownloadOptions) => {
+        downloads.push(options);
+        return downloads.length;
+      },
+    },
+    permissions: {
+      contains: async (permissions: chrome.permissions.Permissions) => (permissions.origins ?? []).every(origin => origins.has(origin)),
+      request: async (permissions: chrome.permissions.Permissions) => {
+        grantOrigins(permissions.origins ?? []);
+        return true;
+      },
+      get onAdded() {
+        return onPermissionsAdded;
+      },
+    },
+    tabs: {
+      get onCreated() {
+        return onTabCreated;
+      },
+      get onUpdated() {
+        return onTabUpdated;
+      },
+      get onRemoved() {
+        return onTabRemoved;
+      },
+    },
+    bookmarks: {
+      get: async (ids: string | string[]) => (Array.isArray(ids) ? ids : [ids]).map(id => bookmarkNode(id, false)),
+      getTree: async () => [bookmarkNode('0', true)],
+      getSubTree: async (id: string) => [bookmarkNode(id, true)],
+      create: async ({ parentId = '2', title = '', url }: chrome.bookmarks.BookmarkCreateArg) => {
+        const parent = findBookmark(parentId);
+        if (!parent.children) throw new Error("Can't create a bookmark inside a bookmark.");
+        const id = String(nextBookmarkId++);
+        nativeBookmarks.set(id, { id, parentId, title, ...(url !== undefined ? { url: canonicalUrl(url) } : { children: [] }) });
+        parent.children.push(id);
+        const created = bookmarkNode(id, true);
+        onBookmarkCreated.emit(id, created);
+        return created;
+      },
+      update: async (id: string, changes: chrome.bookmarks.BookmarkChangesArg) => {
+        const bookmark = findBookmark(id);
+        if (changes.title !== undefined) bookmark.title = changes.title;
+        if (changes.url !== undefined && bookmark.url !== undefined) bookmark.url = canonicalUrl(changes.url);
+        onBookmarkChanged.emit(id, { title: bookmark.title, url: bookmark.url });
+        return bookmarkNode(id, false);
+      },
+      move: async (id: string, { parentId }: chrome.bookmarks.BookmarkDestinationArg) => {
+        const bookmark = findBookmark(id);
+        const oldParent = findBookmark(bookmark.parentId!);
+        const oldIndex = oldParent.children!.indexOf(id);
+        const parent = findBookmark(parentId ?? bookmark.parentId!);
+        oldParent.children!.splice(oldIndex, 1);
+        parent.children!.push(id);
+        bookmark.parentId = parent.id;
+        onBookmarkMoved.emit(id, { parentId: parent.id, index: parent.children!.length - 1, oldParentId: oldParent.id, oldIndex });
+        return bookmarkNode(id, false);
+      },
+      removeTree: async (id: string) => {
+        const removed = bookmarkNode(id, true);
+        const parent = findBookmark(removed.parentId!);
+        const drop = (bookmarkId: string) => {
+          nativeBookmarks.get(bookmarkId)?.children?.forEach(drop);
+          nativeBookmarks.delete(bookmarkId);
+        };
+        drop(id);
+        parent.children!.splice(removed.index!, 1);
+        onBookmarkRemoved.emit(id, { parentId: parent.id, index: removed.index!, node: removed });
+      },
+      get onCreated() {
+        return onBookmarkCreated;
+      },
+      get onChanged() {
+        return onBookmarkChanged;
+      },
+      get onMoved() {
+        return onBookmarkMoved;
+      },
+      get onRemoved() {
+        return onBookmarkRemoved;
+      },
+    },
+    scripting: {
+      executeScript: async (injection: chrome.scripting.ScriptInjection<unknown[], unknown>) => {
+        scripts.push(injection);
+        return [];
+      },
+    },
+    runtime: {
+      lastError: undefined,
+      // Nobody else is listening in tests, so requests get no reply, as in Chrome
+      sendMessage: (message: unknown, callback?: (response: unknown) => void) => {
+        sentMessages.push(message);
+        callback?.(undefined);
+      },
+      get onMessage() {
+        return onMessage;
+      },
+    },
+  } as unknown as typeof chrome;
+
+  return {
+    api,
+    store,
+    sessionStore,
+    alarms,
+    downloads,
+    sentMessages,
+    origins,
+    grantOrigins,
+    scripts,
+    bookmarkTree: (id = '0') => bookmarkNode(id, true),
+    tabs: {
+      created: tab => onTabCreated.emit(tab as chrome.tabs.Tab),
+      updated: (tabId, changeInfo) => onTabUpdated.emit(tabId, changeInfo, { id: tabId, ...changeInfo } as chrome.tabs.Tab),
+      removed: tabId => onTabRemoved.emit(tabId, { windowId: 1, isWindowClosing: false }),
+    },
+    fireDueAlarms: () => {
+      const due = Array.from(alarms.values()).filter(alarm => alarm.scheduledTime <= Date.now());
+      due.forEach(alarm => {
+        if (alarm.periodInMinutes) {
+          alarms.set(alarm.name, { ...alarm, scheduledTime: Date.now() + alarm.periodInMinutes * 60 * 1000 });
+        } else {
+          alarms.delete(alarm.name);
+        }
+        onAlarm.emit(alarm);
+      });
+    },
+    restart: () => {
+      alarms.clear();
+      onChanged = new FakeEvent();
+      onAlarm = new FakeEvent();
+      onMessage = new FakeEvent();
+      onPermissionsAdded = new FakeEvent();
+      onTabCreated = new FakeEvent();
+      onTabUpdated = new FakeEvent();
+      onTabRemoved = new FakeEvent();
+      onBookmarkCreated = new FakeEvent();
+      onBookmarkChanged = new FakeEvent();
+      onBookmarkMoved = new FakeEvent();
+      onBookmarkRemoved = new FakeEvent();
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import '@testing-library/jest-dom';
+import { webcrypto } from 'crypto';
 
 // Mock chrome API
 global.chrome = {
@@ -13,6 +14,10 @@ global.chrome = {
       remove: jest.fn(),
       clear: jest.fn(),
     },
+    onChanged: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
   },
   bookmarks: {
     create: jest.fn(),
@@ -24,4 +29,5 @@ global.chrome = {
 // Mock crypto API
 global.crypto = {
   randomUUID: () => 'mock-uuid',
+  subtle: webcrypto.subtle, // Backup checksums
 } as unknown as Crypto; 
\ No newline at end of file
@@ -0,0 +1,136 @@
+// Automatic backup schedule as kept by the background worker
+export interface BackupSchedule {
+  // e.g. '15m', '2h', '7d'; null when automatic backups are off
+  frequency: string | null;
+  periodMs: number | null;
+  // Epoch ms of the next run, null when automatic backups are off
+  nextBackupTime: number | null;
+  lastAutomaticBackup: string | null;
+  // Whether chrome.alarms currently holds the alarm for the next run
+  alarmScheduled: boolean;
+}
+
+export type BackupTrigger = 'automatic' | 'manual';
+
+export interface BackupItemCounts {
+  bookmarks: number;
+  folders: number;
+  categories: number;
+  pages: number; // Retool and Notion pages
+}
+
+// History entry for a snapshot kept in the extension; the data itself lives under its own key
+export interface BackupSnapshotMeta {
+  id: string;
+  createdAt: string;
+  trigger: BackupTrigger;
+  sizeBytes: number;
+  counts: BackupItemCounts;
+}
+
+// Snapshots are kept if they are among the newest keepLast, or the newest of one of the
+// last `daily` days, `weekly` weeks or `monthly` months that have snapshots
+export interface BackupRetentionPolicy {
+  keepLast: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface BackupSettings {
+  retention: BackupRetentionPolicy;
+  downloadCopies: boolean; // Also save each backup as JSON files in the downloads folder
+}
+
+// Groups of storage keys in a backup document. Each section is checksummed separately,
+// so a damaged section can be skipped while the rest is restored.
+export type BackupSectionName = 'library' | 'pages' | 'search' | 'bookmarkView' | 'popup' | 'commandK' | 'preferences';
+
+export interface BackupSectionManifest {
+  keys: string[];
+  checksum: string; // 'sha256:<hex>' of the section's canonical JSON
+}
+
+export interface BackupManifest {
+  schemaVersion: number; // Storage schema the data was written with; older data is migrated on restore
+  createdAt: string;
+  extensionVersion: string | null;
+  sections: Partial<Record<BackupSectionName, BackupSectionManifest>>;
+}
+
+// The single-file backup format
+export interface BackupDocument {
+  format: 'forethought-toolbox-backup';
+  formatVersion: number;
+  manifest: BackupManifest;
+  sections: Partial<Record<BackupSectionName, Record<string, unknown>>>;
+}
+
+export type BackupSectionStatus =
+  | 'ok'          // Checksum matches
+  | 'corrupted'   // Checksum does not match, or the section is listed but missing
+  | 'unverified'; // Converted from a legacy export, which had no checksums
+
+export interface BackupSectionReport {
+  name: BackupSectionName;
+  status: BackupSectionStatus;
+  keys: string[];
+}
+
+export interface ParsedBackup {
+  document: BackupDocument;
+  legacy: boolean; // Converted from the older multi-file or quick export format
+}
+
+// Storage keys holding lists that can be restored item by item
+export type RestoreListKey = 'bookmarks' | 'bookmark_categories' | 'retoolPages' | 'notionPages';
+
+export type RestoreItemKind = 'bookmark' | 'folder' | 'category' | 'page';
+
+export type RestoreChange =
+  | 'added'      // Only on the restored side (brought back by a restore)
+  | 'removed'    // Only in the current data (deleted by a restore)
+  | 'changed'    // On both sides with different fields
+  | 'unchanged';
+
+export interface RestoreFieldChange {
+  field: string;
+  from: unknown; // Current value
+  to: unknown;   // Value after restoring
+}
+
+export interface RestoreItemDiff {
+  id: string; // '<storage key>:<item id>', unique within a preview
+  storageKey: RestoreListKey;
+  kind: RestoreItemKind;
+  label: string;
+  change: RestoreChange;
+  fields: RestoreFieldChange[]; // Only for 'changed'
+  categoryId?: string;          // Bookmarks only, so a category can be restored with its bookmarks
+}
+
+// Any other key of a section is restored as a whole value
+export interface RestoreSettingDiff {
+  key: string;
+  change: Exclude<RestoreChange, 'removed'>;
+}
+
+export interface RestoreSectionPreview {
+  name: BackupSectionName;
+  status: BackupSectionStatus;
+  items: RestoreItemDiff[];        // Empty for corrupted sections, which cannot be restored
+  settings: RestoreSettingDiff[];
+}
+
+// Item ids and setting keys from a preview to restore
+export interface RestoreSelection {
+  items: string[];
+  settings: string[];
+}
+
+// What a restore actually changed, relative to the data before it
+export interface RestoreReport {
+  items: RestoreItemDiff[];
+  settings: RestoreSettingDiff[];
+  restorePoint: string;
+}
@@ -30,9 +30,28 @@ export interface BookmarkStats {
   tags: {
     [tag: string]: number;
   };
+  // Opens per local day (YYYY-MM-DD) within the selected range
   recentAccesses: {
     [date: string]: number;
   };
+  // Opens per week, keyed by the Monday the week starts on
+  weeklyAccesses: {
+    [weekStart: string]: number;
+  };
+  // Opens per hostname within the selected range
+  domains: {
+    [domain: string]: number;
+  };
+  // Bookmarks per bucket of time since they were last opened
+  staleness: {
+    [bucket: string]: number;
+  };
+}
+
+// Inclusive range of local dates (YYYY-MM-DD); an empty string leaves that side open
+export interface DateRange {
+  start: string;
+  end: string;
 }
 
 export type BookmarkNode = {
@@ -47,4 +66,85 @@ export type BookmarkNode = {
   lastAccessed?: string;
   accessCount?: number;
   description?: string;
-}; 
\ No newline at end of file
+  icon?: string; // Favicon as a data: URL, kept from imported browser bookmarks
+  linkHealth?: LinkHealth; // Result of the last link check, written by the background scanner
+  action?: BookmarkAction; // Runs on the page once the bookmark, opened from the extension, has loaded
+};
+
+// A workflow from settings, run with the page's query parameters overridden by `params`, or a
+// bookmarklet's code, run in the page itself. Either needs the user's permission for the site.
+export type BookmarkAction =
+  | { type: 'workflow'; workflowId: string; params: Record<string, string> }
+  | { type: 'bookmarklet'; code: string };
+
+// ok: the page answered (including pages behind a login); redirected: it now lives at
+// finalUrl; broken: the server answered with an error; unreachable: no answer at all
+export type LinkStatus = 'ok' | 'redirected' | 'broken' | 'unreachable';
+
+export interface LinkHealth {
+  status: LinkStatus;
+  httpStatus?: number;
+  finalUrl?: string; // Where the redirects ended, for redirected links
+  error?: string;    // Why an unreachable link failed, e.g. a timeout
+  checkedAt: string;
+}
+
+export interface SearchFilter {
+  title: string;
+  url: string;
+  tags: string[];
+  categoryIds: string[];
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  accessCount: {
+    min: string;
+    max: string;
+  };
+  // Set from the search box's query language (see SearchQueryService)
+  text: string[];    // Words and "exact phrases" that must all appear
+  domains: string[]; // Sites, subdomains included; any may match
+  exclude: {
+    text: string[];
+    tags: string[];
+    categoryIds: string[];
+    domains: string[];
+  };
+}
+
+export interface SavedFilter {
+  name: string;
+  filter: SearchFilter;
+}
+
+// Where a bookmark was opened from
+export type AccessSource = 'command-k' | 'popup-table' | 'card' | 'tree';
+
+export interface AccessEvent {
+  bookmarkId: string;
+  timestamp: string;
+  source: AccessSource;
+}
+
+export interface AccessTotals {
+  count: number;
+  lastAccessed: string | null;
+}
+
+// Opens of each bookmark, keyed by id. accessCount and lastAccessed on BookmarkNode are
+// derived from this log rather than stored on the node.
+export interface BookmarkAccessLog {
+  // Most recent events, oldest first
+  events: AccessEvent[];
+  // Per-bookmark totals of events that no longer fit in events, plus counts migrated
+  // from the old title-keyed bookmarkClicks map and the nodes' own accessCount
+  archived: Record<string, AccessTotals>;
+}
+
+// What AccessLogService.reassign changed, kept so the change can be reverted
+export interface AccessLogReassignment {
+  moves: Record<string, string>;          // Old bookmark id → id the opens were moved to
+  events: AccessEvent[];                  // The moved events, with their old bookmark ids
+  archived: Record<string, AccessTotals | null>; // Archived totals of every id involved, before the move
+}
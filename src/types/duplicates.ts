@@ -0,0 +1,55 @@
+import { AccessLogReassignment, BookmarkNode } from '@/types/bookmark';
+
+// Query parameters to ignore on one site (and its subdomains) when comparing URLs
+export interface UrlParamRule {
+  domain: string;   // e.g. 'dashboard-int.forethought.tech'
+  params: string[]; // e.g. ['org']
+}
+
+// url: the same page once URLs are canonicalized; title: different pages with near-identical
+// titles, offered for review but never merged unless the user opts in
+export type DuplicateTier = 'url' | 'title';
+
+export interface DuplicateGroup {
+  key: string;   // The canonical URL, or the normalized title of the group's first bookmark
+  tier: DuplicateTier;
+  ids: string[]; // In library order
+}
+
+// Existing bookmarks that look like one about to be added
+export interface DuplicateMatches {
+  sameUrl: BookmarkNode[];
+  similarTitle: BookmarkNode[];
+}
+
+// Which bookmark of each group survives a merge
+export type MergePolicy = 'most-accessed' | 'newest' | 'oldest';
+
+export interface MergeOptions {
+  policy: MergePolicy;
+  keepers?: Record<string, string>; // Group key → bookmark id picked by hand, overriding the policy
+  mergeTags: boolean;
+  mergeCategories: boolean;
+  mergeDescriptions: boolean;
+}
+
+export interface MergeStep {
+  groupKey: string;
+  keep: BookmarkNode;  // The surviving bookmark as it will be after the merge, with summed access stats
+  removeIds: string[];
+}
+
+// The dry run of a merge: what would be kept and removed, without writing anything
+export interface MergePlan {
+  steps: MergeStep[];
+  removeIds: string[];
+  moves: Record<string, string>; // Removed id → id of the bookmark that absorbs it
+  sources: BookmarkNode[]; // The kept and removed bookmarks as the plan saw them
+}
+
+// Everything a merge changed, for a single undo
+export interface MergeUndo {
+  // Kept and removed bookmarks as they were before the merge, with their places in the library
+  nodes: { node: BookmarkNode; index: number }[];
+  accessLog: AccessLogReassignment;
+}
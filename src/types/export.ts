@@ -0,0 +1,20 @@
+export type ExportFormat = 'html' | 'markdown' | 'csv';
+
+// The whole library, the rows the bookmark table currently shows, or its selected rows
+export type ExportScope = 'library' | 'view' | 'selection';
+
+export type MarkdownGrouping = 'category' | 'folder';
+
+// Columns of the bookmark table that can be exported, keyed like its columnOrder
+export type ExportColumn = 'title' | 'category' | 'url' | 'tags' | 'description' | 'createdAt' | 'lastAccessed' | 'accessCount';
+
+export interface ExportOptions {
+  groupBy: MarkdownGrouping; // Markdown only
+  columns: ExportColumn[];   // CSV only, in output order
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  fileName: string;
+}
@@ -0,0 +1,48 @@
+import { BookmarkCategory, BookmarkNode } from '@/types/bookmark';
+
+// A link read from a browser's bookmark export (the Netscape bookmark file format)
+export interface ImportedBookmark {
+  type: 'bookmark';
+  title: string;
+  url: string;
+  createdAt: string | null; // From ADD_DATE
+  icon?: string;            // From ICON, usually a data: URL
+  tags: string[];           // From TAGS (Firefox)
+  description?: string;     // From the <DD> after the link
+}
+
+export interface ImportedFolder {
+  type: 'folder';
+  id: string; // Position in the file, e.g. '0.2'; used to map folders in the import step
+  title: string;
+  createdAt: string | null;
+  children: ImportedEntry[];
+}
+
+export type ImportedEntry = ImportedBookmark | ImportedFolder;
+
+// Browser bookmark HTML, Raindrop CSV, Pinboard JSON or Pocket HTML
+export type ImportFormat = 'netscape' | 'raindrop' | 'pinboard' | 'pocket';
+
+export interface ParsedBookmarkFile {
+  format: ImportFormat;
+  title: string;
+  entries: ImportedEntry[];
+  unsupported: number; // Links that are not http(s), e.g. bookmarklets and browser pages
+  defaultMapping?: FolderMapping; // How folders are imported unless mapped otherwise; folder when unset
+}
+
+// What an imported folder becomes: a folder, a category of its bookmarks or a tag on them
+export type FolderMapping = 'folder' | 'category' | 'tag';
+
+export interface HtmlImportOptions {
+  parentId: string | null;   // Folder the import is placed in
+  skipDuplicates: boolean;   // Skip links whose URL is already in the library
+}
+
+export interface HtmlImportPlan {
+  nodes: BookmarkNode[];           // New bookmarks and folders; existing folders with the same name and place are reused
+  categories: BookmarkCategory[];  // New categories; existing ones with the same name are reused
+  tags: string[];                  // Tags added from folders mapped to tags
+  duplicates: ImportedBookmark[]; // Links already in the library or earlier in the file; skipped when skipDuplicates is set
+}
@@ -0,0 +1,18 @@
+import { LinkStatus } from '@/types/bookmark';
+
+export interface LinkScanOptions {
+  ids?: string[];      // Check only these bookmarks; otherwise every bookmark that is due
+  force?: boolean;     // Check even if the link was checked recently
+  limit?: number;      // Check at most this many links in this run
+  batchSize?: number;  // Links checked at the same time, each on a different host
+  delayMs?: number;    // Pause between batches
+  timeoutMs?: number;  // Time allowed for each request
+}
+
+export interface LinkScanSummary {
+  checked: number;
+  counts: Record<LinkStatus, number>;
+}
+
+// Filter of the bookmark table's link column; unchecked is for links never checked
+export type LinkHealthFilter = 'all' | 'problems' | LinkStatus | 'unchecked';
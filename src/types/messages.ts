@@ -0,0 +1,114 @@
+import { AccessSource, BookmarkAction, BookmarkNode } from '@/types/bookmark';
+import { SyncConflictResolution } from '@/types/sync';
+import { BackupSchedule } from '@/types/backup';
+import { BookmarkSearchPage } from '@/types/searchQuery';
+import { Workflow, WorkflowRecording } from '@/types/workflow';
+
+// The action handed to a page by CLAIM_BOOKMARK_ACTION. On a site the user has not allowed
+// actions on, the page is only told that there was one.
+export type ActionClaim =
+  | { bookmarkTitle: string; url: string; action: BookmarkAction; allowed: true }
+  | { bookmarkTitle: string; url: string; allowed: false };
+
+// Every request the background worker answers, with its payload and response.
+// messageProtocol.ts holds the matching zod schemas; MessageRouter dispatches on `type`.
+export interface MessageMap {
+  GET_BOOKMARKS: {
+    // Flatten Chrome's own bookmark tree instead of returning the extension's library
+    request: { useSystemBookmarks?: boolean };
+    response: { bookmarks: BookmarkNode[] };
+  };
+  RECORD_BOOKMARK_ACCESS: {
+    // url is the address opened, when it differs from the bookmark's, as for a filled-in URL template
+    request: { bookmarkId: string; source: AccessSource; url?: string };
+    response: Record<string, never>;
+  };
+  RESET_BOOKMARK_ACCESS: {
+    request: Record<string, never>;
+    response: Record<string, never>;
+  };
+  SYNC_NATIVE_BOOKMARKS: {
+    request: Record<string, never>;
+    response: Record<string, never>;
+  };
+  RESOLVE_SYNC_CONFLICT: {
+    request: { localId: string; keep: SyncConflictResolution };
+    response: Record<string, never>;
+  };
+  GET_BACKUP_SCHEDULE: {
+    request: Record<string, never>;
+    response: BackupSchedule;
+  };
+  CHECK_LINKS: {
+    // Only these bookmarks, even if checked recently; otherwise every bookmark that is due.
+    // The check runs on in the background and ends with a SHOW_TOAST broadcast.
+    request: { bookmarkIds?: string[] };
+    // started is false when host access has not been granted
+    response: { started: boolean };
+  };
+  SEARCH_BOOKMARKS: {
+    // A search box query; only the best `limit` results are sent back
+    request: { query: string; limit?: number };
+    response: BookmarkSearchPage;
+  };
+  SWITCH_ORG: {
+    // Loads a dashboard tab, preferably one in the sender's window, with ?org= set to the org
+    request: { orgId: number };
+    response: { tabId: number };
+  };
+  CLAIM_BOOKMARK_ACTION: {
+    // Sent by the content script in a loaded page: the action of the bookmark the tab was opened
+    // from, if any. Bookmarklets have already run when this answers.
+    request: Record<string, never>;
+    response: { claim: ActionClaim | null };
+  };
+  SAVE_WORKFLOW: {
+    // Adds a workflow recorded on a page; the id is numbered if another workflow has it
+    request: { workflow: Workflow };
+    response: { id: string };
+  };
+  KEEP_WORKFLOW_RECORDING: {
+    // Sent by the recording page after every change, and with null once the recording ends
+    request: { recording: WorkflowRecording | null };
+    response: Record<string, never>;
+  };
+  RESUME_WORKFLOW_RECORDING: {
+    // Sent by a page once loaded: the recording a previous page in the tab left, if on the same site
+    request: Record<string, never>;
+    response: { recording: WorkflowRecording | null };
+  };
+}
+
+export type MessageType = keyof MessageMap;
+export type MessageRequest<K extends MessageType> = MessageMap[K]['request'];
+export type MessageResponse<K extends MessageType> = MessageMap[K]['response'];
+
+export type Message = {
+  [K in MessageType]: { type: K; payload: MessageRequest<K> };
+}[MessageType];
+
+// Notifications the background sends to any open extension page. Nobody replies to them.
+export interface BroadcastMap {
+  SHOW_TOAST: { message: string; type: 'success' | 'error' };
+}
+
+export type BroadcastType = keyof BroadcastMap;
+
+export type MessageErrorCode =
+  | 'UNKNOWN_MESSAGE'     // No handler for this type
+  | 'INVALID_REQUEST'     // Payload failed the request schema
+  | 'INVALID_RESPONSE'    // Handler (or receiver) returned something outside the response schema
+  | 'HANDLER_FAILED'      // Handler threw
+  | 'NO_RECEIVER'         // Nothing answered, e.g. the service worker could not be woken
+  | 'CONTEXT_INVALIDATED'; // The extension was reloaded under this page or content script
+
+export interface MessageErrorInfo {
+  code: MessageErrorCode;
+  message: string;
+  issues?: string[];
+}
+
+// What the background sends back for every request
+export type MessageResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: MessageErrorInfo };
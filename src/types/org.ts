@@ -0,0 +1,17 @@
+// Which kind of dashboard org an entry is, guessed from its name on import and editable after
+export type OrgEnvironment = 'prod' | 'sandbox' | 'test';
+
+// An org in the registry. The id is the dashboard's org_id and is unique.
+export interface OrgEntry {
+  id: number;
+  name: string;
+  aliases: string[];
+  environment: OrgEnvironment;
+  favorite: boolean;
+}
+
+export interface OrgImportSummary {
+  added: number;
+  renamed: number; // Already registered under another name, which is kept; the new name becomes an alias
+  unchanged: number;
+}
@@ -0,0 +1,51 @@
+import { BookmarkCategory, BookmarkNode, SearchFilter } from '@/types/bookmark';
+
+// A part of the query that could not be used, by character offsets, for highlighting
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedQuery {
+  filter: SearchFilter;
+  errors: QueryError[]; // The filter still applies everything else in the query
+}
+
+// What the search box can complete values from
+export interface QuerySources {
+  tags: string[];
+  categories: BookmarkCategory[];
+  domains: string[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  insert: string; // Replaces the query between from and to
+}
+
+export interface QuerySuggestions {
+  from: number;
+  to: number;
+  items: QuerySuggestion[];
+}
+
+// A matched run of a field's text, as character offsets with end exclusive
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export type SearchField = 'title' | 'url' | 'tags' | 'description' | 'categoryName';
+
+export interface BookmarkSearchResult {
+  node: BookmarkNode;
+  rank: number; // Higher is better: match quality boosted by how often and recently it was opened
+  highlights: Partial<Record<'title' | 'url' | 'description', HighlightRange[]>>;
+}
+
+export interface BookmarkSearchPage {
+  results: BookmarkSearchResult[];
+  total: number; // Every match, including those past the limit
+}
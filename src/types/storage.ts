@@ -0,0 +1,113 @@
+import { BookmarkAction, BookmarkNode, BookmarkCategory, BookmarkAccessLog, SavedFilter, SearchFilter } from '@/types/bookmark';
+import { NativeSyncState } from '@/types/sync';
+import { BackupSettings, BackupSnapshotMeta } from '@/types/backup';
+import { UrlParamRule } from '@/types/duplicates';
+import { OrgEntry } from '@/types/org';
+import { Workflow } from '@/types/workflow';
+
+export type DocMode = 'markup' | 'html';
+
+export interface CustomPage {
+  name: string;
+  mode: DocMode;
+  content: string;
+}
+
+export type PopupView = 'dashboard' | 'bookmarks' | 'importExport' | 'custom-retool' | 'custom-notion';
+
+export type BookmarkViewMode = 'table' | 'card' | 'tree';
+// Whether the table and card views page through bookmarks or scroll through all of them
+export type BookmarkListMode = 'pages' | 'scroll';
+
+export interface LastBackupInfo {
+  bookmarks: string | null;
+  categories: string | null;
+  automatic: string | null;
+}
+
+export interface AddBookmarkFormState {
+  title: string;
+  url: string;
+  tags: string[];
+  tagInput: string;
+  description: string;
+  categoryId: string;
+  action?: BookmarkAction;
+}
+
+// Every key persisted in chrome.storage.local, with the type of its value.
+// StorageService validates writes against the matching zod schema in storageSchema.ts.
+export interface StorageShape {
+  schemaVersion: number;
+
+  // Library data
+  bookmarks: BookmarkNode[];
+  bookmark_categories: BookmarkCategory[];
+  categories: BookmarkCategory[]; // Legacy key, folded into bookmark_categories by migration 1
+  bookmarkClicks: Record<string, number>; // Legacy title-keyed click counts, folded into bookmarkAccessLog by migration 4
+  bookmarkAccessLog: BookmarkAccessLog;
+  retoolPages: CustomPage[];
+  notionPages: CustomPage[];
+
+  // Bookmark table
+  savedFilters: SavedFilter[];
+  activeSearchFilter: SearchFilter;
+  showAdvancedSearch: boolean;
+  columnVisibility: Record<string, boolean>;
+  columnOrder: string[];
+  sortKey: string;
+  sortOrder: 'asc' | 'desc';
+  tableZoom: number;
+  bookmarkViewMode: BookmarkViewMode;
+  bookmarkListMode: BookmarkListMode;
+  addBookmarkFormState: AddBookmarkFormState;
+  lastDeletedBookmark: BookmarkNode;
+  undoExpire: number;
+  urlParamRules: UrlParamRule[]; // Per-site query parameters ignored by duplicate detection
+
+  // Onboarding
+  seenOnboarding: boolean;
+  seenGlobalSearchOnboarding: boolean;
+  extensionVersion: string;
+
+  // Backups
+  backupFrequency: string;
+  lastBackup: LastBackupInfo;
+  nextBackupTime: number;
+  backupSettings: BackupSettings;
+  backupHistory: BackupSnapshotMeta[]; // Newest first
+
+  // Two-way sync with Chrome bookmarks (the state is only written by the background)
+  nativeSyncEnabled: boolean;
+  nativeSyncState: NativeSyncState;
+
+  // Popup UI state
+  popup_theme: 'light' | 'dark';
+  popup_activeView: PopupView;
+  popup_retoolOpen: boolean;
+  popup_notionOpen: boolean;
+  popup_activeRetoolPage: number | null;
+  popup_activeNotionPage: number | null;
+  popup_showAdd: boolean;
+
+  // Command+K settings (the content script has stored both strings and booleans here)
+  forethought_theme: 'light' | 'dark';
+  forethought_overlay_opacity: string | number;
+  forethought_expandRecent: boolean | string;
+  forethought_expandTop: boolean | string;
+  forethought_recentLimit: string | number;
+  forethought_topLimit: string | number;
+  searchHistory: string[];
+  searchSuggestions: Record<string, number>;
+  urlTemplateValues: Record<string, string[]>; // Recent values of URL template variables, newest first
+
+  // Dashboard orgs, searched by Command+K's org: mode
+  orgRegistry: OrgEntry[];
+  // Page automations run by the content script; the built-in ones until first edited
+  workflows: Workflow[];
+  // Sites the user allowed bookmark actions to run on, as host permission patterns. Kept apart
+  // from Chrome's host permissions, which the link checker may have granted for every site.
+  actionSites: string[];
+}
+
+export type StorageKey = keyof StorageShape;
@@ -0,0 +1,33 @@
+// The fields two-way sync compares between a BookmarkNode and its Chrome bookmark.
+// parentId is always the extension-side (UUID) parent, null for the sync root.
+export interface SyncFingerprint {
+  title: string;
+  url: string | null;
+  parentId: string | null;
+}
+
+export interface SyncMapping {
+  localId: string;
+  nativeId: string;
+  // State both sides agreed on after the last sync, used to tell which side changed
+  base: SyncFingerprint;
+}
+
+// A node changed on both sides since the last sync. null means it was deleted on that side.
+export interface SyncConflict {
+  localId: string;
+  nativeId: string;
+  local: SyncFingerprint | null;
+  native: SyncFingerprint | null;
+  detectedAt: string;
+}
+
+export type SyncConflictResolution = 'extension' | 'chrome';
+
+export interface NativeSyncState {
+  rootId: string | null;
+  mappings: SyncMapping[];
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
@@ -0,0 +1,59 @@
+// One step of a workflow. Selectors are CSS selectors; `{{name}}` in a selector, text or
+// value is replaced by the workflow parameter of that name before the step runs.
+export type WorkflowStep =
+  | { action: 'waitFor'; selector: string; label?: string; timeoutMs?: number }
+  // Clicks the first element matching the selector (and containing the text, if given), waiting for it to appear
+  | { action: 'click'; selector: string; text?: string; label?: string; timeoutMs?: number }
+  | { action: 'type'; selector: string; value: string; label?: string; timeoutMs?: number }
+  // Waits for the text to appear in the page, or in an element matching the selector
+  | { action: 'waitForText'; text: string; selector?: string; label?: string; timeoutMs?: number }
+  // Checks the page as it is, without waiting: the element is there (or, with absent, is not)
+  | { action: 'assert'; selector: string; text?: string; absent?: boolean; label?: string }
+  // Waits until the page's address contains the text, as after a link in a single-page app
+  | { action: 'waitForUrl'; urlIncludes: string; label?: string; timeoutMs?: number }
+  | { action: 'pause'; ms: number; label?: string };
+
+export type WorkflowAction = WorkflowStep['action'];
+
+// Pages a workflow runs on by itself once loaded. The query parameters become its parameters.
+export interface WorkflowTrigger {
+  urlIncludes: string; // The start of the page's address, with or without its scheme; see WorkflowService.matchesTrigger
+  queryParams: string[]; // All of them must be in the URL
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  trigger?: WorkflowTrigger;
+  timeoutMs?: number; // Per step, unless the step sets its own
+  steps: WorkflowStep[];
+}
+
+// A workflow being recorded in a tab, which the background keeps across full page loads
+export interface WorkflowRecording {
+  startUrl: string;
+  lastUrl: string; // The address when the last step was recorded, to notice the page changing
+  steps: WorkflowStep[];
+}
+
+export type WorkflowErrorCode =
+  | 'TIMEOUT'          // What the step waits for did not appear in time
+  | 'ASSERTION_FAILED' // An assert step did not hold
+  | 'NOT_TYPEABLE'     // A type step found something that is not a text field
+  | 'MISSING_PARAM'    // A step uses a {{parameter}} the run was not given
+  | 'INVALID_SELECTOR'
+  | 'STEP_FAILED';     // Anything else the page threw
+
+export interface WorkflowRunError {
+  code: WorkflowErrorCode;
+  message: string;
+  workflowId: string;
+  workflowName: string;
+  stepIndex: number; // From 0
+  step: WorkflowStep;
+}
+
+export type WorkflowRunResult =
+  | { ok: true; steps: number }
+  | { ok: false; error: WorkflowRunError };
@@ -9,8 +9,6 @@ export default defineConfig({
     viteStaticCopy({
       targets: [
         { src: "manifest.json", dest: "." },
-        { src: "background.js", dest: "." },
-        { src: "autoOrgSwitch.js", dest: "." },
       ],
     }),
   ],
@@ -24,11 +22,12 @@ export default defineConfig({
     rollupOptions: {
       input: {
         popup: "index.html",
-        content: "contentScript.js", // ← switch from .module.js to .js
+        background: "src/background/index.ts", // Module service worker; shares chunks with the popup
+        // contentScript.js is built separately by vite.content.config.js
       },
       output: {
         entryFileNames: (chunkInfo) => {
-          if (chunkInfo.name === "content") return "contentScript.js";
+          if (chunkInfo.name === "background") return "background.js";
           return "assets/[name]-[hash].js";
         },
       },
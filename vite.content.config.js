@@ -0,0 +1,26 @@
+import { defineConfig } from "vite";
+import { resolve } from "path";
+
+// Content scripts cannot be ES modules, so contentScript.js is bundled on its own into a
+// single classic script, with its own copy of anything it shares with the popup and background.
+// Runs after the main build and writes into the same dist folder.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": resolve(__dirname, "src"),
+    },
+  },
+  // The main build already copied public/ and the root manifest.json; copying public/ again
+  // would put public/manifest.json over the real manifest
+  publicDir: false,
+  build: {
+    outDir: "dist",
+    emptyOutDir: false,
+    lib: {
+      entry: "contentScript.js",
+      formats: ["iife"],
+      name: "ForethoughtContentScript",
+      fileName: () => "contentScript.js",
+    },
+  },
+});